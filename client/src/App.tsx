@@ -11,8 +11,18 @@ import POS from "@/pages/pos";
 import Products from "@/pages/products";
 import Categories from "@/pages/categories";
 import Inventory from "@/pages/inventory";
+import Stocktakes from "@/pages/stocktakes";
+import Transfers from "@/pages/transfers";
+import Locations from "@/pages/locations";
 import Customers from "@/pages/customers";
 import Suppliers from "@/pages/suppliers";
+import PurchaseOrders from "@/pages/purchase-orders";
+import Returns from "@/pages/returns";
+import Shifts from "@/pages/shifts";
+import Promotions from "@/pages/promotions";
+import Labels from "@/pages/labels";
+import Users from "@/pages/users";
+import AuditLog from "@/pages/audit-log";
 import Reports from "@/pages/reports";
 import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
@@ -64,6 +74,31 @@ function Router() {
           <Inventory />
         </ProtectedRoute>
       </Route>
+      <Route path="/stocktakes">
+        <ProtectedRoute>
+          <Stocktakes />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/transfers">
+        <ProtectedRoute>
+          <Transfers />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/locations">
+        <ProtectedRoute>
+          <Locations />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/returns">
+        <ProtectedRoute>
+          <Returns />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/shifts">
+        <ProtectedRoute>
+          <Shifts />
+        </ProtectedRoute>
+      </Route>
       <Route path="/customers">
         <ProtectedRoute>
           <Customers />
@@ -74,6 +109,31 @@ function Router() {
           <Suppliers />
         </ProtectedRoute>
       </Route>
+      <Route path="/purchase-orders">
+        <ProtectedRoute>
+          <PurchaseOrders />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/promotions">
+        <ProtectedRoute>
+          <Promotions />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/labels">
+        <ProtectedRoute>
+          <Labels />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/users">
+        <ProtectedRoute>
+          <Users />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/audit-log">
+        <ProtectedRoute>
+          <AuditLog />
+        </ProtectedRoute>
+      </Route>
       <Route path="/reports">
         <ProtectedRoute>
           <Reports />
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useUpdatePin } from "@/lib/auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ApprovalPinDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets managers set the PIN they enter at the till to approve overrides
+export function ApprovalPinDialog({ open, onOpenChange }: ApprovalPinDialogProps) {
+  const [password, setPassword] = useState("");
+  const [pin, setPin] = useState("");
+  const updatePin = useUpdatePin();
+  const { toast } = useToast();
+
+  const close = () => {
+    setPassword("");
+    setPin("");
+    onOpenChange(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await updatePin.mutateAsync({ password, pin });
+      toast({
+        title: "PIN Updated",
+        description: "Your approval PIN has been saved.",
+      });
+      close();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update PIN. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Approval PIN</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Current Password</Label>
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-current-password"
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">New PIN (4-8 digits)</Label>
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              data-testid="input-new-pin"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={close}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={updatePin.isPending || !password || !/^\d{4,8}$/.test(pin)}
+              data-testid="button-save-pin"
+            >
+              {updatePin.isPending ? "Saving..." : "Save PIN"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { ApprovalPinDialog } from "@/components/ApprovalPinDialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -22,27 +23,51 @@ import {
   Users,
   TrendingUp,
   Truck,
+  ClipboardList,
+  RotateCcw,
+  BadgePercent,
+  Barcode,
+  UserCog,
+  History,
+  Wallet,
+  MapPin,
+  ClipboardCheck,
+  ArrowLeftRight,
   Menu,
   Search,
   Bell,
   Sun,
   Moon,
   LogOut,
+  KeyRound,
 } from "lucide-react";
+import { hasPermission, type Permission } from "@shared/permissions";
 
-const navigation = [
+// Links that need a permission are hidden from users without it
+const navigation: { name: string; href: string; icon: typeof BarChart3; permission?: Permission }[] = [
   { name: "Dashboard", href: "/", icon: BarChart3 },
   { name: "Point of Sale", href: "/pos", icon: ShoppingCart },
   { name: "Products", href: "/products", icon: Package },
   { name: "Categories", href: "/categories", icon: Tag },
   { name: "Inventory", href: "/inventory", icon: Warehouse },
+  { name: "Stocktakes", href: "/stocktakes", icon: ClipboardCheck, permission: "inventory.count" },
+  { name: "Transfers", href: "/transfers", icon: ArrowLeftRight, permission: "inventory.transfer" },
+  { name: "Locations", href: "/locations", icon: MapPin, permission: "locations.manage" },
+  { name: "Returns", href: "/returns", icon: RotateCcw },
+  { name: "Shifts", href: "/shifts", icon: Wallet, permission: "sales.create" },
+  { name: "Promotions", href: "/promotions", icon: BadgePercent, permission: "promotions.manage" },
+  { name: "Labels", href: "/labels", icon: Barcode },
   { name: "Customers", href: "/customers", icon: Users },
   { name: "Reports", href: "/reports", icon: TrendingUp },
   { name: "Suppliers", href: "/suppliers", icon: Truck },
+  { name: "Purchase Orders", href: "/purchase-orders", icon: ClipboardList, permission: "purchase_orders.view" },
+  { name: "Users", href: "/users", icon: UserCog, permission: "users.manage" },
+  { name: "Audit Log", href: "/audit-log", icon: History, permission: "audit.view" },
 ];
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [pinDialogOpen, setPinDialogOpen] = useState(false);
   const [location] = useLocation();
   const { theme, setTheme } = useTheme();
   const { user } = useAuth();
@@ -76,7 +101,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
 
           {/* Navigation */}
           <nav className="flex-1 px-4 py-4 space-y-2">
-            {navigation.map((item) => {
+            {navigation.filter(item => !item.permission || hasPermission(user, item.permission)).map((item) => {
               const isActive = location === item.href;
               const Icon = item.icon;
               
@@ -124,12 +149,17 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuItem onClick={() => setPinDialogOpen(true)} data-testid="approval-pin-button">
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Approval PIN
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleLogout} data-testid="logout-button">
                   <LogOut className="mr-2 h-4 w-4" />
                   Logout
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <ApprovalPinDialog open={pinDialogOpen} onOpenChange={setPinDialogOpen} />
           </div>
         </div>
       </div>
@@ -1,5 +1,5 @@
 import { useEffect, useRef } from "react";
-import { useTopProducts } from "@/lib/api";
+import { useTopProducts, type ReportFilters } from "@/lib/api";
 import {
   Chart as ChartJS,
   ArcElement,
@@ -10,8 +10,12 @@ import { Doughnut } from 'react-chartjs-2';
 
 ChartJS.register(ArcElement, Tooltip, Legend);
 
-export function CategoryChart() {
-  const { data: topProducts = [], isLoading } = useTopProducts(10);
+interface CategoryChartProps {
+  filters?: ReportFilters;
+}
+
+export function CategoryChart({ filters }: CategoryChartProps) {
+  const { data: topProducts = [], isLoading } = useTopProducts({ ...filters, limit: 100, rank_by: "revenue" });
 
   // Group products by category and sum revenue
   const categoryData = topProducts.reduce((acc, item) => {
@@ -1,5 +1,5 @@
 import { useEffect, useRef } from "react";
-import { useSalesData } from "@/lib/api";
+import { useSalesData, type ReportFilters } from "@/lib/api";
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -26,14 +26,15 @@ ChartJS.register(
 
 interface SalesChartProps {
   days?: number;
+  filters?: Omit<ReportFilters, "days">;
 }
 
-export function SalesChart({ days = 7 }: SalesChartProps) {
-  const { data: salesData = [], isLoading } = useSalesData(days);
+export function SalesChart({ days = 7, filters }: SalesChartProps) {
+  const { data: salesData = [], isLoading } = useSalesData({ ...filters, days });
 
   const chartData = {
     labels: salesData.map(day => 
-      new Date(day.date).toLocaleDateString('en-US', { 
+      new Date(`${day.date}T00:00:00`).toLocaleDateString('en-US', { 
         weekday: days <= 7 ? 'short' : undefined,
         month: 'short', 
         day: 'numeric' 
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useStockLots, useLotSales, useWriteOffLot } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import { parseSerials } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { hasPermission } from "@shared/permissions";
+import type { ProductWithDetails, StockLotWithDetails } from "@shared/schema";
+import { Layers, Trash2, Search } from "lucide-react";
+
+interface StockLotDrawerProps {
+  product: ProductWithDetails | null;
+  locationId?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Whole days from today to a YYYY-MM-DD expiry date; negative once expired
+export function daysUntilExpiry(expiryDate: string): number {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const [year, month, day] = expiryDate.split("-").map(Number);
+  return Math.round((new Date(year, month - 1, day).getTime() - today.getTime()) / 86400000);
+}
+
+export function ExpiryBadge({ expiryDate }: { expiryDate: string | null }) {
+  if (!expiryDate) return <Badge variant="outline">No expiry</Badge>;
+  const days = daysUntilExpiry(expiryDate);
+  if (days < 0) return <Badge variant="destructive">Expired {new Date(`${expiryDate}T00:00`).toLocaleDateString()}</Badge>;
+  return (
+    <Badge variant="outline" className={days <= 30 ? "border-warning text-warning" : ""}>
+      {days === 0 ? "Expires today" : `Expires in ${days} day${days === 1 ? "" : "s"}`}
+    </Badge>
+  );
+}
+
+// Lots of one product on hand, earliest expiry first, with write-off and recall tracing
+export function StockLotDrawer({ product, locationId, onOpenChange }: StockLotDrawerProps) {
+  const [tracedLot, setTracedLot] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const canAdjust = hasPermission(user, "inventory.adjust");
+  const { data: lots = [], isLoading } = useStockLots(product?.id ?? null, locationId);
+  const writeOffLot = useWriteOffLot();
+  const { toast } = useToast();
+
+  const handleWriteOff = async (lot: StockLotWithDetails) => {
+    if (!confirm(`Write off ${lot.quantity} units of lot ${lot.lotNumber} at ${lot.location?.name}? This removes them from stock.`)) return;
+    // Serial-tracked units are written off by name
+    let serialNumbers: string[] | undefined;
+    if (product?.serialTracked) {
+      const entered = prompt(`Enter the serial number of each of the ${lot.quantity} units, separated by commas`);
+      if (entered === null) return;
+      serialNumbers = parseSerials(entered);
+    }
+    try {
+      await writeOffLot.mutateAsync({ id: lot.id, serialNumbers });
+      toast({
+        title: "Lot Written Off",
+        description: `${lot.quantity} units of lot ${lot.lotNumber} were removed from stock.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to write off lot. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Sheet open={!!product} onOpenChange={(open) => { setTracedLot(null); onOpenChange(open); }}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Lots — {product?.name}</SheetTitle>
+          <SheetDescription>
+            {product?.sku} · sold earliest expiry first
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : lots.length === 0 ? (
+            <div className="text-center text-sm text-muted-foreground py-8" data-testid="text-no-lots">
+              <Layers className="h-10 w-10 mx-auto mb-2 opacity-50" />
+              No lots on hand. Lots are recorded when purchase orders are received.
+            </div>
+          ) : (
+            lots.map((lot) => (
+              <div key={lot.id} className="rounded-lg border border-border p-3 space-y-2" data-testid={`lot-${lot.id}`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-foreground">Lot {lot.lotNumber}</p>
+                    <p className="text-xs text-muted-foreground">{lot.location?.name}</p>
+                  </div>
+                  <div className="text-right space-y-1">
+                    <p className="font-semibold">{lot.quantity} units</p>
+                    <ExpiryBadge expiryDate={lot.expiryDate} />
+                  </div>
+                </div>
+                {canAdjust && (
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setTracedLot(tracedLot === lot.id ? null : lot.id)}
+                      data-testid={`button-trace-lot-${lot.id}`}
+                    >
+                      <Search className="mr-2 h-4 w-4" />
+                      {tracedLot === lot.id ? "Hide Sales" : "Trace Sales"}
+                    </Button>
+                    {lot.expiryDate && daysUntilExpiry(lot.expiryDate) < 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive"
+                        disabled={writeOffLot.isPending}
+                        onClick={() => handleWriteOff(lot)}
+                        data-testid={`button-write-off-lot-${lot.id}`}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Write Off
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {tracedLot === lot.id && <LotSalesList lotId={lot.id} />}
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function LotSalesList({ lotId }: { lotId: string }) {
+  const { data: lotSales = [], isLoading } = useLotSales(lotId);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+  if (lotSales.length === 0) {
+    return <p className="text-sm text-muted-foreground">No sales have drawn from this lot.</p>;
+  }
+  return (
+    <table className="w-full text-sm" data-testid={`lot-sales-${lotId}`}>
+      <thead>
+        <tr className="border-b border-border">
+          <th className="text-left py-2 font-medium">Invoice</th>
+          <th className="text-left py-2 font-medium">Customer</th>
+          <th className="text-right py-2 font-medium">Qty</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lotSales.map((sale) => (
+          <tr key={sale.saleId} className="border-b border-border">
+            <td className="py-2">
+              <div className="font-medium">{sale.invoiceNumber}</div>
+              <div className="text-xs text-muted-foreground">
+                {sale.createdAt && new Date(sale.createdAt).toLocaleDateString()}
+              </div>
+            </td>
+            <td className="py-2">
+              {sale.customer ? (
+                <>
+                  <div>{sale.customer.name}</div>
+                  <div className="text-xs text-muted-foreground">{sale.customer.phone || sale.customer.email}</div>
+                </>
+              ) : (
+                <span className="text-muted-foreground">Walk-in</span>
+              )}
+            </td>
+            <td className="py-2 text-right">{sale.quantity}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
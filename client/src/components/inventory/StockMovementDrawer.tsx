@@ -0,0 +1,84 @@
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { useStockMovements } from "@/lib/api";
+import { adjustmentReasonLabels } from "@shared/schema";
+import type { ProductWithDetails } from "@shared/schema";
+import { History } from "lucide-react";
+
+interface StockMovementDrawerProps {
+  product: ProductWithDetails | null;
+  locationId?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const movementLabels: Record<string, string> = {
+  sale: "Sale",
+  return: "Return",
+  purchase: "Purchase",
+  adjustment: "Adjustment",
+  transfer: "Transfer",
+};
+
+const formatTime = (value: string | Date | null) =>
+  value && new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+// Ledger of every stock change for one product, newest first
+export function StockMovementDrawer({ product, locationId, onOpenChange }: StockMovementDrawerProps) {
+  const { data: movements = [], isLoading } = useStockMovements(product?.id ?? null, locationId);
+
+  return (
+    <Sheet open={!!product} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Stock History — {product?.name}</SheetTitle>
+          <SheetDescription>
+            {product?.sku} · {product?.quantity} on hand{locationId ? " here" : ""}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : movements.length === 0 ? (
+            <div className="text-center text-sm text-muted-foreground py-8" data-testid="text-no-movements">
+              <History className="h-10 w-10 mx-auto mb-2 opacity-50" />
+              No stock movements yet.
+            </div>
+          ) : (
+            movements.map((movement) => (
+              <div
+                key={movement.id}
+                className="rounded-lg border border-border p-3 space-y-1"
+                data-testid={`movement-${movement.id}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">{movementLabels[movement.movementType] || movement.movementType}</Badge>
+                    {movement.reasonCode && (
+                      <Badge variant="outline">
+                        {adjustmentReasonLabels[movement.reasonCode as keyof typeof adjustmentReasonLabels] ?? movement.reasonCode}
+                      </Badge>
+                    )}
+                  </div>
+                  <span className={`font-semibold ${movement.quantity < 0 ? "text-destructive" : "text-success"}`}>
+                    {movement.quantity > 0 ? "+" : ""}{movement.quantity}
+                  </span>
+                </div>
+                {movement.quantityBefore !== null && movement.quantityAfter !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    {movement.quantityBefore} → {movement.quantityAfter}
+                    {movement.location ? ` at ${movement.location.name}` : ""}
+                  </p>
+                )}
+                {movement.reason && <p className="text-sm">{movement.reason}</p>}
+                <p className="text-xs text-muted-foreground">
+                  {formatTime(movement.createdAt)} · {movement.user?.fullName || movement.user?.username}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
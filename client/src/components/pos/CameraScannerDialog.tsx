@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// The Shape Detection API isn't in TypeScript's DOM typings yet
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = { detect(source: HTMLVideoElement): Promise<DetectedBarcode[]> };
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+const BARCODE_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e", "code_128", "code_39", "qr_code"];
+const SCAN_INTERVAL_MS = 250;
+
+interface CameraScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (code: string) => void;
+}
+
+// Reads barcodes from the device camera; falls back to typing the code where
+// the browser has no BarcodeDetector or camera access is refused.
+export function CameraScannerDialog({ open, onOpenChange, onScan }: CameraScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState("");
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const onOpenChangeRef = useRef(onOpenChange);
+  onOpenChangeRef.current = onOpenChange;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError("Camera scanning isn't supported in this browser. Enter the code instead.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+    const detector = new Detector({ formats: BARCODE_FORMATS });
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        if (video.readyState >= HTMLMediaElement.HAVE_ENOUGH_DATA) {
+          const [barcode] = await detector.detect(video);
+          if (barcode?.rawValue && !cancelled) {
+            onScanRef.current(barcode.rawValue);
+            onOpenChangeRef.current(false);
+            return;
+          }
+        }
+      } catch {
+        // Frames that can't be decoded are skipped
+      }
+      timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    setCameraError(null);
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => {});
+        }
+        scanFrame();
+      })
+      .catch(() => setCameraError("Camera access was denied. Enter the code instead."));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [open]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim()) return;
+    onScan(manualCode.trim());
+    setManualCode("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Scan Barcode</DialogTitle>
+          <DialogDescription>Hold the barcode steady in front of the camera.</DialogDescription>
+        </DialogHeader>
+
+        {cameraError ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-camera-error">{cameraError}</p>
+        ) : (
+          <video
+            ref={videoRef}
+            className="w-full rounded-lg bg-black aspect-video object-cover"
+            muted
+            playsInline
+            data-testid="video-barcode-scanner"
+          />
+        )}
+
+        <form onSubmit={handleManualSubmit} className="space-y-2">
+          <Label className="block">Or enter code (use 3*CODE for quantity)</Label>
+          <div className="flex space-x-2">
+            <Input
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder="e.g. 5012345678900"
+              data-testid="input-manual-barcode"
+            />
+            <Button type="submit" disabled={!manualCode.trim()} data-testid="button-submit-barcode">
+              Add
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
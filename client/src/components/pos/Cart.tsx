@@ -1,25 +1,57 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useCreateSale } from "@/lib/api";
+import { getErrorBody, getErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Trash2, Plus, Minus, ShoppingCart, CreditCard, Banknote, University, Pause, Printer, Check } from "lucide-react";
+import { Trash2, Plus, Minus, ShoppingCart, CreditCard, Banknote, University, Pause, Printer, Check, Pencil, Percent } from "lucide-react";
+import { DiscountPopover } from "./DiscountPopover";
+import { ManagerApprovalDialog } from "./ManagerApprovalDialog";
 import { formatCurrency } from "@shared/schema";
-import type { CartItem, Customer } from "@shared/schema";
+import type { CartItem, CartPayment, Customer, Discount, Approval } from "@shared/schema";
+
+const paymentMethods: { id: CartPayment["method"]; name: string; icon: typeof Banknote }[] = [
+  { id: "cash", name: "Cash", icon: Banknote },
+  { id: "card", name: "Card", icon: CreditCard },
+  { id: "transfer", name: "Transfer", icon: University },
+];
+
+const paymentMethodName = (method: string) => paymentMethods.find(m => m.id === method)?.name ?? method;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const describeDiscount = (discount: Discount) =>
+  discount.type === "percent" ? `${parseFloat(discount.value)}%` : formatCurrency(discount.value);
+
+// Cashier-entered line discount, after any promotion on the line
+const manualDiscount = (item: CartItem) =>
+  item.quantity * item.unitPrice - (item.promotionDiscount ?? 0) - item.totalPrice;
 
 interface CartProps {
   items: CartItem[];
   customers: Customer[];
   selectedCustomer: string | null;
   onCustomerChange: (customerId: string | null) => void;
-  paymentMethod: string;
-  onPaymentMethodChange: (method: string) => void;
+  payments: CartPayment[];
+  onPaymentsChange: (payments: CartPayment[]) => void;
   onUpdateQuantity: (productId: string, change: number) => void;
+  onUpdatePrice: (productId: string, unitPrice: number) => void;
+  canOverridePrice: boolean;
+  onUpdateDiscount: (productId: string, discount: Discount | undefined) => void;
+  cartDiscount?: Discount;
+  onCartDiscountChange: (discount: Discount | undefined) => void;
+  discountLimit: number;
   onRemoveItem: (productId: string) => void;
   onClearCart: () => void;
+  onHoldSale: () => void;
+  onShiftRequired: () => void;
   subtotal: number;
+  cartDiscountAmount: number;
+  discountTotal: number;
+  taxRate: number;
   taxAmount: number;
   total: number;
 }
@@ -29,21 +61,51 @@ export function Cart({
   customers,
   selectedCustomer,
   onCustomerChange,
-  paymentMethod,
-  onPaymentMethodChange,
+  payments,
+  onPaymentsChange,
   onUpdateQuantity,
+  onUpdatePrice,
+  canOverridePrice,
+  onUpdateDiscount,
+  cartDiscount,
+  onCartDiscountChange,
+  discountLimit,
   onRemoveItem,
   onClearCart,
+  onHoldSale,
+  onShiftRequired,
   subtotal,
+  cartDiscountAmount,
+  discountTotal,
+  taxRate,
   taxAmount,
   total,
 }: CartProps) {
+  const [editingPrice, setEditingPrice] = useState<{ productId: string; value: string } | null>(null);
+  const [approvalReason, setApprovalReason] = useState<string | null>(null);
   const createSale = useCreateSale();
   const { toast } = useToast();
 
   // Use shared formatCurrency function for proper Indian Rupee formatting
 
-  const handleCompleteSale = async () => {
+  const paid = roundMoney(payments.reduce((sum, payment) => sum + (parseFloat(payment.amount) || 0), 0));
+  const remaining = Math.max(roundMoney(total - paid), 0);
+  const changeDue = Math.max(roundMoney(paid - total), 0);
+
+  // A new tender starts at whatever is still owed
+  const addPayment = (method: CartPayment["method"]) => {
+    onPaymentsChange([...payments, { method, amount: remaining > 0 ? remaining.toFixed(2) : "" }]);
+  };
+
+  const updatePayment = (index: number, amount: string) => {
+    onPaymentsChange(payments.map((payment, i) => (i === index ? { ...payment, amount } : payment)));
+  };
+
+  const removePayment = (index: number) => {
+    onPaymentsChange(payments.filter((_, i) => i !== index));
+  };
+
+  const handleCompleteSale = async (approval?: Approval) => {
     if (items.length === 0) {
       toast({
         title: "Cart is empty",
@@ -53,37 +115,59 @@ export function Cart({
       return;
     }
 
-    try {
-      const saleData = {
-        customerId: selectedCustomer && selectedCustomer !== "walk-in" ? selectedCustomer : null,
-        subtotal: subtotal.toString(),
-        taxAmount: taxAmount.toString(),
-        discountAmount: "0",
-        total: total.toString(),
-        paymentMethod,
-        status: "completed" as const,
-      };
+    if (remaining > 0) {
+      toast({
+        title: "Payment incomplete",
+        description: `${formatCurrency(remaining)} is still due. Add a payment to cover it.`,
+        variant: "destructive",
+      });
+      return;
+    }
 
+    try {
+      // Only send a unit price when the cashier has changed it; the server prices everything else
       const saleItems = items.map(item => ({
         productId: item.productId,
         quantity: item.quantity,
-        unitPrice: item.unitPrice.toString(),
-        totalPrice: item.totalPrice.toString(),
+        unitPrice: item.unitPrice !== parseFloat(item.product.sellingPrice) ? item.unitPrice.toFixed(2) : undefined,
+        discount: item.discount,
+        serialNumbers: item.serialNumbers,
       }));
 
-      await createSale.mutateAsync({ sale: saleData, items: saleItems });
+      const sale = await createSale.mutateAsync({
+        sale: {
+          customerId: selectedCustomer && selectedCustomer !== "walk-in" ? selectedCustomer : null,
+          payments: payments
+            .filter(payment => parseFloat(payment.amount) > 0)
+            .map(payment => ({ method: payment.method, amount: parseFloat(payment.amount).toFixed(2) })),
+          discount: cartDiscount,
+          approval,
+        },
+        items: saleItems,
+      });
 
       toast({
         title: "Sale Completed",
-        description: `Transaction completed successfully for ${formatCurrency(total)}`,
+        description: `${sale.invoiceNumber} completed successfully for ${formatCurrency(sale.total)}` +
+          (parseFloat(sale.changeDue) > 0 ? `. Change due: ${formatCurrency(sale.changeDue)}` : ""),
       });
 
+      setApprovalReason(null);
       onClearCart();
       onCustomerChange(null);
     } catch (error) {
+      // Overrides beyond the cashier's limits can go through with a manager's PIN
+      const body = getErrorBody(error);
+      if (body?.details?.requiresApproval) {
+        setApprovalReason(body.message ?? "This sale needs manager approval.");
+        return;
+      }
+      if (body?.details?.requiresShift) {
+        onShiftRequired();
+      }
       toast({
         title: "Sale Failed",
-        description: "Failed to complete sale. Please try again.",
+        description: getErrorMessage(error, "Failed to complete sale. Please try again."),
         variant: "destructive",
       });
     }
@@ -114,7 +198,10 @@ export function Cart({
               ? customers.find(c => c.id === selectedCustomer)?.name || "Walk-in Customer"
               : "Walk-in Customer"
           }</p>
-          <p style="margin: 5px 0;"><strong>Payment:</strong> ${paymentMethod.charAt(0).toUpperCase() + paymentMethod.slice(1)}</p>
+          ${payments.map(payment => `
+            <p style="margin: 5px 0;"><strong>${paymentMethodName(payment.method)}:</strong> ${formatCurrency(parseFloat(payment.amount) || 0)}</p>
+          `).join('')}
+          ${changeDue > 0 ? `<p style="margin: 5px 0;"><strong>Change:</strong> ${formatCurrency(changeDue)}</p>` : ''}
         </div>
 
         <div style="border-bottom: 1px solid #ccc; padding-bottom: 10px; margin-bottom: 10px;">
@@ -123,6 +210,8 @@ export function Cart({
               <div style="flex: 1;">
                 <div style="font-weight: bold;">${item.product.name}</div>
                 <div style="font-size: 12px;">${item.quantity} x ${formatCurrency(item.unitPrice)}</div>
+                ${item.promotionDiscount ? `<div style="font-size: 12px;">${item.promotionNames?.join(", ")}: -${formatCurrency(item.promotionDiscount)}</div>` : ''}
+                ${item.discount ? `<div style="font-size: 12px;">Discount ${describeDiscount(item.discount)}: -${formatCurrency(manualDiscount(item))}</div>` : ''}
               </div>
               <div style="text-align: right; font-weight: bold;">
                 ${formatCurrency(item.totalPrice)}
@@ -136,14 +225,24 @@ export function Cart({
             <span>Subtotal:</span>
             <span>${formatCurrency(subtotal)}</span>
           </div>
+          ${cartDiscount ? `
           <div style="display: flex; justify-content: space-between; margin: 5px 0;">
-            <span>Tax (8.5%):</span>
+            <span>Cart Discount (${describeDiscount(cartDiscount)}):</span>
+            <span>-${formatCurrency(cartDiscountAmount)}</span>
+          </div>` : ''}
+          <div style="display: flex; justify-content: space-between; margin: 5px 0;">
+            <span>Tax (${taxRate}%):</span>
             <span>${formatCurrency(taxAmount)}</span>
           </div>
           <div style="display: flex; justify-content: space-between; margin: 10px 0; font-weight: bold; font-size: 18px; border-top: 2px solid #000; padding-top: 10px;">
             <span>Total:</span>
             <span>${formatCurrency(total)}</span>
           </div>
+          ${discountTotal > 0 ? `
+          <div style="display: flex; justify-content: space-between; margin: 5px 0; font-size: 12px;">
+            <span>You saved:</span>
+            <span>${formatCurrency(discountTotal)}</span>
+          </div>` : ''}
         </div>
 
         <div style="text-align: center; margin-top: 20px; border-top: 1px solid #ccc; padding-top: 15px;">
@@ -185,12 +284,6 @@ export function Cart({
     }
   };
 
-  const paymentMethods = [
-    { id: "cash", name: "Cash", icon: Banknote },
-    { id: "card", name: "Card", icon: CreditCard },
-    { id: "transfer", name: "Transfer", icon: University },
-  ];
-
   return (
     <Card className="flex flex-col h-full">
       <CardHeader className="flex flex-row items-center justify-between pb-4">
@@ -232,9 +325,63 @@ export function Cart({
                   <h4 className="font-medium text-foreground text-sm truncate">
                     {item.product.name}
                   </h4>
-                  <p className="text-xs text-muted-foreground">
-                    {formatCurrency(item.unitPrice)} each
-                  </p>
+                  {editingPrice?.productId === item.productId ? (
+                    <form
+                      className="flex items-center space-x-1 mt-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        const price = parseFloat(editingPrice.value);
+                        if (!isNaN(price) && price >= 0) {
+                          onUpdatePrice(item.productId, Math.round(price * 100) / 100);
+                        }
+                        setEditingPrice(null);
+                      }}
+                    >
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        autoFocus
+                        className="h-7 w-24 text-xs"
+                        value={editingPrice.value}
+                        onChange={(e) => setEditingPrice({ productId: item.productId, value: e.target.value })}
+                        onBlur={() => setEditingPrice(null)}
+                        data-testid={`input-price-${item.productId}`}
+                      />
+                    </form>
+                  ) : (
+                    <p className="text-xs text-muted-foreground flex items-center">
+                      {formatCurrency(item.unitPrice)} each
+                      {item.unitPrice !== parseFloat(item.product.sellingPrice) && (
+                        <span className="ml-1 text-warning">(was {formatCurrency(item.product.sellingPrice)})</span>
+                      )}
+                      {canOverridePrice && (
+                        <button
+                          type="button"
+                          className="ml-1 hover:text-foreground"
+                          onClick={() => setEditingPrice({ productId: item.productId, value: item.unitPrice.toFixed(2) })}
+                          data-testid={`button-edit-price-${item.productId}`}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                      )}
+                    </p>
+                  )}
+                  {item.serialNumbers && item.serialNumbers.length > 0 && (
+                    <p className="text-xs text-muted-foreground" data-testid={`text-serials-${item.productId}`}>
+                      S/N: {item.serialNumbers.join(", ")}
+                    </p>
+                  )}
+                  {!!item.promotionDiscount && (
+                    <p className="text-xs text-success" data-testid={`text-promotion-${item.productId}`}>
+                      {item.promotionNames?.join(", ")}: -{formatCurrency(item.promotionDiscount)}
+                    </p>
+                  )}
+                  {item.discount && (
+                    <p className="text-xs text-success" data-testid={`text-discount-${item.productId}`}>
+                      Discount {describeDiscount(item.discount)}: -{formatCurrency(manualDiscount(item))}
+                    </p>
+                  )}
                 </div>
 
                 <div className="flex items-center space-x-2 ml-3">
@@ -262,10 +409,26 @@ export function Cart({
                     <Plus className="h-3 w-3" />
                   </Button>
 
+                  <DiscountPopover
+                    discount={item.discount}
+                    onChange={(discount) => onUpdateDiscount(item.productId, discount)}
+                    limit={discountLimit}
+                    testId={`discount-${item.productId}`}
+                  >
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className={`h-8 w-8 ml-2 ${item.discount ? "text-success" : "text-muted-foreground"}`}
+                      data-testid={`button-discount-${item.productId}`}
+                    >
+                      <Percent className="h-3 w-3" />
+                    </Button>
+                  </DiscountPopover>
+
                   <Button
                     variant="ghost"
                     size="icon"
-                    className="h-8 w-8 text-red-500 hover:text-red-700 hover:bg-red-50 ml-2 transition-all duration-200"
+                    className="h-8 w-8 text-red-500 hover:text-red-700 hover:bg-red-50 transition-all duration-200"
                     onClick={() => onRemoveItem(item.productId)}
                     data-testid={`button-remove-${item.productId}`}
                   >
@@ -291,14 +454,39 @@ export function Cart({
                 <span className="text-muted-foreground">Subtotal:</span>
                 <span className="font-medium">{formatCurrency(subtotal)}</span>
               </div>
+              <div className="flex justify-between items-center text-sm">
+                <DiscountPopover
+                  discount={cartDiscount}
+                  onChange={onCartDiscountChange}
+                  limit={discountLimit}
+                  testId="cart-discount"
+                >
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground underline-offset-2 hover:underline"
+                    data-testid="button-cart-discount"
+                  >
+                    {cartDiscount ? `Cart Discount (${describeDiscount(cartDiscount)}):` : "Add cart discount"}
+                  </button>
+                </DiscountPopover>
+                {cartDiscount && (
+                  <span className="font-medium text-success">-{formatCurrency(cartDiscountAmount)}</span>
+                )}
+              </div>
               <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Tax (8.5%):</span>
+                <span className="text-muted-foreground">Tax ({taxRate}%):</span>
                 <span className="font-medium">{formatCurrency(taxAmount)}</span>
               </div>
               <div className="flex justify-between text-lg font-bold border-t border-border pt-3">
                 <span>Total:</span>
                 <span className="text-primary">{formatCurrency(total)}</span>
               </div>
+              {discountTotal > 0 && (
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Discounts given:</span>
+                  <span>{formatCurrency(discountTotal)}</span>
+                </div>
+              )}
             </div>
 
             {/* Customer & Payment */}
@@ -324,22 +512,22 @@ export function Cart({
 
               <div>
                 <Label className="text-sm font-medium text-muted-foreground mb-2 block">
-                  Payment Method
+                  Payment
                 </Label>
                 <div className="grid grid-cols-3 gap-2">
                   {paymentMethods.map((method) => {
                     const Icon = method.icon;
-                    const isSelected = paymentMethod === method.id;
+                    const isUsed = payments.some(payment => payment.method === method.id);
                     return (
                       <Button
                         key={method.id}
                         variant="outline"
                         className={`flex flex-col items-center p-4 h-auto transition-all duration-200 ${
-                          isSelected 
+                          isUsed
                             ? "bg-gradient-to-b from-primary to-primary/80 text-primary-foreground border-primary shadow-lg transform scale-105" 
                             : "hover:bg-gradient-to-b hover:from-muted/50 hover:to-muted hover:scale-102 hover:shadow-md"
                         }`}
-                        onClick={() => onPaymentMethodChange(method.id)}
+                        onClick={() => addPayment(method.id)}
                         data-testid={`button-payment-${method.id}`}
                       >
                         <Icon className="h-5 w-5 mb-2" />
@@ -348,6 +536,49 @@ export function Cart({
                     );
                   })}
                 </div>
+
+                {payments.length > 0 && (
+                  <div className="mt-3 space-y-2" data-testid="payment-tenders">
+                    {payments.map((payment, index) => (
+                      <div key={index} className="flex items-center space-x-2">
+                        <span className="w-20 text-sm">{paymentMethodName(payment.method)}</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          className="h-8"
+                          value={payment.amount}
+                          onChange={(e) => updatePayment(index, e.target.value)}
+                          data-testid={`input-payment-amount-${index}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-red-500 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => removePayment(index)}
+                          data-testid={`button-remove-payment-${index}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-sm">
+                      {changeDue > 0 ? (
+                        <>
+                          <span className="text-muted-foreground">Change due:</span>
+                          <span className="font-semibold text-success" data-testid="text-change-due">{formatCurrency(changeDue)}</span>
+                        </>
+                      ) : (
+                        <>
+                          <span className="text-muted-foreground">Remaining:</span>
+                          <span className={`font-semibold ${remaining > 0 ? "text-destructive" : ""}`} data-testid="text-remaining">
+                            {formatCurrency(remaining)}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -355,7 +586,7 @@ export function Cart({
             <div className="space-y-3">
               <Button
                 className="w-full h-14 text-lg font-bold bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105"
-                onClick={handleCompleteSale}
+                onClick={() => handleCompleteSale()}
                 disabled={createSale.isPending}
                 data-testid="button-complete-sale"
               >
@@ -367,6 +598,8 @@ export function Cart({
                 <Button
                   variant="outline"
                   className="h-11 bg-gradient-to-r from-amber-400 to-orange-500 hover:from-amber-500 hover:to-orange-600 text-white border-0 shadow-md hover:shadow-lg transition-all duration-200 font-medium"
+                  onClick={onHoldSale}
+                  disabled={items.length === 0}
                   data-testid="button-hold-sale"
                 >
                   <Pause className="mr-2 h-4 w-4" />
@@ -386,6 +619,14 @@ export function Cart({
           </>
         )}
       </CardContent>
+
+      <ManagerApprovalDialog
+        open={approvalReason !== null}
+        reason={approvalReason ?? ""}
+        isSubmitting={createSale.isPending}
+        onApprove={(approval) => handleCompleteSale(approval)}
+        onCancel={() => setApprovalReason(null)}
+      />
     </Card>
   );
 }
\ No newline at end of file
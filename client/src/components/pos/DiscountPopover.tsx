@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { getCurrencySymbol } from "@shared/schema";
+import type { Discount } from "@shared/schema";
+
+interface DiscountPopoverProps {
+  discount?: Discount;
+  onChange: (discount: Discount | undefined) => void;
+  // Largest percentage the cashier may give without approval, shown as a hint
+  limit?: number;
+  testId: string;
+  children: React.ReactNode;
+}
+
+export function DiscountPopover({ discount, onChange, limit, testId, children }: DiscountPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<Discount["type"]>(discount?.type ?? "percent");
+  const [value, setValue] = useState(discount?.value ?? "");
+
+  useEffect(() => {
+    if (open) {
+      setType(discount?.type ?? "percent");
+      setValue(discount?.value ?? "");
+    }
+  }, [open, discount]);
+
+  const amount = parseFloat(value);
+  const isValid = !isNaN(amount) && amount > 0 && (type === "fixed" || amount <= 100);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onChange({ type, value: amount.toFixed(2) });
+    setOpen(false);
+  };
+
+  const handleRemove = () => {
+    onChange(undefined);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-64" align="end">
+        <form onSubmit={handleApply} className="space-y-3">
+          <Label className="block">Discount</Label>
+          <ToggleGroup
+            type="single"
+            value={type}
+            onValueChange={(next) => next && setType(next as Discount["type"])}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="percent" data-testid={`${testId}-type-percent`}>%</ToggleGroupItem>
+            <ToggleGroupItem value="fixed" data-testid={`${testId}-type-fixed`}>{getCurrencySymbol()}</ToggleGroupItem>
+          </ToggleGroup>
+          <Input
+            type="number"
+            min={0}
+            max={type === "percent" ? 100 : undefined}
+            step="0.01"
+            autoFocus
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            data-testid={`${testId}-value`}
+          />
+          {limit !== undefined && limit < 100 && (
+            <p className="text-xs text-muted-foreground">
+              Discounts above {limit}% need manager approval
+            </p>
+          )}
+          <div className="flex justify-end space-x-2">
+            {discount && (
+              <Button type="button" variant="ghost" size="sm" onClick={handleRemove} data-testid={`${testId}-remove`}>
+                Remove
+              </Button>
+            )}
+            <Button type="submit" size="sm" disabled={!isValid} data-testid={`${testId}-apply`}>
+              Apply
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
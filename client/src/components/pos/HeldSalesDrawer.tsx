@@ -0,0 +1,130 @@
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useHeldSales, useRecallHeldSale, useDeleteHeldSale } from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { RotateCcw, Trash2, Clock, User } from "lucide-react";
+import type { HeldSaleWithDetails } from "@shared/schema";
+
+interface HeldSalesDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cartIsEmpty: boolean;
+  onRecall: (heldSale: HeldSaleWithDetails) => void;
+}
+
+const formatTime = (value: string | Date | null) =>
+  value && new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+export function HeldSalesDrawer({ open, onOpenChange, cartIsEmpty, onRecall }: HeldSalesDrawerProps) {
+  const { data: heldSales = [], isLoading } = useHeldSales();
+  const recallHeldSale = useRecallHeldSale();
+  const deleteHeldSale = useDeleteHeldSale();
+  const { toast } = useToast();
+
+  const handleRecall = async (heldSale: HeldSaleWithDetails) => {
+    if (!cartIsEmpty && !confirm("Recalling this sale will replace the current cart. Continue?")) return;
+    try {
+      const recalled = await recallHeldSale.mutateAsync(heldSale.id);
+      onRecall(recalled);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to recall held sale."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDiscard = async (heldSale: HeldSaleWithDetails) => {
+    if (!confirm("Discard this held sale?")) return;
+    try {
+      await deleteHeldSale.mutateAsync(heldSale.id);
+      toast({
+        title: "Held Sale Discarded",
+        description: "The parked cart has been removed.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to discard held sale."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Held Sales</SheetTitle>
+          <SheetDescription>Recall a parked cart to finish the sale.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : heldSales.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-held-sales">
+              No sales on hold.
+            </p>
+          ) : (
+            heldSales.map((heldSale) => {
+              const itemCount = heldSale.items.reduce((sum, item) => sum + item.quantity, 0);
+              return (
+                <div
+                  key={heldSale.id}
+                  className="rounded-lg border border-border p-4 space-y-2"
+                  data-testid={`held-sale-${heldSale.id}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center text-sm font-medium">
+                      <User className="mr-1 h-4 w-4 text-muted-foreground" />
+                      {heldSale.customer?.name ?? "Walk-in Customer"}
+                    </div>
+                    <Badge variant="secondary">{itemCount} item{itemCount === 1 ? "" : "s"}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Held by {heldSale.user?.fullName ?? "Unknown"} at {formatTime(heldSale.createdAt)}
+                  </p>
+                  <p className="flex items-center text-xs text-muted-foreground">
+                    <Clock className="mr-1 h-3 w-3" />
+                    Expires {formatTime(heldSale.expiresAt)}
+                    {heldSale.reservesStock && " · stock reserved"}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {heldSale.items.map(item => `${item.quantity}× ${item.product?.name ?? "Removed product"}`).join(", ")}
+                  </p>
+                  {heldSale.note && <p className="text-sm italic">“{heldSale.note}”</p>}
+                  <div className="flex justify-end space-x-2 pt-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDiscard(heldSale)}
+                      disabled={deleteHeldSale.isPending}
+                      data-testid={`button-discard-held-${heldSale.id}`}
+                    >
+                      <Trash2 className="mr-1 h-4 w-4" />
+                      Discard
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleRecall(heldSale)}
+                      disabled={recallHeldSale.isPending}
+                      data-testid={`button-recall-held-${heldSale.id}`}
+                    >
+                      <RotateCcw className="mr-1 h-4 w-4" />
+                      Recall
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface HoldSaleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onHold: (note: string) => void;
+  isPending: boolean;
+}
+
+// Parks the current cart with an optional note so it can be recalled later
+export function HoldSaleDialog({ open, onOpenChange, onHold, isPending }: HoldSaleDialogProps) {
+  const [note, setNote] = useState("");
+
+  const close = () => {
+    setNote("");
+    onOpenChange(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onHold(note.trim());
+    setNote("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Hold Sale</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Note (optional)</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              placeholder="e.g. Customer went to fetch wallet"
+              data-testid="input-hold-note"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={close}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending} data-testid="button-confirm-hold">
+              {isPending ? "Holding..." : "Hold Sale"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShieldCheck } from "lucide-react";
+import type { Approval } from "@shared/schema";
+
+interface ManagerApprovalDialogProps {
+  open: boolean;
+  reason: string;
+  isSubmitting: boolean;
+  onApprove: (approval: Approval) => void;
+  onCancel: () => void;
+}
+
+export function ManagerApprovalDialog({ open, reason, isSubmitting, onApprove, onCancel }: ManagerApprovalDialogProps) {
+  const [username, setUsername] = useState("");
+  const [pin, setPin] = useState("");
+
+  // Never keep a manager's PIN around between approvals
+  useEffect(() => {
+    if (!open) {
+      setUsername("");
+      setPin("");
+    }
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApprove({ username: username.trim(), pin });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ShieldCheck className="mr-2 h-5 w-5" />
+            Manager Approval
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">{reason}</p>
+          <div>
+            <Label className="mb-2 block">Manager Username</Label>
+            <Input
+              autoFocus
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              data-testid="input-approval-username"
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">PIN</Label>
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              data-testid="input-approval-pin"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onCancel} data-testid="button-cancel-approval">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || !username.trim() || pin.length < 4}
+              data-testid="button-submit-approval"
+            >
+              {isSubmitting ? "Checking..." : "Approve"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
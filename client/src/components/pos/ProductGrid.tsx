@@ -12,9 +12,12 @@ interface ProductGridProps {
 export function ProductGrid({ products, onAddToCart, isLoading }: ProductGridProps) {
   // Use shared formatCurrency function for proper currency formatting
 
+  // Stock reserved by held sales can't be sold to another customer
+  const availableQuantity = (product: ProductWithDetails) => product.quantity - product.reservedQuantity;
+
   const getStockStatus = (product: ProductWithDetails) => {
     if (!product.trackStock) return null;
-    if (product.quantity === 0) return { label: "Out of Stock", color: "destructive" as const };
+    if (availableQuantity(product) <= 0) return { label: "Out of Stock", color: "destructive" as const };
     if (product.quantity <= product.minStockLevel) return { label: "Low Stock", color: "warning" as const };
     return null;
   };
@@ -48,7 +51,7 @@ export function ProductGrid({ products, onAddToCart, isLoading }: ProductGridPro
     <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
       {products.map((product) => {
         const stockStatus = getStockStatus(product);
-        const isOutOfStock = product.trackStock && product.quantity === 0;
+        const isOutOfStock = product.trackStock && !product.allowBackorder && availableQuantity(product) <= 0;
         
         return (
           <div
@@ -93,12 +96,18 @@ export function ProductGrid({ products, onAddToCart, isLoading }: ProductGridPro
                 )}
               </div>
               
+              {product.variantOptions && (
+                <p className="text-xs text-muted-foreground">
+                  Choose {product.variantOptions.map(option => option.name.toLowerCase()).join(" and ")}
+                </p>
+              )}
               {product.trackStock && (
                 <p className={`text-xs ${
                   stockStatus?.color === "destructive" ? "text-destructive" :
                   stockStatus?.color === "warning" ? "text-warning" : "text-muted-foreground"
                 }`}>
-                  Stock: {product.quantity}
+                  Stock: {availableQuantity(product)}
+                  {product.reservedQuantity > 0 && ` (${product.reservedQuantity} held)`}
                 </p>
               )}
             </div>
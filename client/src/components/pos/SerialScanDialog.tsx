@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useSerialNumbers } from "@/lib/api";
+import type { Product } from "@shared/schema";
+
+interface SerialScanDialogProps {
+  product: Product | null;
+  inCart: string[];
+  onAdd: (product: Product, serialNumber: string) => void;
+  onClose: () => void;
+}
+
+// Asks for the serial number of the unit being sold. Only serials in stock and
+// not already in the cart are accepted; the server checks again when the sale is saved.
+export function SerialScanDialog({ product, inCart, onAdd, onClose }: SerialScanDialogProps) {
+  const [serial, setSerial] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const { data: inStock = [], isLoading } = useSerialNumbers(product?.id ?? null, "in_stock");
+
+  useEffect(() => {
+    setSerial("");
+    setError(null);
+  }, [product?.id]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+    const scanned = serial.trim();
+    if (!scanned) return;
+
+    const match = inStock.find(unit => unit.serialNumber.toLowerCase() === scanned.toLowerCase());
+    if (!match) {
+      setError(`${scanned} is not in stock for ${product.name}.`);
+      return;
+    }
+    if (inCart.includes(match.serialNumber)) {
+      setError(`${match.serialNumber} is already in the cart.`);
+      return;
+    }
+    onAdd(product, match.serialNumber);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Scan Serial Number</DialogTitle>
+          <DialogDescription>
+            {product?.name} · {isLoading ? "checking stock..." : `${inStock.length - inCart.length} in stock`}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Input
+              autoFocus
+              placeholder="Serial number"
+              value={serial}
+              onChange={(e) => { setSerial(e.target.value); setError(null); }}
+              data-testid="input-serial-number"
+            />
+            {error && <p className="mt-2 text-sm text-destructive" data-testid="text-serial-error">{error}</p>}
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !serial.trim()} data-testid="button-add-serial">
+              Add to Cart
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useProductVariants } from "@/lib/api";
+import { formatCurrency, variantLabel } from "@shared/schema";
+import type { Product, CurrencyCode } from "@shared/schema";
+
+interface VariantPickerDialogProps {
+  product: Product | null;
+  onSelect: (variant: Product) => void;
+  onClose: () => void;
+}
+
+// Lists the active variants of a parent product; picking one adds it to the cart
+export function VariantPickerDialog({ product, onSelect, onClose }: VariantPickerDialogProps) {
+  const { data: variants = [], isLoading } = useProductVariants(product?.id ?? null);
+  const activeVariants = variants.filter(variant => variant.isActive);
+
+  const available = (variant: Product) => variant.quantity - variant.reservedQuantity;
+  const isOutOfStock = (variant: Product) => variant.trackStock && !variant.allowBackorder && available(variant) <= 0;
+
+  return (
+    <Dialog open={!!product} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{product?.name}</DialogTitle>
+          <DialogDescription>
+            Choose {product?.variantOptions?.map(option => option.name.toLowerCase()).join(" and ")}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : activeVariants.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">No variants are available for sale.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-96 overflow-y-auto">
+            {activeVariants.map((variant) => (
+              <button
+                key={variant.id}
+                type="button"
+                disabled={isOutOfStock(variant)}
+                className="rounded-lg border border-border p-3 text-left transition-shadow hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:shadow-none"
+                onClick={() => { onClose(); onSelect(variant); }}
+                data-testid={`button-variant-${variant.id}`}
+              >
+                <p className="font-medium text-foreground text-sm">
+                  {variantLabel(product?.variantOptions ?? [], variant.variantAttributes ?? {})}
+                </p>
+                <p className="text-sm font-semibold text-primary">
+                  {formatCurrency(variant.sellingPrice, variant.currency as CurrencyCode)}
+                </p>
+                {variant.trackStock && (
+                  <p className={`text-xs ${isOutOfStock(variant) ? "text-destructive" : "text-muted-foreground"}`}>
+                    {isOutOfStock(variant) ? "Out of stock" : `Stock: ${available(variant)}`}
+                  </p>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -7,7 +7,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useProduct, useCreateProduct, useUpdateProduct, useCategories, useSuppliers } from "@/lib/api";
+import { VariantMatrixEditor, variantDraftFrom, variantMatrixFrom, type VariantDraft } from "@/components/products/VariantMatrixEditor";
+import {
+  useProduct, useCreateProduct, useUpdateProduct, useCategories, useSuppliers,
+  useProductVariants, useSaveProductVariants
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { insertProductSchema, supportedCurrencies, defaultCurrency } from "@shared/schema";
 import type { InsertProduct, CurrencyCode } from "@shared/schema";
@@ -22,9 +27,13 @@ export function ProductForm({ productId, onSaved, onCancel }: ProductFormProps)
   const { data: product } = useProduct(productId || "");
   const { data: categories = [] } = useCategories();
   const { data: suppliers = [] } = useSuppliers();
+  const { data: variants } = useProductVariants(product?.variantOptions ? product.id : null);
+  // null = the product is sold as it is, without variants
+  const [variantDraft, setVariantDraft] = useState<VariantDraft | null>(null);
   
   const createProduct = useCreateProduct();
   const updateProduct = useUpdateProduct();
+  const saveVariants = useSaveProductVariants();
   const { toast } = useToast();
 
   const form = useForm<InsertProduct>({
@@ -42,6 +51,10 @@ export function ProductForm({ productId, onSaved, onCancel }: ProductFormProps)
       quantity: 0,
       minStockLevel: 10,
       trackStock: true,
+      allowBackorder: false,
+      trackLots: false,
+      serialTracked: false,
+      warrantyMonths: null,
       isActive: true,
       imageUrl: "",
     },
@@ -63,12 +76,22 @@ export function ProductForm({ productId, onSaved, onCancel }: ProductFormProps)
         quantity: product.quantity || 0,
         minStockLevel: product.minStockLevel || 10,
         trackStock: product.trackStock ?? true,
+        allowBackorder: product.allowBackorder ?? false,
+        trackLots: product.trackLots ?? false,
+        serialTracked: product.serialTracked ?? false,
+        warrantyMonths: product.warrantyMonths ?? null,
         isActive: product.isActive ?? true,
         imageUrl: product.imageUrl || "",
       });
     }
   }, [product, form]);
 
+  useEffect(() => {
+    if (product?.variantOptions && variants) {
+      setVariantDraft(variantDraftFrom(product, variants));
+    }
+  }, [product, variants]);
+
   const onSubmit = async (values: InsertProduct) => {
     try {
       // Clean up the data - convert empty strings to null for optional fields
@@ -78,21 +101,33 @@ export function ProductForm({ productId, onSaved, onCancel }: ProductFormProps)
         categoryId: values.categoryId || null,
         supplierId: values.supplierId || null,
         imageUrl: values.imageUrl || null,
+        // Stock of a product with variants is held by the variants
+        quantity: variantDraft ? 0 : values.quantity,
       };
 
-      if (productId) {
-        await updateProduct.mutateAsync({ id: productId, ...cleanedValues });
-        toast({
-          title: "Product Updated",
-          description: "Product has been updated successfully.",
-        });
-      } else {
-        await createProduct.mutateAsync(cleanedValues);
-        toast({
-          title: "Product Created",
-          description: "New product has been created successfully.",
-        });
+      const saved = productId
+        ? await updateProduct.mutateAsync({ id: productId, ...cleanedValues })
+        : await createProduct.mutateAsync(cleanedValues);
+
+      if (variantDraft) {
+        try {
+          await saveVariants.mutateAsync({ id: saved.id, ...variantMatrixFrom(variantDraft, values.sku) });
+        } catch (error) {
+          toast({
+            title: "Variants Not Saved",
+            description: getErrorMessage(error, "The product was saved but its variants were not. Please try again."),
+            variant: "destructive",
+          });
+          // A new product already exists, so close and let it be reopened to fix the variants
+          if (!productId) onSaved();
+          return;
+        }
       }
+
+      toast({
+        title: productId ? "Product Updated" : "Product Created",
+        description: productId ? "Product has been updated successfully." : "New product has been created successfully.",
+      });
       onSaved();
     } catch (error) {
       console.log("Product form submission error:", error);
@@ -104,7 +139,7 @@ export function ProductForm({ productId, onSaved, onCancel }: ProductFormProps)
     }
   };
 
-  const isSubmitting = createProduct.isPending || updateProduct.isPending;
+  const isSubmitting = createProduct.isPending || updateProduct.isPending || saveVariants.isPending;
 
   return (
     <Form {...form}>
@@ -299,11 +334,14 @@ export function ProductForm({ productId, onSaved, onCancel }: ProductFormProps)
             name="quantity"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Initial Quantity</FormLabel>
+                <FormLabel>{productId ? "Quantity (all locations)" : "Initial Quantity"}</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
                     min="0"
+                    // Existing stock changes through Inventory so each location stays accurate,
+                    // and serial-tracked units come in there with their serial numbers
+                    disabled={!!productId || !!variantDraft || form.watch("serialTracked")}
                     {...field}
                     onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
                     data-testid="input-product-quantity"
@@ -376,6 +414,125 @@ export function ProductForm({ productId, onSaved, onCancel }: ProductFormProps)
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="allowBackorder"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    data-testid="checkbox-allow-backorder"
+                  />
+                </FormControl>
+                <div className="space-y-1 leading-none">
+                  <FormLabel>Allow Backorder</FormLabel>
+                  <p className="text-xs text-muted-foreground">
+                    Allow sales when stock runs out
+                  </p>
+                </div>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="trackLots"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    data-testid="checkbox-track-lots"
+                  />
+                </FormControl>
+                <div className="space-y-1 leading-none">
+                  <FormLabel>Track Lots & Expiry</FormLabel>
+                  <p className="text-xs text-muted-foreground">
+                    Record lot numbers and expiry dates on receipt and sell the earliest expiry first
+                  </p>
+                </div>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="serialTracked"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={(checked) => {
+                      field.onChange(checked);
+                      if (checked && !productId) form.setValue("quantity", 0);
+                    }}
+                    data-testid="checkbox-serial-tracked"
+                  />
+                </FormControl>
+                <div className="space-y-1 leading-none">
+                  <FormLabel>Track Serial Numbers</FormLabel>
+                  <p className="text-xs text-muted-foreground">
+                    Record each unit's serial number on receipt and scan it at sale
+                  </p>
+                </div>
+              </FormItem>
+            )}
+          />
+
+          {form.watch("serialTracked") && (
+            <FormField
+              control={form.control}
+              name="warrantyMonths"
+              render={({ field }) => (
+                <FormItem className="pl-7">
+                  <FormLabel>Warranty (months)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="w-32"
+                      placeholder="None"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value, 10) || 0)}
+                      data-testid="input-product-warranty"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {!product?.parentId && (
+            <div className="flex flex-row items-start space-x-3 space-y-0">
+              <Checkbox
+                checked={!!variantDraft}
+                // Variants keep their sales history, so a product can't go back to having none
+                disabled={!!product?.variantOptions}
+                onCheckedChange={(checked) => setVariantDraft(checked === true ? { options: [{ name: "", values: "" }], rows: {} } : null)}
+                data-testid="checkbox-has-variants"
+              />
+              <div className="space-y-1 leading-none">
+                <label className="text-sm font-medium">Has Variants</label>
+                <p className="text-xs text-muted-foreground">
+                  Sold in options such as size and colour, each with its own SKU, barcode, price and stock
+                </p>
+              </div>
+            </div>
+          )}
+
+          {variantDraft && (
+            <VariantMatrixEditor
+              draft={variantDraft}
+              onChange={setVariantDraft}
+              parentSku={form.watch("sku")}
+            />
+          )}
+
           <FormField
             control={form.control}
             name="isActive"
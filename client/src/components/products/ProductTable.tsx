@@ -26,6 +26,8 @@ export function ProductTable({ products, isLoading, onEdit, onRefresh }: Product
   // Remove old formatCurrency function since we'll use CurrencyDisplay component
 
   const getStockStatus = (product: ProductWithDetails) => {
+    // Stock is held by the variants
+    if (product.variantOptions) return { label: "Has Variants", variant: "outline" as const };
     if (!product.trackStock) return { label: "Not Tracked", variant: "secondary" as const };
     if (product.quantity === 0) return { label: "Out of Stock", variant: "destructive" as const };
     if (product.quantity <= product.minStockLevel) return { label: "Low Stock", variant: "secondary" as const };
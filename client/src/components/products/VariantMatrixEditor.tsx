@@ -0,0 +1,217 @@
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, X } from "lucide-react";
+import { variantCombinations, variantLabel } from "@shared/schema";
+import type { Product, SaveProductVariants, VariantOption } from "@shared/schema";
+
+// The matrix as it is being edited: option values are typed comma separated and
+// rows hold only what differs from the generated defaults
+export interface VariantDraft {
+  options: { name: string; values: string }[];
+  rows: Record<string, VariantRowDraft>;
+}
+
+interface VariantRowDraft {
+  selected: boolean;
+  sku?: string; // unset = generated from the parent SKU
+  barcode: string; // blank = an in-house barcode is generated
+  sellingPrice: string; // blank = the parent's price
+  existing?: Product;
+}
+
+interface VariantMatrixEditorProps {
+  draft: VariantDraft;
+  onChange: (draft: VariantDraft) => void;
+  parentSku: string;
+}
+
+const MAX_OPTIONS = 3;
+const newRow: VariantRowDraft = { selected: true, barcode: "", sellingPrice: "" };
+
+function parseOptions(draft: VariantDraft): VariantOption[] {
+  return draft.options
+    .map(option => ({
+      name: option.name.trim(),
+      values: option.values.split(",").map(value => value.trim()).filter(Boolean),
+    }))
+    .filter(option => option.name && option.values.length > 0);
+}
+
+function rowKey(options: VariantOption[], attributes: Record<string, string>): string {
+  return JSON.stringify(options.map(option => [option.name, attributes[option.name]]));
+}
+
+function generatedSku(parentSku: string, options: VariantOption[], attributes: Record<string, string>): string {
+  return [parentSku.trim(), ...options.map(option => attributes[option.name])].join("-").replace(/\s+/g, "").toUpperCase();
+}
+
+// Draft for a parent's saved variants. Combinations without an active variant
+// start unselected; a variant priced like its parent follows the parent's price.
+export function variantDraftFrom(parent: Product, variants: Product[]): VariantDraft {
+  const options = parent.variantOptions ?? [];
+  const rows: Record<string, VariantRowDraft> = {};
+  for (const attributes of variantCombinations(options)) {
+    rows[rowKey(options, attributes)] = { ...newRow, selected: false };
+  }
+  for (const variant of variants) {
+    rows[rowKey(options, variant.variantAttributes ?? {})] = {
+      selected: variant.isActive,
+      sku: variant.sku,
+      barcode: variant.barcode ?? "",
+      sellingPrice: parseFloat(variant.sellingPrice) === parseFloat(parent.sellingPrice) ? "" : variant.sellingPrice,
+      existing: variant,
+    };
+  }
+  return { options: options.map(option => ({ name: option.name, values: option.values.join(", ") })), rows };
+}
+
+export function variantMatrixFrom(draft: VariantDraft, parentSku: string): SaveProductVariants {
+  const options = parseOptions(draft);
+  const variants = variantCombinations(options).flatMap(attributes => {
+    const row = draft.rows[rowKey(options, attributes)] ?? newRow;
+    if (!row.selected) return [];
+    return [{
+      attributes,
+      sku: row.sku ?? generatedSku(parentSku, options, attributes),
+      barcode: row.barcode.trim() || null,
+      sellingPrice: row.sellingPrice.trim() || null,
+    }];
+  });
+  return { options, variants };
+}
+
+// Options such as Size and Colour and the grid of variants they generate
+export function VariantMatrixEditor({ draft, onChange, parentSku }: VariantMatrixEditorProps) {
+  const options = parseOptions(draft);
+  const combinations = options.length > 0 ? variantCombinations(options) : [];
+  const selectedCount = combinations.filter(attributes => (draft.rows[rowKey(options, attributes)] ?? newRow).selected).length;
+
+  const updateOption = (index: number, changes: Partial<VariantDraft["options"][number]>) => {
+    onChange({ ...draft, options: draft.options.map((option, i) => i === index ? { ...option, ...changes } : option) });
+  };
+
+  const updateRow = (key: string, changes: Partial<VariantRowDraft>) => {
+    onChange({ ...draft, rows: { ...draft.rows, [key]: { ...(draft.rows[key] ?? newRow), ...changes } } });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-4" data-testid="variant-matrix">
+      <div className="space-y-2">
+        {draft.options.map((option, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <Input
+              className="w-36"
+              placeholder="Option, e.g. Size"
+              value={option.name}
+              onChange={(e) => updateOption(index, { name: e.target.value })}
+              data-testid={`input-variant-option-name-${index}`}
+            />
+            <Input
+              className="flex-1"
+              placeholder="Values, e.g. S, M, L"
+              value={option.values}
+              onChange={(e) => updateOption(index, { values: e.target.value })}
+              data-testid={`input-variant-option-values-${index}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onChange({ ...draft, options: draft.options.filter((_, i) => i !== index) })}
+              data-testid={`button-remove-variant-option-${index}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {draft.options.length < MAX_OPTIONS && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...draft, options: [...draft.options, { name: "", values: "" }] })}
+            data-testid="button-add-variant-option"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Option
+          </Button>
+        )}
+      </div>
+
+      {combinations.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm" data-testid="table-variants">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="w-8 py-2"></th>
+                <th className="text-left py-2 font-medium">Variant</th>
+                <th className="text-left py-2 font-medium">SKU</th>
+                <th className="text-left py-2 font-medium">Barcode</th>
+                <th className="text-left py-2 font-medium">Price</th>
+                <th className="text-left py-2 font-medium">Stock</th>
+              </tr>
+            </thead>
+            <tbody>
+              {combinations.map((attributes) => {
+                const key = rowKey(options, attributes);
+                const row = draft.rows[key] ?? newRow;
+                const label = variantLabel(options, attributes);
+                return (
+                  <tr key={key} className="border-b border-border" data-testid={`variant-row-${label}`}>
+                    <td className="py-2">
+                      <Checkbox
+                        checked={row.selected}
+                        onCheckedChange={(checked) => updateRow(key, { selected: checked === true })}
+                        data-testid={`checkbox-variant-${label}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-2 font-medium whitespace-nowrap">{label}</td>
+                    <td className="py-2 pr-2">
+                      <Input
+                        className="h-8 w-36"
+                        disabled={!row.selected}
+                        value={row.sku ?? generatedSku(parentSku, options, attributes)}
+                        onChange={(e) => updateRow(key, { sku: e.target.value })}
+                        data-testid={`input-variant-sku-${label}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <Input
+                        className="h-8 w-36"
+                        placeholder="Generate"
+                        disabled={!row.selected}
+                        value={row.barcode}
+                        onChange={(e) => updateRow(key, { barcode: e.target.value })}
+                        data-testid={`input-variant-barcode-${label}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        className="h-8 w-24"
+                        placeholder="Same"
+                        disabled={!row.selected}
+                        value={row.sellingPrice}
+                        onChange={(e) => updateRow(key, { sellingPrice: e.target.value })}
+                        data-testid={`input-variant-price-${label}`}
+                      />
+                    </td>
+                    <td className="py-2 text-muted-foreground">{row.existing?.quantity ?? 0}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            {selectedCount} of {combinations.length} variants selected. A blank price follows the product's price; existing
+            variants that are unselected are deactivated. New variants start with no stock; add it through Inventory.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
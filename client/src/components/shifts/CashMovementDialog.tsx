@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAddCashMovement } from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@shared/schema";
+
+interface CashMovementDialogProps {
+  shiftId: string | null;
+  onClose: () => void;
+}
+
+// Records cash added to or taken from the drawer outside of a sale
+export function CashMovementDialog({ shiftId, onClose }: CashMovementDialogProps) {
+  const [type, setType] = useState<"in" | "out">("out");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const addCashMovement = useAddCashMovement();
+  const { toast } = useToast();
+
+  const close = () => {
+    setType("out");
+    setAmount("");
+    setReason("");
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shiftId) return;
+    try {
+      const movement = await addCashMovement.mutateAsync({
+        shiftId,
+        type,
+        amount: parseFloat(amount).toFixed(2),
+        reason: reason.trim(),
+      });
+      toast({
+        title: type === "in" ? "Cash Added" : "Cash Removed",
+        description: `${formatCurrency(movement.amount)} recorded: ${movement.reason}`,
+      });
+      close();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to record cash movement. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!shiftId} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Cash In / Out</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as "in" | "out")}>
+              <SelectTrigger data-testid="select-cash-movement-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="out">Cash out (petty cash, safe drop)</SelectItem>
+                <SelectItem value="in">Cash in (float top-up)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">Amount</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-cash-movement-amount"
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">Reason</Label>
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={200}
+              placeholder="e.g. Safe drop, milk for staff room"
+              data-testid="input-cash-movement-reason"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={close}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={addCashMovement.isPending || !(parseFloat(amount) > 0) || !reason.trim()}
+              data-testid="button-confirm-cash-movement"
+            >
+              {addCashMovement.isPending ? "Saving..." : "Record"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
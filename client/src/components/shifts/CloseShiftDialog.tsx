@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useCloseShift } from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ShiftReport } from "@shared/schema";
+import { ZReport } from "./ZReport";
+
+interface CloseShiftDialogProps {
+  shiftId: string | null;
+  onClose: () => void;
+}
+
+// Blind count: the expected amount is only revealed in the Z-report once the
+// counted cash has been submitted
+export function CloseShiftDialog({ shiftId, onClose }: CloseShiftDialogProps) {
+  const [countedCash, setCountedCash] = useState("");
+  const [closingNote, setClosingNote] = useState("");
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const closeShift = useCloseShift();
+  const { toast } = useToast();
+
+  const close = () => {
+    setCountedCash("");
+    setClosingNote("");
+    setReport(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shiftId) return;
+    try {
+      setReport(await closeShift.mutateAsync({
+        shiftId,
+        countedCash: parseFloat(countedCash).toFixed(2),
+        closingNote: closingNote.trim() || null,
+      }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to close shift. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!shiftId || !!report} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent className={report ? "max-w-lg max-h-[90vh] overflow-y-auto" : "max-w-sm"}>
+        <DialogHeader>
+          <DialogTitle>{report ? "Z-Report" : "Close Shift"}</DialogTitle>
+        </DialogHeader>
+        {report ? (
+          <div className="space-y-4">
+            <ZReport report={report} />
+            <div className="flex justify-end">
+              <Button onClick={close} data-testid="button-close-z-report">Done</Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label className="mb-2 block">Counted Cash</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={countedCash}
+                onChange={(e) => setCountedCash(e.target.value)}
+                placeholder="Total cash in the drawer"
+                data-testid="input-counted-cash"
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">Note (optional)</Label>
+              <Textarea
+                value={closingNote}
+                onChange={(e) => setClosingNote(e.target.value)}
+                maxLength={500}
+                data-testid="input-closing-note"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={close}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={closeShift.isPending || countedCash === "" || parseFloat(countedCash) < 0}
+                data-testid="button-confirm-close-shift"
+              >
+                {closeShift.isPending ? "Closing..." : "Close Shift"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useOpenShift, useLocations } from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface OpenShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The register and its location are remembered per browser so the till doesn't
+// have to pick them again
+const REGISTER_KEY = "pos-register";
+const LOCATION_KEY = "pos-location";
+
+export function OpenShiftDialog({ open, onOpenChange }: OpenShiftDialogProps) {
+  const [register, setRegister] = useState(() => localStorage.getItem(REGISTER_KEY) ?? "");
+  const [locationId, setLocationId] = useState(() => localStorage.getItem(LOCATION_KEY) ?? "");
+  const [openingFloat, setOpeningFloat] = useState("");
+  const { data: locations = [] } = useLocations();
+  const openShift = useOpenShift();
+  const { toast } = useToast();
+
+  const close = () => {
+    setOpeningFloat("");
+    onOpenChange(false);
+  };
+
+  const activeLocations = locations.filter(location => location.isActive);
+  const selectedLocation = activeLocations.some(location => location.id === locationId)
+    ? locationId
+    : activeLocations.find(location => location.isDefault)?.id ?? "";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await openShift.mutateAsync({
+        register: register.trim(),
+        locationId: selectedLocation,
+        openingFloat: (parseFloat(openingFloat) || 0).toFixed(2),
+      });
+      localStorage.setItem(REGISTER_KEY, register.trim());
+      localStorage.setItem(LOCATION_KEY, selectedLocation);
+      toast({
+        title: "Shift Opened",
+        description: `You can now ring up sales on ${register.trim()}.`,
+      });
+      close();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to open shift. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Open Shift</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Register</Label>
+            <Input
+              value={register}
+              onChange={(e) => setRegister(e.target.value)}
+              maxLength={50}
+              placeholder="e.g. Till 1"
+              data-testid="input-shift-register"
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">Location</Label>
+            <Select value={selectedLocation} onValueChange={setLocationId}>
+              <SelectTrigger data-testid="select-shift-location">
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeLocations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">Opening Float</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              placeholder="0.00"
+              data-testid="input-opening-float"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={close}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={openShift.isPending || !register.trim() || !selectedLocation || parseFloat(openingFloat) < 0}
+              data-testid="button-confirm-open-shift"
+            >
+              {openShift.isPending ? "Opening..." : "Open Shift"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
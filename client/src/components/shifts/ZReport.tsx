@@ -0,0 +1,107 @@
+import { Badge } from "@/components/ui/badge";
+import { formatCurrency, type ShiftReport } from "@shared/schema";
+
+const methodLabels: Record<string, string> = {
+  cash: "Cash",
+  card: "Card",
+  transfer: "Transfer",
+};
+
+const formatTime = (value: string | Date | null) => (value ? new Date(value).toLocaleString() : "-");
+
+function Row({ label, value, emphasis }: { label: string; value: string; emphasis?: boolean }) {
+  return (
+    <div className={`flex justify-between py-1 ${emphasis ? "font-semibold border-t border-border mt-1 pt-2" : ""}`}>
+      <span className={emphasis ? "" : "text-muted-foreground"}>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+// End-of-shift summary. For an open shift it shows the running position without a count.
+export function ZReport({ report }: { report: ShiftReport }) {
+  const { shift } = report;
+  const variance = report.variance ?? 0;
+
+  return (
+    <div className="space-y-5 text-sm" data-testid={`z-report-${shift.id}`}>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <p className="text-muted-foreground">Register</p>
+          <p className="font-medium">{shift.register}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Cashier</p>
+          <p className="font-medium">{shift.user?.fullName || shift.user?.username || "-"}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Opened</p>
+          <p className="font-medium">{formatTime(shift.openedAt)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Closed</p>
+          <p className="font-medium">{shift.status === "open" ? <Badge>Open</Badge> : formatTime(shift.closedAt)}</p>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-1">Sales</h4>
+        <Row label={`Sales (${report.salesCount})`} value={formatCurrency(report.salesTotal)} />
+        {report.tenders.map(tender => (
+          <Row key={tender.method} label={methodLabels[tender.method] ?? tender.method} value={formatCurrency(tender.amount)} />
+        ))}
+        <Row label={`Refunds (${report.refundsCount})`} value={`-${formatCurrency(report.refundsTotal)}`} />
+        {report.refundsByMethod.map(refund => (
+          <Row key={refund.method} label={`${methodLabels[refund.method] ?? refund.method} refunds`} value={`-${formatCurrency(refund.amount)}`} />
+        ))}
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-1">Cash Drawer</h4>
+        <Row label="Opening float" value={formatCurrency(shift.openingFloat)} />
+        <Row label="Cash sales" value={formatCurrency(report.cashSales)} />
+        <Row label="Cash refunds" value={`-${formatCurrency(report.cashRefunds)}`} />
+        <Row label="Cash in" value={formatCurrency(report.cashIn)} />
+        <Row label="Cash out" value={`-${formatCurrency(report.cashOut)}`} />
+        <Row label="Expected cash" value={formatCurrency(report.expectedCash)} emphasis />
+        {report.countedCash !== null && (
+          <>
+            <Row label="Counted cash" value={formatCurrency(report.countedCash)} />
+            <div className="flex justify-between items-center py-1 font-semibold">
+              <span>Variance</span>
+              <span className="flex items-center space-x-2">
+                <Badge variant={variance === 0 ? "secondary" : "destructive"} data-testid="badge-variance">
+                  {variance === 0 ? "Balanced" : variance > 0 ? "Over" : "Short"}
+                </Badge>
+                <span className={variance === 0 ? "" : "text-destructive"}>
+                  {variance > 0 ? "+" : variance < 0 ? "-" : ""}{formatCurrency(Math.abs(variance))}
+                </span>
+              </span>
+            </div>
+          </>
+        )}
+        {shift.closingNote && <p className="text-muted-foreground mt-2">Note: {shift.closingNote}</p>}
+      </div>
+
+      {report.movements.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-1">Cash Movements</h4>
+          <table className="w-full">
+            <tbody>
+              {report.movements.map(movement => (
+                <tr key={movement.id} className="border-b border-border">
+                  <td className="py-1 text-muted-foreground">{movement.createdAt ? new Date(movement.createdAt).toLocaleTimeString() : ""}</td>
+                  <td className="py-1">{movement.reason}</td>
+                  <td className="py-1 text-muted-foreground">{movement.username}</td>
+                  <td className="py-1 text-right">
+                    {movement.type === "out" ? "-" : ""}{formatCurrency(movement.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,445 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useProducts,
+  useSupplierProducts,
+  useSupplierPerformance,
+  useCreateSupplierProduct,
+  useUpdateSupplierProduct,
+  useDeleteSupplierProduct,
+} from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { hasPermission } from "@shared/permissions";
+import { formatCurrency } from "@shared/schema";
+import type { Supplier, SupplierProductWithDetails } from "@shared/schema";
+import { Plus, Edit, Trash2, Star, Package } from "lucide-react";
+
+interface SupplierDetailDialogProps {
+  supplier: Supplier | null;
+  onClose: () => void;
+}
+
+const formatDate = (value: string | Date | null) => (value ? new Date(value).toLocaleDateString() : "—");
+
+// A supplier's catalog with their SKUs and cost list, plus open orders and delivery record
+export function SupplierDetailDialog({ supplier, onClose }: SupplierDetailDialogProps) {
+  const { user } = useAuth();
+  const canViewOrders = hasPermission(user, "purchase_orders.view");
+  const { data: performance } = useSupplierPerformance(supplier && canViewOrders ? supplier.id : null);
+
+  return (
+    <Dialog open={!!supplier} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{supplier?.name}</DialogTitle>
+        </DialogHeader>
+        {supplier && (
+          <Tabs defaultValue="catalog">
+            <TabsList>
+              <TabsTrigger value="catalog" data-testid="tab-supplier-catalog">Catalog</TabsTrigger>
+              {canViewOrders && (
+                <TabsTrigger value="orders" data-testid="tab-supplier-orders">
+                  Open Orders ({performance?.openOrders.length ?? 0})
+                </TabsTrigger>
+              )}
+              {canViewOrders && (
+                <TabsTrigger value="deliveries" data-testid="tab-supplier-deliveries">Deliveries</TabsTrigger>
+              )}
+            </TabsList>
+
+            <TabsContent value="catalog">
+              <SupplierCatalog supplier={supplier} />
+            </TabsContent>
+
+            <TabsContent value="orders">
+              <div className="max-h-96 overflow-y-auto border border-border rounded-lg">
+                <table className="w-full text-sm" data-testid="supplier-open-orders">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left p-3 font-medium">Order #</th>
+                      <th className="text-left p-3 font-medium">Status</th>
+                      <th className="text-left p-3 font-medium">Total</th>
+                      <th className="text-left p-3 font-medium">Created</th>
+                      <th className="text-left p-3 font-medium">Expected</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {!performance || performance.openOrders.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="p-6 text-center text-muted-foreground">No open orders</td>
+                      </tr>
+                    ) : (
+                      performance.openOrders.map((order) => {
+                        const overdue = order.expectedAt && new Date(order.expectedAt) < new Date();
+                        return (
+                          <tr key={order.id} className="border-b border-border">
+                            <td className="p-3 font-medium">{order.orderNumber}</td>
+                            <td className="p-3 capitalize">{order.status.replace("_", " ")}</td>
+                            <td className="p-3">{formatCurrency(order.totalAmount)}</td>
+                            <td className="p-3 text-muted-foreground">{formatDate(order.createdAt)}</td>
+                            <td className={`p-3 ${overdue ? "text-destructive" : "text-muted-foreground"}`}>
+                              {formatDate(order.expectedAt)}{overdue ? " (overdue)" : ""}
+                            </td>
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="deliveries">
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground" data-testid="text-on-time-rate">
+                  {performance?.onTimeRate != null
+                    ? `${performance.onTimeRate}% of ${performance.deliveries.length} deliveries arrived on time`
+                    : "No completed deliveries yet"}
+                </p>
+                <div className="max-h-96 overflow-y-auto border border-border rounded-lg">
+                  <table className="w-full text-sm" data-testid="supplier-deliveries">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left p-3 font-medium">Order #</th>
+                        <th className="text-left p-3 font-medium">Ordered</th>
+                        <th className="text-left p-3 font-medium">Expected</th>
+                        <th className="text-left p-3 font-medium">Received</th>
+                        <th className="text-left p-3 font-medium">On Time</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {performance?.deliveries.map((delivery) => (
+                        <tr key={delivery.id} className="border-b border-border">
+                          <td className="p-3 font-medium">{delivery.orderNumber}</td>
+                          <td className="p-3 text-muted-foreground">{formatDate(delivery.createdAt)}</td>
+                          <td className="p-3 text-muted-foreground">{formatDate(delivery.expectedAt)}</td>
+                          <td className="p-3 text-muted-foreground">{formatDate(delivery.receivedAt)}</td>
+                          <td className="p-3">
+                            {delivery.daysLate === 0 ? (
+                              <Badge className="bg-success text-success-foreground">On time</Badge>
+                            ) : (
+                              <Badge variant="destructive">{delivery.daysLate} day{delivery.daysLate === 1 ? "" : "s"} late</Badge>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type CatalogForm = {
+  productId: string;
+  supplierSku: string;
+  packSize: string;
+  caseCost: string;
+  minOrderQuantity: string;
+  leadTimeDays: string;
+  isPreferred: boolean;
+};
+
+const emptyCatalogForm: CatalogForm = {
+  productId: "",
+  supplierSku: "",
+  packSize: "1",
+  caseCost: "",
+  minOrderQuantity: "1",
+  leadTimeDays: "",
+  isPreferred: false,
+};
+
+function SupplierCatalog({ supplier }: { supplier: Supplier }) {
+  const [editing, setEditing] = useState<SupplierProductWithDetails | "new" | null>(null);
+  const [form, setForm] = useState<CatalogForm>(emptyCatalogForm);
+
+  const { user } = useAuth();
+  const canEdit = hasPermission(user, "suppliers.edit");
+  const { data: entries = [], isLoading } = useSupplierProducts({ supplier: supplier.id });
+  const { data: products = [] } = useProducts();
+  const createEntry = useCreateSupplierProduct();
+  const updateEntry = useUpdateSupplierProduct();
+  const deleteEntry = useDeleteSupplierProduct();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (editing === "new") {
+      setForm(emptyCatalogForm);
+    } else if (editing) {
+      setForm({
+        productId: editing.productId,
+        supplierSku: editing.supplierSku ?? "",
+        packSize: String(editing.packSize),
+        caseCost: editing.caseCost,
+        minOrderQuantity: String(editing.minOrderQuantity),
+        leadTimeDays: editing.leadTimeDays === null ? "" : String(editing.leadTimeDays),
+        isPreferred: editing.isPreferred,
+      });
+    }
+  }, [editing]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = {
+      supplierSku: form.supplierSku.trim() || null,
+      packSize: parseInt(form.packSize, 10) || 1,
+      caseCost: form.caseCost,
+      minOrderQuantity: parseInt(form.minOrderQuantity, 10) || 1,
+      leadTimeDays: form.leadTimeDays === "" ? null : parseInt(form.leadTimeDays, 10),
+      isPreferred: form.isPreferred,
+    };
+    try {
+      if (editing === "new") {
+        await createEntry.mutateAsync({ ...data, supplierId: supplier.id, productId: form.productId });
+      } else if (editing) {
+        await updateEntry.mutateAsync({ id: editing.id, ...data });
+      }
+      toast({
+        title: "Catalog Updated",
+        description: `${supplier.name}'s catalog has been saved.`,
+      });
+      setEditing(null);
+    } catch (error) {
+      showError(error, "Failed to save catalog entry. Please try again.");
+    }
+  };
+
+  const handlePrefer = async (entry: SupplierProductWithDetails) => {
+    try {
+      await updateEntry.mutateAsync({ id: entry.id, isPreferred: true });
+    } catch (error) {
+      showError(error, "Failed to change the preferred supplier.");
+    }
+  };
+
+  const handleDelete = async (entry: SupplierProductWithDetails) => {
+    if (!confirm(`Remove ${entry.product?.name} from ${supplier.name}'s catalog?`)) return;
+    try {
+      await deleteEntry.mutateAsync(entry.id);
+    } catch (error) {
+      showError(error, "Failed to remove catalog entry.");
+    }
+  };
+
+  const available = products.filter(product => !product.variantOptions && !entries.some(entry => entry.productId === product.id));
+  const isSaving = createEntry.isPending || updateEntry.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Default lead time {supplier.leadTimeDays} day{supplier.leadTimeDays === 1 ? "" : "s"}
+        </p>
+        {canEdit && (
+          <Button size="sm" onClick={() => setEditing("new")} data-testid="button-add-catalog-entry">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Product
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-72 overflow-y-auto border border-border rounded-lg">
+        <table className="w-full text-sm" data-testid="supplier-catalog-table">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="text-left p-3 font-medium">Product</th>
+              <th className="text-left p-3 font-medium">Supplier SKU</th>
+              <th className="text-left p-3 font-medium">Pack</th>
+              <th className="text-left p-3 font-medium">Case Cost</th>
+              <th className="text-left p-3 font-medium">Unit Cost</th>
+              <th className="text-left p-3 font-medium">Min Order</th>
+              <th className="text-left p-3 font-medium">Lead Time</th>
+              {canEdit && <th className="text-left p-3 font-medium">Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading ? (
+              <tr>
+                <td colSpan={8} className="p-6 text-center text-muted-foreground">Loading...</td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="p-6 text-center text-muted-foreground">
+                  <Package className="h-10 w-10 mx-auto mb-2 opacity-50" />
+                  No products in this supplier's catalog
+                </td>
+              </tr>
+            ) : (
+              entries.map((entry) => (
+                <tr key={entry.id} className="border-b border-border" data-testid={`catalog-entry-${entry.id}`}>
+                  <td className="p-3">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-foreground">{entry.product?.name}</span>
+                      {entry.isPreferred && <Badge variant="secondary">Preferred</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">SKU: {entry.product?.sku}</div>
+                  </td>
+                  <td className="p-3 text-muted-foreground">{entry.supplierSku || "—"}</td>
+                  <td className="p-3">{entry.packSize}</td>
+                  <td className="p-3">{formatCurrency(entry.caseCost)}</td>
+                  <td className="p-3">{formatCurrency(parseFloat(entry.caseCost) / entry.packSize)}</td>
+                  <td className="p-3">{entry.minOrderQuantity}</td>
+                  <td className="p-3 text-muted-foreground">
+                    {entry.leadTimeDays ?? supplier.leadTimeDays} days
+                  </td>
+                  {canEdit && (
+                    <td className="p-3">
+                      <div className="flex space-x-1">
+                        {!entry.isPreferred && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Make preferred supplier"
+                            onClick={() => handlePrefer(entry)}
+                            data-testid={`button-prefer-${entry.id}`}
+                          >
+                            <Star className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" onClick={() => setEditing(entry)} data-testid={`button-edit-catalog-${entry.id}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive"
+                          onClick={() => handleDelete(entry)}
+                          data-testid={`button-delete-catalog-${entry.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editing && (
+        <form onSubmit={handleSave} className="border border-border rounded-lg p-4 space-y-4" data-testid="form-catalog-entry">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Product</Label>
+              {editing === "new" ? (
+                <Select value={form.productId} onValueChange={(value) => {
+                  const product = products.find(p => p.id === value);
+                  setForm({ ...form, productId: value, caseCost: form.caseCost || product?.costPrice || "" });
+                }}>
+                  <SelectTrigger data-testid="select-catalog-product">
+                    <SelectValue placeholder="Select a product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {available.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>{product.name} ({product.sku})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <p className="py-2 font-medium">{editing.product?.name}</p>
+              )}
+            </div>
+            <div>
+              <Label className="mb-2 block">Supplier SKU</Label>
+              <Input
+                value={form.supplierSku}
+                onChange={(e) => setForm({ ...form, supplierSku: e.target.value })}
+                data-testid="input-catalog-supplier-sku"
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">Pack Size (units per case)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={form.packSize}
+                onChange={(e) => setForm({ ...form, packSize: e.target.value })}
+                data-testid="input-catalog-pack-size"
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">Case Cost</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.caseCost}
+                onChange={(e) => setForm({ ...form, caseCost: e.target.value })}
+                data-testid="input-catalog-case-cost"
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">Minimum Order (units)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={form.minOrderQuantity}
+                onChange={(e) => setForm({ ...form, minOrderQuantity: e.target.value })}
+                data-testid="input-catalog-moq"
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">Lead Time (days)</Label>
+              <Input
+                type="number"
+                min={0}
+                placeholder={`${supplier.leadTimeDays} (supplier default)`}
+                value={form.leadTimeDays}
+                onChange={(e) => setForm({ ...form, leadTimeDays: e.target.value })}
+                data-testid="input-catalog-lead-time"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="catalog-preferred"
+                checked={form.isPreferred}
+                onCheckedChange={(checked) => setForm({ ...form, isPreferred: checked === true })}
+                data-testid="checkbox-catalog-preferred"
+              />
+              <Label htmlFor="catalog-preferred">Preferred supplier for this product</Label>
+            </div>
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSaving || !form.productId || !form.caseCost}
+                data-testid="button-save-catalog-entry"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+
+// Keyboard-wedge scanners type the code much faster than a person and finish with Enter
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Listens for scanner bursts anywhere on the page except inside form fields,
+// which receive the keystrokes themselves and handle Enter on their own.
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditable(event.target) || event.ctrlKey || event.altKey || event.metaKey) return;
+
+      const now = performance.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (event.key === "Enter") {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
@@ -2,9 +2,20 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "./queryClient";
 import type {
   Product, ProductWithDetails, Category, Supplier, Customer,
-  Sale, SaleWithDetails, DashboardMetrics, CartItem,
-  InsertProduct, InsertCategory, InsertSupplier, InsertCustomer,
-  InsertSale, InsertSaleItem
+  SupplierProduct, InsertSupplierProduct, SupplierProductWithDetails, SupplierPerformance,
+  Sale, SaleWithDetails, DashboardMetrics, CartItem, TopProduct, SalesDataPoint,
+  InsertProduct, SaveProductVariants, InsertCategory, InsertSupplier, InsertCustomer,
+  InsertSale, InsertSaleItem, PurchaseOrder, PurchaseOrderWithDetails,
+  InsertPurchaseOrder, InsertPurchaseOrderItem, ReceivePurchaseOrder, CreateDraftPurchaseOrders, ReorderSuggestionGroup,
+  CreateReturn, ReturnWithDetails, SaleReturnResult, CreateSale, PublicSettings,
+  Promotion, InsertPromotion, PromotionWithUsage, TenderBreakdown,
+  HeldSale, HeldSaleWithDetails, CreateHeldSale,
+  Shift, ShiftWithUser, ShiftReport, OpenShift, CreateCashMovement, CashMovement, CloseShift,
+  Location, InsertLocation, LocationStock, StockTransfer, StockTransferWithDetails, CreateTransfer, ReceiveTransfer,
+  Stocktake, StocktakeWithDetails, CreateStocktake, RecordCounts, PostStocktake,
+  AdjustStock, WriteOffLot, StockMovement, StockMovementWithDetails, GrossProfit, StockValuation,
+  StockLotWithDetails, LotSale, SerialNumber, SerialLookup,
+  SafeUser, CreateUser, UpdateUser, Role, RoleWithUsage, InsertRole, AuditLogEntry, SessionInfo
 } from "@shared/schema";
 
 // Dashboard API
@@ -14,35 +25,83 @@ export function useDashboardMetrics() {
   });
 }
 
-export function useTopProducts(limit = 5) {
-  return useQuery<Array<{ product: Product; totalSold: number; revenue: number }>>({
-    queryKey: ["/api/dashboard/top-products", { limit }],
+export type ReportFilters = {
+  start_date?: string;
+  end_date?: string;
+  days?: number;
+  category?: string;
+  cashier?: string;
+};
+
+// The default query function joins the key with "/", so queries with search
+// parameters fetch their URL explicitly.
+async function fetchWithParams<T>(path: string, filters: Record<string, string | number | undefined>): Promise<T> {
+  const params = new URLSearchParams(
+    Object.entries(filters)
+      .filter(([_, value]) => value !== undefined && value !== "")
+      .map(([key, value]) => [key, String(value)])
+  );
+  const queryString = params.toString();
+  const response = await apiRequest("GET", queryString ? `${path}?${queryString}` : path);
+  return response.json();
+}
+
+export function useTopProducts(filters: ReportFilters & { limit?: number; rank_by?: "quantity" | "revenue" } = {}) {
+  return useQuery<TopProduct[]>({
+    queryKey: ["/api/dashboard/top-products", filters],
+    queryFn: () => fetchWithParams<TopProduct[]>("/api/dashboard/top-products", filters),
+  });
+}
+
+export function useSalesData(filters: ReportFilters = {}) {
+  return useQuery<SalesDataPoint[]>({
+    queryKey: ["/api/dashboard/sales-data", filters],
+    queryFn: () => fetchWithParams<SalesDataPoint[]>("/api/dashboard/sales-data", filters),
+  });
+}
+
+export function useTenderBreakdown(filters: ReportFilters = {}) {
+  return useQuery<TenderBreakdown[]>({
+    queryKey: ["/api/dashboard/tenders", filters],
+    queryFn: () => fetchWithParams<TenderBreakdown[]>("/api/dashboard/tenders", filters),
+  });
+}
+
+// Cost reports need reports.cost, so callers pass `enabled` for users without it
+export function useGrossProfit(filters: ReportFilters = {}, enabled = true) {
+  return useQuery<GrossProfit>({
+    queryKey: ["/api/dashboard/gross-profit", filters],
+    queryFn: () => fetchWithParams<GrossProfit>("/api/dashboard/gross-profit", filters),
+    enabled,
   });
 }
 
-export function useSalesData(days = 7) {
-  return useQuery<Array<{ date: string; sales: number; transactions: number }>>({
-    queryKey: ["/api/dashboard/sales-data", { days }],
+export function useStockValuation(asOf?: string, enabled = true) {
+  return useQuery<StockValuation>({
+    queryKey: ["/api/dashboard/stock-valuation", { as_of: asOf }],
+    queryFn: () => fetchWithParams<StockValuation>("/api/dashboard/stock-valuation", { as_of: asOf }),
+    enabled,
+  });
+}
+
+// Settings API
+export function usePublicSettings() {
+  return useQuery<PublicSettings>({
+    queryKey: ["/api/settings/public"],
   });
 }
 
 // Products API
-export function useProducts(filters?: {
+export function useProducts(filters: {
   search?: string;
   category?: string;
   supplier?: string;
   stock_status?: string;
-}) {
-  // Filter out undefined values to avoid malformed query parameters
-  const cleanFilters = filters ? Object.fromEntries(
-    Object.entries(filters).filter(([_, value]) => value !== undefined && value !== "")
-  ) : {};
-
-  const params = new URLSearchParams(cleanFilters);
-  const queryString = params.toString();
-
+  location?: string;
+} = {}) {
   return useQuery<ProductWithDetails[]>({
-    queryKey: ["/api/products", queryString],
+    queryKey: ["/api/products", filters],
+    queryFn: () => fetchWithParams<ProductWithDetails[]>("/api/products", filters),
   });
 }
 
@@ -53,6 +112,13 @@ export function useProduct(id: string) {
   });
 }
 
+export function useProductStock(id: string | null) {
+  return useQuery<(LocationStock & { location?: { name: string } })[]>({
+    queryKey: ["/api/products", id, "stock"],
+    enabled: !!id,
+  });
+}
+
 export function useProductByBarcode(barcode: string) {
   return useQuery<Product>({
     queryKey: ["/api/products/barcode", barcode],
@@ -60,6 +126,20 @@ export function useProductByBarcode(barcode: string) {
   });
 }
 
+// Imperative lookup for scans; always hits the server so stock levels are current
+export function useBarcodeLookup() {
+  const queryClient = useQueryClient();
+
+  return (barcode: string) => queryClient.fetchQuery<Product>({
+    queryKey: ["/api/products/barcode", barcode],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/products/barcode/${encodeURIComponent(barcode)}`);
+      return response.json();
+    },
+    staleTime: 0,
+  });
+}
+
 export function useLowStockProducts() {
   return useQuery<ProductWithDetails[]>({
     queryKey: ["/api/products/low-stock"],
@@ -107,19 +187,309 @@ export function useDeleteProduct() {
   });
 }
 
+// Allocates in-house EAN-13s for products that don't have a barcode yet
+export function useGenerateBarcodes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (productIds: string[]): Promise<Product[]> => {
+      const response = await apiRequest("POST", "/api/products/generate-barcodes", { productIds });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    },
+  });
+}
+
+export function useProductVariants(parentId: string | null) {
+  return useQuery<ProductWithDetails[]>({
+    queryKey: ["/api/products", parentId, "variants"],
+    enabled: !!parentId,
+  });
+}
+
+export function useSaveProductVariants() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...matrix }: SaveProductVariants & { id: string }): Promise<ProductWithDetails[]> => {
+      const response = await apiRequest("PUT", `/api/products/${id}/variants`, matrix);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+  });
+}
+
 export function useAdjustStock() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, quantity, reason }: { id: string; quantity: number; reason?: string }): Promise<void> => {
-      await apiRequest("POST", `/api/products/${id}/adjust-stock`, { quantity, reason });
+    mutationFn: async ({ id, ...adjustment }: AdjustStock & { id: string }): Promise<StockMovement> => {
+      const response = await apiRequest("POST", `/api/products/${id}/adjust-stock`, adjustment);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+    },
+  });
+}
+
+export function useStockMovements(productId: string | null, location?: string) {
+  return useQuery<StockMovementWithDetails[]>({
+    queryKey: ["/api/stock-movements", { product_id: productId, location }],
+    queryFn: () => fetchWithParams<StockMovementWithDetails[]>("/api/stock-movements", { product_id: productId ?? undefined, location }),
+    enabled: !!productId,
+  });
+}
+
+// Serial numbers API
+export function useSerialNumbers(productId: string | null, status?: string) {
+  return useQuery<SerialNumber[]>({
+    queryKey: ["/api/products", productId, "serial-numbers", { status }],
+    queryFn: () => fetchWithParams<SerialNumber[]>(`/api/products/${productId}/serial-numbers`, { status }),
+    enabled: !!productId,
+  });
+}
+
+export function useSerialLookup(serialNumber: string) {
+  return useQuery<SerialLookup[]>({
+    queryKey: ["/api/serial-numbers", serialNumber],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/serial-numbers/${encodeURIComponent(serialNumber)}`);
+      return response.json();
+    },
+    enabled: !!serialNumber,
+  });
+}
+
+// Stock lots API
+export function useStockLots(productId: string | null, location?: string) {
+  return useQuery<StockLotWithDetails[]>({
+    queryKey: ["/api/stock-lots", { product: productId, location }],
+    queryFn: () => fetchWithParams<StockLotWithDetails[]>("/api/stock-lots", { product: productId ?? undefined, location }),
+    enabled: !!productId,
+  });
+}
+
+export function useExpiringLots() {
+  return useQuery<StockLotWithDetails[]>({
+    queryKey: ["/api/stock-lots/expiring"],
+  });
+}
+
+export function useLotSales(lotId: string | null) {
+  return useQuery<LotSale[]>({
+    queryKey: ["/api/stock-lots", lotId, "sales"],
+    enabled: !!lotId,
+  });
+}
+
+export function useWriteOffLot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...writeOff }: WriteOffLot & { id: string }): Promise<StockMovement> => {
+      const response = await apiRequest("POST", `/api/stock-lots/${id}/write-off`, writeOff);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-lots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+    },
+  });
+}
+
+// Locations API
+export function useLocations() {
+  return useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+}
+
+export function useCreateLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (location: InsertLocation): Promise<Location> => {
+      const response = await apiRequest("POST", "/api/locations", location);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+    },
+  });
+}
+
+export function useUpdateLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...location }: Partial<InsertLocation> & { id: string }): Promise<Location> => {
+      const response = await apiRequest("PUT", `/api/locations/${id}`, location);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+    },
+  });
+}
+
+export function useDeleteLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await apiRequest("DELETE", `/api/locations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+    },
+  });
+}
+
+export function useUpdateLocationStock() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ locationId, productId, minStockLevel }: { locationId: string; productId: string; minStockLevel: number | null }): Promise<LocationStock> => {
+      const response = await apiRequest("PUT", `/api/locations/${locationId}/stock/${productId}`, { minStockLevel });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+  });
+}
+
+// Stock transfers API
+export function useTransfers(status?: string) {
+  return useQuery<StockTransferWithDetails[]>({
+    queryKey: ["/api/transfers", { status }],
+    queryFn: () => fetchWithParams<StockTransferWithDetails[]>("/api/transfers", { status }),
+  });
+}
+
+export function useTransfer(id: string | null) {
+  return useQuery<StockTransferWithDetails>({
+    queryKey: ["/api/transfers", id],
+    enabled: !!id,
+  });
+}
+
+export function useCreateTransfer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (transfer: CreateTransfer): Promise<StockTransfer> => {
+      const response = await apiRequest("POST", "/api/transfers", transfer);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+    },
+  });
+}
+
+// Sending, receiving and cancelling all move stock
+function useTransferAction<T>(action: "send" | "receive" | "cancel") {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...body }: T & { id: string }): Promise<StockTransferWithDetails> => {
+      const response = await apiRequest("POST", `/api/transfers/${id}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+  });
+}
+
+export const useSendTransfer = () => useTransferAction<{}>("send");
+export const useReceiveTransfer = () => useTransferAction<ReceiveTransfer>("receive");
+export const useCancelTransfer = () => useTransferAction<{}>("cancel");
+
+// Stocktakes API
+export function useStocktakes(status?: string) {
+  return useQuery<StocktakeWithDetails[]>({
+    queryKey: ["/api/stocktakes", { status }],
+    queryFn: () => fetchWithParams<StocktakeWithDetails[]>("/api/stocktakes", { status }),
+  });
+}
+
+export function useStocktake(id: string | null) {
+  return useQuery<StocktakeWithDetails>({
+    queryKey: ["/api/stocktakes", id],
+    enabled: !!id,
+    // Other people may be counting at the same time
+    refetchInterval: 15000,
+  });
+}
+
+export function useCreateStocktake() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (stocktake: CreateStocktake): Promise<Stocktake> => {
+      const response = await apiRequest("POST", "/api/stocktakes", stocktake);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+    },
+  });
+}
+
+export function useRecordCounts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, counts }: RecordCounts & { id: string }): Promise<StocktakeWithDetails> => {
+      const response = await apiRequest("POST", `/api/stocktakes/${id}/counts`, { counts });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+    },
+  });
+}
+
+export function usePostStocktake() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...post }: PostStocktake & { id: string }): Promise<StocktakeWithDetails> => {
+      const response = await apiRequest("POST", `/api/stocktakes/${id}/post`, post);
+      return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
     },
   });
 }
 
+export function useCancelStocktake() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<StocktakeWithDetails> => {
+      const response = await apiRequest("POST", `/api/stocktakes/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+    },
+  });
+}
+
 // Categories API
 export function useCategories() {
   return useQuery<Category[]>({
@@ -168,6 +538,64 @@ export function useDeleteCategory() {
   });
 }
 
+// Promotions API
+export function usePromotions() {
+  return useQuery<PromotionWithUsage[]>({
+    queryKey: ["/api/promotions"],
+  });
+}
+
+// Promotions the till applies to the cart
+export function useActivePromotions() {
+  return useQuery<Promotion[]>({
+    queryKey: ["/api/promotions/active"],
+  });
+}
+
+export function useCreatePromotion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (promotion: InsertPromotion): Promise<Promotion> => {
+      const response = await apiRequest("POST", "/api/promotions", promotion);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions/active"] });
+    },
+  });
+}
+
+export function useUpdatePromotion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...promotion }: { id: string } & InsertPromotion): Promise<Promotion> => {
+      const response = await apiRequest("PUT", `/api/promotions/${id}`, promotion);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions/active"] });
+    },
+  });
+}
+
+export function useDeletePromotion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await apiRequest("DELETE", `/api/promotions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions/active"] });
+    },
+  });
+}
+
 // Suppliers API
 export function useSuppliers() {
   return useQuery<Supplier[]>({
@@ -216,8 +644,69 @@ export function useDeleteSupplier() {
   });
 }
 
-// Customers API
-export function useCustomers(search?: string) {
+export function useSupplierPerformance(supplierId: string | null) {
+  return useQuery<SupplierPerformance>({
+    queryKey: ["/api/suppliers", supplierId, "performance"],
+    enabled: !!supplierId,
+  });
+}
+
+// Supplier catalog API
+export function useSupplierProducts(filters: { supplier?: string; product?: string }, enabled = true) {
+  return useQuery<SupplierProductWithDetails[]>({
+    queryKey: ["/api/supplier-products", filters],
+    queryFn: () => fetchWithParams<SupplierProductWithDetails[]>("/api/supplier-products", filters),
+    enabled,
+  });
+}
+
+// The preferred entry is mirrored into products.supplierId, so products refresh too
+export function useCreateSupplierProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entry: InsertSupplierProduct): Promise<SupplierProduct> => {
+      const response = await apiRequest("POST", "/api/supplier-products", entry);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier-products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+  });
+}
+
+export function useUpdateSupplierProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...entry }: { id: string } & Partial<InsertSupplierProduct>): Promise<SupplierProduct> => {
+      const response = await apiRequest("PUT", `/api/supplier-products/${id}`, entry);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier-products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+  });
+}
+
+export function useDeleteSupplierProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await apiRequest("DELETE", `/api/supplier-products/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier-products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+  });
+}
+
+// Customers API
+export function useCustomers(search?: string) {
   const params = search ? new URLSearchParams({ search }) : new URLSearchParams();
   const queryString = params.toString();
   return useQuery<Customer[]>({
@@ -260,17 +749,445 @@ export function useCreateSale() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: {
-      sale: Omit<InsertSale, 'invoiceNumber' | 'userId'>;
-      items: InsertSaleItem[];
-    }): Promise<Sale> => {
+    mutationFn: async (data: CreateSale): Promise<SaleWithDetails & { changeDue: string }> => {
       const response = await apiRequest("POST", "/api/sales", data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-lots"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+    },
+  });
+}
+
+// Shifts API
+// The signed-in cashier's open shift with its running totals, or null
+export function useCurrentShift() {
+  return useQuery<ShiftReport | null>({
+    queryKey: ["/api/shifts", "current"],
+    staleTime: 0,
+  });
+}
+
+export function useShifts(filters: { user?: string; status?: string } = {}) {
+  return useQuery<ShiftWithUser[]>({
+    queryKey: ["/api/shifts", filters],
+    queryFn: () => fetchWithParams<ShiftWithUser[]>("/api/shifts", filters),
+    staleTime: 0,
+  });
+}
+
+export function useShiftReport(id: string | null) {
+  return useQuery<ShiftReport>({
+    queryKey: ["/api/shifts", id, "report"],
+    enabled: !!id,
+    staleTime: 0,
+  });
+}
+
+export function useOpenShift() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: OpenShift): Promise<Shift> => {
+      const response = await apiRequest("POST", "/api/shifts/open", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+    },
+  });
+}
+
+export function useAddCashMovement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ shiftId, ...data }: CreateCashMovement & { shiftId: string }): Promise<CashMovement> => {
+      const response = await apiRequest("POST", `/api/shifts/${shiftId}/cash-movements`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+    },
+  });
+}
+
+export function useCloseShift() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ shiftId, ...data }: CloseShift & { shiftId: string }): Promise<ShiftReport> => {
+      const response = await apiRequest("POST", `/api/shifts/${shiftId}/close`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+    },
+  });
+}
+
+// Held sales API
+export function useHeldSales() {
+  return useQuery<HeldSaleWithDetails[]>({
+    queryKey: ["/api/held-sales"],
+  });
+}
+
+export function useHoldSale() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (heldSale: CreateHeldSale): Promise<HeldSale> => {
+      const response = await apiRequest("POST", "/api/held-sales", heldSale);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/held-sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+  });
+}
+
+export function useRecallHeldSale() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<HeldSaleWithDetails> => {
+      const response = await apiRequest("POST", `/api/held-sales/${id}/recall`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/held-sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+  });
+}
+
+export function useDeleteHeldSale() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await apiRequest("DELETE", `/api/held-sales/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/held-sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+  });
+}
+
+export function useSaleByInvoice(invoiceNumber: string) {
+  return useQuery<SaleWithDetails>({
+    queryKey: ["/api/sales/invoice", invoiceNumber],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/sales/invoice/${encodeURIComponent(invoiceNumber)}`);
+      return response.json();
+    },
+    enabled: !!invoiceNumber,
+  });
+}
+
+// Returns API
+export function useReturns() {
+  return useQuery<ReturnWithDetails[]>({
+    queryKey: ["/api/returns"],
+  });
+}
+
+export function useCreateReturn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateReturn): Promise<SaleReturnResult> => {
+      const response = await apiRequest("POST", "/api/returns", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales/invoice"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
     },
   });
-}
\ No newline at end of file
+}
+
+// Purchase Orders API
+export function usePurchaseOrders(status?: string) {
+  return useQuery<PurchaseOrderWithDetails[]>({
+    queryKey: ["/api/purchase-orders", { status }],
+    queryFn: () => fetchWithParams<PurchaseOrderWithDetails[]>("/api/purchase-orders", { status }),
+  });
+}
+
+export function usePurchaseOrder(id: string | null) {
+  return useQuery<PurchaseOrderWithDetails>({
+    queryKey: ["/api/purchase-orders", id],
+    enabled: !!id,
+  });
+}
+
+export function useCreatePurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      order: Omit<InsertPurchaseOrder, 'orderNumber' | 'userId'>;
+      items: Omit<InsertPurchaseOrderItem, 'purchaseOrderId'>[];
+    }): Promise<PurchaseOrder> => {
+      const response = await apiRequest("POST", "/api/purchase-orders", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    },
+  });
+}
+
+export function useReceivePurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...receipt }: ReceivePurchaseOrder & { id: string }): Promise<PurchaseOrderWithDetails> => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${id}/receive`, receipt);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-lots"] });
+    },
+  });
+}
+
+export function useCancelPurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<PurchaseOrder> => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions"] });
+    },
+  });
+}
+
+export function useSubmitPurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<PurchaseOrder> => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${id}/submit`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    },
+  });
+}
+
+export function useReorderSuggestions(enabled = true, location?: string) {
+  return useQuery<ReorderSuggestionGroup[]>({
+    queryKey: ["/api/reorder-suggestions", { location }],
+    queryFn: () => fetchWithParams<ReorderSuggestionGroup[]>("/api/reorder-suggestions", { location }),
+    enabled,
+  });
+}
+
+export function useCreateDraftPurchaseOrders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: CreateDraftPurchaseOrders): Promise<PurchaseOrder[]> => {
+      const response = await apiRequest("POST", "/api/purchase-orders/drafts", request);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions"] });
+    },
+  });
+}
+
+// Users API
+export function useUsers(enabled = true) {
+  return useQuery<SafeUser[]>({
+    queryKey: ["/api/users"],
+    enabled,
+  });
+}
+
+export function useCreateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (user: CreateUser): Promise<SafeUser> => {
+      const response = await apiRequest("POST", "/api/users", user);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+    },
+  });
+}
+
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...user }: UpdateUser & { id: string }): Promise<SafeUser> => {
+      const response = await apiRequest("PUT", `/api/users/${id}`, user);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+    },
+  });
+}
+
+export function useResetPassword() {
+  return useMutation({
+    mutationFn: async ({ id, password }: { id: string; password: string }) => {
+      const response = await apiRequest("POST", `/api/users/${id}/reset-password`, { password });
+      return response.json();
+    },
+  });
+}
+
+export function useDeleteUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await apiRequest("DELETE", `/api/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+    },
+  });
+}
+
+// Signed-in devices for one user
+export function useUserSessions(userId: string | null) {
+  return useQuery<SessionInfo[]>({
+    queryKey: ["/api/users", userId, "sessions"],
+    enabled: !!userId,
+    staleTime: 0,
+  });
+}
+
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; userId: string }): Promise<void> => {
+      await apiRequest("DELETE", `/api/sessions/${id}`);
+    },
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "sessions"] });
+    },
+  });
+}
+
+export function useRevokeUserSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (userId: string): Promise<{ revoked: number }> => {
+      const response = await apiRequest("POST", `/api/users/${userId}/revoke-sessions`);
+      return response.json();
+    },
+    onSuccess: (_, userId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "sessions"] });
+    },
+  });
+}
+
+// Roles API
+export function useRoles() {
+  return useQuery<RoleWithUsage[]>({
+    queryKey: ["/api/roles"],
+  });
+}
+
+export function useCreateRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (role: InsertRole): Promise<Role> => {
+      const response = await apiRequest("POST", "/api/roles", role);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+    },
+  });
+}
+
+export function useUpdateRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...role }: Partial<InsertRole> & { id: string }): Promise<Role> => {
+      const response = await apiRequest("PUT", `/api/roles/${id}`, role);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      // The signed-in user's own permissions may have changed
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+  });
+}
+
+export function useDeleteRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await apiRequest("DELETE", `/api/roles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+    },
+  });
+}
+
+// Audit log API
+export type AuditLogQuery = {
+  user?: string;
+  entity_type?: string;
+  entity_id?: string;
+  action?: string;
+  start_date?: string;
+  end_date?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export function useAuditLog(filters: AuditLogQuery = {}) {
+  return useQuery<{ entries: AuditLogEntry[]; total: number }>({
+    queryKey: ["/api/audit-log", filters],
+    queryFn: () => fetchWithParams("/api/audit-log", filters),
+    // Entries arrive with every change made elsewhere in the app
+    staleTime: 0,
+  });
+}
+
+export function useAuditEntityTypes() {
+  return useQuery<string[]>({
+    queryKey: ["/api/audit-log/entity-types"],
+  });
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "./queryClient";
-import type { User } from "@shared/schema";
+import { apiRequest, getQueryFn } from "./queryClient";
+import type { AuthUser } from "@shared/schema";
 
 interface LoginRequest {
   username: string;
@@ -9,15 +9,16 @@ interface LoginRequest {
 
 interface LoginResponse {
   token: string;
-  user: User;
+  user: AuthUser;
 }
 
 export function useAuth() {
-  const { data: user, isLoading, error } = useQuery<User | null>({
+  const { data: user, isLoading, error } = useQuery<AuthUser | null>({
     queryKey: ["/api/auth/me"],
     retry: false,
     staleTime: 5 * 60 * 1000, // 5 minutes
-    enabled: !!localStorage.getItem("auth-token"), // Only query if token exists
+    // Always asked: a refresh cookie can restore the session even without a stored token
+    queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
   return { user, isLoading, error };
@@ -44,9 +45,22 @@ export function useLogout() {
 
   return useMutation({
     mutationFn: async () => {
-      localStorage.removeItem("auth-token");
-      queryClient.setQueryData(["/api/auth/me"], null);
-      queryClient.clear();
+      try {
+        await apiRequest("POST", "/api/auth/logout");
+      } finally {
+        localStorage.removeItem("auth-token");
+        queryClient.clear();
+        queryClient.setQueryData(["/api/auth/me"], null);
+      }
+    },
+  });
+}
+
+export function useUpdatePin() {
+  return useMutation({
+    mutationFn: async (data: { password: string; pin: string }) => {
+      const response = await apiRequest("PUT", "/api/auth/pin", data);
+      return response.json();
     },
   });
 }
@@ -0,0 +1,78 @@
+import { barcodeSvg } from "@shared/barcode";
+import { formatCurrency, type CurrencyCode, type Product } from "@shared/schema";
+
+export type LabelLayoutId = "a4" | "thermal58";
+
+export const labelLayouts: Record<LabelLayoutId, {
+  name: string;
+  page: string;
+  columns: number;
+  width: string;
+  height: string;
+  pageMargin: string;
+}> = {
+  // 24 labels per sheet, the common 70 x 37mm adhesive stock
+  a4: { name: "A4 sheet (3 × 8, 70 × 37mm)", page: "A4", columns: 3, width: "70mm", height: "37mm", pageMargin: "0.5mm 0" },
+  thermal58: { name: "58mm thermal roll (58 × 40mm)", page: "58mm 40mm", columns: 1, width: "58mm", height: "40mm", pageMargin: "0" },
+};
+
+export type LabelOptions = {
+  layout: LabelLayoutId;
+  currency: string;
+  showName: boolean;
+  showPrice: boolean;
+  showSku: boolean;
+  showBarcode: boolean;
+};
+
+export type LabelRequest = {
+  product: Product;
+  copies: number;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+function renderLabel(product: Product, options: LabelOptions): string {
+  const parts: string[] = [];
+  if (options.showName) parts.push(`<div class="name">${escapeHtml(product.name)}</div>`);
+  if (options.showPrice) {
+    parts.push(`<div class="price">${escapeHtml(formatCurrency(product.sellingPrice, options.currency as CurrencyCode))}</div>`);
+  }
+  if (options.showBarcode && product.barcode) {
+    parts.push(`<div class="barcode">${barcodeSvg(product.barcode)}</div>`);
+  }
+  if (options.showSku) parts.push(`<div class="sku">SKU: ${escapeHtml(product.sku)}</div>`);
+  return `<div class="label">${parts.join("")}</div>`;
+}
+
+// Complete HTML document for a label run; used for both the preview and printing
+export function buildLabelSheet(labels: LabelRequest[], options: LabelOptions): string {
+  const layout = labelLayouts[options.layout];
+  const body = labels
+    .flatMap(({ product, copies }) => Array.from({ length: copies }, () => renderLabel(product, options)))
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <title>Labels</title>
+    <style>
+      @page { size: ${layout.page}; margin: ${layout.pageMargin}; }
+      * { box-sizing: border-box; }
+      body { margin: 0; font-family: Arial, sans-serif; }
+      .sheet { display: grid; grid-template-columns: repeat(${layout.columns}, ${layout.width}); grid-auto-rows: ${layout.height}; }
+      .label { width: ${layout.width}; height: ${layout.height}; padding: 2mm 3mm; overflow: hidden;
+        display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center;
+        break-inside: avoid; page-break-inside: avoid; }
+      .name { font-size: 9pt; font-weight: bold; line-height: 1.1; max-height: 2.2em; overflow: hidden; }
+      .price { font-size: 14pt; font-weight: bold; margin: 1mm 0; }
+      .barcode { width: 100%; height: 14mm; }
+      .barcode svg { width: 100%; height: 100%; }
+      .sku { font-size: 7pt; color: #333; }
+      @media screen { body { background: #f3f4f6; padding: 8px; } .label { background: #fff; outline: 1px dashed #d1d5db; } }
+    </style>
+  </head>
+  <body><div class="sheet">${body}</div></body>
+</html>`;
+}
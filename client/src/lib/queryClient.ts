@@ -7,27 +7,74 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Parse the JSON body of an error thrown by throwIfResNotOk
+export function getErrorBody(error: unknown): { message?: string; details?: any } | null {
+  if (!(error instanceof Error)) return null;
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+// Pull the server's `message` out of an error thrown by throwIfResNotOk
+export function getErrorMessage(error: unknown, fallback: string): string {
+  return getErrorBody(error)?.message || fallback;
+}
+
+let refreshing: Promise<boolean> | null = null;
+
+// Trade the refresh cookie for a new access token. Concurrent callers share one
+// request; when it fails the session is over and the app drops back to login.
+export function refreshAccessToken(): Promise<boolean> {
+  refreshing ??= fetch("/api/auth/refresh", { method: "POST", credentials: "include" })
+    .then(async (res) => {
+      if (!res.ok) {
+        localStorage.removeItem("auth-token");
+        queryClient.setQueryData(["/api/auth/me"], null);
+        return false;
+      }
+      const { token } = await res.json();
+      localStorage.setItem("auth-token", token);
+      return true;
+    })
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+// Endpoints whose 401 is an answer rather than an expired access token
+const NO_REFRESH_PATHS = ["/api/auth/login", "/api/auth/refresh", "/api/auth/logout"];
+
+async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const token = localStorage.getItem("auth-token");
+    const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+    return fetch(url, { ...init, headers, credentials: "include" });
+  };
+
+  const res = await send();
+  if (res.status === 401 && !NO_REFRESH_PATHS.includes(url) && (await refreshAccessToken())) {
+    return send();
+  }
+  return res;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const token = localStorage.getItem("auth-token");
-  const headers: Record<string, string> = {};
-  
-  if (data) {
-    headers["Content-Type"] = "application/json";
-  }
-  
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
-
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
-    headers,
+    headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -40,17 +87,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const token = localStorage.getItem("auth-token");
-    const headers: Record<string, string> = {};
-    
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-
-    const res = await fetch(queryKey.join("/") as string, {
-      headers,
-      credentials: "include",
-    });
+    const res = await fetchWithAuth(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
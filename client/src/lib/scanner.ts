@@ -0,0 +1,40 @@
+// Helpers shared by the keyboard-wedge and camera scanners at the POS
+
+export type ScanInput = {
+  code: string;
+  quantity: number;
+};
+
+const MAX_SCAN_QUANTITY = 999;
+
+// Accepts a bare code or a quantity prefix such as "3*5012345678900"
+export function parseScanInput(raw: string): ScanInput | null {
+  const value = raw.trim();
+  const match = value.match(/^(\d{1,3})\s*[*xX]\s*(\S+)$/);
+  if (match) {
+    const quantity = parseInt(match[1], 10);
+    if (quantity < 1 || quantity > MAX_SCAN_QUANTITY) return null;
+    return { code: match[2], quantity };
+  }
+  if (!value || /\s/.test(value)) return null;
+  return { code: value, quantity: 1 };
+}
+
+let audioContext: AudioContext | null = null;
+
+// Short beep: a high tone for a good read, a low buzz for an unknown code
+export function playScanTone(kind: "success" | "error") {
+  try {
+    audioContext ??= new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = kind === "success" ? "sine" : "square";
+    oscillator.frequency.value = kind === "success" ? 1760 : 220;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (kind === "success" ? 0.08 : 0.3));
+  } catch {
+    // Audio is best-effort; some browsers block it until the page has been interacted with
+  }
+}
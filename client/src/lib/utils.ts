@@ -4,3 +4,6 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Scanners may separate serials with newlines, commas or tabs
+export const parseSerials = (value: string) => value.split(/[\n,\t]+/).map(serial => serial.trim()).filter(Boolean);
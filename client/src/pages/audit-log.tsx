@@ -0,0 +1,254 @@
+import { Fragment, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuditLog, useAuditEntityTypes, useUsers, type AuditLogQuery } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { hasPermission } from "@shared/permissions";
+import type { AuditLogEntry } from "@shared/schema";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+const actionLabel = (action: string) => action.replace(/[-_]/g, " ");
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return "—";
+  if (value === null) return "null";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+// Field-by-field view of what an entry changed
+function ChangeTable({ entry }: { entry: AuditLogEntry }) {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-muted-foreground">No recorded changes.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="border-b border-border">
+          <th className="text-left p-2 font-medium w-48">Field</th>
+          <th className="text-left p-2 font-medium">Before</th>
+          <th className="text-left p-2 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map(field => (
+          <tr key={field} className="border-b border-border align-top">
+            <td className="p-2 font-mono">{field}</td>
+            <td className="p-2 font-mono break-all text-destructive">{entry.before ? formatValue(before[field]) : "—"}</td>
+            <td className="p-2 font-mono break-all text-success">{entry.after ? formatValue(after[field]) : "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function AuditLog() {
+  const [filters, setFilters] = useState<AuditLogQuery>({});
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const canListUsers = hasPermission(user, "users.manage");
+  const { data, isLoading } = useAuditLog({ ...filters, limit: PAGE_SIZE, offset: page * PAGE_SIZE });
+  const { data: entityTypes = [] } = useAuditEntityTypes();
+  const { data: users = [] } = useUsers(canListUsers);
+
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const setFilter = (key: keyof AuditLogQuery, value: string | undefined) => {
+    setFilters(current => ({ ...current, [key]: value || undefined }));
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <h1 className="text-2xl font-semibold">Audit Log</h1>
+        <Badge variant="secondary" data-testid="audit-count">{total} entries</Badge>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {canListUsers && (
+              <div>
+                <Label className="mb-2 block">User</Label>
+                <Select value={filters.user ?? "all"} onValueChange={(value) => setFilter("user", value === "all" ? undefined : value)}>
+                  <SelectTrigger data-testid="select-audit-user">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All users</SelectItem>
+                    {users.map(u => (
+                      <SelectItem key={u.id} value={u.id}>{u.fullName || u.username}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label className="mb-2 block">Record Type</Label>
+              <Select
+                value={filters.entity_type ?? "all"}
+                onValueChange={(value) => setFilter("entity_type", value === "all" ? undefined : value)}
+              >
+                <SelectTrigger className="capitalize" data-testid="select-audit-entity-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All records</SelectItem>
+                  {entityTypes.map(type => (
+                    <SelectItem key={type} value={type} className="capitalize">{actionLabel(type)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-2 block">Record ID</Label>
+              <Input
+                value={filters.entity_id ?? ""}
+                onChange={(e) => setFilter("entity_id", e.target.value.trim())}
+                placeholder="Any"
+                data-testid="input-audit-entity-id"
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">From</Label>
+              <Input
+                type="date"
+                value={filters.start_date ?? ""}
+                onChange={(e) => setFilter("start_date", e.target.value)}
+                data-testid="input-audit-start-date"
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">To</Label>
+              <Input
+                type="date"
+                value={filters.end_date ?? ""}
+                onChange={(e) => setFilter("end_date", e.target.value)}
+                data-testid="input-audit-end-date"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Activity</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="audit-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="w-8"></th>
+                  <th className="text-left p-4 font-medium">Time</th>
+                  <th className="text-left p-4 font-medium">User</th>
+                  <th className="text-left p-4 font-medium">Action</th>
+                  <th className="text-left p-4 font-medium">Record</th>
+                  <th className="text-left p-4 font-medium">Status</th>
+                  <th className="text-left p-4 font-medium">IP Address</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  Array(5).fill(0).map((_, index) => (
+                    <tr key={index} className="border-b border-border animate-pulse">
+                      {Array(7).fill(0).map((_, cell) => (
+                        <td key={cell} className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
+                      ))}
+                    </tr>
+                  ))
+                ) : entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="p-8 text-center text-muted-foreground">
+                      <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      No activity matches these filters
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => {
+                    const isExpanded = expanded === entry.id;
+                    return (
+                      <Fragment key={entry.id}>
+                        <tr
+                          className="border-b border-border hover:bg-muted/50 cursor-pointer"
+                          onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                          data-testid={`audit-row-${entry.id}`}
+                        >
+                          <td className="pl-4">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </td>
+                          <td className="p-4 text-sm whitespace-nowrap">
+                            {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : "-"}
+                          </td>
+                          <td className="p-4 text-sm">{entry.username ?? "Unknown"}</td>
+                          <td className="p-4 text-sm">
+                            <div className="capitalize">{actionLabel(entry.action)}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{entry.method} {entry.path}</div>
+                          </td>
+                          <td className="p-4 text-sm">
+                            <div className="capitalize">{actionLabel(entry.entityType)}</div>
+                            {entry.entityId && (
+                              <div className="text-xs text-muted-foreground font-mono">{entry.entityId}</div>
+                            )}
+                          </td>
+                          <td className="p-4">
+                            <Badge variant={entry.statusCode >= 400 ? "destructive" : "secondary"}>{entry.statusCode}</Badge>
+                          </td>
+                          <td className="p-4 text-sm font-mono">{entry.ipAddress ?? "-"}</td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="border-b border-border bg-muted/30">
+                            <td></td>
+                            <td colSpan={6} className="p-4">
+                              <ChangeTable entry={entry} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between pt-4">
+            <p className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</p>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)} data-testid="button-audit-prev">
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page + 1 >= pageCount}
+                onClick={() => setPage(page + 1)}
+                data-testid="button-audit-next"
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { useDashboardMetrics, useTopProducts, useLowStockProducts } from "@/lib/api";
+import { Link } from "wouter";
+import { useDashboardMetrics, useTopProducts, useLowStockProducts, useExpiringLots } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { hasPermission } from "@shared/permissions";
 import { SalesChart } from "@/components/charts/SalesChart";
+import { ExpiryBadge } from "@/components/inventory/StockLotDrawer";
 import { formatCurrency } from "@shared/schema";
 import {
   DollarSign,
@@ -14,12 +18,15 @@ import {
   AlertTriangle,
   ArrowUp,
   Eye,
+  CalendarClock,
 } from "lucide-react";
 
 export default function Dashboard() {
   const { data: metrics, isLoading: metricsLoading } = useDashboardMetrics();
-  const { data: topProducts, isLoading: topProductsLoading } = useTopProducts(4);
+  const { data: topProducts, isLoading: topProductsLoading } = useTopProducts({ limit: 4, days: 1 });
   const { data: lowStockProducts, isLoading: lowStockLoading } = useLowStockProducts();
+  const { data: expiringLots = [] } = useExpiringLots();
+  const { user } = useAuth();
 
   if (metricsLoading) {
     return (
@@ -223,9 +230,11 @@ export default function Dashboard() {
                 {lowStockProducts?.length || 0} items
               </Badge>
             </div>
-            <Button variant="outline" size="sm" data-testid="button-view-all-alerts">
-              View All
-            </Button>
+            {hasPermission(user, "purchase_orders.view") && (
+              <Button variant="outline" size="sm" asChild data-testid="button-reorder-low-stock">
+                <Link href="/purchase-orders?reorder">Reorder</Link>
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -344,6 +353,48 @@ export default function Dashboard() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Expiring Lots */}
+      {expiringLots.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <CardTitle>Expiring Lots</CardTitle>
+              <Badge variant="destructive" data-testid="expiring-lots-count">
+                {expiringLots.length} lots
+              </Badge>
+            </div>
+            <Button variant="outline" size="sm" asChild data-testid="button-view-inventory-lots">
+              <Link href="/inventory">View Inventory</Link>
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {expiringLots.slice(0, 5).map((lot) => (
+                <div
+                  key={lot.id}
+                  className="flex items-center justify-between p-3 rounded-lg bg-warning/10 border border-warning/20"
+                  data-testid={`expiring-lot-${lot.id}`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <CalendarClock className="h-5 w-5 text-warning" />
+                    <div>
+                      <p className="font-medium text-foreground">{lot.product?.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Lot {lot.lotNumber} · {lot.location?.name}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right space-y-1">
+                    <p className="font-semibold">{lot.quantity} units</p>
+                    <ExpiryBadge expiryDate={lot.expiryDate} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
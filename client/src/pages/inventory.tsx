@@ -10,30 +10,65 @@ import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useProducts, useAdjustStock } from "@/lib/api";
+import { useProducts, useAdjustStock, useLocations, useProductStock, useUpdateLocationStock } from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
+import { parseSerials } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { Warehouse, Package, TrendingUp, TrendingDown, AlertTriangle } from "lucide-react";
+import { StockMovementDrawer } from "@/components/inventory/StockMovementDrawer";
+import { StockLotDrawer } from "@/components/inventory/StockLotDrawer";
+import { adjustmentReasonCodes, adjustmentReasonLabels } from "@shared/schema";
+import type { ProductWithDetails } from "@shared/schema";
+import { Warehouse, Package, TrendingUp, TrendingDown, AlertTriangle, History, Layers } from "lucide-react";
 
+// The quantity is a signed change; zero with a new minimum only updates the minimum
 const adjustStockSchema = z.object({
-  quantity: z.string().transform((val) => parseInt(val, 10)).refine((val) => !isNaN(val), "Must be a valid number"),
-  reason: z.string().min(1, "Reason is required"),
+  quantity: z.string().regex(/^-?\d+$/, "Enter a whole number, negative to remove stock"),
+  reasonCode: z.string(),
+  reason: z.string().max(500),
+  locationId: z.string().min(1, "Location is required"),
+  serialNumbers: z.string(), // serial-tracked products only
+  // Blank keeps the product's own minimum at this location
+  minStockLevel: z.string().refine((val) => val === "" || /^\d+$/.test(val), "Must be a whole number"),
+}).refine((values) => parseInt(values.quantity, 10) === 0 || values.reasonCode !== "", {
+  message: "Choose a reason",
+  path: ["reasonCode"],
+}).refine((values) => parseInt(values.quantity, 10) !== 0 || values.minStockLevel !== "", {
+  message: "Enter a change in stock",
+  path: ["quantity"],
 });
 
 export default function Inventory() {
   const [selectedProduct, setSelectedProduct] = useState<string | null>(null);
   const [isAdjustDialogOpen, setIsAdjustDialogOpen] = useState(false);
+  const [locationFilter, setLocationFilter] = useState("all");
+  const [historyProduct, setHistoryProduct] = useState<ProductWithDetails | null>(null);
+  const [lotsProduct, setLotsProduct] = useState<ProductWithDetails | null>(null);
   
-  const { data: products = [], isLoading, refetch } = useProducts();
+  const { data: locations = [] } = useLocations();
+  const { data: products = [], isLoading, refetch } = useProducts({
+    location: locationFilter !== "all" ? locationFilter : undefined,
+  });
+  const { data: productStock = [] } = useProductStock(selectedProduct);
   const adjustStock = useAdjustStock();
+  const updateLocationStock = useUpdateLocationStock();
   const { toast } = useToast();
 
+  const defaultLocationId = locations.find(location => location.isDefault)?.id ?? "";
+
   const form = useForm<z.infer<typeof adjustStockSchema>>({
     resolver: zodResolver(adjustStockSchema),
     defaultValues: {
-      quantity: 0,
+      quantity: "0",
+      reasonCode: "",
       reason: "",
+      locationId: "",
+      serialNumbers: "",
+      minStockLevel: "",
     },
   });
+  const adjustLocationId = form.watch("locationId");
+  const adjustLevel = productStock.find(level => level.locationId === adjustLocationId);
+  const adjustChange = parseInt(form.watch("quantity"), 10) || 0;
 
   const lowStockProducts = products.filter(p => p.trackStock && p.quantity <= p.minStockLevel);
   const outOfStockProducts = products.filter(p => p.trackStock && p.quantity === 0);
@@ -42,18 +77,38 @@ export default function Inventory() {
   const handleAdjustStock = (productId: string) => {
     setSelectedProduct(productId);
     setIsAdjustDialogOpen(true);
-    form.reset();
+    form.reset({
+      quantity: "0",
+      reasonCode: "",
+      reason: "",
+      locationId: locationFilter !== "all" ? locationFilter : defaultLocationId,
+      serialNumbers: "",
+      minStockLevel: "",
+    });
   };
 
   const onSubmit = async (values: z.infer<typeof adjustStockSchema>) => {
     if (!selectedProduct) return;
 
     try {
-      await adjustStock.mutateAsync({
-        id: selectedProduct,
-        quantity: values.quantity,
-        reason: values.reason,
-      });
+      const quantity = parseInt(values.quantity, 10);
+      if (quantity !== 0) {
+        await adjustStock.mutateAsync({
+          id: selectedProduct,
+          quantity,
+          reasonCode: values.reasonCode as typeof adjustmentReasonCodes[number],
+          reason: values.reason.trim() || null,
+          locationId: values.locationId,
+          serialNumbers: selectedProductData?.serialTracked ? parseSerials(values.serialNumbers) : undefined,
+        });
+      }
+      if (values.minStockLevel !== "") {
+        await updateLocationStock.mutateAsync({
+          locationId: values.locationId,
+          productId: selectedProduct,
+          minStockLevel: parseInt(values.minStockLevel, 10),
+        });
+      }
 
       toast({
         title: "Stock Adjusted",
@@ -66,7 +121,7 @@ export default function Inventory() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to adjust stock. Please try again.",
+        description: getErrorMessage(error, "Failed to adjust stock. Please try again."),
         variant: "destructive",
       });
     }
@@ -144,8 +199,21 @@ export default function Inventory() {
 
       {/* Inventory Table */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Inventory Overview</CardTitle>
+          <Select value={locationFilter} onValueChange={setLocationFilter}>
+            <SelectTrigger className="w-56" data-testid="select-location-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Locations</SelectItem>
+              {locations.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </CardHeader>
         <CardContent>
           <div className="overflow-x-auto">
@@ -156,6 +224,7 @@ export default function Inventory() {
                   <th className="text-left p-4 font-medium">SKU</th>
                   <th className="text-left p-4 font-medium">Category</th>
                   <th className="text-left p-4 font-medium">Current Stock</th>
+                  <th className="text-left p-4 font-medium">In Transit</th>
                   <th className="text-left p-4 font-medium">Min Level</th>
                   <th className="text-left p-4 font-medium">Value</th>
                   <th className="text-left p-4 font-medium">Status</th>
@@ -179,6 +248,7 @@ export default function Inventory() {
                       <td className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
                       <td className="p-4"><div className="h-4 bg-muted rounded w-12"></div></td>
                       <td className="p-4"><div className="h-4 bg-muted rounded w-12"></div></td>
+                      <td className="p-4"><div className="h-4 bg-muted rounded w-12"></div></td>
                       <td className="p-4"><div className="h-4 bg-muted rounded w-16"></div></td>
                       <td className="p-4"><div className="h-6 bg-muted rounded w-20"></div></td>
                       <td className="p-4"><div className="h-8 bg-muted rounded w-20"></div></td>
@@ -186,7 +256,7 @@ export default function Inventory() {
                   ))
                 ) : products.length === 0 ? (
                   <tr>
-                    <td colSpan={8} className="p-8 text-center text-muted-foreground">
+                    <td colSpan={9} className="p-8 text-center text-muted-foreground">
                       <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
                       No products found
                     </td>
@@ -227,6 +297,9 @@ export default function Inventory() {
                             {product.quantity}
                           </span>
                         </td>
+                        <td className="p-4 text-muted-foreground" data-testid={`text-in-transit-${product.id}`}>
+                          {product.inTransit ? product.inTransit : "-"}
+                        </td>
                         <td className="p-4 text-muted-foreground">{product.minStockLevel}</td>
                         <td className="p-4 text-foreground">
                           {formatCurrency(parseFloat(product.sellingPrice) * product.quantity)}
@@ -241,14 +314,36 @@ export default function Inventory() {
                           </Badge>
                         </td>
                         <td className="p-4">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleAdjustStock(product.id)}
-                            data-testid={`button-adjust-stock-${product.id}`}
-                          >
-                            Adjust Stock
-                          </Button>
+                          <div className="flex space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleAdjustStock(product.id)}
+                              data-testid={`button-adjust-stock-${product.id}`}
+                            >
+                              Adjust Stock
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Stock history"
+                              onClick={() => setHistoryProduct(product)}
+                              data-testid={`button-stock-history-${product.id}`}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                            {product.trackLots && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Lots and expiry"
+                                onClick={() => setLotsProduct(product)}
+                                data-testid={`button-stock-lots-${product.id}`}
+                              >
+                                <Layers className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
                         </td>
                       </tr>
                     );
@@ -270,21 +365,58 @@ export default function Inventory() {
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               {selectedProductData && (
                 <div className="p-4 bg-muted rounded-lg">
-                  <p className="text-sm text-muted-foreground">Current Stock</p>
-                  <p className="text-2xl font-bold">{selectedProductData.quantity} units</p>
+                  <p className="text-sm text-muted-foreground">Current Stock Here</p>
+                  <p className="text-2xl font-bold">
+                    {adjustLevel?.quantity ?? 0} units
+                    {adjustChange !== 0 && (
+                      <span className="text-base font-normal text-muted-foreground">
+                        {" "}→ {(adjustLevel?.quantity ?? 0) + adjustChange}
+                      </span>
+                    )}
+                  </p>
+                  {productStock.length > 1 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {productStock.map(level => `${level.location?.name}: ${level.quantity}`).join(" · ")}
+                    </p>
+                  )}
                 </div>
               )}
+
+              <FormField
+                control={form.control}
+                name="locationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-adjustment-location">
+                          <SelectValue placeholder="Select location" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {locations.filter(location => location.isActive).map((location) => (
+                          <SelectItem key={location.id} value={location.id}>
+                            {location.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               
               <FormField
                 control={form.control}
                 name="quantity"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Adjustment Quantity</FormLabel>
+                    <FormLabel>Change in Stock</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
-                        placeholder="Enter positive or negative number"
+                        placeholder="e.g. -2 to write off two units"
                         {...field}
                         data-testid="input-adjustment-quantity"
                       />
@@ -294,15 +426,80 @@ export default function Inventory() {
                 )}
               />
               
+              {selectedProductData?.serialTracked && adjustChange !== 0 && (
+                <FormField
+                  control={form.control}
+                  name="serialNumbers"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Serial Numbers ({Math.abs(adjustChange)})</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={adjustChange < 0 ? "One per line, the units taken out" : "One per line, the units found"}
+                          {...field}
+                          data-testid="textarea-adjustment-serials"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
-                name="reason"
+                name="reasonCode"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Reason</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-adjustment-reason">
+                          <SelectValue placeholder="Select a reason" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {adjustmentReasonCodes.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {adjustmentReasonLabels[code]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="minStockLevel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Min Level at This Location</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder={String(adjustLevel?.minStockLevel ?? selectedProductData?.minStockLevel ?? "")}
+                        {...field}
+                        data-testid="input-location-min-level"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Explain why you're adjusting the stock..."
+                        placeholder="Optional details for the stock history..."
                         {...field}
                         data-testid="textarea-adjustment-reason"
                       />
@@ -323,16 +520,28 @@ export default function Inventory() {
                 </Button>
                 <Button
                   type="submit"
-                  disabled={adjustStock.isPending}
+                  disabled={adjustStock.isPending || updateLocationStock.isPending}
                   data-testid="button-submit-adjustment"
                 >
-                  {adjustStock.isPending ? "Adjusting..." : "Adjust Stock"}
+                  {adjustStock.isPending || updateLocationStock.isPending ? "Saving..." : "Save"}
                 </Button>
               </div>
             </form>
           </Form>
         </DialogContent>
       </Dialog>
+
+      <StockMovementDrawer
+        product={historyProduct}
+        locationId={locationFilter !== "all" ? locationFilter : undefined}
+        onOpenChange={(open) => !open && setHistoryProduct(null)}
+      />
+
+      <StockLotDrawer
+        product={lotsProduct}
+        locationId={locationFilter !== "all" ? locationFilter : undefined}
+        onOpenChange={(open) => !open && setLotsProduct(null)}
+      />
     </div>
   );
 }
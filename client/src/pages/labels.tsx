@@ -0,0 +1,283 @@
+import { useMemo, useRef, useState } from "react";
+import { useSearch } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useProducts, usePurchaseOrders, usePurchaseOrder, usePublicSettings, useGenerateBarcodes,
+} from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import { buildLabelSheet, labelLayouts, type LabelLayoutId, type LabelOptions, type LabelRequest } from "@/lib/labels";
+import { useToast } from "@/hooks/use-toast";
+import { hasPermission } from "@shared/permissions";
+import type { Product } from "@shared/schema";
+import { Printer, Search, Barcode } from "lucide-react";
+
+type LabelSource = "products" | "purchase-order";
+
+export default function Labels() {
+  // Opened from a purchase order as /labels?po=<id>
+  const initialOrderId = new URLSearchParams(useSearch()).get("po");
+  const [source, setSource] = useState<LabelSource>(initialOrderId ? "purchase-order" : "products");
+  const [orderId, setOrderId] = useState<string | null>(initialOrderId);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selected, setSelected] = useState<Record<string, LabelRequest>>({});
+  const [layout, setLayout] = useState<LabelLayoutId>("a4");
+  const [fields, setFields] = useState({ showName: true, showPrice: true, showSku: false, showBarcode: true });
+  const previewRef = useRef<HTMLIFrameElement>(null);
+
+  const { data: products = [], isLoading: productsLoading } = useProducts({ search: searchQuery || undefined });
+  const { data: orders = [] } = usePurchaseOrders();
+  const { data: order } = usePurchaseOrder(source === "purchase-order" ? orderId : null);
+  const { data: settings } = usePublicSettings();
+  const generateBarcodes = useGenerateBarcodes();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const receivedOrders = orders.filter(o => o.status === "received" || o.status === "partially_received");
+  const canGenerate = hasPermission(user, "products.edit");
+
+  // One label per unit received on the order
+  const labels: LabelRequest[] = useMemo(() => {
+    if (source === "purchase-order") {
+      return (order?.items ?? [])
+        .filter(item => item.product && item.receivedQuantity > 0)
+        .map(item => ({ product: item.product!, copies: item.receivedQuantity }));
+    }
+    return Object.values(selected).filter(label => label.copies > 0);
+  }, [source, order, selected]);
+
+  const options: LabelOptions = { layout, currency: settings?.currency ?? "INR", ...fields };
+  const sheet = useMemo(() => buildLabelSheet(labels, options), [labels, layout, settings?.currency, fields]);
+  const labelCount = labels.reduce((sum, label) => sum + label.copies, 0);
+  const missingBarcodes = labels.filter(label => !label.product.barcode);
+
+  const toggleProduct = (product: Product, checked: boolean) => {
+    setSelected(current => {
+      const next = { ...current };
+      if (checked) {
+        next[product.id] = { product, copies: 1 };
+      } else {
+        delete next[product.id];
+      }
+      return next;
+    });
+  };
+
+  const setCopies = (productId: string, value: string) => {
+    setSelected(current => ({
+      ...current,
+      [productId]: { ...current[productId], copies: Math.max(0, parseInt(value || "0", 10)) },
+    }));
+  };
+
+  const handleGenerateBarcodes = async () => {
+    try {
+      const updated = await generateBarcodes.mutateAsync(missingBarcodes.map(label => label.product.id));
+      setSelected(current => {
+        const next = { ...current };
+        for (const product of updated) {
+          if (next[product.id]) next[product.id] = { ...next[product.id], product };
+        }
+        return next;
+      });
+      toast({
+        title: "Barcodes Generated",
+        description: `Assigned in-house barcodes to ${missingBarcodes.length} product(s).`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to generate barcodes. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePrint = () => {
+    const frame = previewRef.current?.contentWindow;
+    if (!frame) return;
+    frame.focus();
+    frame.print();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-2xl font-semibold">Labels</h1>
+          <Badge variant="secondary" data-testid="labels-count">
+            {labelCount} label{labelCount === 1 ? "" : "s"}
+          </Badge>
+        </div>
+        <Button onClick={handlePrint} disabled={labelCount === 0} data-testid="button-print-labels">
+          <Printer className="mr-2 h-4 w-4" />
+          Print Labels
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Layout</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label className="mb-2 block">Label Stock</Label>
+                <Select value={layout} onValueChange={(value) => setLayout(value as LabelLayoutId)}>
+                  <SelectTrigger data-testid="select-label-layout">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(labelLayouts).map(([id, option]) => (
+                      <SelectItem key={id} value={id}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="block">Show</Label>
+                {([
+                  ["showName", "Product name"],
+                  ["showPrice", "Price"],
+                  ["showBarcode", "Barcode"],
+                  ["showSku", "SKU"],
+                ] as const).map(([field, label]) => (
+                  <div key={field} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`label-${field}`}
+                      checked={fields[field]}
+                      onCheckedChange={(checked) => setFields(current => ({ ...current, [field]: checked === true }))}
+                      data-testid={`checkbox-${field}`}
+                    />
+                    <Label htmlFor={`label-${field}`}>{label}</Label>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Products</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Select value={source} onValueChange={(value) => setSource(value as LabelSource)}>
+                <SelectTrigger data-testid="select-label-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="products">Selected products</SelectItem>
+                  <SelectItem value="purchase-order">Received on a purchase order</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {source === "purchase-order" ? (
+                <Select value={orderId ?? ""} onValueChange={setOrderId}>
+                  <SelectTrigger data-testid="select-label-po">
+                    <SelectValue placeholder="Choose a purchase order" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {receivedOrders.map(o => (
+                      <SelectItem key={o.id} value={o.id}>
+                        {o.orderNumber}{o.supplier ? ` · ${o.supplier.name}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      placeholder="Search products..."
+                      className="pl-10"
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      data-testid="input-label-search"
+                    />
+                  </div>
+                  <div className="max-h-80 overflow-y-auto border border-border rounded-lg divide-y divide-border">
+                    {productsLoading ? (
+                      <p className="p-3 text-sm text-muted-foreground">Loading...</p>
+                    ) : products.map(product => (
+                      <div key={product.id} className="flex items-center justify-between p-3" data-testid={`label-product-${product.id}`}>
+                        <div className="flex items-center space-x-2 min-w-0">
+                          <Checkbox
+                            checked={!!selected[product.id]}
+                            onCheckedChange={(checked) => toggleProduct(product, checked === true)}
+                            data-testid={`checkbox-label-product-${product.id}`}
+                          />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{product.name}</p>
+                            <p className="text-xs text-muted-foreground">{product.barcode ?? "No barcode"}</p>
+                          </div>
+                        </div>
+                        {selected[product.id] && (
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-20"
+                            value={selected[product.id].copies}
+                            onChange={(e) => setCopies(product.id, e.target.value)}
+                            data-testid={`input-label-copies-${product.id}`}
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {fields.showBarcode && missingBarcodes.length > 0 && (
+                <div className="rounded-lg bg-warning/10 p-3 text-sm space-y-2">
+                  <p>{missingBarcodes.length} product(s) have no barcode and will print without one.</p>
+                  {canGenerate && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleGenerateBarcodes}
+                      disabled={generateBarcodes.isPending}
+                      data-testid="button-generate-barcodes"
+                    >
+                      <Barcode className="mr-2 h-4 w-4" />
+                      {generateBarcodes.isPending ? "Generating..." : "Generate Barcodes"}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {labelCount === 0 ? (
+              <div className="h-96 flex items-center justify-center text-muted-foreground" data-testid="text-no-labels">
+                Select products or a purchase order to preview labels.
+              </div>
+            ) : (
+              <iframe
+                ref={previewRef}
+                title="Label preview"
+                srcDoc={sheet}
+                className="w-full h-[36rem] rounded-lg border border-border bg-white"
+                data-testid="frame-label-preview"
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLocations, useCreateLocation, useUpdateLocation, useDeleteLocation } from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { InsertLocation, Location } from "@shared/schema";
+import { Plus, Edit, Trash2, MapPin, Star } from "lucide-react";
+
+const locationTypeLabels: Record<string, string> = {
+  store: "Store",
+  warehouse: "Warehouse",
+};
+
+const emptyForm: InsertLocation = {
+  name: "",
+  type: "store",
+  address: "",
+  isDefault: false,
+  isActive: true,
+};
+
+export default function Locations() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+
+  const { data: locations = [], isLoading } = useLocations();
+  const updateLocation = useUpdateLocation();
+  const deleteLocation = useDeleteLocation();
+  const { toast } = useToast();
+
+  const openCreate = () => {
+    setEditingLocation(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (location: Location) => {
+    setEditingLocation(location);
+    setIsDialogOpen(true);
+  };
+
+  const handleUpdate = async (location: Location, changes: Partial<InsertLocation>) => {
+    try {
+      await updateLocation.mutateAsync({ id: location.id, ...changes });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update location. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (location: Location) => {
+    if (confirm(`Are you sure you want to delete "${location.name}"? This action cannot be undone.`)) {
+      try {
+        await deleteLocation.mutateAsync(location.id);
+        toast({
+          title: "Location Deleted",
+          description: "Location has been deleted successfully.",
+        });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: getErrorMessage(error, "Failed to delete location. Please try again."),
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-2xl font-semibold">Locations</h1>
+          <Badge variant="secondary" data-testid="locations-count">
+            {locations.filter(location => location.isActive).length} active
+          </Badge>
+        </div>
+        <Button onClick={openCreate} data-testid="button-add-location">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Location
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stores & Warehouses</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="locations-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-4 font-medium">Name</th>
+                  <th className="text-left p-4 font-medium">Type</th>
+                  <th className="text-left p-4 font-medium">Address</th>
+                  <th className="text-left p-4 font-medium">Active</th>
+                  <th className="text-left p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  Array(3).fill(0).map((_, index) => (
+                    <tr key={index} className="border-b border-border animate-pulse">
+                      {Array(5).fill(0).map((_, cell) => (
+                        <td key={cell} className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
+                      ))}
+                    </tr>
+                  ))
+                ) : locations.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                      <MapPin className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      No locations yet
+                    </td>
+                  </tr>
+                ) : (
+                  locations.map((location) => (
+                    <tr key={location.id} className="border-b border-border" data-testid={`location-row-${location.id}`}>
+                      <td className="p-4">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium text-foreground">{location.name}</span>
+                          {location.isDefault && <Badge variant="secondary">Default</Badge>}
+                        </div>
+                      </td>
+                      <td className="p-4 text-muted-foreground">{locationTypeLabels[location.type] || location.type}</td>
+                      <td className="p-4 text-sm text-muted-foreground">{location.address || "—"}</td>
+                      <td className="p-4">
+                        <Switch
+                          checked={location.isActive}
+                          disabled={location.isDefault}
+                          onCheckedChange={(checked) => handleUpdate(location, { isActive: checked })}
+                          data-testid={`switch-location-active-${location.id}`}
+                        />
+                      </td>
+                      <td className="p-4">
+                        <div className="flex space-x-2">
+                          {!location.isDefault && location.isActive && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Make default"
+                              onClick={() => handleUpdate(location, { isDefault: true })}
+                              data-testid={`button-default-location-${location.id}`}
+                            >
+                              <Star className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openEdit(location)}
+                            data-testid={`button-edit-location-${location.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {!location.isDefault && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-destructive"
+                              onClick={() => handleDelete(location)}
+                              data-testid={`button-delete-location-${location.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <LocationFormDialog
+        open={isDialogOpen}
+        location={editingLocation}
+        onClose={() => setIsDialogOpen(false)}
+      />
+    </div>
+  );
+}
+
+interface LocationFormDialogProps {
+  open: boolean;
+  location: Location | null;
+  onClose: () => void;
+}
+
+function LocationFormDialog({ open, location, onClose }: LocationFormDialogProps) {
+  const [form, setForm] = useState<InsertLocation>(emptyForm);
+  const createLocation = useCreateLocation();
+  const updateLocation = useUpdateLocation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setForm(location
+        ? { name: location.name, type: location.type as InsertLocation["type"], address: location.address ?? "" }
+        : emptyForm);
+    }
+  }, [open, location]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = { ...form, address: form.address?.trim() || null };
+    try {
+      if (location) {
+        await updateLocation.mutateAsync({ id: location.id, ...data });
+        toast({
+          title: "Location Updated",
+          description: "Location has been updated successfully.",
+        });
+      } else {
+        await createLocation.mutateAsync(data);
+        toast({
+          title: "Location Added",
+          description: "New location has been added successfully.",
+        });
+      }
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, `Failed to ${location ? "update" : "add"} location. Please try again.`),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isSubmitting = createLocation.isPending || updateLocation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{location ? "Edit Location" : "Add Location"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Name</Label>
+            <Input
+              placeholder="Downtown Store"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              data-testid="input-location-name"
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">Type</Label>
+            <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as InsertLocation["type"] })}>
+              <SelectTrigger data-testid="select-location-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(locationTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">Address</Label>
+            <Input
+              value={form.address ?? ""}
+              onChange={(e) => setForm({ ...form, address: e.target.value })}
+              data-testid="input-location-address"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !form.name.trim()} data-testid="button-save-location">
+              {isSubmitting ? "Saving..." : location ? "Update Location" : "Add Location"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
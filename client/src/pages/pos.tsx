@@ -1,20 +1,48 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ProductGrid } from "@/components/pos/ProductGrid";
 import { Cart } from "@/components/pos/Cart";
-import { useProducts, useCustomers, useCategories } from "@/lib/api";
-import { Search, Scan, ShoppingCart } from "lucide-react";
-import type { CartItem } from "@shared/schema";
+import { HoldSaleDialog } from "@/components/pos/HoldSaleDialog";
+import { HeldSalesDrawer } from "@/components/pos/HeldSalesDrawer";
+import { CameraScannerDialog } from "@/components/pos/CameraScannerDialog";
+import { SerialScanDialog } from "@/components/pos/SerialScanDialog";
+import { VariantPickerDialog } from "@/components/pos/VariantPickerDialog";
+import { OpenShiftDialog } from "@/components/shifts/OpenShiftDialog";
+import { CashMovementDialog } from "@/components/shifts/CashMovementDialog";
+import { CloseShiftDialog } from "@/components/shifts/CloseShiftDialog";
+import {
+  useProducts, useCustomers, useCategories, usePublicSettings, useActivePromotions,
+  useHeldSales, useHoldSale, useBarcodeLookup, useCurrentShift
+} from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import { parseScanInput, playScanTone } from "@/lib/scanner";
+import { useToast } from "@/hooks/use-toast";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { Search, Scan, ShoppingCart, History, Wallet, ArrowLeftRight, LogOut } from "lucide-react";
+import { calculateDiscount } from "@shared/schema";
+import { applyPromotions } from "@shared/promotions";
+import type { CartItem, CartPayment, Discount, HeldSaleWithDetails, Product } from "@shared/schema";
 
 export default function POS() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [cart, setCart] = useState<CartItem[]>([]);
   const [selectedCustomer, setSelectedCustomer] = useState<string | null>(null);
-  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [payments, setPayments] = useState<CartPayment[]>([]);
+  const [cartDiscount, setCartDiscount] = useState<Discount | undefined>();
+  const [holdDialogOpen, setHoldDialogOpen] = useState(false);
+  const [heldSalesOpen, setHeldSalesOpen] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [scanFailed, setScanFailed] = useState(false);
+  const [serialProduct, setSerialProduct] = useState<Product | null>(null);
+  const [variantParent, setVariantParent] = useState<Product | null>(null);
+  const [openShiftOpen, setOpenShiftOpen] = useState(false);
+  const [cashMovementShift, setCashMovementShift] = useState<string | null>(null);
+  const [closingShift, setClosingShift] = useState<string | null>(null);
 
   const { data: products = [], isLoading: productsLoading } = useProducts({
     search: searchQuery || undefined,
@@ -23,6 +51,21 @@ export default function POS() {
 
   const { data: customers = [] } = useCustomers();
   const { data: categoriesData = [] } = useCategories();
+  const { data: settings } = usePublicSettings();
+  const { data: activePromotions = [] } = useActivePromotions();
+  const { data: heldSales = [] } = useHeldSales();
+  const { data: currentShift, isLoading: shiftLoading } = useCurrentShift();
+  const holdSale = useHoldSale();
+  const lookupBarcode = useBarcodeLookup();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Variants are picked from their parent's card; they only get a card of their
+  // own when a search matches the variant but not the parent
+  const gridProducts = useMemo(
+    () => products.filter(p => !p.parentId || (p.isActive && !products.some(parent => parent.id === p.parentId))),
+    [products],
+  );
 
   // Build categories list with "All" option plus real categories from database
   const categories = [
@@ -30,6 +73,61 @@ export default function POS() {
     ...categoriesData.map(cat => ({ id: cat.id, name: cat.name }))
   ];
 
+  // Functional update so scans arriving in quick succession don't overwrite each other.
+  // Serial-tracked products are added one unit at a time once their serial is scanned,
+  // and a product with variants asks which variant first.
+  const addProductToCart = (product: Product, quantity = 1) => {
+    if (product.variantOptions) {
+      setVariantParent(product);
+      return;
+    }
+    if (product.trackStock && product.serialTracked) {
+      setSerialProduct(product);
+      return;
+    }
+    setCart(current => {
+      const existingItem = current.find(item => item.productId === product.id);
+      if (existingItem) {
+        return current.map(item =>
+          item.productId === product.id
+            ? { ...item, quantity: item.quantity + quantity, totalPrice: (item.quantity + quantity) * item.unitPrice }
+            : item
+        );
+      }
+      const unitPrice = parseFloat(product.sellingPrice);
+      return [...current, {
+        productId: product.id,
+        product,
+        quantity,
+        unitPrice,
+        totalPrice: quantity * unitPrice,
+      }];
+    });
+  };
+
+  const addSerialToCart = (product: Product, serialNumber: string) => {
+    setCart(current => {
+      const existingItem = current.find(item => item.productId === product.id);
+      if (existingItem) {
+        const serialNumbers = [...(existingItem.serialNumbers ?? []), serialNumber];
+        return current.map(item =>
+          item.productId === product.id
+            ? { ...item, serialNumbers, quantity: serialNumbers.length, totalPrice: serialNumbers.length * item.unitPrice }
+            : item
+        );
+      }
+      const unitPrice = parseFloat(product.sellingPrice);
+      return [...current, {
+        productId: product.id,
+        product,
+        quantity: 1,
+        serialNumbers: [serialNumber],
+        unitPrice,
+        totalPrice: unitPrice,
+      }];
+    });
+  };
+
   const addToCart = (productId: string) => {
     console.log("Adding to cart:", productId);
     const product = products.find(p => p.id === productId);
@@ -37,28 +135,59 @@ export default function POS() {
       console.log("Product not found:", productId);
       return;
     }
+    addProductToCart(product);
+  };
 
-    const existingItem = cart.find(item => item.productId === productId);
-    if (existingItem) {
-      setCart(cart.map(item =>
-        item.productId === productId
-          ? { ...item, quantity: item.quantity + 1, totalPrice: (item.quantity + 1) * item.unitPrice }
-          : item
-      ));
-    } else {
-      const newItem: CartItem = {
-        productId,
-        product,
-        quantity: 1,
-        unitPrice: parseFloat(product.sellingPrice),
-        totalPrice: parseFloat(product.sellingPrice),
-      };
-      console.log("New cart item:", newItem);
-      setCart([...cart, newItem]);
+  const rejectScan = (title: string, description: string) => {
+    playScanTone("error");
+    setScanFailed(true);
+    setTimeout(() => setScanFailed(false), 1500);
+    toast({ title, description, variant: "destructive" });
+  };
+
+  // Returns whether the scan added something to the cart
+  const handleScan = async (raw: string): Promise<boolean> => {
+    const scan = parseScanInput(raw);
+    if (!scan) {
+      rejectScan("Invalid Scan", `"${raw}" is not a barcode.`);
+      return false;
+    }
+
+    let product: Product;
+    try {
+      product = await lookupBarcode(scan.code);
+    } catch {
+      rejectScan("Unknown Barcode", `No product matches "${scan.code}".`);
+      return false;
+    }
+    if (!product.isActive) {
+      rejectScan("Product Inactive", `${product.name} is not available for sale.`);
+      return false;
+    }
+
+    addProductToCart(product, scan.quantity);
+    playScanTone("success");
+    return true;
+  };
+
+  useBarcodeScanner(handleScan, !cameraOpen && !serialProduct && !variantParent);
+
+  const handleSearchKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Free text with spaces is a search, not a code
+    if (e.key !== "Enter" || !parseScanInput(searchQuery)) return;
+    e.preventDefault();
+    // Scanners pointed at the search box finish with Enter; keep the text on a miss so it still filters
+    if (await handleScan(searchQuery)) {
+      setSearchQuery("");
     }
   };
 
   const updateQuantity = (productId: string, change: number) => {
+    const serialItem = cart.find(item => item.productId === productId && item.serialNumbers);
+    if (serialItem && change > 0) {
+      setSerialProduct(serialItem.product);
+      return;
+    }
     setCart(cart.map(item => {
       if (item.productId === productId) {
         const newQuantity = Math.max(0, item.quantity + change);
@@ -68,6 +197,8 @@ export default function POS() {
         return {
           ...item,
           quantity: newQuantity,
+          // The most recently scanned units come off first
+          serialNumbers: item.serialNumbers?.slice(0, newQuantity),
           totalPrice: newQuantity * item.unitPrice,
         };
       }
@@ -75,87 +206,298 @@ export default function POS() {
     }).filter(Boolean) as CartItem[]);
   };
 
+  const updatePrice = (productId: string, unitPrice: number) => {
+    setCart(cart.map(item =>
+      item.productId === productId
+        ? { ...item, unitPrice, totalPrice: item.quantity * unitPrice }
+        : item
+    ));
+  };
+
+  const updateDiscount = (productId: string, discount: Discount | undefined) => {
+    setCart(cart.map(item =>
+      item.productId === productId
+        ? { ...item, discount }
+        : item
+    ));
+  };
+
   const removeFromCart = (productId: string) => {
     setCart(cart.filter(item => item.productId !== productId));
   };
 
   const clearCart = () => {
     setCart([]);
+    setCartDiscount(undefined);
+    setPayments([]);
+  };
+
+  const handleHoldSale = async (note: string) => {
+    try {
+      await holdSale.mutateAsync({
+        customerId: selectedCustomer,
+        note: note || null,
+        items: cart.map(item => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice !== parseFloat(item.product.sellingPrice) ? item.unitPrice.toFixed(2) : undefined,
+          discount: item.discount,
+          serialNumbers: item.serialNumbers,
+        })),
+        cartDiscount,
+      });
+      toast({
+        title: "Sale On Hold",
+        description: "The cart has been parked and can be recalled from Held Sales.",
+      });
+      setHoldDialogOpen(false);
+      clearCart();
+      setSelectedCustomer(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to hold sale. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const recallHeldSale = (heldSale: HeldSaleWithDetails) => {
+    // Products deleted since the sale was held are dropped from the cart
+    const items = heldSale.items.flatMap((item): CartItem[] => {
+      if (!item.product) return [];
+      const unitPrice = parseFloat(item.unitPrice ?? item.product.sellingPrice);
+      return [{
+        productId: item.productId,
+        product: item.product,
+        quantity: item.quantity,
+        serialNumbers: item.serialNumbers,
+        unitPrice,
+        discount: item.discount,
+        totalPrice: item.quantity * unitPrice,
+      }];
+    });
+    setCart(items);
+    setCartDiscount(heldSale.cartDiscount ?? undefined);
+    setPayments([]);
+    setSelectedCustomer(heldSale.customerId);
+    toast({
+      title: "Sale Recalled",
+      description: items.length < heldSale.items.length
+        ? "Some products no longer exist and were left out."
+        : "The held cart has been restored.",
+    });
   };
 
-  const subtotal = cart.reduce((sum, item) => sum + item.totalPrice, 0);
-  const taxRate = 0.085; // 8.5%
-  const taxAmount = subtotal * taxRate;
-  const total = subtotal + taxAmount;
+  // Display estimate only; the server recomputes prices, promotions and tax when the sale is saved
+  const pricedCart = useMemo(() => {
+    const { lineDiscounts, allocations } = applyPromotions(
+      cart.map(item => ({
+        productId: item.productId,
+        categoryId: item.product.categoryId,
+        supplierId: item.product.supplierId,
+        quantity: item.quantity,
+        unitPrice: Math.round(item.unitPrice * 100),
+      })),
+      activePromotions,
+      new Date(),
+      settings?.timezone ?? "UTC",
+    );
+
+    return cart.map((item, index): CartItem => {
+      const promotionDiscount = lineDiscounts[index] / 100;
+      const afterPromotions = item.quantity * item.unitPrice - promotionDiscount;
+      const promotionNames = allocations
+        .filter(allocation => allocation.lineIndex === index)
+        .map(allocation => activePromotions.find(p => p.id === allocation.promotionId)?.name ?? "Promotion");
+      return {
+        ...item,
+        promotionDiscount,
+        promotionNames,
+        totalPrice: afterPromotions - calculateDiscount(afterPromotions, item.discount),
+      };
+    });
+  }, [cart, activePromotions, settings?.timezone]);
+
+  const subtotal = pricedCart.reduce((sum, item) => sum + item.totalPrice, 0);
+  const cartDiscountAmount = calculateDiscount(subtotal, cartDiscount);
+  const discountTotal = pricedCart.reduce((sum, item) => sum + item.quantity * item.unitPrice - item.totalPrice, 0) + cartDiscountAmount;
+  const taxRate = parseFloat(settings?.taxRate ?? "0");
+  const taxAmount = Math.round((subtotal - cartDiscountAmount) * taxRate) / 100;
+  const total = subtotal - cartDiscountAmount + taxAmount;
+  const canOverridePrice = !!user && (settings?.priceOverrideRoles ?? []).includes(user.role);
+  const discountLimit = user ? settings?.discountLimits?.[user.role] ?? 0 : 0;
+
+  const shift = currentShift?.shift;
 
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-10rem)]">
-      {/* Product Search & Categories */}
-      <div className="lg:col-span-2 bg-card rounded-xl border border-border overflow-hidden">
-        <CardHeader className="pb-4">
-          <div className="flex items-center justify-between">
-            <CardTitle>Products</CardTitle>
-            <div className="flex items-center space-x-3">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                <Input
-                  placeholder="Search or scan barcode..."
-                  className="pl-10 w-80"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  data-testid="input-product-search"
-                />
-              </div>
-              <Button data-testid="button-scan-barcode">
-                <Scan className="mr-2 h-4 w-4" />
-                Scan
-              </Button>
+    <div className="space-y-4">
+      {/* Shift */}
+      <div className="flex items-center justify-between bg-card rounded-xl border border-border px-4 py-3" data-testid="shift-bar">
+        {shift ? (
+          <>
+            <div className="flex items-center space-x-3 text-sm">
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+              <span className="font-medium">{shift.register}</span>
+              <span className="text-muted-foreground">
+                Shift opened {shift.openedAt ? new Date(shift.openedAt).toLocaleTimeString() : ""}
+              </span>
+              <Badge variant="secondary">{currentShift.salesCount} sales</Badge>
             </div>
-          </div>
-        </CardHeader>
-
-        <CardContent className="pb-4">
-          {/* Category Tabs */}
-          <div className="flex space-x-1 mb-6 bg-muted rounded-lg p-1">
-            {categories.map((category) => (
-              <Button
-                key={category.id}
-                variant={selectedCategory === category.id ? "default" : "ghost"}
-                className={`flex-1 ${selectedCategory === category.id ? 'bg-primary text-primary-foreground' : ''}`}
-                onClick={() => setSelectedCategory(category.id)}
-                data-testid={`tab-category-${category.id}`}
-              >
-                {category.name}
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setCashMovementShift(shift.id)} data-testid="button-cash-movement">
+                <ArrowLeftRight className="mr-2 h-4 w-4" />
+                Cash In/Out
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setClosingShift(shift.id)} data-testid="button-close-shift">
+                <LogOut className="mr-2 h-4 w-4" />
+                Close Shift
               </Button>
-            ))}
-          </div>
-
-          {/* Product Grid */}
-          <div className="overflow-y-auto max-h-96">
-            <ProductGrid
-              products={products}
-              onAddToCart={addToCart}
-              isLoading={productsLoading}
-            />
-          </div>
-        </CardContent>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center space-x-3 text-sm text-muted-foreground">
+              <Wallet className="h-4 w-4" />
+              <span>{shiftLoading ? "Checking shift..." : "No open shift. Open one to start selling."}</span>
+            </div>
+            <Button size="sm" disabled={shiftLoading} onClick={() => setOpenShiftOpen(true)} data-testid="button-open-shift">
+              Open Shift
+            </Button>
+          </>
+        )}
       </div>
 
-      {/* Cart & Checkout */}
-      <Cart
-        items={cart}
-        customers={customers}
-        selectedCustomer={selectedCustomer}
-        onCustomerChange={setSelectedCustomer}
-        paymentMethod={paymentMethod}
-        onPaymentMethodChange={setPaymentMethod}
-        onUpdateQuantity={updateQuantity}
-        onRemoveItem={removeFromCart}
-        onClearCart={clearCart}
-        subtotal={subtotal}
-        taxAmount={taxAmount}
-        total={total}
-      />
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-14rem)]">
+        {/* Product Search & Categories */}
+        <div className="lg:col-span-2 bg-card rounded-xl border border-border overflow-hidden">
+          <CardHeader className="pb-4">
+            <div className="flex items-center justify-between">
+              <CardTitle>Products</CardTitle>
+              <div className="flex items-center space-x-3">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    placeholder="Search or scan barcode..."
+                    className={`pl-10 w-80 ${scanFailed ? "ring-2 ring-destructive" : ""}`}
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={handleSearchKeyDown}
+                    data-testid="input-product-search"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => setHeldSalesOpen(true)}
+                  data-testid="button-held-sales"
+                >
+                  <History className="mr-2 h-4 w-4" />
+                  Held
+                  {heldSales.length > 0 && (
+                    <Badge variant="secondary" className="ml-2">{heldSales.length}</Badge>
+                  )}
+                </Button>
+                <Button onClick={() => setCameraOpen(true)} data-testid="button-scan-barcode">
+                  <Scan className="mr-2 h-4 w-4" />
+                  Scan
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+
+          <CardContent className="pb-4">
+            {/* Category Tabs */}
+            <div className="flex space-x-1 mb-6 bg-muted rounded-lg p-1">
+              {categories.map((category) => (
+                <Button
+                  key={category.id}
+                  variant={selectedCategory === category.id ? "default" : "ghost"}
+                  className={`flex-1 ${selectedCategory === category.id ? 'bg-primary text-primary-foreground' : ''}`}
+                  onClick={() => setSelectedCategory(category.id)}
+                  data-testid={`tab-category-${category.id}`}
+                >
+                  {category.name}
+                </Button>
+              ))}
+            </div>
+
+            {/* Product Grid */}
+            <div className="overflow-y-auto max-h-96">
+              <ProductGrid
+                products={gridProducts}
+                onAddToCart={addToCart}
+                isLoading={productsLoading}
+              />
+            </div>
+          </CardContent>
+        </div>
+
+        {/* Cart & Checkout */}
+        <Cart
+          items={pricedCart}
+          customers={customers}
+          selectedCustomer={selectedCustomer}
+          onCustomerChange={setSelectedCustomer}
+          payments={payments}
+          onPaymentsChange={setPayments}
+          onUpdateQuantity={updateQuantity}
+          onUpdatePrice={updatePrice}
+          canOverridePrice={canOverridePrice}
+          onUpdateDiscount={updateDiscount}
+          cartDiscount={cartDiscount}
+          onCartDiscountChange={setCartDiscount}
+          discountLimit={discountLimit}
+          onRemoveItem={removeFromCart}
+          onClearCart={clearCart}
+          onHoldSale={() => setHoldDialogOpen(true)}
+          onShiftRequired={() => setOpenShiftOpen(true)}
+          subtotal={subtotal}
+          cartDiscountAmount={cartDiscountAmount}
+          discountTotal={discountTotal}
+          taxRate={taxRate}
+          taxAmount={taxAmount}
+          total={total}
+        />
+
+        <HoldSaleDialog
+          open={holdDialogOpen}
+          onOpenChange={setHoldDialogOpen}
+          onHold={handleHoldSale}
+          isPending={holdSale.isPending}
+        />
+
+        <CameraScannerDialog
+          open={cameraOpen}
+          onOpenChange={setCameraOpen}
+          onScan={handleScan}
+        />
+
+        <VariantPickerDialog
+          product={variantParent}
+          onSelect={(variant) => addProductToCart(variant)}
+          onClose={() => setVariantParent(null)}
+        />
+
+        <SerialScanDialog
+          product={serialProduct}
+          inCart={cart.find(item => item.productId === serialProduct?.id)?.serialNumbers ?? []}
+          onAdd={addSerialToCart}
+          onClose={() => setSerialProduct(null)}
+        />
+
+        <HeldSalesDrawer
+          open={heldSalesOpen}
+          onOpenChange={setHeldSalesOpen}
+          cartIsEmpty={cart.length === 0}
+          onRecall={recallHeldSale}
+        />
+      </div>
+
+      <OpenShiftDialog open={openShiftOpen} onOpenChange={setOpenShiftOpen} />
+
+      <CashMovementDialog shiftId={cashMovementShift} onClose={() => setCashMovementShift(null)} />
+
+      <CloseShiftDialog shiftId={closingShift} onClose={() => setClosingShift(null)} />
     </div>
   );
 }
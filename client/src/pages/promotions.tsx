@@ -0,0 +1,514 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  usePromotions, useCreatePromotion, useUpdatePromotion, useDeletePromotion,
+  useCategories, useSuppliers,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@shared/schema";
+import type { InsertPromotion, PromotionWithUsage } from "@shared/schema";
+import { Plus, Edit, Trash2, BadgePercent } from "lucide-react";
+
+const promotionTypes: Record<string, string> = {
+  buy_x_get_y: "Buy X Get Y",
+  bundle: "Bundle",
+  percent_off: "Percentage Off",
+};
+
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+type PromotionFormState = {
+  name: string;
+  type: InsertPromotion["type"];
+  productIds: string[];
+  categoryId: string;
+  supplierId: string;
+  buyQuantity: string;
+  getQuantity: string;
+  bundleQuantity: string;
+  bundlePrice: string;
+  percentOff: string;
+  startsAt: string;
+  endsAt: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  priority: string;
+  isActive: boolean;
+};
+
+const emptyForm: PromotionFormState = {
+  name: "",
+  type: "percent_off",
+  productIds: [],
+  categoryId: "",
+  supplierId: "",
+  buyQuantity: "2",
+  getQuantity: "1",
+  bundleQuantity: "3",
+  bundlePrice: "",
+  percentOff: "10",
+  startsAt: "",
+  endsAt: "",
+  daysOfWeek: [],
+  startTime: "",
+  endTime: "",
+  priority: "0",
+  isActive: true,
+};
+
+const toDateInput = (value: Date | string | null) => (value ? new Date(value).toISOString().slice(0, 10) : "");
+
+function toFormState(promotion: PromotionWithUsage): PromotionFormState {
+  return {
+    name: promotion.name,
+    type: promotion.type as InsertPromotion["type"],
+    productIds: promotion.productIds,
+    categoryId: promotion.categoryId ?? "",
+    supplierId: promotion.supplierId ?? "",
+    buyQuantity: String(promotion.buyQuantity ?? ""),
+    getQuantity: String(promotion.getQuantity ?? ""),
+    bundleQuantity: String(promotion.bundleQuantity ?? ""),
+    bundlePrice: promotion.bundlePrice ?? "",
+    percentOff: promotion.percentOff ?? "",
+    startsAt: toDateInput(promotion.startsAt),
+    endsAt: toDateInput(promotion.endsAt),
+    daysOfWeek: promotion.daysOfWeek ?? [],
+    startTime: promotion.startTime ?? "",
+    endTime: promotion.endTime ?? "",
+    priority: String(promotion.priority),
+    isActive: promotion.isActive,
+  };
+}
+
+function toInsertPromotion(form: PromotionFormState): InsertPromotion {
+  const integer = (value: string) => (value ? parseInt(value, 10) : null);
+  return {
+    name: form.name.trim(),
+    type: form.type,
+    productIds: form.productIds,
+    categoryId: form.categoryId || null,
+    supplierId: form.supplierId || null,
+    buyQuantity: form.type === "buy_x_get_y" ? integer(form.buyQuantity) : null,
+    getQuantity: form.type === "buy_x_get_y" ? integer(form.getQuantity) : null,
+    bundleQuantity: form.type === "bundle" ? integer(form.bundleQuantity) : null,
+    bundlePrice: form.type === "bundle" && form.bundlePrice ? parseFloat(form.bundlePrice).toFixed(2) : null,
+    percentOff: form.type === "percent_off" && form.percentOff ? parseFloat(form.percentOff).toFixed(2) : null,
+    startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`) : null,
+    endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`) : null,
+    daysOfWeek: form.daysOfWeek.length > 0 ? form.daysOfWeek : null,
+    startTime: form.startTime || null,
+    endTime: form.endTime || null,
+    priority: parseInt(form.priority, 10) || 0,
+    isActive: form.isActive,
+  };
+}
+
+function describeRule(promotion: PromotionWithUsage): string {
+  switch (promotion.type) {
+    case "buy_x_get_y":
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+    case "bundle":
+      return `Any ${promotion.bundleQuantity} for ${formatCurrency(promotion.bundlePrice ?? "0")}`;
+    case "percent_off":
+      return `${parseFloat(promotion.percentOff ?? "0")}% off`;
+    default:
+      return promotion.type;
+  }
+}
+
+function describeSchedule(promotion: PromotionWithUsage): string {
+  const parts: string[] = [];
+  if (promotion.daysOfWeek && promotion.daysOfWeek.length > 0) {
+    parts.push(promotion.daysOfWeek.map(day => weekdays[day]).join(", "));
+  }
+  if (promotion.startTime && promotion.endTime) {
+    parts.push(`${promotion.startTime}-${promotion.endTime}`);
+  }
+  if (promotion.endsAt) {
+    parts.push(`until ${new Date(promotion.endsAt).toLocaleDateString()}`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : "Always";
+}
+
+export default function Promotions() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<PromotionWithUsage | null>(null);
+
+  const { data: promotionList = [], isLoading } = usePromotions();
+  const updatePromotion = useUpdatePromotion();
+  const deletePromotion = useDeletePromotion();
+  const { toast } = useToast();
+
+  const openCreate = () => {
+    setEditingPromotion(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (promotion: PromotionWithUsage) => {
+    setEditingPromotion(promotion);
+    setIsDialogOpen(true);
+  };
+
+  const handleToggleActive = async (promotion: PromotionWithUsage, isActive: boolean) => {
+    try {
+      await updatePromotion.mutateAsync({ id: promotion.id, ...toInsertPromotion({ ...toFormState(promotion), isActive }) });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update promotion. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (promotion: PromotionWithUsage) => {
+    if (confirm(`Are you sure you want to delete "${promotion.name}"? This action cannot be undone.`)) {
+      try {
+        await deletePromotion.mutateAsync(promotion.id);
+        toast({
+          title: "Promotion Deleted",
+          description: "Promotion has been deleted successfully.",
+        });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: getErrorMessage(error, "Failed to delete promotion. Please try again."),
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-2xl font-semibold">Promotions</h1>
+          <Badge variant="secondary" data-testid="promotions-count">
+            {promotionList.filter(p => p.isActive).length} active
+          </Badge>
+        </div>
+        <Button onClick={openCreate} data-testid="button-add-promotion">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Promotion
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Promotions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="promotions-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-4 font-medium">Promotion</th>
+                  <th className="text-left p-4 font-medium">Applies To</th>
+                  <th className="text-left p-4 font-medium">Schedule</th>
+                  <th className="text-left p-4 font-medium">Sales</th>
+                  <th className="text-left p-4 font-medium">Discount Given</th>
+                  <th className="text-left p-4 font-medium">Active</th>
+                  <th className="text-left p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  Array(3).fill(0).map((_, index) => (
+                    <tr key={index} className="border-b border-border animate-pulse">
+                      {Array(7).fill(0).map((_, cell) => (
+                        <td key={cell} className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
+                      ))}
+                    </tr>
+                  ))
+                ) : promotionList.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="p-8 text-center text-muted-foreground">
+                      <BadgePercent className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      No promotions yet
+                    </td>
+                  </tr>
+                ) : (
+                  promotionList.map((promotion) => (
+                    <tr key={promotion.id} className="border-b border-border" data-testid={`promotion-row-${promotion.id}`}>
+                      <td className="p-4">
+                        <div className="font-medium text-foreground">{promotion.name}</div>
+                        <div className="text-sm text-muted-foreground">{describeRule(promotion)}</div>
+                      </td>
+                      <td className="p-4 text-sm">
+                        {[promotion.category?.name, promotion.supplier?.name].filter(Boolean).join(" · ") || "All products"}
+                      </td>
+                      <td className="p-4 text-sm text-muted-foreground">{describeSchedule(promotion)}</td>
+                      <td className="p-4">{promotion.timesApplied}</td>
+                      <td className="p-4">{formatCurrency(promotion.discountGiven)}</td>
+                      <td className="p-4">
+                        <Switch
+                          checked={promotion.isActive}
+                          onCheckedChange={(checked) => handleToggleActive(promotion, checked)}
+                          data-testid={`switch-promotion-active-${promotion.id}`}
+                        />
+                      </td>
+                      <td className="p-4">
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openEdit(promotion)}
+                            data-testid={`button-edit-promotion-${promotion.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive"
+                            onClick={() => handleDelete(promotion)}
+                            data-testid={`button-delete-promotion-${promotion.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <PromotionFormDialog
+        open={isDialogOpen}
+        promotion={editingPromotion}
+        onClose={() => setIsDialogOpen(false)}
+      />
+    </div>
+  );
+}
+
+interface PromotionFormDialogProps {
+  open: boolean;
+  promotion: PromotionWithUsage | null;
+  onClose: () => void;
+}
+
+function PromotionFormDialog({ open, promotion, onClose }: PromotionFormDialogProps) {
+  const [form, setForm] = useState<PromotionFormState>(emptyForm);
+  const { data: categories = [] } = useCategories();
+  const { data: suppliers = [] } = useSuppliers();
+  const createPromotion = useCreatePromotion();
+  const updatePromotion = useUpdatePromotion();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setForm(promotion ? toFormState(promotion) : emptyForm);
+    }
+  }, [open, promotion]);
+
+  const set = <K extends keyof PromotionFormState>(field: K, value: PromotionFormState[K]) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const toggleDay = (day: number) =>
+    set("daysOfWeek", form.daysOfWeek.includes(day)
+      ? form.daysOfWeek.filter(d => d !== day)
+      : [...form.daysOfWeek, day].sort());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (promotion) {
+        await updatePromotion.mutateAsync({ id: promotion.id, ...toInsertPromotion(form) });
+        toast({
+          title: "Promotion Updated",
+          description: "Promotion has been updated successfully.",
+        });
+      } else {
+        await createPromotion.mutateAsync(toInsertPromotion(form));
+        toast({
+          title: "Promotion Added",
+          description: "New promotion has been added successfully.",
+        });
+      }
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, `Failed to ${promotion ? "update" : "add"} promotion. Please try again.`),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isSubmitting = createPromotion.isPending || updatePromotion.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{promotion ? "Edit Promotion" : "Add Promotion"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Name</Label>
+              <Input
+                placeholder="Weekend snack sale"
+                value={form.name}
+                onChange={(e) => set("name", e.target.value)}
+                data-testid="input-promotion-name"
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">Type</Label>
+              <Select value={form.type} onValueChange={(value) => set("type", value as InsertPromotion["type"])}>
+                <SelectTrigger data-testid="select-promotion-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(promotionTypes).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {form.type === "buy_x_get_y" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Buy Quantity</Label>
+                <Input type="number" min={1} value={form.buyQuantity} onChange={(e) => set("buyQuantity", e.target.value)} data-testid="input-promotion-buy" />
+              </div>
+              <div>
+                <Label className="mb-2 block">Free Quantity</Label>
+                <Input type="number" min={1} value={form.getQuantity} onChange={(e) => set("getQuantity", e.target.value)} data-testid="input-promotion-get" />
+              </div>
+            </div>
+          )}
+
+          {form.type === "bundle" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Items in Bundle</Label>
+                <Input type="number" min={2} value={form.bundleQuantity} onChange={(e) => set("bundleQuantity", e.target.value)} data-testid="input-promotion-bundle-quantity" />
+              </div>
+              <div>
+                <Label className="mb-2 block">Bundle Price</Label>
+                <Input type="number" min={0} step="0.01" value={form.bundlePrice} onChange={(e) => set("bundlePrice", e.target.value)} data-testid="input-promotion-bundle-price" />
+              </div>
+            </div>
+          )}
+
+          {form.type === "percent_off" && (
+            <div>
+              <Label className="mb-2 block">Percentage Off</Label>
+              <Input type="number" min={0} max={100} step="0.01" value={form.percentOff} onChange={(e) => set("percentOff", e.target.value)} data-testid="input-promotion-percent" />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Category</Label>
+              <Select value={form.categoryId || "all"} onValueChange={(value) => set("categoryId", value === "all" ? "" : value)}>
+                <SelectTrigger data-testid="select-promotion-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-2 block">Supplier</Label>
+              <Select value={form.supplierId || "all"} onValueChange={(value) => set("supplierId", value === "all" ? "" : value)}>
+                <SelectTrigger data-testid="select-promotion-supplier">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All suppliers</SelectItem>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label className="mb-2 block">Days</Label>
+            <div className="flex space-x-1">
+              {weekdays.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={form.daysOfWeek.includes(day) ? "default" : "outline"}
+                  onClick={() => toggleDay(day)}
+                  data-testid={`button-promotion-day-${day}`}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Leave all unselected to run every day</p>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <Label className="mb-2 block">From Time</Label>
+              <Input type="time" value={form.startTime} onChange={(e) => set("startTime", e.target.value)} data-testid="input-promotion-start-time" />
+            </div>
+            <div>
+              <Label className="mb-2 block">To Time</Label>
+              <Input type="time" value={form.endTime} onChange={(e) => set("endTime", e.target.value)} data-testid="input-promotion-end-time" />
+            </div>
+            <div>
+              <Label className="mb-2 block">Starts</Label>
+              <Input type="date" value={form.startsAt} onChange={(e) => set("startsAt", e.target.value)} data-testid="input-promotion-starts" />
+            </div>
+            <div>
+              <Label className="mb-2 block">Ends</Label>
+              <Input type="date" value={form.endsAt} onChange={(e) => set("endsAt", e.target.value)} data-testid="input-promotion-ends" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <div>
+              <Label className="mb-2 block">Priority</Label>
+              <Input type="number" value={form.priority} onChange={(e) => set("priority", e.target.value)} data-testid="input-promotion-priority" />
+              <p className="text-xs text-muted-foreground mt-1">Higher priority promotions are applied first</p>
+            </div>
+            <div className="flex items-center space-x-2 pb-6">
+              <Switch checked={form.isActive} onCheckedChange={(checked) => set("isActive", checked)} data-testid="switch-promotion-active" />
+              <Label>Active</Label>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel-promotion">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !form.name.trim()} data-testid="button-submit-promotion">
+              {isSubmitting ? "Saving..." : promotion ? "Update Promotion" : "Add Promotion"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
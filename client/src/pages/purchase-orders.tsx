@@ -0,0 +1,822 @@
+import { useEffect, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useSuppliers,
+  useSupplierProducts,
+  useLocations,
+  usePurchaseOrders,
+  usePurchaseOrder,
+  useCreatePurchaseOrder,
+  useReceivePurchaseOrder,
+  useCancelPurchaseOrder,
+  useSubmitPurchaseOrder,
+  useReorderSuggestions,
+  useCreateDraftPurchaseOrders,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
+import { parseSerials } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@shared/schema";
+import type { SupplierProductWithDetails } from "@shared/schema";
+import { Plus, ClipboardList, PackageCheck, XCircle, Eye, Printer, Send, ListRestart } from "lucide-react";
+
+const statusLabels: Record<string, string> = {
+  draft: "Draft",
+  pending: "Pending",
+  partially_received: "Partially Received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+const statusBadgeClass: Record<string, string> = {
+  draft: "",
+  pending: "bg-warning text-warning-foreground",
+  partially_received: "bg-primary/10 text-primary",
+  received: "bg-success text-success-foreground",
+  cancelled: "",
+};
+
+export default function PurchaseOrders() {
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  // The dashboard's low stock card links here with ?reorder to open the suggestions
+  const [isReorderDialogOpen, setIsReorderDialogOpen] = useState(new URLSearchParams(useSearch()).has("reorder"));
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+
+  const { data: orders = [], isLoading } = usePurchaseOrders(statusFilter !== "all" ? statusFilter : undefined);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-2xl font-semibold">Purchase Orders</h1>
+          <Badge variant="secondary" data-testid="purchase-orders-count">
+            {orders.length} orders
+          </Badge>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48" data-testid="select-po-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setIsReorderDialogOpen(true)} data-testid="button-reorder-suggestions">
+            <ListRestart className="mr-2 h-4 w-4" />
+            Reorder Suggestions
+          </Button>
+          <Button onClick={() => setIsCreateDialogOpen(true)} data-testid="button-new-purchase-order">
+            <Plus className="mr-2 h-4 w-4" />
+            New Purchase Order
+          </Button>
+        </div>
+      </div>
+
+      {/* Orders Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Orders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="purchase-orders-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-4 font-medium">Order #</th>
+                  <th className="text-left p-4 font-medium">Supplier</th>
+                  <th className="text-left p-4 font-medium">Deliver To</th>
+                  <th className="text-left p-4 font-medium">Status</th>
+                  <th className="text-left p-4 font-medium">Total</th>
+                  <th className="text-left p-4 font-medium">Created</th>
+                  <th className="text-left p-4 font-medium">Received</th>
+                  <th className="text-left p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  Array(5).fill(0).map((_, index) => (
+                    <tr key={index} className="border-b border-border animate-pulse">
+                      {Array(8).fill(0).map((_, cell) => (
+                        <td key={cell} className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
+                      ))}
+                    </tr>
+                  ))
+                ) : orders.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="p-8 text-center text-muted-foreground">
+                      <ClipboardList className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      No purchase orders found
+                    </td>
+                  </tr>
+                ) : (
+                  orders.map((order) => (
+                    <tr key={order.id} className="border-b border-border hover:bg-muted/50" data-testid={`po-row-${order.id}`}>
+                      <td className="p-4 font-medium text-foreground">{order.orderNumber}</td>
+                      <td className="p-4 text-muted-foreground">{order.supplier?.name}</td>
+                      <td className="p-4 text-muted-foreground">{order.location?.name ?? "—"}</td>
+                      <td className="p-4">
+                        <Badge
+                          variant={order.status === "cancelled" ? "destructive" : "secondary"}
+                          className={statusBadgeClass[order.status]}
+                        >
+                          {statusLabels[order.status] || order.status}
+                        </Badge>
+                      </td>
+                      <td className="p-4 text-foreground">{formatCurrency(order.totalAmount)}</td>
+                      <td className="p-4 text-muted-foreground">
+                        {order.createdAt ? new Date(order.createdAt).toLocaleDateString() : ""}
+                      </td>
+                      <td className="p-4 text-muted-foreground">
+                        {order.receivedAt ? new Date(order.receivedAt).toLocaleDateString() : "—"}
+                      </td>
+                      <td className="p-4">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSelectedOrderId(order.id)}
+                          data-testid={`button-view-po-${order.id}`}
+                        >
+                          <Eye className="mr-2 h-4 w-4" />
+                          View
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <CreatePurchaseOrderDialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen} />
+      <ReorderSuggestionsDialog open={isReorderDialogOpen} onOpenChange={setIsReorderDialogOpen} />
+      <PurchaseOrderDetailDialog orderId={selectedOrderId} onClose={() => setSelectedOrderId(null)} />
+    </div>
+  );
+}
+
+function CreatePurchaseOrderDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [supplierId, setSupplierId] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [lines, setLines] = useState<Record<string, { quantity: string; unitCost: string }>>({});
+
+  const { data: suppliers = [] } = useSuppliers();
+  const { data: catalog = [] } = useSupplierProducts({ supplier: supplierId }, !!supplierId);
+  const { data: locations = [] } = useLocations();
+  const createPurchaseOrder = useCreatePurchaseOrder();
+  const { toast } = useToast();
+
+  // Unit price from the supplier's cost list (case cost spread over the pack)
+  const listCost = (entry: SupplierProductWithDetails) =>
+    (parseFloat(entry.caseCost) / entry.packSize).toFixed(2);
+
+  useEffect(() => {
+    if (!open) {
+      setSupplierId("");
+      setLocationId("");
+      setLines({});
+    }
+  }, [open]);
+
+  const updateLine = (productId: string, field: "quantity" | "unitCost", value: string, defaultCost: string) => {
+    setLines(current => ({
+      ...current,
+      [productId]: { ...(current[productId] ?? { quantity: "", unitCost: defaultCost }), [field]: value },
+    }));
+  };
+
+  const orderLines = catalog
+    .map(entry => {
+      const line = lines[entry.productId];
+      const quantity = parseInt(line?.quantity || "0", 10);
+      const unitCost = parseFloat(line?.unitCost ?? listCost(entry));
+      return { entry, quantity, unitCost };
+    })
+    .filter(line => line.quantity > 0 && !isNaN(line.unitCost));
+
+  const total = orderLines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+  const handleSubmit = async () => {
+    if (!supplierId || orderLines.length === 0) {
+      toast({
+        title: "Nothing to order",
+        description: "Choose a supplier and enter a quantity for at least one product.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const order = await createPurchaseOrder.mutateAsync({
+        order: { supplierId, locationId: locationId || null, status: "pending", totalAmount: total.toFixed(2) },
+        items: orderLines.map(line => ({
+          productId: line.entry.productId,
+          quantity: line.quantity,
+          unitCost: line.unitCost.toFixed(2),
+          totalCost: (line.quantity * line.unitCost).toFixed(2),
+        })),
+      });
+
+      toast({
+        title: "Purchase Order Created",
+        description: `${order.orderNumber} has been created.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create purchase order. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>New Purchase Order</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Supplier</Label>
+            <Select value={supplierId} onValueChange={(value) => { setSupplierId(value); setLines({}); }}>
+              <SelectTrigger data-testid="select-po-supplier">
+                <SelectValue placeholder="Select a supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label className="mb-2 block">Deliver To</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger data-testid="select-po-location">
+                <SelectValue placeholder="Default location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.filter(location => location.isActive).map((location) => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {supplierId && (
+            <div className="max-h-96 overflow-y-auto border border-border rounded-lg">
+              {catalog.length === 0 ? (
+                <p className="p-6 text-center text-muted-foreground">This supplier has no products in their catalog.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left p-3 font-medium">Product</th>
+                      <th className="text-left p-3 font-medium">In Stock</th>
+                      <th className="text-left p-3 font-medium">Quantity</th>
+                      <th className="text-left p-3 font-medium">Unit Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {catalog.map((entry) => (
+                      <tr key={entry.id} className="border-b border-border">
+                        <td className="p-3">
+                          <div className="font-medium text-foreground">{entry.product?.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            SKU: {entry.product?.sku}{entry.supplierSku ? ` · Supplier SKU: ${entry.supplierSku}` : ""}
+                          </div>
+                          {(entry.packSize > 1 || entry.minOrderQuantity > 1) && (
+                            <div className="text-xs text-muted-foreground">
+                              {entry.packSize > 1 ? `Cases of ${entry.packSize}` : ""}
+                              {entry.packSize > 1 && entry.minOrderQuantity > 1 ? " · " : ""}
+                              {entry.minOrderQuantity > 1 ? `Min order ${entry.minOrderQuantity}` : ""}
+                            </div>
+                          )}
+                        </td>
+                        <td className="p-3 text-muted-foreground">
+                          {entry.product?.quantity} (min {entry.product?.minStockLevel})
+                        </td>
+                        <td className="p-3">
+                          <Input
+                            type="number"
+                            min={0}
+                            step={entry.packSize}
+                            className="w-24"
+                            value={lines[entry.productId]?.quantity ?? ""}
+                            onChange={(e) => updateLine(entry.productId, "quantity", e.target.value, listCost(entry))}
+                            data-testid={`input-po-quantity-${entry.productId}`}
+                          />
+                        </td>
+                        <td className="p-3">
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            className="w-28"
+                            value={lines[entry.productId]?.unitCost ?? listCost(entry)}
+                            onChange={(e) => updateLine(entry.productId, "unitCost", e.target.value, listCost(entry))}
+                            data-testid={`input-po-cost-${entry.productId}`}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between border-t border-border pt-4">
+            <p className="text-lg font-semibold">Total: {formatCurrency(total)}</p>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-new-po">
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={createPurchaseOrder.isPending} data-testid="button-submit-po">
+                {createPurchaseOrder.isPending ? "Creating..." : "Create Order"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReorderSuggestionsDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [locationId, setLocationId] = useState("");
+  const [selectedSuppliers, setSelectedSuppliers] = useState<Set<string>>(new Set());
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useReorderSuggestions(open, locationId || undefined);
+  const groups = data ?? [];
+  const { data: locations = [] } = useLocations();
+  const createDrafts = useCreateDraftPurchaseOrders();
+  const { toast } = useToast();
+
+  // Start with every orderable supplier ticked at the suggested quantities
+  useEffect(() => {
+    if (!open || !data) return;
+    setSelectedSuppliers(new Set(data.flatMap(group => group.supplier ? [group.supplier.id] : [])));
+    setQuantities(Object.fromEntries(
+      data.flatMap(group => group.items.map(item => [item.product.id, String(item.suggestedQuantity)]))
+    ));
+  }, [open, data]);
+
+  const toggleSupplier = (supplierId: string, checked: boolean) => {
+    setSelectedSuppliers(current => {
+      const next = new Set(current);
+      if (checked) next.add(supplierId); else next.delete(supplierId);
+      return next;
+    });
+  };
+
+  const orders = groups
+    .filter(group => group.supplier && selectedSuppliers.has(group.supplier.id))
+    .map(group => ({
+      supplierId: group.supplier!.id,
+      items: group.items
+        .map(item => ({ productId: item.product.id, quantity: parseInt(quantities[item.product.id] || "0", 10) }))
+        .filter(item => item.quantity > 0),
+    }))
+    .filter(order => order.items.length > 0);
+
+  const handleCreate = async () => {
+    try {
+      const created = await createDrafts.mutateAsync({ locationId: locationId || null, orders });
+      toast({
+        title: "Draft Orders Created",
+        description: `${created.length} draft purchase order${created.length === 1 ? "" : "s"} ready to review and submit.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create draft orders. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Reorder Suggestions</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Quantities cover each supplier's lead time plus the configured days of cover at recent sales rates,
+            on top of the minimum stock level, for the location being delivered to. Its stock on hand, on order
+            and in transit is taken into account.
+          </p>
+
+          <div>
+            <Label className="mb-2 block">Deliver To</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger data-testid="select-reorder-location">
+                <SelectValue placeholder="Default location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.filter(location => location.isActive).map((location) => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="max-h-[28rem] overflow-y-auto space-y-4">
+            {isLoading ? (
+              <div className="h-32 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : groups.length === 0 ? (
+              <p className="p-6 text-center text-muted-foreground" data-testid="text-no-suggestions">
+                Nothing needs reordering right now.
+              </p>
+            ) : (
+              groups.map((group) => (
+                <div
+                  key={group.supplier?.id ?? "unassigned"}
+                  className="border border-border rounded-lg"
+                  data-testid={`reorder-group-${group.supplier?.id ?? "unassigned"}`}
+                >
+                  <div className="flex items-center justify-between p-3 border-b border-border bg-muted/30">
+                    <div className="flex items-center space-x-2">
+                      {group.supplier && (
+                        <Checkbox
+                          checked={selectedSuppliers.has(group.supplier.id)}
+                          onCheckedChange={(checked) => toggleSupplier(group.supplier!.id, checked === true)}
+                          data-testid={`checkbox-reorder-supplier-${group.supplier.id}`}
+                        />
+                      )}
+                      <span className="font-medium">{group.supplier?.name ?? "No supplier"}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {group.supplier
+                          ? `${group.supplier.leadTimeDays} day lead time`
+                          : "Assign a supplier to these products to order them"}
+                      </span>
+                    </div>
+                    <span className="text-sm font-semibold">{formatCurrency(group.totalCost)}</span>
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left p-3 font-medium">Product</th>
+                        <th className="text-left p-3 font-medium">On Hand</th>
+                        <th className="text-left p-3 font-medium">On Order</th>
+                        <th className="text-left p-3 font-medium">Sold / Day</th>
+                        <th className="text-left p-3 font-medium">Target</th>
+                        <th className="text-left p-3 font-medium">Order</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.items.map((item) => (
+                        <tr key={item.product.id} className="border-b border-border last:border-0">
+                          <td className="p-3">
+                            <div className="font-medium text-foreground">{item.product.name}</div>
+                            <div className="text-xs text-muted-foreground">SKU: {item.product.sku}</div>
+                          </td>
+                          <td className="p-3">{item.onHand}</td>
+                          <td className="p-3 text-muted-foreground">
+                            {item.onOrder}{item.inTransit > 0 ? ` + ${item.inTransit} in transit` : ""}
+                          </td>
+                          <td className="p-3 text-muted-foreground">{item.dailySales}</td>
+                          <td className="p-3 text-muted-foreground">{item.targetQuantity}</td>
+                          <td className="p-3">
+                            <Input
+                              type="number"
+                              min={0}
+                              className="w-24"
+                              disabled={!group.supplier}
+                              value={quantities[item.product.id] ?? ""}
+                              onChange={(e) => setQuantities(current => ({ ...current, [item.product.id]: e.target.value }))}
+                              data-testid={`input-reorder-quantity-${item.product.id}`}
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2 border-t border-border pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={createDrafts.isPending || orders.length === 0}
+              data-testid="button-create-draft-orders"
+            >
+              {createDrafts.isPending
+                ? "Creating..."
+                : `Create ${orders.length} Draft Order${orders.length === 1 ? "" : "s"}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PurchaseOrderDetailDialog({ orderId, onClose }: { orderId: string | null; onClose: () => void }) {
+  const [receiveQuantities, setReceiveQuantities] = useState<Record<string, string>>({});
+  const [receiveLots, setReceiveLots] = useState<Record<string, { lotNumber: string; expiryDate: string }>>({});
+  const [receiveSerials, setReceiveSerials] = useState<Record<string, string>>({});
+  const [updateCostPrice, setUpdateCostPrice] = useState(false);
+
+  const { data: order, isLoading } = usePurchaseOrder(orderId);
+  const receivePurchaseOrder = useReceivePurchaseOrder();
+  const cancelPurchaseOrder = useCancelPurchaseOrder();
+  const submitPurchaseOrder = useSubmitPurchaseOrder();
+  const { toast } = useToast();
+
+  const canReceive = order?.status === "pending" || order?.status === "partially_received";
+
+  // Default each line to its outstanding quantity
+  useEffect(() => {
+    if (!order?.items) return;
+    setReceiveQuantities(Object.fromEntries(
+      order.items.map(item => [item.id, String(Math.max(0, item.quantity - item.receivedQuantity))])
+    ));
+    setReceiveLots({});
+    setReceiveSerials({});
+    setUpdateCostPrice(false);
+  }, [order]);
+
+  const updateLot = (itemId: string, field: "lotNumber" | "expiryDate", value: string) => {
+    setReceiveLots(current => ({
+      ...current,
+      [itemId]: { ...(current[itemId] ?? { lotNumber: "", expiryDate: "" }), [field]: value },
+    }));
+  };
+
+  const handleReceive = async () => {
+    if (!order) return;
+    const items = Object.entries(receiveQuantities)
+      .map(([itemId, value]) => ({
+        itemId,
+        quantity: parseInt(value || "0", 10),
+        lotNumber: receiveLots[itemId]?.lotNumber.trim() || undefined,
+        expiryDate: receiveLots[itemId]?.expiryDate || undefined,
+        serialNumbers: receiveSerials[itemId] ? parseSerials(receiveSerials[itemId]) : undefined,
+      }))
+      .filter(line => line.quantity > 0);
+
+    if (items.length === 0) {
+      toast({
+        title: "Nothing to receive",
+        description: "Enter a quantity for at least one line.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const updated = await receivePurchaseOrder.mutateAsync({ id: order.id, items, updateCostPrice });
+      toast({
+        title: "Goods Received",
+        description: `${updated.orderNumber} is now ${statusLabels[updated.status]?.toLowerCase() || updated.status}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Receiving Failed",
+        description: getErrorMessage(error, "Failed to receive goods. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!order) return;
+    try {
+      await submitPurchaseOrder.mutateAsync(order.id);
+      toast({
+        title: "Order Submitted",
+        description: `${order.orderNumber} is now pending delivery.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to submit purchase order."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!order) return;
+    if (!confirm(`Cancel purchase order ${order.orderNumber}? This action cannot be undone.`)) return;
+
+    try {
+      await cancelPurchaseOrder.mutateAsync(order.id);
+      toast({
+        title: "Order Cancelled",
+        description: `${order.orderNumber} has been cancelled.`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to cancel purchase order."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {order ? `${order.orderNumber} — ${order.supplier?.name ?? ""}` : "Purchase Order"}
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading || !order ? (
+          <div className="h-48 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Badge
+                variant={order.status === "cancelled" ? "destructive" : "secondary"}
+                className={statusBadgeClass[order.status]}
+              >
+                {statusLabels[order.status] || order.status}
+              </Badge>
+              <div className="flex items-center space-x-4">
+                {order.location && (
+                  <p className="text-sm text-muted-foreground">Deliver to {order.location.name}</p>
+                )}
+                {order.items?.some(item => item.receivedQuantity > 0) && (
+                  <Button variant="outline" size="sm" asChild data-testid="button-po-labels">
+                    <Link href={`/labels?po=${order.id}`}>
+                      <Printer className="mr-2 h-4 w-4" />
+                      Print Labels
+                    </Link>
+                  </Button>
+                )}
+                <p className="font-semibold">Total: {formatCurrency(order.totalAmount)}</p>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border border-border rounded-lg">
+              <table className="w-full text-sm" data-testid="po-items-table">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left p-3 font-medium">Product</th>
+                    <th className="text-left p-3 font-medium">Ordered</th>
+                    <th className="text-left p-3 font-medium">Received</th>
+                    <th className="text-left p-3 font-medium">Unit Cost</th>
+                    <th className="text-left p-3 font-medium">Line Total</th>
+                    {canReceive && <th className="text-left p-3 font-medium">Receive Now</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {order.items?.map((item) => {
+                    const outstanding = item.quantity - item.receivedQuantity;
+                    return (
+                      <tr key={item.id} className="border-b border-border" data-testid={`po-item-${item.id}`}>
+                        <td className="p-3">
+                          <div className="font-medium text-foreground">{item.product?.name}</div>
+                          <div className="text-xs text-muted-foreground">SKU: {item.product?.sku}</div>
+                        </td>
+                        <td className="p-3">{item.quantity}</td>
+                        <td className={`p-3 ${outstanding > 0 ? "text-warning" : "text-success"}`}>
+                          {item.receivedQuantity}
+                        </td>
+                        <td className="p-3">{formatCurrency(item.unitCost)}</td>
+                        <td className="p-3">{formatCurrency(item.totalCost)}</td>
+                        {canReceive && (
+                          <td className="p-3">
+                            <Input
+                              type="number"
+                              min={0}
+                              max={outstanding}
+                              className="w-24"
+                              disabled={outstanding === 0}
+                              value={receiveQuantities[item.id] ?? ""}
+                              onChange={(e) => setReceiveQuantities(current => ({ ...current, [item.id]: e.target.value }))}
+                              data-testid={`input-receive-${item.id}`}
+                            />
+                            {item.product?.serialTracked && outstanding > 0 && (
+                              <Textarea
+                                placeholder="Serial numbers, one per line"
+                                className="mt-2 w-48 text-xs"
+                                rows={3}
+                                value={receiveSerials[item.id] ?? ""}
+                                onChange={(e) => setReceiveSerials(current => ({ ...current, [item.id]: e.target.value }))}
+                                data-testid={`textarea-receive-serials-${item.id}`}
+                              />
+                            )}
+                            {item.product?.trackLots && outstanding > 0 && (
+                              <div className="mt-2 space-y-2">
+                                <Input
+                                  placeholder="Lot number"
+                                  className="w-36"
+                                  value={receiveLots[item.id]?.lotNumber ?? ""}
+                                  onChange={(e) => updateLot(item.id, "lotNumber", e.target.value)}
+                                  data-testid={`input-receive-lot-${item.id}`}
+                                />
+                                <Input
+                                  type="date"
+                                  title="Expiry date"
+                                  className="w-36"
+                                  value={receiveLots[item.id]?.expiryDate ?? ""}
+                                  onChange={(e) => updateLot(item.id, "expiryDate", e.target.value)}
+                                  data-testid={`input-receive-expiry-${item.id}`}
+                                />
+                              </div>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {order.status === "draft" && (
+              <div className="flex items-center justify-between border-t border-border pt-4">
+                <p className="text-sm text-muted-foreground">Review this draft, then submit it to the supplier.</p>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleCancel}
+                    disabled={cancelPurchaseOrder.isPending}
+                    className="text-destructive"
+                    data-testid="button-discard-po"
+                  >
+                    <XCircle className="mr-2 h-4 w-4" />
+                    Discard Draft
+                  </Button>
+                  <Button onClick={handleSubmit} disabled={submitPurchaseOrder.isPending} data-testid="button-submit-draft-po">
+                    <Send className="mr-2 h-4 w-4" />
+                    {submitPurchaseOrder.isPending ? "Submitting..." : "Submit Order"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {canReceive && (
+              <div className="flex items-center justify-between border-t border-border pt-4">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="update-cost-price"
+                    checked={updateCostPrice}
+                    onCheckedChange={(checked) => setUpdateCostPrice(checked === true)}
+                    data-testid="checkbox-update-cost-price"
+                  />
+                  <Label htmlFor="update-cost-price">Update product cost prices from this order</Label>
+                </div>
+                <div className="flex space-x-2">
+                  {order.status === "pending" && (
+                    <Button
+                      variant="outline"
+                      onClick={handleCancel}
+                      disabled={cancelPurchaseOrder.isPending}
+                      className="text-destructive"
+                      data-testid="button-cancel-po"
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Cancel Order
+                    </Button>
+                  )}
+                  <Button onClick={handleReceive} disabled={receivePurchaseOrder.isPending} data-testid="button-receive-po">
+                    <PackageCheck className="mr-2 h-4 w-4" />
+                    {receivePurchaseOrder.isPending ? "Receiving..." : "Receive Goods"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
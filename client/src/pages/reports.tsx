@@ -1,19 +1,45 @@
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SalesChart } from "@/components/charts/SalesChart";
 import { CategoryChart } from "@/components/charts/CategoryChart";
-import { useDashboardMetrics, useTopProducts, useSalesData } from "@/lib/api";
-import { Download, TrendingUp, TrendingDown, BarChart3, DollarSign } from "lucide-react";
+import { useDashboardMetrics, useTopProducts, useSalesData, useTenderBreakdown, useGrossProfit, useStockValuation } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { hasPermission } from "@shared/permissions";
+import type { StockValuation } from "@shared/schema";
+import { Download, TrendingUp, TrendingDown, BarChart3, DollarSign, Percent, Package } from "lucide-react";
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+};
+
+const downloadCsv = (csvContent: string, filename: string) => {
+  const blob = new Blob([csvContent], { type: "text/csv" });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
 
 export default function Reports() {
   const [timeRange, setTimeRange] = useState("30");
   const [reportType, setReportType] = useState("revenue");
+  const { user } = useAuth();
+  const canViewCost = hasPermission(user, "reports.cost");
 
   const { data: metrics } = useDashboardMetrics();
-  const { data: topProducts = [] } = useTopProducts(10);
-  const { data: salesData = [] } = useSalesData(parseInt(timeRange));
+  const { data: topProducts = [] } = useTopProducts({ limit: 10, days: parseInt(timeRange), rank_by: "revenue" });
+  const { data: salesData = [] } = useSalesData({ days: parseInt(timeRange) });
+  const { data: tenders = [] } = useTenderBreakdown({ days: parseInt(timeRange) });
+  const { data: grossProfit } = useGrossProfit({ days: parseInt(timeRange) }, canViewCost);
 
   const exportReport = () => {
     // Generate CSV report based on current view
@@ -22,8 +48,8 @@ export default function Reports() {
 
     if (reportType === "revenue") {
       csvContent = [
-        ["Date", "Sales", "Transactions"].join(","),
-        ...salesData.map(day => [day.date, day.sales.toFixed(2), day.transactions].join(","))
+        ["Date", "Sales", "Transactions", "Discounts"].join(","),
+        ...salesData.map(day => [day.date, day.sales.toFixed(2), day.transactions, day.discounts.toFixed(2)].join(","))
       ].join("\n");
       filename = `sales-report-${timeRange}days.csv`;
     } else if (reportType === "products") {
@@ -39,20 +65,7 @@ export default function Reports() {
       filename = `top-products-report.csv`;
     }
 
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename;
-    a.click();
-    window.URL.revokeObjectURL(url);
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+    downloadCsv(csvContent, filename);
   };
 
   const formatPercentage = (percentage: number) => {
@@ -61,6 +74,8 @@ export default function Reports() {
 
   const totalRevenue = salesData.reduce((sum, day) => sum + day.sales, 0);
   const totalTransactions = salesData.reduce((sum, day) => sum + day.transactions, 0);
+  const totalDiscounts = salesData.reduce((sum, day) => sum + day.discounts, 0);
+  const tenderTotal = tenders.reduce((sum, tender) => sum + tender.amount, 0);
   const avgOrderValue = totalTransactions > 0 ? totalRevenue / totalTransactions : 0;
   const previousPeriodRevenue = totalRevenue * 0.85; // Sample comparison data
   const revenueGrowth = ((totalRevenue - previousPeriodRevenue) / previousPeriodRevenue) * 100;
@@ -89,7 +104,7 @@ export default function Reports() {
       </div>
 
       {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <Card>
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
@@ -108,23 +123,26 @@ export default function Reports() {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-muted-foreground">Gross Profit</p>
-                <p className="text-3xl font-bold text-foreground">{formatCurrency(totalRevenue * 0.36)}</p>
-                <p className="text-sm text-success flex items-center mt-1">
-                  <TrendingUp className="mr-1 h-3 w-3" />
-                  36% margin
-                </p>
-              </div>
-              <div className="w-12 h-12 bg-success/10 rounded-lg flex items-center justify-center">
-                <DollarSign className="text-success h-6 w-6" />
+        {canViewCost && (
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Gross Profit</p>
+                  <p className="text-3xl font-bold text-foreground" data-testid="text-gross-profit">
+                    {formatCurrency(grossProfit?.grossProfit ?? 0)}
+                  </p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {(grossProfit?.margin ?? 0).toFixed(1)}% margin · {formatCurrency(grossProfit?.costOfGoods ?? 0)} COGS
+                  </p>
+                </div>
+                <div className="w-12 h-12 bg-success/10 rounded-lg flex items-center justify-center">
+                  <DollarSign className="text-success h-6 w-6" />
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
 
         <Card>
           <CardContent className="p-6">
@@ -161,6 +179,27 @@ export default function Reports() {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Discounts Given</p>
+                <p className="text-3xl font-bold text-foreground" data-testid="text-discounts-given">
+                  {formatCurrency(totalDiscounts)}
+                </p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {totalRevenue + totalDiscounts > 0
+                    ? `${((totalDiscounts / (totalRevenue + totalDiscounts)) * 100).toFixed(1)}% of gross sales`
+                    : "No discounts"}
+                </p>
+              </div>
+              <div className="w-12 h-12 bg-primary/10 rounded-lg flex items-center justify-center">
+                <Percent className="text-primary h-6 w-6" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Charts Section */}
@@ -199,7 +238,7 @@ export default function Reports() {
             <CardTitle>Sales by Category</CardTitle>
           </CardHeader>
           <CardContent>
-            <CategoryChart />
+            <CategoryChart filters={{ days: parseInt(timeRange) }} />
           </CardContent>
         </Card>
       </div>
@@ -249,7 +288,7 @@ export default function Reports() {
                 <p className="text-sm text-muted-foreground">Best Sales Day</p>
                 <p className="font-semibold text-foreground">
                   {salesData.length > 0 
-                    ? new Date(salesData.reduce((max, day) => day.sales > max.sales ? day : max).date).toLocaleDateString()
+                    ? new Date(`${salesData.reduce((max, day) => day.sales > max.sales ? day : max).date}T00:00:00`).toLocaleDateString()
                     : "N/A"
                   }
                 </p>
@@ -290,6 +329,137 @@ export default function Reports() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Revenue by Tender */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Revenue by Tender</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {tenders.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No payments in this period</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {tenders.map((tender) => (
+                <div key={tender.method} className="p-4 bg-muted/30 rounded-lg" data-testid={`tender-${tender.method}`}>
+                  <p className="text-sm text-muted-foreground capitalize">{tender.method}</p>
+                  <p className="text-2xl font-bold text-foreground">{formatCurrency(tender.amount)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {tender.transactions} sales · {tenderTotal > 0 ? ((tender.amount / tenderTotal) * 100).toFixed(1) : "0.0"}%
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canViewCost && <StockValuationCard />}
     </div>
   );
 }
+
+const costingMethodLabels: Record<StockValuation["costingMethod"], string> = {
+  fifo: "FIFO",
+  average: "Weighted average",
+};
+
+function StockValuationCard() {
+  const [asOf, setAsOf] = useState("");
+  const { data: valuation, isLoading } = useStockValuation(asOf || undefined);
+  const lines = valuation?.lines ?? [];
+
+  const exportValuation = () => {
+    if (!valuation) return;
+    const csvContent = [
+      ["Product", "SKU", "Category", "Quantity", "Unit Cost", "Value"].join(","),
+      ...lines.map(line => [
+        `"${line.product.name}"`,
+        line.product.sku,
+        `"${line.product.category?.name ?? ""}"`,
+        line.quantity,
+        line.unitCost.toFixed(4),
+        line.value.toFixed(2),
+      ].join(",")),
+    ].join("\n");
+    downloadCsv(csvContent, `stock-valuation-${valuation.asOf}.csv`);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <CardTitle>Stock Valuation</CardTitle>
+          {valuation && <Badge variant="secondary">{costingMethodLabels[valuation.costingMethod]}</Badge>}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Input
+            type="date"
+            className="w-44"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            data-testid="input-valuation-date"
+          />
+          <Button variant="outline" onClick={exportValuation} disabled={lines.length === 0} data-testid="button-export-valuation">
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-baseline space-x-6 mb-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Value {valuation ? `as of ${valuation.asOf}` : ""}</p>
+            <p className="text-2xl font-bold text-foreground" data-testid="text-valuation-total">
+              {formatCurrency(valuation?.totalValue ?? 0)}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Units</p>
+            <p className="text-2xl font-bold text-foreground">{valuation?.totalQuantity ?? 0}</p>
+          </div>
+        </div>
+        <div className="overflow-x-auto max-h-96">
+          <table className="w-full" data-testid="valuation-table">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left p-3 font-medium">Product</th>
+                <th className="text-left p-3 font-medium">Category</th>
+                <th className="text-right p-3 font-medium">Quantity</th>
+                <th className="text-right p-3 font-medium">Unit Cost</th>
+                <th className="text-right p-3 font-medium">Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-muted-foreground">Loading...</td>
+                </tr>
+              ) : lines.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                    <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    No stock on hand on this date
+                  </td>
+                </tr>
+              ) : (
+                lines.map((line) => (
+                  <tr key={line.product.id} className="border-b border-border" data-testid={`valuation-row-${line.product.id}`}>
+                    <td className="p-3">
+                      <p className="font-medium text-foreground">{line.product.name}</p>
+                      <p className="text-sm text-muted-foreground">{line.product.sku}</p>
+                    </td>
+                    <td className="p-3 text-muted-foreground">{line.product.category?.name ?? "—"}</td>
+                    <td className="p-3 text-right">{line.quantity}</td>
+                    <td className="p-3 text-right">{formatCurrency(line.unitCost)}</td>
+                    <td className="p-3 text-right font-semibold">{formatCurrency(line.value)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
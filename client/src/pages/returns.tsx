@@ -0,0 +1,461 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSaleByInvoice, useReturns, useCreateReturn, useSerialLookup } from "@/lib/api";
+import { getErrorBody, getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ManagerApprovalDialog } from "@/components/pos/ManagerApprovalDialog";
+import { formatCurrency, paymentMethods, type Approval, type CreateReturn, type PaymentMethod } from "@shared/schema";
+import { Search, RotateCcw, Receipt, Package, ScanLine } from "lucide-react";
+
+const saleStatusLabels: Record<string, string> = {
+  completed: "Completed",
+  partial_refund: "Partially Refunded",
+  refunded: "Refunded",
+};
+
+const refundMethodLabels: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  transfer: "Transfer",
+};
+
+export default function Returns() {
+  const [invoiceInput, setInvoiceInput] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  // Serial-tracked lines are returned by picking the units coming back
+  const [selectedSerials, setSelectedSerials] = useState<Record<string, string[]>>({});
+  const [reason, setReason] = useState("");
+  // "original" lets the server refund the way the sale was paid
+  const [refundMethod, setRefundMethod] = useState<"original" | NonNullable<CreateReturn["refundMethod"]>>("original");
+  const [approvalReason, setApprovalReason] = useState<string | null>(null);
+
+  const { data: sale, isLoading: saleLoading, error: saleError } = useSaleByInvoice(invoiceNumber);
+  const { data: recentReturns = [], isLoading: returnsLoading } = useReturns();
+  const createReturn = useCreateReturn();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setQuantities({});
+    setSelectedSerials({});
+    setReason("");
+    setRefundMethod("original");
+  }, [sale?.id]);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    setInvoiceNumber(invoiceInput.trim());
+  };
+
+  const toggleSerial = (saleItemId: string, serialNumber: string, checked: boolean) => {
+    setSelectedSerials(current => {
+      const selected = (current[saleItemId] ?? []).filter(serial => serial !== serialNumber);
+      return { ...current, [saleItemId]: checked ? [...selected, serialNumber] : selected };
+    });
+  };
+
+  // Refunds can only go back to a tender the sale was paid with
+  const saleTenders = paymentMethods.filter(method => sale?.payments?.length
+    ? sale.payments.some(payment => payment.method === method)
+    : sale?.paymentMethod === method);
+
+  const returnLines = (sale?.items ?? [])
+    .map(item => item.product?.serialTracked
+      ? { item, quantity: selectedSerials[item.id]?.length ?? 0, serialNumbers: selectedSerials[item.id] }
+      : { item, quantity: parseInt(quantities[item.id] || "0", 10), serialNumbers: undefined })
+    .filter(line => line.quantity > 0);
+
+  const handleSubmit = async (approval?: Approval) => {
+    if (!sale) return;
+    if (returnLines.length === 0 || !reason.trim()) {
+      toast({
+        title: "Incomplete return",
+        description: "Choose at least one item and enter a reason for the return.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const result = await createReturn.mutateAsync({
+        saleId: sale.id,
+        reason: reason.trim(),
+        refundMethod: refundMethod === "original" ? undefined : refundMethod,
+        approval,
+        items: returnLines.map(line => ({
+          saleItemId: line.item.id,
+          quantity: line.quantity,
+          serialNumbers: line.serialNumbers,
+        })),
+      });
+
+      toast({
+        title: "Return Processed",
+        description: `Refund of ${formatCurrency(result.refundAmount)} recorded for ${sale.invoiceNumber}.`,
+      });
+      setApprovalReason(null);
+    } catch (error) {
+      // Cash refunds above the cash paid can go through with a manager's PIN
+      const body = getErrorBody(error);
+      if (body?.details?.requiresApproval) {
+        setApprovalReason(body.message ?? "This refund needs manager approval.");
+        return;
+      }
+      toast({
+        title: "Return Failed",
+        description: getErrorMessage(error, "Failed to process return. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Returns & Refunds</h1>
+        <form onSubmit={handleLookup} className="flex items-center space-x-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Invoice number, e.g. INV-1700000000000"
+              className="pl-10 w-80"
+              value={invoiceInput}
+              onChange={(e) => setInvoiceInput(e.target.value)}
+              data-testid="input-invoice-number"
+            />
+          </div>
+          <Button type="submit" disabled={!invoiceInput.trim()} data-testid="button-lookup-invoice">
+            Look Up
+          </Button>
+        </form>
+      </div>
+
+      {/* Sale Lookup */}
+      {invoiceNumber && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Receipt className="mr-2 h-5 w-5" />
+              {invoiceNumber}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {saleLoading ? (
+              <div className="h-32 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : saleError || !sale ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Receipt className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No sale found with this invoice number</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Date</p>
+                    <p className="font-medium">{sale.createdAt ? new Date(sale.createdAt).toLocaleString() : ""}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Customer</p>
+                    <p className="font-medium">{sale.customer?.name || "Walk-in Customer"}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Total Paid</p>
+                    <p className="font-medium">{formatCurrency(sale.total)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Status</p>
+                    <Badge variant={sale.status === "refunded" ? "destructive" : "secondary"}>
+                      {saleStatusLabels[sale.status] || sale.status}
+                    </Badge>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full" data-testid="return-items-table">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left p-4 font-medium">Product</th>
+                        <th className="text-left p-4 font-medium">Unit Price</th>
+                        <th className="text-left p-4 font-medium">Sold</th>
+                        <th className="text-left p-4 font-medium">Returned</th>
+                        <th className="text-left p-4 font-medium">Return Qty</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sale.items?.map((item) => {
+                        const returnable = item.quantity - (item.returnedQuantity ?? 0);
+                        return (
+                          <tr key={item.id} className="border-b border-border" data-testid={`return-line-${item.productId}`}>
+                            <td className="p-4">
+                              <div className="font-medium text-foreground">{item.product?.name}</div>
+                              <div className="text-sm text-muted-foreground">SKU: {item.product?.sku}</div>
+                            </td>
+                            <td className="p-4">{formatCurrency(item.unitPrice)}</td>
+                            <td className="p-4">{item.quantity}</td>
+                            <td className="p-4 text-muted-foreground">{item.returnedQuantity ?? 0}</td>
+                            <td className="p-4">
+                              {item.product?.serialTracked ? (
+                                <div className="space-y-1">
+                                  {(item.serialNumbers ?? []).map((serialNumber) => (
+                                    <label key={serialNumber} className="flex items-center space-x-2 text-sm">
+                                      <Checkbox
+                                        checked={selectedSerials[item.id]?.includes(serialNumber) ?? false}
+                                        onCheckedChange={(checked) => toggleSerial(item.id, serialNumber, checked === true)}
+                                        data-testid={`checkbox-return-serial-${serialNumber}`}
+                                      />
+                                      <span>{serialNumber}</span>
+                                    </label>
+                                  ))}
+                                  {item.serialNumbers?.length === 0 && (
+                                    <span className="text-sm text-muted-foreground">All units returned</span>
+                                  )}
+                                </div>
+                              ) : (
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  max={returnable}
+                                  className="w-24"
+                                  disabled={returnable <= 0}
+                                  value={quantities[item.id] ?? ""}
+                                  onChange={(e) => setQuantities(current => ({ ...current, [item.id]: e.target.value }))}
+                                  data-testid={`input-return-quantity-${item.productId}`}
+                                />
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                {sale.status !== "refunded" && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label className="mb-2 block">Reason</Label>
+                      <Textarea
+                        placeholder="Why is the customer returning these items?"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        data-testid="textarea-return-reason"
+                      />
+                    </div>
+                    <div className="flex items-end justify-between">
+                      <div className="w-56">
+                        <Label className="mb-2 block">Refund To</Label>
+                        <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as typeof refundMethod)}>
+                          <SelectTrigger data-testid="select-refund-method">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="original">Original payment</SelectItem>
+                            {saleTenders.map(method => (
+                              <SelectItem key={method} value={method}>{refundMethodLabels[method]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button
+                        onClick={() => handleSubmit()}
+                        disabled={createReturn.isPending || returnLines.length === 0}
+                        data-testid="button-process-return"
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        {createReturn.isPending ? "Processing..." : "Process Return"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <SerialLookupCard />
+
+      {/* Recent Returns */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Returns</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="recent-returns-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-4 font-medium">Date</th>
+                  <th className="text-left p-4 font-medium">Invoice</th>
+                  <th className="text-left p-4 font-medium">Product</th>
+                  <th className="text-left p-4 font-medium">Qty</th>
+                  <th className="text-left p-4 font-medium">Refund</th>
+                  <th className="text-left p-4 font-medium">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {returnsLoading ? (
+                  Array(3).fill(0).map((_, index) => (
+                    <tr key={index} className="border-b border-border animate-pulse">
+                      {Array(6).fill(0).map((_, cell) => (
+                        <td key={cell} className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
+                      ))}
+                    </tr>
+                  ))
+                ) : recentReturns.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="p-8 text-center text-muted-foreground">
+                      <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      No returns recorded
+                    </td>
+                  </tr>
+                ) : (
+                  recentReturns.slice(0, 20).map((item) => (
+                    <tr key={item.id} className="border-b border-border" data-testid={`return-row-${item.id}`}>
+                      <td className="p-4 text-muted-foreground">
+                        {item.createdAt ? new Date(item.createdAt).toLocaleDateString() : ""}
+                      </td>
+                      <td className="p-4 font-medium">{item.sale?.invoiceNumber}</td>
+                      <td className="p-4">{item.product?.name}</td>
+                      <td className="p-4">{item.quantity}</td>
+                      <td className="p-4 text-destructive">{formatCurrency(item.refundAmount)}</td>
+                      <td className="p-4 text-muted-foreground">{item.reason}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ManagerApprovalDialog
+        open={approvalReason !== null}
+        reason={approvalReason ?? ""}
+        isSubmitting={createReturn.isPending}
+        onApprove={(approval) => handleSubmit(approval)}
+        onCancel={() => setApprovalReason(null)}
+      />
+    </div>
+  );
+}
+
+// Finds which sale sold a serial-numbered unit, to whom, and whether it is still under warranty
+function SerialLookupCard() {
+  const [serialInput, setSerialInput] = useState("");
+  const [serialNumber, setSerialNumber] = useState("");
+  const { data: matches = [], isLoading, error } = useSerialLookup(serialNumber);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSerialNumber(serialInput.trim());
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center">
+          <ScanLine className="mr-2 h-5 w-5" />
+          Serial Lookup
+        </CardTitle>
+        <form onSubmit={handleLookup} className="flex items-center space-x-3">
+          <Input
+            placeholder="Serial number"
+            className="w-64"
+            value={serialInput}
+            onChange={(e) => setSerialInput(e.target.value)}
+            data-testid="input-serial-lookup"
+          />
+          <Button type="submit" variant="outline" disabled={!serialInput.trim()} data-testid="button-serial-lookup">
+            Look Up
+          </Button>
+        </form>
+      </CardHeader>
+      {serialNumber && (
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Looking up...</p>
+          ) : error || matches.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">No unit found with serial number {serialNumber}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full" data-testid="serial-lookup-table">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left p-4 font-medium">Product</th>
+                    <th className="text-left p-4 font-medium">Status</th>
+                    <th className="text-left p-4 font-medium">Sale</th>
+                    <th className="text-left p-4 font-medium">Customer</th>
+                    <th className="text-left p-4 font-medium">Warranty</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {matches.map((unit) => (
+                    <tr key={unit.id} className="border-b border-border" data-testid={`serial-${unit.id}`}>
+                      <td className="p-4">
+                        <div className="font-medium text-foreground">{unit.product.name}</div>
+                        <div className="text-sm text-muted-foreground">
+                          S/N {unit.serialNumber}{unit.purchaseOrder ? ` · received on ${unit.purchaseOrder.orderNumber}` : ""}
+                        </div>
+                      </td>
+                      <td className="p-4">
+                        <Badge variant={unit.status === "sold" ? "secondary" : "outline"}>
+                          {unit.status === "sold" ? "Sold" : unit.returnedAt ? "Returned, in stock" : "In stock"}
+                        </Badge>
+                      </td>
+                      <td className="p-4 text-sm">
+                        {unit.sale ? (
+                          <>
+                            <div className="font-medium">{unit.sale.invoiceNumber}</div>
+                            <div className="text-muted-foreground">
+                              {unit.sale.createdAt ? new Date(unit.sale.createdAt).toLocaleDateString() : ""}
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Not sold</span>
+                        )}
+                      </td>
+                      <td className="p-4 text-sm">
+                        {unit.customer ? (
+                          <>
+                            <div>{unit.customer.name}</div>
+                            <div className="text-muted-foreground">{unit.customer.phone || unit.customer.email}</div>
+                          </>
+                        ) : unit.sale ? (
+                          <span className="text-muted-foreground">Walk-in</span>
+                        ) : null}
+                      </td>
+                      <td className="p-4 text-sm">
+                        {unit.warrantyExpiresAt ? (
+                          <Badge variant={unit.warrantyExpiresAt >= today ? "secondary" : "destructive"}>
+                            {unit.warrantyExpiresAt >= today ? "Until" : "Expired"} {new Date(`${unit.warrantyExpiresAt}T00:00`).toLocaleDateString()}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">
+                            {unit.product.warrantyMonths ? "Starts at sale" : "No warranty"}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ZReport } from "@/components/shifts/ZReport";
+import { CloseShiftDialog } from "@/components/shifts/CloseShiftDialog";
+import { useShifts, useShiftReport } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { hasPermission } from "@shared/permissions";
+import { formatCurrency } from "@shared/schema";
+import { Wallet } from "lucide-react";
+
+const formatTime = (value: string | Date | null) => (value ? new Date(value).toLocaleString() : "-");
+
+// Shift history with Z-reports. Cashiers see their own shifts; shifts.manage sees everyone's.
+export default function Shifts() {
+  const [status, setStatus] = useState("all");
+  const [viewingShift, setViewingShift] = useState<string | null>(null);
+  const [closingShift, setClosingShift] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "shifts.manage");
+  const { data: shiftList = [], isLoading } = useShifts({ status: status !== "all" ? status : undefined });
+  const { data: report, isLoading: reportLoading } = useShiftReport(viewingShift);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Shifts</h1>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-40" data-testid="select-shift-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All shifts</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="closed">Closed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Wallet className="mr-2 h-5 w-5" />
+            {canManage ? "All Shifts" : "My Shifts"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="shifts-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-4 font-medium">Register</th>
+                  <th className="text-left p-4 font-medium">Cashier</th>
+                  <th className="text-left p-4 font-medium">Opened</th>
+                  <th className="text-left p-4 font-medium">Closed</th>
+                  <th className="text-left p-4 font-medium">Expected</th>
+                  <th className="text-left p-4 font-medium">Counted</th>
+                  <th className="text-left p-4 font-medium">Variance</th>
+                  <th className="p-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  Array(3).fill(0).map((_, index) => (
+                    <tr key={index} className="border-b border-border animate-pulse">
+                      {Array(8).fill(0).map((_, cell) => (
+                        <td key={cell} className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
+                      ))}
+                    </tr>
+                  ))
+                ) : shiftList.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="p-8 text-center text-muted-foreground">
+                      <Wallet className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      No shifts recorded
+                    </td>
+                  </tr>
+                ) : (
+                  shiftList.map((shift) => {
+                    const variance = shift.variance !== null ? parseFloat(shift.variance) : null;
+                    return (
+                      <tr key={shift.id} className="border-b border-border" data-testid={`shift-row-${shift.id}`}>
+                        <td className="p-4 font-medium">{shift.register}</td>
+                        <td className="p-4">{shift.user?.fullName || shift.user?.username}</td>
+                        <td className="p-4 text-sm text-muted-foreground">{formatTime(shift.openedAt)}</td>
+                        <td className="p-4 text-sm text-muted-foreground">
+                          {shift.status === "open" ? <Badge>Open</Badge> : formatTime(shift.closedAt)}
+                        </td>
+                        <td className="p-4">{shift.expectedCash !== null ? formatCurrency(shift.expectedCash) : "-"}</td>
+                        <td className="p-4">{shift.countedCash !== null ? formatCurrency(shift.countedCash) : "-"}</td>
+                        <td className="p-4">
+                          {variance === null ? "-" : (
+                            <Badge variant={variance === 0 ? "secondary" : "destructive"}>
+                              {variance > 0 ? "+" : variance < 0 ? "-" : ""}{formatCurrency(Math.abs(variance))}
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="p-4">
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setViewingShift(shift.id)}
+                              data-testid={`button-view-shift-${shift.id}`}
+                            >
+                              {shift.status === "open" ? "X-Report" : "Z-Report"}
+                            </Button>
+                            {shift.status === "open" && (canManage || shift.userId === user?.id) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setClosingShift(shift.id)}
+                                data-testid={`button-close-shift-${shift.id}`}
+                              >
+                                Close
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewingShift} onOpenChange={(isOpen) => !isOpen && setViewingShift(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{report?.shift.status === "open" ? "X-Report (shift still open)" : "Z-Report"}</DialogTitle>
+          </DialogHeader>
+          {reportLoading || !report ? (
+            <div className="h-32 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <ZReport report={report} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <CloseShiftDialog shiftId={closingShift} onClose={() => setClosingShift(null)} />
+    </div>
+  );
+}
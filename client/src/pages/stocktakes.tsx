@@ -0,0 +1,585 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useLocations,
+  useCategories,
+  useSuppliers,
+  useStocktakes,
+  useStocktake,
+  useCreateStocktake,
+  useRecordCounts,
+  usePostStocktake,
+  useCancelStocktake,
+} from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import { parseSerials } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { hasPermission } from "@shared/permissions";
+import { formatCurrency } from "@shared/schema";
+import type { StocktakeWithDetails } from "@shared/schema";
+import { Plus, ClipboardCheck, Eye, ScanLine, Save, CheckCircle, XCircle, Download } from "lucide-react";
+
+const statusLabels: Record<string, string> = {
+  counting: "Counting",
+  posted: "Posted",
+  cancelled: "Cancelled",
+};
+
+const statusBadgeClass: Record<string, string> = {
+  counting: "bg-warning text-warning-foreground",
+  posted: "bg-success text-success-foreground",
+  cancelled: "",
+};
+
+const varianceClass = (variance: number | null) =>
+  variance === null || variance === 0 ? "" : variance < 0 ? "text-destructive" : "text-success";
+
+const describeScope = (stocktake: StocktakeWithDetails) =>
+  [stocktake.category?.name, stocktake.supplier?.name].filter(Boolean).join(" · ") || "All products";
+
+// Stocktakes freeze expected quantities for a location, collect counts from
+// anyone with inventory.count and post the variances as adjustments.
+export default function Stocktakes() {
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "inventory.adjust");
+  const { data: stocktakeList = [], isLoading } = useStocktakes(statusFilter !== "all" ? statusFilter : undefined);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-2xl font-semibold">Stocktakes</h1>
+          <Badge variant="secondary" data-testid="stocktakes-count">
+            {stocktakeList.filter(stocktake => stocktake.status === "counting").length} counting
+          </Badge>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-44" data-testid="select-stocktake-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canManage && (
+            <Button onClick={() => setIsCreateDialogOpen(true)} data-testid="button-new-stocktake">
+              <Plus className="mr-2 h-4 w-4" />
+              New Stocktake
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Counts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="stocktakes-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-4 font-medium">Reference</th>
+                  <th className="text-left p-4 font-medium">Location</th>
+                  <th className="text-left p-4 font-medium">Status</th>
+                  <th className="text-left p-4 font-medium">Counted</th>
+                  <th className="text-left p-4 font-medium">Variance</th>
+                  <th className="text-left p-4 font-medium">Started</th>
+                  <th className="text-left p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  Array(5).fill(0).map((_, index) => (
+                    <tr key={index} className="border-b border-border animate-pulse">
+                      {Array(7).fill(0).map((_, cell) => (
+                        <td key={cell} className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
+                      ))}
+                    </tr>
+                  ))
+                ) : stocktakeList.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="p-8 text-center text-muted-foreground">
+                      <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      No stocktakes found
+                    </td>
+                  </tr>
+                ) : (
+                  stocktakeList.map((stocktake) => {
+                    const value = parseFloat(stocktake.summary.varianceValue);
+                    return (
+                      <tr key={stocktake.id} className="border-b border-border hover:bg-muted/50" data-testid={`stocktake-row-${stocktake.id}`}>
+                        <td className="p-4 font-medium text-foreground">{stocktake.reference}</td>
+                        <td className="p-4 text-muted-foreground">{stocktake.location?.name}</td>
+                        <td className="p-4">
+                          <Badge
+                            variant={stocktake.status === "cancelled" ? "destructive" : "secondary"}
+                            className={statusBadgeClass[stocktake.status]}
+                          >
+                            {statusLabels[stocktake.status] || stocktake.status}
+                          </Badge>
+                        </td>
+                        <td className="p-4 text-muted-foreground">
+                          {stocktake.summary.countedCount} / {stocktake.summary.itemCount}
+                        </td>
+                        <td className={`p-4 ${varianceClass(value)}`}>{formatCurrency(value)}</td>
+                        <td className="p-4 text-muted-foreground">
+                          {stocktake.createdAt ? new Date(stocktake.createdAt).toLocaleDateString() : ""}
+                        </td>
+                        <td className="p-4">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSelectedId(stocktake.id)}
+                            data-testid={`button-view-stocktake-${stocktake.id}`}
+                          >
+                            <Eye className="mr-2 h-4 w-4" />
+                            {stocktake.status === "counting" ? "Count" : "View"}
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <CreateStocktakeDialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen} onCreated={setSelectedId} />
+      <StocktakeDialog stocktakeId={selectedId} canManage={canManage} onClose={() => setSelectedId(null)} />
+    </div>
+  );
+}
+
+interface CreateStocktakeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (id: string) => void;
+}
+
+function CreateStocktakeDialog({ open, onOpenChange, onCreated }: CreateStocktakeDialogProps) {
+  const [locationId, setLocationId] = useState("");
+  const [categoryId, setCategoryId] = useState("all");
+  const [supplierId, setSupplierId] = useState("all");
+  const [note, setNote] = useState("");
+
+  const { data: locations = [] } = useLocations();
+  const { data: categories = [] } = useCategories();
+  const { data: suppliers = [] } = useSuppliers();
+  const createStocktake = useCreateStocktake();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) {
+      setLocationId("");
+      setCategoryId("all");
+      setSupplierId("all");
+      setNote("");
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const stocktake = await createStocktake.mutateAsync({
+        locationId,
+        categoryId: categoryId !== "all" ? categoryId : null,
+        supplierId: supplierId !== "all" ? supplierId : null,
+        note: note.trim() || null,
+      });
+      toast({
+        title: "Stocktake Started",
+        description: `${stocktake.reference} is open for counting.`,
+      });
+      onOpenChange(false);
+      onCreated(stocktake.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to start stocktake. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Stocktake</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Location</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger data-testid="select-stocktake-location">
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.filter(location => location.isActive).map((location) => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">Category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger data-testid="select-stocktake-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">Supplier</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger data-testid="select-stocktake-supplier">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Suppliers</SelectItem>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">Note</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              data-testid="textarea-stocktake-note"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createStocktake.isPending || !locationId} data-testid="button-start-stocktake">
+              {createStocktake.isPending ? "Starting..." : "Start Count"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface StocktakeDialogProps {
+  stocktakeId: string | null;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+function StocktakeDialog({ stocktakeId, canManage, onClose }: StocktakeDialogProps) {
+  const [scanCode, setScanCode] = useState("");
+  const [search, setSearch] = useState("");
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const { data: stocktake, isLoading } = useStocktake(stocktakeId);
+  const recordCounts = useRecordCounts();
+  const postStocktake = usePostStocktake();
+  const cancelStocktake = useCancelStocktake();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDrafts({});
+    setScanCode("");
+    setSearch("");
+  }, [stocktakeId]);
+
+  const isCounting = stocktake?.status === "counting";
+  const items = stocktake?.items ?? [];
+  const visibleItems = search
+    ? items.filter(item =>
+        item.product?.name.toLowerCase().includes(search.toLowerCase()) ||
+        item.product?.sku.toLowerCase().includes(search.toLowerCase()))
+    : items;
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+
+  // Each scan adds one unit, so several people can scan the same product
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = scanCode.trim();
+    if (!stocktake || !code) return;
+
+    const item = items.find(line => line.product?.barcode === code || line.product?.sku === code);
+    setScanCode("");
+    if (!item) {
+      toast({
+        title: "Not in this count",
+        description: `No product in ${stocktake.reference} matches "${code}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await recordCounts.mutateAsync({ id: stocktake.id, counts: [{ productId: item.productId, quantity: 1, mode: "add" }] });
+    } catch (error) {
+      showError(error, "Failed to record scan.");
+    }
+  };
+
+  const handleSaveCounts = async () => {
+    if (!stocktake) return;
+    const counts = Object.entries(drafts)
+      .filter(([_, value]) => value !== "")
+      .map(([productId, value]) => ({ productId, quantity: parseInt(value, 10), mode: "set" as const }))
+      .filter(count => !isNaN(count.quantity));
+    if (counts.length === 0) return;
+
+    try {
+      await recordCounts.mutateAsync({ id: stocktake.id, counts });
+      setDrafts({});
+      toast({
+        title: "Counts Saved",
+        description: `${counts.length} count(s) recorded.`,
+      });
+    } catch (error) {
+      showError(error, "Failed to save counts. Please try again.");
+    }
+  };
+
+  const handlePost = async () => {
+    if (!stocktake) return;
+    const uncounted = stocktake.summary.itemCount - stocktake.summary.countedCount;
+    const warning = uncounted > 0 ? ` ${uncounted} uncounted product(s) will be left unchanged.` : "";
+    if (!confirm(`Post ${stocktake.reference} and adjust stock by the variances?${warning}`)) return;
+
+    // Serial-tracked products name the units missing or found
+    const serialNumbers: Record<string, string[]> = {};
+    for (const item of items.filter(line => line.product?.serialTracked && line.variance)) {
+      const units = Math.abs(item.variance!);
+      const entered = prompt(
+        `Enter the serial number of each of the ${units} ${item.product!.name} ${item.variance! < 0 ? "missing" : "found"}, separated by commas`,
+      );
+      if (entered === null) return;
+      serialNumbers[item.productId] = parseSerials(entered);
+    }
+
+    try {
+      await postStocktake.mutateAsync({ id: stocktake.id, serialNumbers });
+      toast({
+        title: "Stocktake Posted",
+        description: `Stock at ${stocktake.location?.name} has been adjusted.`,
+      });
+    } catch (error) {
+      showError(error, "Failed to post stocktake.");
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!stocktake) return;
+    if (!confirm(`Cancel ${stocktake.reference}? Counts entered so far will be discarded.`)) return;
+
+    try {
+      await cancelStocktake.mutateAsync(stocktake.id);
+      toast({
+        title: "Stocktake Cancelled",
+        description: `${stocktake.reference} has been cancelled.`,
+      });
+      onClose();
+    } catch (error) {
+      showError(error, "Failed to cancel stocktake.");
+    }
+  };
+
+  const exportToCsv = () => {
+    if (!stocktake) return;
+    const csvContent = [
+      ["Product", "SKU", "Expected", "Book", "Counted", "Variance", "Unit Cost", "Variance Value"].join(","),
+      ...items.map(item => [
+        `"${item.product?.name ?? ""}"`,
+        item.product?.sku ?? "",
+        item.expectedQuantity,
+        item.bookQuantity ?? "",
+        item.countedQuantity ?? "",
+        item.variance ?? "",
+        item.unitCost,
+        item.varianceValue ?? "",
+      ].join(","))
+    ].join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${stocktake.reference}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const isBusy = recordCounts.isPending || postStocktake.isPending || cancelStocktake.isPending;
+
+  return (
+    <Dialog open={!!stocktakeId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>
+            {stocktake ? `${stocktake.reference} — ${stocktake.location?.name} (${describeScope(stocktake)})` : "Stocktake"}
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading || !stocktake ? (
+          <div className="h-48 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Badge
+                variant={stocktake.status === "cancelled" ? "destructive" : "secondary"}
+                className={statusBadgeClass[stocktake.status]}
+              >
+                {statusLabels[stocktake.status] || stocktake.status}
+              </Badge>
+              <div className="flex items-center space-x-6 text-sm">
+                <span>Counted {stocktake.summary.countedCount} / {stocktake.summary.itemCount}</span>
+                <span className={varianceClass(stocktake.summary.varianceUnits)}>
+                  {stocktake.summary.varianceUnits > 0 ? "+" : ""}{stocktake.summary.varianceUnits} units
+                </span>
+                <span className={`font-semibold ${varianceClass(parseFloat(stocktake.summary.varianceValue))}`}>
+                  {formatCurrency(stocktake.summary.varianceValue)}
+                </span>
+              </div>
+            </div>
+            {stocktake.note && <p className="text-sm text-muted-foreground">{stocktake.note}</p>}
+
+            <div className="flex items-center space-x-2">
+              {isCounting && (
+                <form onSubmit={handleScan} className="flex-1 relative">
+                  <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    autoFocus
+                    className="pl-9"
+                    placeholder="Scan barcode or enter SKU to count one unit"
+                    value={scanCode}
+                    onChange={(e) => setScanCode(e.target.value)}
+                    data-testid="input-stocktake-scan"
+                  />
+                </form>
+              )}
+              <Input
+                className={isCounting ? "w-64" : "flex-1"}
+                placeholder="Filter products..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                data-testid="input-stocktake-search"
+              />
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border border-border rounded-lg">
+              <table className="w-full text-sm" data-testid="stocktake-lines">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left p-3 font-medium">Product</th>
+                    <th className="text-left p-3 font-medium">Expected</th>
+                    <th className="text-left p-3 font-medium">Book</th>
+                    <th className="text-left p-3 font-medium w-32">Counted</th>
+                    <th className="text-left p-3 font-medium">Variance</th>
+                    <th className="text-left p-3 font-medium">Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleItems.map((item) => (
+                    <tr key={item.id} className="border-b border-border">
+                      <td className="p-3">
+                        <div className="font-medium">{item.product?.name}</div>
+                        <div className="text-xs text-muted-foreground">{item.product?.sku}</div>
+                      </td>
+                      <td className="p-3 text-muted-foreground">{item.expectedQuantity}</td>
+                      <td className="p-3 text-muted-foreground">{item.bookQuantity ?? "—"}</td>
+                      <td className="p-3">
+                        {isCounting ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            value={drafts[item.productId] ?? (item.countedQuantity === null ? "" : String(item.countedQuantity))}
+                            onChange={(e) => setDrafts(current => ({ ...current, [item.productId]: e.target.value }))}
+                            data-testid={`input-count-${item.productId}`}
+                          />
+                        ) : (
+                          item.countedQuantity ?? "—"
+                        )}
+                      </td>
+                      <td className={`p-3 ${varianceClass(item.variance)}`}>
+                        {item.variance === null ? "—" : `${item.variance > 0 ? "+" : ""}${item.variance}`}
+                      </td>
+                      <td className={`p-3 ${varianceClass(item.variance)}`}>
+                        {item.varianceValue === null ? "—" : formatCurrency(item.varianceValue)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={exportToCsv} data-testid="button-export-stocktake">
+                <Download className="mr-2 h-4 w-4" />
+                Export Variance Report
+              </Button>
+              {isCounting && (
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleSaveCounts}
+                    disabled={isBusy || Object.keys(drafts).length === 0}
+                    data-testid="button-save-counts"
+                  >
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Counts
+                  </Button>
+                  {canManage && (
+                    <>
+                      <Button variant="outline" onClick={handleCancel} disabled={isBusy} data-testid="button-cancel-stocktake">
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Cancel Count
+                      </Button>
+                      <Button onClick={handlePost} disabled={isBusy || Object.keys(drafts).length > 0} data-testid="button-post-stocktake">
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Post Adjustments
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
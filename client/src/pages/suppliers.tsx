@@ -9,11 +9,13 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useSuppliers, useCreateSupplier } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { insertSupplierSchema } from "@shared/schema";
+import { SupplierDetailDialog } from "@/components/suppliers/SupplierDetailDialog";
 import { Plus, Search, Truck, MapPin, Phone, Mail } from "lucide-react";
-import type { InsertSupplier } from "@shared/schema";
+import type { InsertSupplier, Supplier } from "@shared/schema";
 
 export default function Suppliers() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [viewingSupplier, setViewingSupplier] = useState<Supplier | null>(null);
   
   const { data: suppliers = [], isLoading, refetch } = useSuppliers();
   const createSupplier = useCreateSupplier();
@@ -29,6 +31,7 @@ export default function Suppliers() {
       address: "",
       city: "",
       country: "",
+      leadTimeDays: 7,
     },
   });
 
@@ -175,6 +178,26 @@ export default function Suppliers() {
                     )}
                   />
                 </div>
+
+                <FormField
+                  control={form.control}
+                  name="leadTimeDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lead Time (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value, 10))}
+                          data-testid="input-supplier-lead-time"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 
                 <div className="flex justify-end space-x-2">
                   <Button
@@ -273,11 +296,16 @@ export default function Suppliers() {
                   </div>
                 )}
                 
+                <p className="text-sm text-muted-foreground">
+                  Delivers in {supplier.leadTimeDays} day{supplier.leadTimeDays === 1 ? "" : "s"}
+                </p>
+                
                 <div className="pt-4">
                   <Button
                     variant="outline"
                     size="sm"
                     className="w-full"
+                    onClick={() => setViewingSupplier(supplier)}
                     data-testid={`button-view-supplier-${supplier.id}`}
                   >
                     View Details
@@ -288,6 +316,8 @@ export default function Suppliers() {
           ))
         )}
       </div>
+
+      <SupplierDetailDialog supplier={viewingSupplier} onClose={() => setViewingSupplier(null)} />
     </div>
   );
 }
@@ -0,0 +1,530 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useLocations,
+  useProducts,
+  useTransfers,
+  useTransfer,
+  useCreateTransfer,
+  useSendTransfer,
+  useReceiveTransfer,
+  useCancelTransfer,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/queryClient";
+import { parseSerials } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { ReceiveTransfer } from "@shared/schema";
+import { Plus, ArrowLeftRight, Eye, Send, PackageCheck, XCircle, Trash2 } from "lucide-react";
+
+const statusLabels: Record<string, string> = {
+  draft: "Draft",
+  in_transit: "In Transit",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+const statusBadgeClass: Record<string, string> = {
+  draft: "",
+  in_transit: "bg-warning text-warning-foreground",
+  received: "bg-success text-success-foreground",
+  cancelled: "",
+};
+
+export default function Transfers() {
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [selectedTransferId, setSelectedTransferId] = useState<string | null>(null);
+
+  const { data: transfers = [], isLoading } = useTransfers(statusFilter !== "all" ? statusFilter : undefined);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-2xl font-semibold">Stock Transfers</h1>
+          <Badge variant="secondary" data-testid="transfers-count">
+            {transfers.length} transfers
+          </Badge>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-44" data-testid="select-transfer-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setIsCreateDialogOpen(true)} data-testid="button-new-transfer">
+            <Plus className="mr-2 h-4 w-4" />
+            New Transfer
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transfers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="transfers-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-4 font-medium">Transfer #</th>
+                  <th className="text-left p-4 font-medium">From</th>
+                  <th className="text-left p-4 font-medium">To</th>
+                  <th className="text-left p-4 font-medium">Status</th>
+                  <th className="text-left p-4 font-medium">Created</th>
+                  <th className="text-left p-4 font-medium">Received</th>
+                  <th className="text-left p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  Array(5).fill(0).map((_, index) => (
+                    <tr key={index} className="border-b border-border animate-pulse">
+                      {Array(7).fill(0).map((_, cell) => (
+                        <td key={cell} className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
+                      ))}
+                    </tr>
+                  ))
+                ) : transfers.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="p-8 text-center text-muted-foreground">
+                      <ArrowLeftRight className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      No transfers found
+                    </td>
+                  </tr>
+                ) : (
+                  transfers.map((transfer) => (
+                    <tr key={transfer.id} className="border-b border-border hover:bg-muted/50" data-testid={`transfer-row-${transfer.id}`}>
+                      <td className="p-4 font-medium text-foreground">{transfer.transferNumber}</td>
+                      <td className="p-4 text-muted-foreground">{transfer.fromLocation?.name}</td>
+                      <td className="p-4 text-muted-foreground">{transfer.toLocation?.name}</td>
+                      <td className="p-4">
+                        <Badge
+                          variant={transfer.status === "cancelled" ? "destructive" : "secondary"}
+                          className={statusBadgeClass[transfer.status]}
+                        >
+                          {statusLabels[transfer.status] || transfer.status}
+                        </Badge>
+                      </td>
+                      <td className="p-4 text-muted-foreground">
+                        {transfer.createdAt ? new Date(transfer.createdAt).toLocaleDateString() : ""}
+                      </td>
+                      <td className="p-4 text-muted-foreground">
+                        {transfer.receivedAt ? new Date(transfer.receivedAt).toLocaleDateString() : "—"}
+                      </td>
+                      <td className="p-4">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedTransferId(transfer.id)}
+                          data-testid={`button-view-transfer-${transfer.id}`}
+                        >
+                          <Eye className="mr-2 h-4 w-4" />
+                          View
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <CreateTransferDialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen} />
+      <TransferDetailDialog transferId={selectedTransferId} onClose={() => setSelectedTransferId(null)} />
+    </div>
+  );
+}
+
+function CreateTransferDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [fromLocationId, setFromLocationId] = useState("");
+  const [toLocationId, setToLocationId] = useState("");
+  const [note, setNote] = useState("");
+  const [productId, setProductId] = useState("");
+  const [lines, setLines] = useState<Record<string, string>>({});
+  const [lineSerials, setLineSerials] = useState<Record<string, string>>({}); // serial-tracked lines only
+
+  const { data: locations = [] } = useLocations();
+  const { data: products = [] } = useProducts({ location: fromLocationId || undefined });
+  const createTransfer = useCreateTransfer();
+  const { toast } = useToast();
+
+  const activeLocations = locations.filter(location => location.isActive);
+  const lineProducts = Object.keys(lines)
+    .map(id => products.find(p => p.id === id))
+    .filter(p => p !== undefined);
+
+  useEffect(() => {
+    if (!open) {
+      setFromLocationId("");
+      setToLocationId("");
+      setNote("");
+      setProductId("");
+      setLines({});
+      setLineSerials({});
+    }
+  }, [open]);
+
+  const addLine = (id: string) => {
+    setLines(current => ({ ...current, [id]: current[id] ?? "1" }));
+    if (products.find(p => p.id === id)?.serialTracked) {
+      setLineSerials(current => ({ ...current, [id]: current[id] ?? "" }));
+    }
+    setProductId("");
+  };
+
+  const removeLine = (id: string) => {
+    setLines(current => {
+      const { [id]: _, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const items = Object.entries(lines)
+    .map(([id, quantity]) => ({
+      productId: id,
+      quantity: parseInt(quantity || "0", 10),
+      serialNumbers: lineSerials[id] !== undefined ? parseSerials(lineSerials[id]) : undefined,
+    }))
+    .filter(item => item.quantity > 0);
+
+  const handleSubmit = async () => {
+    if (!fromLocationId || !toLocationId || items.length === 0) {
+      toast({
+        title: "Nothing to transfer",
+        description: "Choose both locations and enter a quantity for at least one product.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const transfer = await createTransfer.mutateAsync({ fromLocationId, toLocationId, note: note.trim() || null, items });
+      toast({
+        title: "Transfer Created",
+        description: `${transfer.transferNumber} is ready to send.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create transfer. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>New Transfer</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">From</Label>
+              <Select value={fromLocationId} onValueChange={(value) => { setFromLocationId(value); setLines({}); setLineSerials({}); }}>
+                <SelectTrigger data-testid="select-transfer-from">
+                  <SelectValue placeholder="Source location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeLocations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-2 block">To</Label>
+              <Select value={toLocationId} onValueChange={setToLocationId}>
+                <SelectTrigger data-testid="select-transfer-to">
+                  <SelectValue placeholder="Destination" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeLocations.filter(location => location.id !== fromLocationId).map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {fromLocationId && (
+            <>
+              <div>
+                <Label className="mb-2 block">Add Product</Label>
+                <Select value={productId} onValueChange={addLine}>
+                  <SelectTrigger data-testid="select-transfer-product">
+                    <SelectValue placeholder="Select a product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.filter(p => !p.variantOptions && !(p.id in lines)).map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.name} ({product.quantity} on hand)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {lineProducts.length > 0 && (
+                <div className="max-h-72 overflow-y-auto border border-border rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left p-3 font-medium">Product</th>
+                        <th className="text-left p-3 font-medium">On Hand</th>
+                        <th className="text-left p-3 font-medium w-32">Quantity</th>
+                        <th className="p-3 w-12"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lineProducts.map((product) => (
+                        <tr key={product.id} className="border-b border-border">
+                          <td className="p-3">
+                            <div className="font-medium">{product.name}</div>
+                            <div className="text-xs text-muted-foreground">{product.sku}</div>
+                            {product.serialTracked && (
+                              <Input
+                                className="mt-2 h-8"
+                                placeholder="Serial numbers, comma separated"
+                                value={lineSerials[product.id] ?? ""}
+                                onChange={(e) => setLineSerials(current => ({ ...current, [product.id]: e.target.value }))}
+                                data-testid={`input-transfer-serials-${product.id}`}
+                              />
+                            )}
+                          </td>
+                          <td className="p-3 text-muted-foreground">{product.quantity}</td>
+                          <td className="p-3">
+                            <Input
+                              type="number"
+                              min={1}
+                              value={lines[product.id]}
+                              onChange={(e) => setLines(current => ({ ...current, [product.id]: e.target.value }))}
+                              data-testid={`input-transfer-qty-${product.id}`}
+                            />
+                          </td>
+                          <td className="p-3">
+                            <Button variant="ghost" size="icon" onClick={() => removeLine(product.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+
+          <div>
+            <Label className="mb-2 block">Note</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              data-testid="textarea-transfer-note"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={createTransfer.isPending} data-testid="button-create-transfer">
+              {createTransfer.isPending ? "Creating..." : "Create Transfer"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TransferDetailDialog({ transferId, onClose }: { transferId: string | null; onClose: () => void }) {
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, string>>({});
+
+  const { data: transfer, isLoading } = useTransfer(transferId);
+  const sendTransfer = useSendTransfer();
+  const receiveTransfer = useReceiveTransfer();
+  const cancelTransfer = useCancelTransfer();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!transfer?.items) return;
+    setReceivedQuantities(Object.fromEntries(transfer.items.map(item => [item.id, String(item.quantity)])));
+  }, [transfer]);
+
+  const run = async (action: () => Promise<unknown>, title: string, description: string, fallback: string) => {
+    try {
+      await action();
+      toast({ title, description });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, fallback),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!transferId) return null;
+
+  const handleSend = () => transfer && run(
+    () => sendTransfer.mutateAsync({ id: transfer.id }),
+    "Transfer Sent",
+    `${transfer.transferNumber} is now in transit.`,
+    "Failed to send transfer.",
+  );
+
+  const handleReceive = () => {
+    if (!transfer) return;
+    const items: NonNullable<ReceiveTransfer["items"]> = [];
+    for (const [itemId, value] of Object.entries(receivedQuantities)) {
+      const quantity = parseInt(value || "0", 10);
+      const item = transfer.items?.find(line => line.id === itemId);
+      // A short serial-tracked line names the units that arrived; the rest are lost
+      let serialNumbers: string[] | undefined;
+      if (item?.serialNumbers?.length && quantity > 0 && quantity < item.quantity) {
+        const entered = prompt(`Enter the serial number of each of the ${quantity} ${item.product?.name} received, separated by commas`);
+        if (entered === null) return;
+        serialNumbers = parseSerials(entered);
+      }
+      items.push({ itemId, quantity, serialNumbers });
+    }
+    run(
+      () => receiveTransfer.mutateAsync({ id: transfer.id, items }),
+      "Transfer Received",
+      `Stock from ${transfer.transferNumber} has been added to ${transfer.toLocation?.name}.`,
+      "Failed to receive transfer.",
+    );
+  };
+
+  const handleCancel = () => {
+    if (!transfer) return;
+    const returning = transfer.status === "in_transit" ? " Sent stock will go back to the source location." : "";
+    if (!confirm(`Cancel transfer ${transfer.transferNumber}?${returning}`)) return;
+    run(
+      () => cancelTransfer.mutateAsync({ id: transfer.id }),
+      "Transfer Cancelled",
+      `${transfer.transferNumber} has been cancelled.`,
+      "Failed to cancel transfer.",
+    );
+  };
+
+  const isBusy = sendTransfer.isPending || receiveTransfer.isPending || cancelTransfer.isPending;
+
+  return (
+    <Dialog open={!!transferId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {transfer ? `${transfer.transferNumber} — ${transfer.fromLocation?.name} → ${transfer.toLocation?.name}` : "Transfer"}
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading || !transfer ? (
+          <div className="h-48 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Badge
+                variant={transfer.status === "cancelled" ? "destructive" : "secondary"}
+                className={statusBadgeClass[transfer.status]}
+              >
+                {statusLabels[transfer.status] || transfer.status}
+              </Badge>
+              {transfer.sentAt && (
+                <p className="text-sm text-muted-foreground">Sent {new Date(transfer.sentAt).toLocaleString()}</p>
+              )}
+            </div>
+            {transfer.note && <p className="text-sm text-muted-foreground">{transfer.note}</p>}
+
+            <div className="max-h-80 overflow-y-auto border border-border rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left p-3 font-medium">Product</th>
+                    <th className="text-left p-3 font-medium">Sent</th>
+                    <th className="text-left p-3 font-medium w-32">Received</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {transfer.items?.map((item) => (
+                    <tr key={item.id} className="border-b border-border">
+                      <td className="p-3">
+                        <div className="font-medium">{item.product?.name}</div>
+                        <div className="text-xs text-muted-foreground">{item.product?.sku}</div>
+                        {item.serialNumbers && item.serialNumbers.length > 0 && (
+                          <div className="text-xs text-muted-foreground">S/N: {item.serialNumbers.join(", ")}</div>
+                        )}
+                      </td>
+                      <td className="p-3">{item.quantity}</td>
+                      <td className="p-3">
+                        {transfer.status === "in_transit" ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            max={item.quantity}
+                            value={receivedQuantities[item.id] ?? ""}
+                            onChange={(e) => setReceivedQuantities(current => ({ ...current, [item.id]: e.target.value }))}
+                            data-testid={`input-receive-transfer-${item.id}`}
+                          />
+                        ) : transfer.status === "received" ? (
+                          item.receivedQuantity
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              {(transfer.status === "draft" || transfer.status === "in_transit") && (
+                <Button variant="outline" onClick={handleCancel} disabled={isBusy} data-testid="button-cancel-transfer">
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Cancel Transfer
+                </Button>
+              )}
+              {transfer.status === "draft" && (
+                <Button onClick={handleSend} disabled={isBusy} data-testid="button-send-transfer">
+                  <Send className="mr-2 h-4 w-4" />
+                  Send
+                </Button>
+              )}
+              {transfer.status === "in_transit" && (
+                <Button onClick={handleReceive} disabled={isBusy} data-testid="button-receive-transfer">
+                  <PackageCheck className="mr-2 h-4 w-4" />
+                  Receive
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
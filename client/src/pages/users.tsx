@@ -0,0 +1,717 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useUsers, useCreateUser, useUpdateUser, useResetPassword, useDeleteUser,
+  useUserSessions, useRevokeSession, useRevokeUserSessions,
+  useRoles, useCreateRole, useUpdateRole, useDeleteRole,
+} from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { permissions, allPermissions, ADMIN_ROLE, type Permission } from "@shared/permissions";
+import type { SafeUser, RoleWithUsage } from "@shared/schema";
+import { Plus, Edit, Trash2, KeyRound, UserCog, ShieldCheck, MonitorSmartphone } from "lucide-react";
+
+// Permissions grouped by their prefix ("sales.refund" -> "sales") for the role editor
+const permissionGroups = allPermissions.reduce<Record<string, Permission[]>>((groups, permission) => {
+  const group = permission.split(".")[0];
+  (groups[group] ??= []).push(permission);
+  return groups;
+}, {});
+
+const groupLabel = (group: string) =>
+  group.replace(/_/g, " ").replace(/^\w/, char => char.toUpperCase());
+
+export default function Users() {
+  const [isUserDialogOpen, setIsUserDialogOpen] = useState(false);
+  const [resettingUser, setResettingUser] = useState<SafeUser | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<SafeUser | null>(null);
+  const [isRoleDialogOpen, setIsRoleDialogOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<RoleWithUsage | null>(null);
+
+  const { data: userList = [], isLoading: usersLoading } = useUsers();
+  const { data: roleList = [], isLoading: rolesLoading } = useRoles();
+  const updateUser = useUpdateUser();
+  const deleteUser = useDeleteUser();
+  const deleteRole = useDeleteRole();
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const handleUserChange = async (user: SafeUser, changes: { role?: string; isActive?: boolean }) => {
+    try {
+      await updateUser.mutateAsync({ id: user.id, ...changes });
+    } catch (error) {
+      showError(error, "Failed to update user. Please try again.");
+    }
+  };
+
+  const handleDeleteUser = async (user: SafeUser) => {
+    if (confirm(`Are you sure you want to delete "${user.username}"? This action cannot be undone.`)) {
+      try {
+        await deleteUser.mutateAsync(user.id);
+        toast({
+          title: "User Deleted",
+          description: "User has been deleted successfully.",
+        });
+      } catch (error) {
+        showError(error, "Failed to delete user. Please try again.");
+      }
+    }
+  };
+
+  const openCreateRole = () => {
+    setEditingRole(null);
+    setIsRoleDialogOpen(true);
+  };
+
+  const openEditRole = (role: RoleWithUsage) => {
+    setEditingRole(role);
+    setIsRoleDialogOpen(true);
+  };
+
+  const handleDeleteRole = async (role: RoleWithUsage) => {
+    if (confirm(`Are you sure you want to delete the "${role.name}" role?`)) {
+      try {
+        await deleteRole.mutateAsync(role.id);
+        toast({
+          title: "Role Deleted",
+          description: "Role has been deleted successfully.",
+        });
+      } catch (error) {
+        showError(error, "Failed to delete role. Please try again.");
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-2xl font-semibold">Users</h1>
+          <Badge variant="secondary" data-testid="users-count">
+            {userList.filter(u => u.isActive).length} active
+          </Badge>
+        </div>
+        <Button onClick={() => setIsUserDialogOpen(true)} data-testid="button-add-user">
+          <Plus className="mr-2 h-4 w-4" />
+          Add User
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Users</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="users-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-4 font-medium">User</th>
+                  <th className="text-left p-4 font-medium">Email</th>
+                  <th className="text-left p-4 font-medium">Role</th>
+                  <th className="text-left p-4 font-medium">Active</th>
+                  <th className="text-left p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {usersLoading ? (
+                  Array(3).fill(0).map((_, index) => (
+                    <tr key={index} className="border-b border-border animate-pulse">
+                      {Array(5).fill(0).map((_, cell) => (
+                        <td key={cell} className="p-4"><div className="h-4 bg-muted rounded w-20"></div></td>
+                      ))}
+                    </tr>
+                  ))
+                ) : userList.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                      <UserCog className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      No users yet
+                    </td>
+                  </tr>
+                ) : (
+                  userList.map((user) => {
+                    const isSelf = user.id === currentUser?.id;
+                    return (
+                      <tr key={user.id} className="border-b border-border" data-testid={`user-row-${user.id}`}>
+                        <td className="p-4">
+                          <div className="font-medium text-foreground">{user.fullName || user.username}</div>
+                          <div className="text-sm text-muted-foreground">@{user.username}</div>
+                        </td>
+                        <td className="p-4 text-sm">{user.email || "-"}</td>
+                        <td className="p-4">
+                          <Select value={user.role} onValueChange={(role) => handleUserChange(user, { role })}>
+                            <SelectTrigger className="w-40 capitalize" data-testid={`select-user-role-${user.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {roleList.map(role => (
+                                <SelectItem key={role.id} value={role.name} className="capitalize">{role.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="p-4">
+                          <Switch
+                            checked={user.isActive}
+                            disabled={isSelf}
+                            onCheckedChange={(isActive) => handleUserChange(user, { isActive })}
+                            data-testid={`switch-user-active-${user.id}`}
+                          />
+                        </td>
+                        <td className="p-4">
+                          <div className="flex space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setResettingUser(user)}
+                              title="Reset password"
+                              data-testid={`button-reset-password-${user.id}`}
+                            >
+                              <KeyRound className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setSessionsUser(user)}
+                              title="Sessions"
+                              data-testid={`button-sessions-${user.id}`}
+                            >
+                              <MonitorSmartphone className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-destructive"
+                              disabled={isSelf}
+                              onClick={() => handleDeleteUser(user)}
+                              data-testid={`button-delete-user-${user.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Roles</CardTitle>
+          <Button variant="outline" onClick={openCreateRole} data-testid="button-add-role">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Role
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="roles-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-4 font-medium">Role</th>
+                  <th className="text-left p-4 font-medium">Permissions</th>
+                  <th className="text-left p-4 font-medium">Users</th>
+                  <th className="text-left p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rolesLoading ? (
+                  <tr>
+                    <td colSpan={4} className="p-8 text-center text-muted-foreground">Loading...</td>
+                  </tr>
+                ) : (
+                  roleList.map((role) => (
+                    <tr key={role.id} className="border-b border-border" data-testid={`role-row-${role.id}`}>
+                      <td className="p-4">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium text-foreground capitalize">{role.name}</span>
+                          {role.isSystem && <Badge variant="outline">Built-in</Badge>}
+                        </div>
+                        <div className="text-sm text-muted-foreground">{role.description}</div>
+                      </td>
+                      <td className="p-4 text-sm">
+                        {role.permissions.length} of {allPermissions.length}
+                      </td>
+                      <td className="p-4">{role.userCount}</td>
+                      <td className="p-4">
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openEditRole(role)}
+                            data-testid={`button-edit-role-${role.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {!role.isSystem && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-destructive"
+                              onClick={() => handleDeleteRole(role)}
+                              data-testid={`button-delete-role-${role.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <UserFormDialog
+        open={isUserDialogOpen}
+        roles={roleList}
+        onClose={() => setIsUserDialogOpen(false)}
+      />
+
+      <ResetPasswordDialog
+        user={resettingUser}
+        onClose={() => setResettingUser(null)}
+      />
+
+      <SessionsDialog
+        user={sessionsUser}
+        onClose={() => setSessionsUser(null)}
+      />
+
+      <RoleFormDialog
+        open={isRoleDialogOpen}
+        role={editingRole}
+        onClose={() => setIsRoleDialogOpen(false)}
+      />
+    </div>
+  );
+}
+
+const emptyUserForm = { username: "", fullName: "", email: "", password: "", role: "cashier" };
+
+function UserFormDialog({ open, roles, onClose }: { open: boolean; roles: RoleWithUsage[]; onClose: () => void }) {
+  const [form, setForm] = useState(emptyUserForm);
+  const createUser = useCreateUser();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setForm(emptyUserForm);
+  }, [open]);
+
+  const set = (field: keyof typeof emptyUserForm, value: string) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createUser.mutateAsync({
+        username: form.username.trim(),
+        fullName: form.fullName.trim() || null,
+        email: form.email.trim() || null,
+        password: form.password,
+        role: form.role,
+      });
+      toast({
+        title: "User Added",
+        description: "New user has been added successfully.",
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to add user. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add User</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Username</Label>
+            <Input value={form.username} onChange={(e) => set("username", e.target.value)} data-testid="input-user-username" />
+          </div>
+          <div>
+            <Label className="mb-2 block">Full Name</Label>
+            <Input value={form.fullName} onChange={(e) => set("fullName", e.target.value)} data-testid="input-user-full-name" />
+          </div>
+          <div>
+            <Label className="mb-2 block">Email</Label>
+            <Input type="email" value={form.email} onChange={(e) => set("email", e.target.value)} data-testid="input-user-email" />
+          </div>
+          <div>
+            <Label className="mb-2 block">Password</Label>
+            <Input
+              type="password"
+              autoComplete="new-password"
+              value={form.password}
+              onChange={(e) => set("password", e.target.value)}
+              data-testid="input-user-password"
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">Role</Label>
+            <Select value={form.role} onValueChange={(role) => set("role", role)}>
+              <SelectTrigger className="capitalize" data-testid="select-user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map(role => (
+                  <SelectItem key={role.id} value={role.name} className="capitalize">{role.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={createUser.isPending || !form.username.trim() || form.password.length < 6}
+              data-testid="button-save-user"
+            >
+              {createUser.isPending ? "Saving..." : "Add User"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ResetPasswordDialog({ user, onClose }: { user: SafeUser | null; onClose: () => void }) {
+  const [password, setPassword] = useState("");
+  const resetPassword = useResetPassword();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setPassword("");
+  }, [user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    try {
+      await resetPassword.mutateAsync({ id: user.id, password });
+      toast({
+        title: "Password Reset",
+        description: `${user.username} can now sign in with the new password.`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to reset password. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Reset Password{user ? ` for ${user.username}` : ""}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label className="mb-2 block">New Password</Label>
+            <Input
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-reset-password"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={resetPassword.isPending || password.length < 6}
+              data-testid="button-confirm-reset-password"
+            >
+              {resetPassword.isPending ? "Saving..." : "Reset Password"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SessionsDialog({ user, onClose }: { user: SafeUser | null; onClose: () => void }) {
+  const { data: sessions = [], isLoading } = useUserSessions(user?.id ?? null);
+  const revokeSession = useRevokeSession();
+  const revokeAll = useRevokeUserSessions();
+  const { toast } = useToast();
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const handleRevoke = async (sessionId: string, isCurrent: boolean) => {
+    if (!user) return;
+    if (isCurrent && !confirm("This is your current session. You will be signed out. Continue?")) return;
+    try {
+      await revokeSession.mutateAsync({ id: sessionId, userId: user.id });
+    } catch (error) {
+      showError(error, "Failed to revoke session. Please try again.");
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!user || !confirm(`Sign ${user.username} out of every device?`)) return;
+    try {
+      const { revoked } = await revokeAll.mutateAsync(user.id);
+      toast({
+        title: "Sessions Revoked",
+        description: `${revoked} session(s) ended.`,
+      });
+    } catch (error) {
+      showError(error, "Failed to revoke sessions. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Active Sessions{user ? ` for ${user.username}` : ""}</DialogTitle>
+        </DialogHeader>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left p-2 font-medium text-sm">Device</th>
+                <th className="text-left p-2 font-medium text-sm">IP Address</th>
+                <th className="text-left p-2 font-medium text-sm">Signed In</th>
+                <th className="text-left p-2 font-medium text-sm">Last Active</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="p-6 text-center text-muted-foreground">Loading...</td>
+                </tr>
+              ) : sessions.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-6 text-center text-muted-foreground">No active sessions</td>
+                </tr>
+              ) : (
+                sessions.map((session) => (
+                  <tr key={session.id} className="border-b border-border" data-testid={`row-session-${session.id}`}>
+                    <td className="p-2 text-sm max-w-xs">
+                      <div className="truncate" title={session.userAgent ?? undefined}>
+                        {session.userAgent || "Unknown device"}
+                      </div>
+                      {session.isCurrent && <Badge variant="secondary" className="mt-1">This device</Badge>}
+                    </td>
+                    <td className="p-2 text-sm">{session.ipAddress || "-"}</td>
+                    <td className="p-2 text-sm">{session.createdAt ? new Date(session.createdAt).toLocaleString() : "-"}</td>
+                    <td className="p-2 text-sm">{session.lastUsedAt ? new Date(session.lastUsedAt).toLocaleString() : "-"}</td>
+                    <td className="p-2 text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={revokeSession.isPending}
+                        onClick={() => handleRevoke(session.id, session.isCurrent)}
+                        data-testid={`button-revoke-session-${session.id}`}
+                      >
+                        Revoke
+                      </Button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={revokeAll.isPending || sessions.length === 0}
+            onClick={handleRevokeAll}
+            data-testid="button-revoke-all-sessions"
+          >
+            Sign Out Everywhere
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RoleFormDialogProps {
+  open: boolean;
+  role: RoleWithUsage | null;
+  onClose: () => void;
+}
+
+function RoleFormDialog({ open, role, onClose }: RoleFormDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [granted, setGranted] = useState<Permission[]>([]);
+  const createRole = useCreateRole();
+  const updateRole = useUpdateRole();
+  const { toast } = useToast();
+
+  // The admin role always holds every permission
+  const isLocked = role?.name === ADMIN_ROLE;
+
+  useEffect(() => {
+    if (open) {
+      setName(role?.name ?? "");
+      setDescription(role?.description ?? "");
+      setGranted(role?.permissions ?? []);
+    }
+  }, [open, role]);
+
+  const togglePermission = (permission: Permission, checked: boolean) =>
+    setGranted(current => checked ? [...current, permission] : current.filter(p => p !== permission));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (role) {
+        await updateRole.mutateAsync({
+          id: role.id,
+          description: description.trim() || null,
+          ...(isLocked ? {} : { permissions: granted }),
+        });
+        toast({
+          title: "Role Updated",
+          description: "Role has been updated successfully.",
+        });
+      } else {
+        await createRole.mutateAsync({
+          name: name.trim().toLowerCase(),
+          description: description.trim() || null,
+          permissions: granted,
+        });
+        toast({
+          title: "Role Added",
+          description: "New role has been added successfully.",
+        });
+      }
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save role. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isPending = createRole.isPending || updateRole.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{role ? `Edit Role: ${role.name}` : "Add Role"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Name</Label>
+              <Input
+                value={name}
+                disabled={!!role}
+                placeholder="e.g. supervisor"
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-role-name"
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">Description</Label>
+              <Input value={description} onChange={(e) => setDescription(e.target.value)} data-testid="input-role-description" />
+            </div>
+          </div>
+
+          {isLocked && (
+            <p className="flex items-center text-sm text-muted-foreground">
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              The admin role always has every permission.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {Object.entries(permissionGroups).map(([group, groupPermissions]) => (
+              <div key={group} className="rounded-lg border border-border p-3 space-y-2">
+                <p className="text-sm font-medium">{groupLabel(group)}</p>
+                {groupPermissions.map(permission => (
+                  <div key={permission} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`permission-${permission}`}
+                      checked={isLocked || granted.includes(permission)}
+                      disabled={isLocked}
+                      onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                      data-testid={`checkbox-permission-${permission}`}
+                    />
+                    <Label htmlFor={`permission-${permission}`} className="text-sm font-normal leading-tight">
+                      {permissions[permission]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || (!role && !name.trim())} data-testid="button-save-role">
+              {isPending ? "Saving..." : role ? "Update Role" : "Add Role"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+
+// Field names whose values never reach the audit log
+const REDACTED_FIELDS = new Set(["password", "pin", "token", "refreshToken", "accessToken", "secret", "refreshTokenHash", "previousTokenHash"]);
+const REDACTED = "[redacted]";
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Snapshot = Record<string, unknown> | null;
+
+// How to name and load the record behind each /api/<resource> path. Records
+// with a loader are read before and after the request so updates can be diffed.
+const entities: Record<string, { type: string; load?: (id?: string) => Promise<unknown> }> = {
+  auth: { type: "user" },
+  users: { type: "user", load: id => storage.getUser(id!) },
+  roles: { type: "role", load: id => storage.getRole(id!) },
+  sessions: { type: "session", load: id => storage.getSession(id!) },
+  categories: { type: "category", load: id => storage.getCategory(id!) },
+  suppliers: { type: "supplier", load: id => storage.getSupplier(id!) },
+  "supplier-products": { type: "supplier_product", load: id => storage.getSupplierProduct(id!) },
+  products: { type: "product", load: id => storage.getProduct(id!) },
+  locations: { type: "location", load: id => storage.getLocation(id!) },
+  transfers: { type: "transfer", load: id => storage.getTransfer(id!) },
+  "stock-lots": { type: "stock_lot", load: id => storage.getStockLot(id!) },
+  // Count lines are left out; every scan would otherwise store the whole sheet twice
+  stocktakes: { type: "stocktake", load: async id => {
+    const stocktake = await storage.getStocktake(id!);
+    return stocktake && { ...stocktake, items: undefined };
+  } },
+  customers: { type: "customer", load: id => storage.getCustomer(id!) },
+  sales: { type: "sale" },
+  "held-sales": { type: "held_sale" },
+  shifts: { type: "shift", load: id => storage.getShift(id!) },
+  returns: { type: "return" },
+  "purchase-orders": { type: "purchase_order", load: id => storage.getPurchaseOrder(id!) },
+  promotions: { type: "promotion", load: id => storage.getPromotion(id!) },
+  // Settings are a single row, so they load without an id
+  settings: { type: "settings", load: () => storage.getSystemSettings() },
+};
+
+export const auditEntityTypes = Array.from(new Set(Object.values(entities).map(entity => entity.type)));
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+      [key, REDACTED_FIELDS.has(key) ? REDACTED : redact(field)]
+    ));
+  }
+  return value;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+
+const asString = (value: unknown): string | undefined => typeof value === "string" ? value : undefined;
+
+const toSnapshot = (value: unknown): Snapshot =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? redact(JSON.parse(JSON.stringify(value))) as Record<string, unknown>
+    : value === undefined || value === null ? null : { value: redact(value) };
+
+// Keep only the fields that changed; secrets show as changed without their values
+function diff(before: Record<string, unknown>, after: Record<string, unknown>): { before: Snapshot; after: Snapshot } {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+// /api/products/<id>/adjust-stock -> product, <id>, "adjust-stock"
+function describeRequest(method: string, path: string) {
+  const [resource = "", second, third] = path.replace(/^\/api\/?/, "").split("/");
+  const entity = entities[resource] ?? { type: resource || "unknown" };
+  const entityId = second && ID_PATTERN.test(second) ? second : undefined;
+  const verb = entityId ? third : second;
+
+  let action: string;
+  if (method === "DELETE") action = "delete";
+  else if (verb) action = verb;
+  else if (method === "PUT") action = "update";
+  else action = "create";
+
+  return { entity, entityId, action };
+}
+
+// Records every POST/PUT/DELETE under /api once the response has been sent.
+// Failed requests are logged without before/after. Writing the entry never
+// affects the response itself.
+export async function auditTrail(req: Request, res: Response, next: NextFunction) {
+  if (!["POST", "PUT", "PATCH", "DELETE"].includes(req.method)) return next();
+
+  const path = req.originalUrl.split("?")[0];
+  const { entity, entityId, action } = describeRequest(req.method, path);
+  const canLoad = !!entity.load && (!!entityId || entity.type === "settings");
+
+  let responseBody: unknown;
+  const originalJson = res.json;
+  res.json = function (body, ...args) {
+    responseBody = body;
+    return originalJson.apply(res, [body, ...args]);
+  };
+
+  // Read before the handler runs so the snapshot can't include its changes
+  const loaded = canLoad ? await entity.load!(entityId).catch(() => undefined) : undefined;
+
+  res.on("finish", async () => {
+    try {
+      const body = asRecord(responseBody);
+      // Login has no authenticated user yet; take it from the response, or the attempted username
+      const signedIn = asRecord(body?.user);
+      const userId = req.user?.id ?? asString(signedIn?.id);
+      const username = req.user?.username ?? asString(signedIn?.username)
+        ?? (entity === entities.auth ? asString(req.body?.username) : undefined);
+      const recordId = entityId ?? asString(body?.id);
+
+      let before: Snapshot = null;
+      let after: Snapshot = null;
+      if (res.statusCode < 400) {
+        before = toSnapshot(loaded);
+        after = canLoad ? toSnapshot(await entity.load!(entityId).catch(() => undefined)) : toSnapshot(responseBody);
+        if (before && after) {
+          ({ before, after } = diff(before, after));
+        }
+      }
+
+      await storage.createAuditEntry({
+        userId: userId ?? null,
+        username: username ?? null,
+        method: req.method,
+        path,
+        action,
+        entityType: entity.type,
+        entityId: recordId ?? null,
+        before,
+        after,
+        statusCode: res.statusCode,
+        ipAddress: req.ip ?? req.socket.remoteAddress ?? null,
+      });
+    } catch (error) {
+      console.error("Failed to write audit log entry:", error);
+    }
+  });
+
+  next();
+}
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +38,28 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await storage.ensureDefaultRoles();
+
+  const stocked = await storage.ensureDefaultLocation();
+  if (stocked > 0) {
+    log(`assigned stock for ${stocked} products to the default location`);
+  }
+
+  const catalogued = await storage.ensureSupplierProducts();
+  if (catalogued > 0) {
+    log(`added ${catalogued} products to their supplier's catalog`);
+  }
+
+  const layered = await storage.ensureCostLayers();
+  if (layered > 0) {
+    log(`opened cost layers for ${layered} products at their cost price`);
+  }
+
+  const backfilled = await storage.backfillSalePayments();
+  if (backfilled > 0) {
+    log(`recorded payments for ${backfilled} sales made before split tenders`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,202 @@
+import type { Product, InsertSaleItem, InsertSalePayment, Discount, Promotion, Tender } from "@shared/schema";
+import { applyPromotions, type PromotionAllocation } from "@shared/promotions";
+
+// Amounts are handled in integer cents to avoid floating point drift
+export function toCents(amount: string | number): number {
+  return Math.round((typeof amount === "string" ? parseFloat(amount) : amount) * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export type SaleLineInput = {
+  productId: string;
+  quantity: number;
+  unitPrice?: string;
+  discount?: Discount;
+};
+
+export type PricedSaleItem = Omit<InsertSaleItem, "saleId">;
+
+export type PricedSale = {
+  items: PricedSaleItem[];
+  // Discount per promotion and line, with amounts in cents and lines indexed as in `items`
+  promotionAllocations: PromotionAllocation[];
+  subtotal: string;
+  taxAmount: string;
+  discountAmount: string;
+  cartDiscountType: string | null;
+  cartDiscountValue: string | null;
+  total: string;
+  // Largest discount on any line or on the cart, as a percentage of what it was taken off
+  maxDiscountPercent: number;
+};
+
+export type PricingOptions = {
+  // Percentage, e.g. 8.5 for 8.5%
+  taxRate: number;
+  // User recorded against any line whose price differs from the list price
+  userId: string;
+  canOverridePrice: boolean;
+  cartDiscount?: Discount;
+  promotions?: Promotion[];
+  // Store time zone, for promotion schedules
+  timeZone?: string;
+  now?: Date;
+};
+
+export class PricingError extends Error {
+  constructor(message: string, public status = 400, public details?: unknown) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+// Compute authoritative line prices, tax and totals for a sale from the
+// catalogue. Client-sent amounts are ignored except for permitted overrides.
+export function priceSale(lines: SaleLineInput[], productsById: Map<string, Product>, options: PricingOptions): PricedSale {
+  const missing = lines.filter(line => !productsById.has(line.productId)).map(line => line.productId);
+  if (missing.length > 0) {
+    throw new PricingError("Some products in this sale no longer exist", 400, { productIds: missing });
+  }
+
+  const inactive = lines.filter(line => !productsById.get(line.productId)!.isActive);
+  if (inactive.length > 0) {
+    throw new PricingError("Some products in this sale are not available for sale", 400, {
+      productIds: inactive.map(line => line.productId),
+    });
+  }
+
+  const unitPrices = lines.map(line => {
+    const product = productsById.get(line.productId)!;
+    const listPrice = toCents(product.sellingPrice);
+    const overridden = line.unitPrice !== undefined && toCents(line.unitPrice) !== listPrice;
+
+    if (overridden && !options.canOverridePrice) {
+      throw new PricingError(`You are not allowed to change the price of ${product.name}`, 403, {
+        requiresApproval: true,
+      });
+    }
+
+    return { listPrice, unitPrice: overridden ? toCents(line.unitPrice!) : listPrice, overridden };
+  });
+
+  // Promotions come off first; manual line discounts apply to what is left
+  const promoted = applyPromotions(
+    lines.map((line, index) => {
+      const product = productsById.get(line.productId)!;
+      return {
+        productId: product.id,
+        categoryId: product.categoryId,
+        supplierId: product.supplierId,
+        quantity: line.quantity,
+        unitPrice: unitPrices[index].unitPrice,
+      };
+    }),
+    options.promotions ?? [],
+    options.now,
+    options.timeZone,
+  );
+
+  let maxDiscountPercent = 0;
+  const items = lines.map((line, index): PricedSaleItem => {
+    const { listPrice, unitPrice, overridden } = unitPrices[index];
+    const promotionDiscount = promoted.lineDiscounts[index];
+    const afterPromotions = unitPrice * line.quantity - promotionDiscount;
+    const discount = discountCents(afterPromotions, line.discount);
+    maxDiscountPercent = Math.max(maxDiscountPercent, discountPercent(afterPromotions, discount));
+
+    return {
+      productId: line.productId,
+      quantity: line.quantity,
+      listPrice: fromCents(listPrice),
+      unitPrice: fromCents(unitPrice),
+      promotionDiscount: fromCents(promotionDiscount),
+      discountType: line.discount?.type ?? null,
+      discountValue: line.discount?.value ?? null,
+      discountAmount: fromCents(discount),
+      totalPrice: fromCents(afterPromotions - discount),
+      priceOverride: overridden,
+      priceOverrideBy: overridden ? options.userId : null,
+    };
+  });
+
+  const subtotal = items.reduce((sum, item) => sum + toCents(item.totalPrice), 0);
+  const lineDiscounts = items.reduce((sum, item) => sum + toCents(item.discountAmount!) + toCents(item.promotionDiscount!), 0);
+  const cartDiscount = discountCents(subtotal, options.cartDiscount);
+  maxDiscountPercent = Math.max(maxDiscountPercent, discountPercent(subtotal, cartDiscount));
+
+  const taxable = subtotal - cartDiscount;
+  const taxAmount = Math.round(taxable * options.taxRate / 100);
+
+  return {
+    items,
+    promotionAllocations: promoted.allocations,
+    subtotal: fromCents(subtotal),
+    taxAmount: fromCents(taxAmount),
+    discountAmount: fromCents(lineDiscounts + cartDiscount),
+    cartDiscountType: options.cartDiscount?.type ?? null,
+    cartDiscountValue: options.cartDiscount?.value ?? null,
+    total: fromCents(taxable + taxAmount),
+    maxDiscountPercent,
+  };
+}
+
+// Fixed discounts are capped at the amount they apply to
+function discountCents(amount: number, discount?: Discount): number {
+  if (!discount) return 0;
+  const off = discount.type === "percent"
+    ? Math.round(amount * parseFloat(discount.value) / 100)
+    : toCents(discount.value);
+  return Math.min(Math.max(off, 0), amount);
+}
+
+function discountPercent(amount: number, discount: number): number {
+  if (discount === 0) return 0;
+  return amount === 0 ? 100 : discount * 100 / amount;
+}
+
+export type AllocatedTenders = {
+  payments: Omit<InsertSalePayment, "saleId">[];
+  changeDue: string;
+  // Recorded on the sale: the single method used, or "split"
+  paymentMethod: string;
+};
+
+// Check that the tenders cover `total` and work out change. Only cash can be
+// over-tendered; change is given from the last cash tenders first.
+export function allocateTenders(total: string, tenders: Tender[]): AllocatedTenders {
+  const due = toCents(total);
+  const amounts = tenders.map(tender => toCents(tender.amount));
+  const tendered = amounts.reduce((sum, amount) => sum + amount, 0);
+  const nonCash = tenders.reduce((sum, tender, index) => sum + (tender.method === "cash" ? 0 : amounts[index]), 0);
+
+  if (tendered < due) {
+    throw new PricingError(`Payments of ${fromCents(tendered)} do not cover the total of ${fromCents(due)}`, 400);
+  }
+  if (nonCash > due) {
+    throw new PricingError("Card and transfer payments cannot exceed the amount due", 400);
+  }
+
+  let change = tendered - due;
+  const changeDue = change;
+  const changePerTender = amounts.map(() => 0);
+  for (let index = tenders.length - 1; index >= 0 && change > 0; index--) {
+    if (tenders[index].method !== "cash") continue;
+    changePerTender[index] = Math.min(change, amounts[index]);
+    change -= changePerTender[index];
+  }
+
+  const methods = Array.from(new Set(tenders.map(tender => tender.method)));
+  return {
+    payments: tenders.map((tender, index) => ({
+      method: tender.method,
+      amount: fromCents(amounts[index] - changePerTender[index]),
+      tendered: fromCents(amounts[index]),
+      changeDue: fromCents(changePerTender[index]),
+    })),
+    changeDue: fromCents(changeDue),
+    paymentMethod: methods.length === 1 ? methods[0] : "split",
+  };
+}
@@ -1,22 +1,204 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, StorageError } from "./storage";
+import { priceSale, allocateTenders, PricingError } from "./pricing";
+import { auditTrail, auditEntityTypes } from "./audit";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
-import { z } from "zod";
+import crypto from "crypto";
+import { z, ZodError } from "zod";
 import { 
-  insertUserSchema, insertCategorySchema, insertSupplierSchema, 
+  insertCategorySchema, insertSupplierSchema, 
   insertProductSchema, insertCustomerSchema, insertSaleSchema,
-  insertSaleItemSchema, insertStockMovementSchema, insertReturnSchema,
+  createSaleSchema, insertStockMovementSchema, createReturnSchema, createHeldSaleSchema, generateBarcodesSchema, saveProductVariantsSchema,
   insertPurchaseOrderSchema, insertPurchaseOrderItemSchema,
-  insertSystemSettingsSchema,
-  type User, type CartItem
+  insertSystemSettingsSchema, receivePurchaseOrderSchema, createDraftPurchaseOrdersSchema, insertSupplierProductSchema, insertPromotionSchema,
+  createUserSchema, updateUserSchema, resetPasswordSchema, insertRoleSchema,
+  openShiftSchema, createCashMovementSchema, closeShiftSchema,
+  insertLocationSchema, updateLocationStockSchema, createTransferSchema, receiveTransferSchema,
+  createStocktakeSchema, recordCountsSchema, postStocktakeSchema, adjustStockSchema, writeOffLotSchema, variantLabel, maxReportDays,
+  type User, type SafeUser, type AuthUser, type Session, type SessionInfo, type CartItem, type SalesReportFilters, type PublicSettings,
+  type SystemSettings, type Approval, type Shift, type ProductWithDetails
 } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
 
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+// Production refuses to start without a real signing secret; development falls
+// back to a fixed one so the app runs out of the box.
+const resolveJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    if (!secret || secret === "your-secret-key" || secret.length < 32) {
+      throw new Error("JWT_SECRET must be set to a random string of at least 32 characters in production");
+    }
+    return secret;
+  }
+  if (!secret) {
+    console.warn("JWT_SECRET is not set; using an insecure development secret");
+    return "retailflow-development-secret";
+  }
+  return secret;
+};
+
+const JWT_SECRET = resolveJwtSecret();
+const ACCESS_TOKEN_TTL = "15m";
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// How long a rotated refresh token is still honoured, so tabs refreshing at the
+// same moment don't look like a stolen token being replayed
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+const REFRESH_COOKIE = "refresh_token";
+const refreshCookieOptions = {
+  httpOnly: true,
+  sameSite: "strict" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/api/auth",
+};
+const DEFAULT_PRICE_OVERRIDE_ROLES = ["admin", "manager"];
+const DEFAULT_HELD_SALE_EXPIRY_MINUTES = 240;
+const DEFAULT_DISCOUNT_LIMITS: Record<string, number> = { admin: 100, manager: 100, cashier: 5 };
+
+// Largest discount percentage a role may give on its own
+const discountLimitFor = (settings: SystemSettings | undefined, role: string): number =>
+  (settings?.discountLimits ?? DEFAULT_DISCOUNT_LIMITS)[role] ?? 0;
+
+// Failed manager PIN entries, counted per approver and per cashier asking so a
+// PIN can't be guessed by retrying the sale. After MAX_APPROVAL_FAILURES wrong
+// PINs both are locked out; a quiet spell of the same length starts the count
+// again. Kept in memory, so a restart clears them.
+const MAX_APPROVAL_FAILURES = 5;
+const APPROVAL_LOCKOUT_MS = 15 * 60 * 1000;
+const approvalFailures = new Map<string, { count: number; lastFailureAt: number; lockedUntil: number }>();
+
+const approvalKeys = (approval: Approval, requesterId: string) =>
+  [`approver:${approval.username.toLowerCase()}`, `requester:${requesterId}`];
+
+const approvalLockedUntil = (keys: string[]): number => {
+  const now = Date.now();
+  return Math.max(0, ...keys.map(key => {
+    const failures = approvalFailures.get(key);
+    return failures && failures.lockedUntil > now ? failures.lockedUntil : 0;
+  }));
+};
+
+const recordApprovalFailure = (keys: string[]) => {
+  const now = Date.now();
+  for (const key of keys) {
+    const previous = approvalFailures.get(key);
+    const count = previous && now - previous.lastFailureAt < APPROVAL_LOCKOUT_MS ? previous.count + 1 : 1;
+    approvalFailures.set(key, {
+      count,
+      lastFailureAt: now,
+      lockedUntil: count >= MAX_APPROVAL_FAILURES ? now + APPROVAL_LOCKOUT_MS : 0,
+    });
+  }
+};
+
+// Check the username and PIN a manager entered at the till. Every refusal is
+// written to the audit log against the cashier who asked.
+const verifyApproval = async (approval: Approval, req: Request): Promise<User> => {
+  const cashier = signedInUser(req);
+  const keys = approvalKeys(approval, cashier.id);
+  const refuse = async (error: PricingError, approverId: string | null) => {
+    await storage.createAuditEntry({
+      userId: cashier.id,
+      username: cashier.username,
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      action: "approval_failed",
+      entityType: "user",
+      entityId: approverId,
+      before: null,
+      after: { approverUsername: approval.username, reason: error.message },
+      statusCode: error.status,
+      ipAddress: req.ip ?? null,
+    }).catch(auditError => console.error("Failed to write audit log entry:", auditError));
+    return error;
+  };
+
+  const lockedUntil = approvalLockedUntil(keys);
+  if (lockedUntil) {
+    const minutes = Math.ceil((lockedUntil - Date.now()) / 60000);
+    throw await refuse(new PricingError(
+      `Too many failed approval attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+      429,
+      { requiresApproval: true, lockedUntil: new Date(lockedUntil).toISOString() },
+    ), null);
+  }
+
+  const approver = await storage.getUserByUsername(approval.username);
+  if (!approver || !approver.isActive || !approver.pin || !(await bcrypt.compare(approval.pin, approver.pin))) {
+    recordApprovalFailure(keys);
+    throw await refuse(new PricingError("Invalid approval username or PIN", 403, { requiresApproval: true }), approver?.id ?? null);
+  }
+  keys.forEach(key => approvalFailures.delete(key));
+  return approver;
+};
+
+// Permissions granted by a user's role; unknown roles grant nothing
+const permissionsFor = async (roleName: string): Promise<Permission[]> => {
+  const role = await storage.getRoleByName(roleName);
+  return role?.permissions ?? [];
+};
+
+const toSafeUser = (user: User): SafeUser => {
+  const { password: _, pin: __, ...userWithoutPassword } = user;
+  return userWithoutPassword;
+};
+
+const toAuthUser = async (user: User): Promise<AuthUser> => ({
+  ...toSafeUser(user),
+  permissions: await permissionsFor(user.role),
+});
+
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+const readCookie = (req: Request, name: string): string | undefined => {
+  for (const pair of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = pair.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+};
+
+const isSessionLive = (session: Session | undefined): session is Session =>
+  !!session && !session.revokedAt && session.expiresAt > new Date();
+
+const signAccessToken = (user: User, sessionId: string) =>
+  jwt.sign({ id: user.id, username: user.username, sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
 
-// Auth middleware
-const authenticateToken = (req: any, res: any, next: any) => {
+// Refresh tokens are random and only ever reach the browser in an httpOnly cookie
+const newRefreshToken = () => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  return { token, hash: hashToken(token), expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS) };
+};
+
+const setRefreshCookie = (res: Response, refresh: { token: string; expiresAt: Date }) =>
+  res.cookie(REFRESH_COOKIE, refresh.token, { ...refreshCookieOptions, expires: refresh.expiresAt });
+
+const toSessionInfo = (session: Session, currentSessionId?: string): SessionInfo => {
+  const { refreshTokenHash: _, previousTokenHash: __, ...info } = session;
+  return { ...info, isCurrent: session.id === currentSessionId };
+};
+
+// The signed-in user authenticateToken attaches to each request
+declare global {
+  namespace Express {
+    interface User {
+      id: string;
+      username: string;
+      role: string;
+      permissions: Permission[];
+      sessionId: string;
+    }
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+// Auth middleware. The user and session are reloaded on every request so
+// deactivation, role changes and revoked sessions take effect without waiting
+// for the access token to expire.
+const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -24,26 +206,113 @@ const authenticateToken = (req: any, res: any, next: any) => {
     return res.status(401).json({ message: 'Access token required' });
   }
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) {
-      return res.status(403).json({ message: 'Invalid or expired token' });
+  jwt.verify(token, JWT_SECRET, async (err, payload) => {
+    if (err || typeof payload !== "object" || typeof payload.id !== "string" || typeof payload.sid !== "string") {
+      return res.status(401).json({ message: 'Invalid or expired token' });
+    }
+    try {
+      const [user, session] = await Promise.all([storage.getUser(payload.id), storage.getSession(payload.sid)]);
+      if (!user || !user.isActive) {
+        return res.status(401).json({ message: 'Account is disabled' });
+      }
+      if (!isSessionLive(session) || session.userId !== user.id) {
+        return res.status(401).json({ message: 'Session has ended' });
+      }
+      req.user = {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+        permissions: await permissionsFor(user.role),
+        sessionId: session.id,
+      };
+      next();
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to authenticate' });
     }
-    req.user = user;
-    next();
   });
 };
 
-// Role-based access control
-const requireRole = (roles: string[]) => {
-  return (req: any, res: any, next: any) => {
-    if (!req.user || !roles.includes(req.user.role)) {
+// The user authenticateToken attached, for handlers mounted behind it
+const signedInUser = (req: Request): Express.User => {
+  if (!req.user) {
+    throw new Error(`${req.method} ${req.path} read the signed-in user without authenticateToken`);
+  }
+  return req.user;
+};
+
+// Permission-based access control
+const requirePermission = (...required: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user || !required.every(permission => user.permissions.includes(permission))) {
       return res.status(403).json({ message: 'Insufficient permissions' });
     }
     next();
   };
 };
 
+// Cashiers work their own shift; shifts.manage covers everyone's
+const canAccessShift = (req: Request, shift: Shift) => {
+  const user = signedInUser(req);
+  return shift.userId === user.id || user.permissions.includes("shifts.manage");
+};
+
+// Query parameters shared by the dashboard/report endpoints. Dates must be real
+// calendar days: 2024-02-30 matches the pattern but Postgres rejects it.
+const dayNumber = (date: string) => Date.parse(`${date}T00:00:00Z`) / 86400000;
+const reportDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+  .refine(date => !isNaN(dayNumber(date)) && new Date(`${date}T00:00:00Z`).toISOString().startsWith(date), "Not a valid date");
+const reportQuerySchema = z.object({
+  start_date: reportDate.optional(),
+  end_date: reportDate.optional(),
+  days: z.coerce.number().int().min(1).max(maxReportDays).optional(),
+  category: z.string().optional(),
+  cashier: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  rank_by: z.enum(["quantity", "revenue"]).optional(),
+}).superRefine((query, ctx) => {
+  if (!query.start_date || !query.end_date) return;
+  const span = dayNumber(query.end_date) - dayNumber(query.start_date) + 1;
+  if (span < 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["start_date"], message: "Start date must be on or before the end date" });
+  } else if (span > maxReportDays) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["end_date"], message: `Reports can cover at most ${maxReportDays} days` });
+  }
+});
+
+const valuationQuerySchema = z.object({
+  as_of: reportDate.optional(),
+});
+
+const auditQuerySchema = z.object({
+  user: z.string().optional(),
+  entity_type: z.string().optional(),
+  entity_id: z.string().optional(),
+  action: z.string().optional(),
+  start_date: reportDate.optional(),
+  end_date: reportDate.optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+// Postgres unique_violation, e.g. a duplicate name or SKU
+const isUniqueViolation = (error: unknown) =>
+  !!error && typeof error === "object" && "code" in error && error.code === "23505";
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const toReportFilters = (query: z.infer<typeof reportQuerySchema>): SalesReportFilters => ({
+  startDate: query.start_date,
+  endDate: query.end_date,
+  days: query.days,
+  categoryId: query.category,
+  userId: query.cashier,
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  app.use("/api", auditTrail);
+
   // Auth routes
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -63,49 +332,296 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      const token = jwt.sign(
-        { id: user.id, username: user.username, role: user.role },
-        JWT_SECRET,
-        { expiresIn: '24h' }
-      );
+      const refresh = newRefreshToken();
+      const session = await storage.createSession({
+        userId: user.id,
+        refreshTokenHash: refresh.hash,
+        userAgent: req.get("user-agent") ?? null,
+        ipAddress: req.ip ?? null,
+        expiresAt: refresh.expiresAt,
+      });
+      setRefreshCookie(res, refresh);
 
-      const { password: _, ...userWithoutPassword } = user;
-      res.json({ token, user: userWithoutPassword });
+      res.json({ token: signAccessToken(user, session.id), user: await toAuthUser(user) });
     } catch (error) {
       res.status(500).json({ message: "Login failed" });
     }
   });
 
-  app.post("/api/auth/register", authenticateToken, requireRole(['admin']), async (req, res) => {
+  // Trade the refresh cookie for a new access token, rotating the refresh token
+  app.post("/api/auth/refresh", async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      const existingUser = await storage.getUserByUsername(userData.username);
-      
-      if (existingUser) {
-        return res.status(409).json({ message: "Username already exists" });
+      const presented = readCookie(req, REFRESH_COOKIE);
+      if (!presented) {
+        return res.status(401).json({ message: "Not signed in" });
       }
 
-      const user = await storage.createUser(userData);
-      const { password: _, ...userWithoutPassword } = user;
-      res.status(201).json(userWithoutPassword);
+      const presentedHash = hashToken(presented);
+      const session = await storage.getSessionByTokenHash(presentedHash);
+      const user = session && await storage.getUser(session.userId);
+      if (!isSessionLive(session) || !user || !user.isActive) {
+        res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+        return res.status(401).json({ message: "Session has ended" });
+      }
+
+      if (session.refreshTokenHash !== presentedHash) {
+        // A token that was already rotated away. Outside the grace period it
+        // can only be a copy, so end the session for both holders.
+        const rotatedAgo = session.rotatedAt ? Date.now() - session.rotatedAt.getTime() : Infinity;
+        if (rotatedAgo > REFRESH_REUSE_GRACE_MS) {
+          await storage.revokeSession(session.id);
+          res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+          return res.status(401).json({ message: "Session has ended" });
+        }
+        return res.json({ token: signAccessToken(user, session.id) });
+      }
+
+      // If another request rotated first, keep the cookie it set
+      const refresh = newRefreshToken();
+      if (await storage.rotateSession(session.id, presentedHash, refresh.hash, refresh.expiresAt)) {
+        setRefreshCookie(res, refresh);
+      }
+      res.json({ token: signAccessToken(user, session.id) });
     } catch (error) {
-      res.status(400).json({ message: "Registration failed", error: error.message });
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+
+  // Ends the session behind the refresh cookie. Works with an expired access token.
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const presented = readCookie(req, REFRESH_COOKIE);
+      if (presented) {
+        const session = await storage.getSessionByTokenHash(hashToken(presented));
+        if (session) {
+          await storage.revokeSession(session.id);
+        }
+      }
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Logout failed" });
     }
   });
 
   app.get("/api/auth/me", authenticateToken, async (req, res) => {
     try {
-      const user = await storage.getUser(req.user.id);
+      const user = await storage.getUser(signedInUser(req).id);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      const { password: _, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      res.json(await toAuthUser(user));
     } catch (error) {
       res.status(500).json({ message: "Failed to get user info" });
     }
   });
 
+  // Approval PIN entered by managers at the till
+  app.put("/api/auth/pin", authenticateToken, async (req, res) => {
+    try {
+      const { password, pin } = z.object({
+        password: z.string().min(1),
+        pin: z.string().regex(/^\d{4,8}$/, "PIN must be 4 to 8 digits"),
+      }).parse(req.body);
+
+      const user = await storage.getUser(signedInUser(req).id);
+      if (!user || !(await bcrypt.compare(password, user.password))) {
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      await storage.updateUser(user.id, { pin });
+      res.json({ message: "PIN updated" });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid PIN", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to update PIN" });
+    }
+  });
+
+  // User management routes
+  app.get("/api/users", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toSafeUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get users" });
+    }
+  });
+
+  app.post("/api/users", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const userData = createUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      if (userData.role && !(await storage.getRoleByName(userData.role))) {
+        return res.status(400).json({ message: `Unknown role "${userData.role}"` });
+      }
+
+      const user = await storage.createUser(userData);
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid user", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.put("/api/users/:id", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const userData = updateUserSchema.parse(req.body);
+      if (userData.role && !(await storage.getRoleByName(userData.role))) {
+        return res.status(400).json({ message: `Unknown role "${userData.role}"` });
+      }
+      // Stop admins locking themselves out
+      if (req.params.id === signedInUser(req).id) {
+        if (userData.isActive === false) {
+          return res.status(400).json({ message: "You can't deactivate your own account" });
+        }
+        if (userData.role && !(await permissionsFor(userData.role)).includes("users.manage")) {
+          return res.status(400).json({ message: "You can't remove your own user management access" });
+        }
+      }
+
+      const user = await storage.updateUser(req.params.id, userData);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toSafeUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid user", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.post("/api/users/:id/reset-password", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const { password } = resetPasswordSchema.parse(req.body);
+      const user = await storage.updateUser(req.params.id, { password });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ message: "Password reset" });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid password", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  app.delete("/api/users/:id", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      if (req.params.id === signedInUser(req).id) {
+        return res.status(400).json({ message: "You can't delete your own account" });
+      }
+      const deleted = await storage.deleteUser(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  app.get("/api/users/:id/sessions", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const sessions = await storage.getActiveSessions(req.params.id);
+      res.json(sessions.map(session => toSessionInfo(session, signedInUser(req).sessionId)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.post("/api/users/:id/revoke-sessions", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const revoked = await storage.revokeUserSessions(req.params.id);
+      res.json({ revoked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const revoked = await storage.revokeSession(req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  // Role routes
+  app.get("/api/roles", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const roles = await storage.getAllRoles();
+      res.json(roles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get roles" });
+    }
+  });
+
+  app.post("/api/roles", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const roleData = insertRoleSchema.parse(req.body);
+      const role = await storage.createRole(roleData);
+      res.status(201).json(role);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid role", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to create role" });
+    }
+  });
+
+  app.put("/api/roles/:id", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const roleData = insertRoleSchema.partial().parse(req.body);
+      const role = await storage.updateRole(req.params.id, roleData);
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      res.json(role);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid role", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  app.delete("/api/roles/:id", authenticateToken, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteRole(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(500).json({ message: "Failed to delete role" });
+    }
+  });
+
   // Dashboard routes
   app.get("/api/dashboard/metrics", authenticateToken, async (req, res) => {
     try {
@@ -118,24 +634,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/dashboard/top-products", authenticateToken, async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 5;
-      const topProducts = await storage.getTopProducts(limit);
+      const filters = reportQuerySchema.parse(req.query);
+      const topProducts = await storage.getTopProducts({
+        ...toReportFilters(filters),
+        limit: filters.limit ?? 5,
+        rankBy: filters.rank_by,
+      });
       res.json(topProducts);
     } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid report filters", details: error.issues });
+      }
       res.status(500).json({ message: "Failed to get top products" });
     }
   });
 
   app.get("/api/dashboard/sales-data", authenticateToken, async (req, res) => {
     try {
-      const days = parseInt(req.query.days as string) || 7;
-      const salesData = await storage.getSalesData(days);
+      const filters = reportQuerySchema.parse(req.query);
+      const salesData = await storage.getSalesData({
+        ...toReportFilters(filters),
+        days: filters.days ?? 7,
+      });
       res.json(salesData);
     } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid report filters", details: error.issues });
+      }
       res.status(500).json({ message: "Failed to get sales data" });
     }
   });
 
+  app.get("/api/dashboard/tenders", authenticateToken, async (req, res) => {
+    try {
+      const filters = reportQuerySchema.parse(req.query);
+      const tenders = await storage.getRevenueByTender(toReportFilters(filters));
+      res.json(tenders);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid report filters", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to get revenue by tender" });
+    }
+  });
+
+  app.get("/api/dashboard/gross-profit", authenticateToken, requirePermission("reports.cost"), async (req, res) => {
+    try {
+      const filters = reportQuerySchema.parse(req.query);
+      const grossProfit = await storage.getGrossProfit(toReportFilters(filters));
+      res.json(grossProfit);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid report filters", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to get gross profit" });
+    }
+  });
+
+  app.get("/api/dashboard/stock-valuation", authenticateToken, requirePermission("reports.cost"), async (req, res) => {
+    try {
+      const query = valuationQuerySchema.parse(req.query);
+      const valuation = await storage.getStockValuation(query.as_of);
+      res.json(valuation);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid valuation date", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to get stock valuation" });
+    }
+  });
+
   // Category routes
   app.get("/api/categories", authenticateToken, async (req, res) => {
     try {
@@ -146,7 +726,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", authenticateToken, async (req, res) => {
+  app.post("/api/categories", authenticateToken, requirePermission("categories.edit"), async (req, res) => {
     try {
       console.log("Category creation request body:", req.body);
       
@@ -167,16 +747,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       console.error("Category creation error:", error);
       
-      if (error.issues) {
+      if (error instanceof ZodError) {
         console.error("Validation errors:", error.issues);
         return res.status(400).json({ 
           message: "Validation failed", 
-          error: error.message,
+          error: errorMessage(error),
           details: error.issues
         });
       }
       
-      if (error.message && error.message.includes('UNIQUE constraint failed')) {
+      if (isUniqueViolation(error)) {
         return res.status(409).json({ 
           message: "Category with this name or slug already exists"
         });
@@ -184,12 +764,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.status(500).json({ 
         message: "Failed to create category", 
-        error: error.message
+        error: errorMessage(error)
       });
     }
   });
 
-  app.put("/api/categories/:id", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.put("/api/categories/:id", authenticateToken, requirePermission("categories.edit"), async (req, res) => {
     try {
       const categoryData = insertCategorySchema.partial().parse(req.body);
       const category = await storage.updateCategory(req.params.id, categoryData);
@@ -198,11 +778,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       res.json(category);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update category", error: error.message });
+      res.status(400).json({ message: "Failed to update category", error: errorMessage(error) });
     }
   });
 
-  app.delete("/api/categories/:id", authenticateToken, requireRole(['admin']), async (req, res) => {
+  app.delete("/api/categories/:id", authenticateToken, requirePermission("categories.delete"), async (req, res) => {
     try {
       const deleted = await storage.deleteCategory(req.params.id);
       if (!deleted) {
@@ -224,17 +804,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/suppliers", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.post("/api/suppliers", authenticateToken, requirePermission("suppliers.edit"), async (req, res) => {
     try {
       const supplierData = insertSupplierSchema.parse(req.body);
       const supplier = await storage.createSupplier(supplierData);
       res.status(201).json(supplier);
     } catch (error) {
-      res.status(400).json({ message: "Failed to create supplier", error: error.message });
+      res.status(400).json({ message: "Failed to create supplier", error: errorMessage(error) });
     }
   });
 
-  app.put("/api/suppliers/:id", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.put("/api/suppliers/:id", authenticateToken, requirePermission("suppliers.edit"), async (req, res) => {
     try {
       const supplierData = insertSupplierSchema.partial().parse(req.body);
       const supplier = await storage.updateSupplier(req.params.id, supplierData);
@@ -243,11 +823,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       res.json(supplier);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update supplier", error: error.message });
+      res.status(400).json({ message: "Failed to update supplier", error: errorMessage(error) });
     }
   });
 
-  app.delete("/api/suppliers/:id", authenticateToken, requireRole(['admin']), async (req, res) => {
+  app.delete("/api/suppliers/:id", authenticateToken, requirePermission("suppliers.delete"), async (req, res) => {
     try {
       const deleted = await storage.deleteSupplier(req.params.id);
       if (!deleted) {
@@ -259,96 +839,532 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Product routes
-  app.get("/api/products", authenticateToken, async (req, res) => {
+  app.get("/api/suppliers/:id/performance", authenticateToken, requirePermission("purchase_orders.view"), async (req, res) => {
     try {
-      const { search, category, supplier, stock_status } = req.query;
-      let products = await storage.getAllProducts();
-
-      if (search) {
-        products = await storage.searchProducts(search as string);
-      }
-
-      if (category) {
-        products = products.filter(p => p.categoryId === category);
-      }
-
-      if (supplier) {
-        products = products.filter(p => p.supplierId === supplier);
-      }
-
-      if (stock_status === 'low') {
-        products = products.filter(p => p.trackStock && p.quantity <= p.minStockLevel);
-      } else if (stock_status === 'out') {
-        products = products.filter(p => p.trackStock && p.quantity === 0);
+      const supplier = await storage.getSupplier(req.params.id);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
       }
-
-      res.json(products);
+      const performance = await storage.getSupplierPerformance(supplier.id);
+      res.json(performance);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get products" });
+      res.status(500).json({ message: "Failed to get supplier performance" });
     }
   });
 
-  app.get("/api/products/low-stock", authenticateToken, async (req, res) => {
+  // Supplier catalog routes
+  app.get("/api/supplier-products", authenticateToken, async (req, res) => {
     try {
-      const products = await storage.getLowStockProducts();
-      res.json(products);
+      const entries = await storage.getSupplierProducts({
+        supplierId: req.query.supplier as string | undefined,
+        productId: req.query.product as string | undefined,
+      });
+      res.json(entries);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get low stock products" });
+      res.status(500).json({ message: "Failed to get supplier catalog" });
     }
   });
 
-  app.get("/api/products/:id", authenticateToken, async (req, res) => {
+  app.post("/api/supplier-products", authenticateToken, requirePermission("suppliers.edit"), async (req, res) => {
     try {
-      const product = await storage.getProduct(req.params.id);
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
-      }
-      res.json(product);
+      const entry = await storage.createSupplierProduct(insertSupplierProductSchema.parse(req.body));
+      res.status(201).json(entry);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get product" });
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "This product is already in the supplier's catalog" });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid catalog entry", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to add product to supplier catalog" });
     }
   });
 
-  app.get("/api/products/barcode/:barcode", authenticateToken, async (req, res) => {
+  app.put("/api/supplier-products/:id", authenticateToken, requirePermission("suppliers.edit"), async (req, res) => {
     try {
-      const product = await storage.getProductByBarcode(req.params.barcode);
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
+      const entry = await storage.updateSupplierProduct(req.params.id, insertSupplierProductSchema.partial().parse(req.body));
+      if (!entry) {
+        return res.status(404).json({ message: "Catalog entry not found" });
       }
-      res.json(product);
+      res.json(entry);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get product" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid catalog entry", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to update catalog entry" });
     }
   });
 
-  app.post("/api/products", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.delete("/api/supplier-products/:id", authenticateToken, requirePermission("suppliers.edit"), async (req, res) => {
     try {
-      console.log("Product creation request body:", req.body);
-      const productData = insertProductSchema.parse(req.body);
+      const deleted = await storage.deleteSupplierProduct(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Catalog entry not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove catalog entry" });
+    }
+  });
+
+  // Shows each product's quantity and minimum at one location, plus what is on
+  // its way there
+  async function atLocation(products: ProductWithDetails[], locationId: string): Promise<ProductWithDetails[]> {
+    const [levels, inTransit] = await Promise.all([
+      storage.getStockLevels(locationId),
+      storage.getInTransitQuantities(locationId),
+    ]);
+    const byProduct = new Map(levels.map(level => [level.productId, level]));
+    return products.map(p => ({
+      ...p,
+      quantity: byProduct.get(p.id)?.quantity ?? 0,
+      minStockLevel: byProduct.get(p.id)?.minStockLevel ?? p.minStockLevel,
+      inTransit: inTransit.get(p.id) ?? 0,
+    }));
+  }
+
+  // Location routes
+  app.get("/api/locations", authenticateToken, async (req, res) => {
+    try {
+      const locations = await storage.getAllLocations();
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get locations" });
+    }
+  });
+
+  app.post("/api/locations", authenticateToken, requirePermission("locations.manage"), async (req, res) => {
+    try {
+      const location = await storage.createLocation(insertLocationSchema.parse(req.body));
+      res.status(201).json(location);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A location with this name already exists" });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid location", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to create location" });
+    }
+  });
+
+  app.put("/api/locations/:id", authenticateToken, requirePermission("locations.manage"), async (req, res) => {
+    try {
+      const location = await storage.updateLocation(req.params.id, insertLocationSchema.partial().parse(req.body));
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      res.json(location);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A location with this name already exists" });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid location", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to update location" });
+    }
+  });
+
+  app.delete("/api/locations/:id", authenticateToken, requirePermission("locations.manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteLocation(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(500).json({ message: "Failed to delete location" });
+    }
+  });
+
+  app.put("/api/locations/:locationId/stock/:productId", authenticateToken, requirePermission("inventory.adjust"), async (req, res) => {
+    try {
+      const { minStockLevel } = updateLocationStockSchema.parse(req.body);
+      const [location, product] = await Promise.all([
+        storage.getLocation(req.params.locationId),
+        storage.getProduct(req.params.productId),
+      ]);
+      if (!location || !product) {
+        return res.status(404).json({ message: location ? "Product not found" : "Location not found" });
+      }
+      const level = await storage.updateLocationStock(product.id, location.id, minStockLevel);
+      res.json(level);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid stock level", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to update stock level" });
+    }
+  });
+
+  // Stock transfer routes
+  app.get("/api/transfers", authenticateToken, requirePermission("inventory.transfer"), async (req, res) => {
+    try {
+      const { status } = req.query;
+      const transfers = await storage.getTransfers(status as string | undefined);
+      res.json(transfers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get transfers" });
+    }
+  });
+
+  app.get("/api/transfers/:id", authenticateToken, requirePermission("inventory.transfer"), async (req, res) => {
+    try {
+      const transfer = await storage.getTransfer(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get transfer" });
+    }
+  });
+
+  app.post("/api/transfers", authenticateToken, requirePermission("inventory.transfer"), async (req, res) => {
+    try {
+      const transfer = await storage.createTransfer(createTransferSchema.parse(req.body), signedInUser(req).id);
+      res.status(201).json(transfer);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid transfer", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to create transfer" });
+    }
+  });
+
+  app.post("/api/transfers/:id/send", authenticateToken, requirePermission("inventory.transfer"), async (req, res) => {
+    try {
+      const transfer = await storage.sendTransfer(req.params.id, signedInUser(req).id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(500).json({ message: "Failed to send transfer" });
+    }
+  });
+
+  app.post("/api/transfers/:id/receive", authenticateToken, requirePermission("inventory.transfer"), async (req, res) => {
+    try {
+      const receipt = receiveTransferSchema.parse(req.body ?? {});
+      const transfer = await storage.receiveTransfer(req.params.id, receipt, signedInUser(req).id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid receipt", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to receive transfer" });
+    }
+  });
+
+  app.post("/api/transfers/:id/cancel", authenticateToken, requirePermission("inventory.transfer"), async (req, res) => {
+    try {
+      const transfer = await storage.cancelTransfer(req.params.id, signedInUser(req).id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(500).json({ message: "Failed to cancel transfer" });
+    }
+  });
+
+  // Stocktake routes
+  app.get("/api/stocktakes", authenticateToken, requirePermission("inventory.count"), async (req, res) => {
+    try {
+      const { status } = req.query;
+      const stocktakes = await storage.getStocktakes(status as string | undefined);
+      res.json(stocktakes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get stocktakes" });
+    }
+  });
+
+  app.get("/api/stocktakes/:id", authenticateToken, requirePermission("inventory.count"), async (req, res) => {
+    try {
+      const stocktake = await storage.getStocktake(req.params.id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get stocktake" });
+    }
+  });
+
+  app.post("/api/stocktakes", authenticateToken, requirePermission("inventory.adjust"), async (req, res) => {
+    try {
+      const stocktake = await storage.createStocktake(createStocktakeSchema.parse(req.body), signedInUser(req).id);
+      res.status(201).json(stocktake);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid stocktake", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to start stocktake" });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/counts", authenticateToken, requirePermission("inventory.count"), async (req, res) => {
+    try {
+      const { counts } = recordCountsSchema.parse(req.body);
+      const stocktake = await storage.recordStocktakeCounts(req.params.id, counts, signedInUser(req).id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid counts", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to record counts" });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/post", authenticateToken, requirePermission("inventory.adjust"), async (req, res) => {
+    try {
+      const stocktake = await storage.postStocktake(req.params.id, postStocktakeSchema.parse(req.body ?? {}), signedInUser(req).id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid serial numbers", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to post stocktake" });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/cancel", authenticateToken, requirePermission("inventory.adjust"), async (req, res) => {
+    try {
+      const stocktake = await storage.cancelStocktake(req.params.id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(500).json({ message: "Failed to cancel stocktake" });
+    }
+  });
+
+  // Product routes
+  app.get("/api/products", authenticateToken, async (req, res) => {
+    try {
+      const { search, category, supplier, stock_status, location } = req.query;
+      let products = await storage.getAllProducts();
+
+      if (search) {
+        products = await storage.searchProducts(search as string);
+      }
+
+      if (location) {
+        products = await atLocation(products, location as string);
+      } else {
+        const inTransit = await storage.getInTransitQuantities();
+        products = products.map(p => ({ ...p, inTransit: inTransit.get(p.id) ?? 0 }));
+      }
+
+      if (category) {
+        products = products.filter(p => p.categoryId === category);
+      }
+
+      if (supplier) {
+        products = products.filter(p => p.supplierId === supplier);
+      }
+
+      if (stock_status === 'low') {
+        products = products.filter(p => p.trackStock && p.quantity <= p.minStockLevel);
+      } else if (stock_status === 'out') {
+        products = products.filter(p => p.trackStock && p.quantity === 0);
+      }
+
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get products" });
+    }
+  });
+
+  app.get("/api/products/low-stock", authenticateToken, async (req, res) => {
+    try {
+      const { location } = req.query;
+      const products = location
+        ? (await atLocation(await storage.getAllProducts(), location as string))
+          .filter(p => p.trackStock && p.quantity <= p.minStockLevel)
+        : await storage.getLowStockProducts();
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get low stock products" });
+    }
+  });
+
+  app.get("/api/products/:id", authenticateToken, async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(product);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get product" });
+    }
+  });
+
+  app.get("/api/products/:id/stock", authenticateToken, async (req, res) => {
+    try {
+      const levels = await storage.getProductStock(req.params.id);
+      res.json(levels);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get stock levels" });
+    }
+  });
+
+  app.get("/api/products/barcode/:barcode", authenticateToken, async (req, res) => {
+    try {
+      const product = await storage.getProductByBarcode(req.params.barcode);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(product);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get product" });
+    }
+  });
+
+  app.post("/api/products", authenticateToken, requirePermission("products.edit"), async (req, res) => {
+    try {
+      console.log("Product creation request body:", req.body);
+      const productData = insertProductSchema.parse(req.body);
       console.log("Parsed product data:", productData);
+      // A new product's cost and selling price are prices like any other
+      if (!signedInUser(req).permissions.includes("products.edit_price")) {
+        return res.status(403).json({ message: "Insufficient permissions to set prices" });
+      }
       const product = await storage.createProduct(productData);
       res.status(201).json(product);
     } catch (error) {
       console.log("Product creation error:", error);
-      res.status(400).json({ message: "Failed to create product", error: error.message });
+      res.status(400).json({ message: "Failed to create product", error: errorMessage(error) });
     }
   });
 
-  app.put("/api/products/:id", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.put("/api/products/:id", authenticateToken, requirePermission("products.edit"), async (req, res) => {
     try {
       const productData = insertProductSchema.partial().parse(req.body);
+      if (!signedInUser(req).permissions.includes("products.edit_price")) {
+        const existing = await storage.getProduct(req.params.id);
+        const priceChanged = existing && (
+          (productData.costPrice !== undefined && parseFloat(productData.costPrice) !== parseFloat(existing.costPrice)) ||
+          (productData.sellingPrice !== undefined && parseFloat(productData.sellingPrice) !== parseFloat(existing.sellingPrice))
+        );
+        if (priceChanged) {
+          return res.status(403).json({ message: "Insufficient permissions to change prices" });
+        }
+      }
       const product = await storage.updateProduct(req.params.id, productData);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
       res.json(product);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update product", error: error.message });
+      res.status(400).json({ message: "Failed to update product", error: errorMessage(error) });
     }
   });
 
-  app.delete("/api/products/:id", authenticateToken, requireRole(['admin']), async (req, res) => {
+  app.get("/api/products/:id/variants", authenticateToken, async (req, res) => {
+    try {
+      const variants = await storage.getProductVariants(req.params.id);
+      res.json(variants);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get variants" });
+    }
+  });
+
+  app.put("/api/products/:id/variants", authenticateToken, requirePermission("products.edit"), async (req, res) => {
+    try {
+      const matrix = saveProductVariantsSchema.parse(req.body);
+      if (!signedInUser(req).permissions.includes("products.edit_price")) {
+        const parent = await storage.getProduct(req.params.id);
+        const existing = await storage.getProductVariants(req.params.id);
+        const priceChanged = parent && matrix.variants.some(variant => {
+          const label = variantLabel(matrix.options, variant.attributes);
+          const current = existing.find(e => variantLabel(matrix.options, e.variantAttributes ?? {}) === label);
+          const price = variant.sellingPrice ?? parent.sellingPrice;
+          return parseFloat(price) !== parseFloat(current?.sellingPrice ?? parent.sellingPrice);
+        });
+        if (priceChanged) {
+          return res.status(403).json({ message: "Insufficient permissions to change prices" });
+        }
+      }
+      const variants = await storage.saveProductVariants(req.params.id, matrix);
+      if (!variants) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(variants);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid variants", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to save variants" });
+    }
+  });
+
+  app.post("/api/products/generate-barcodes", authenticateToken, requirePermission("products.edit"), async (req, res) => {
+    try {
+      const { productIds } = generateBarcodesSchema.parse(req.body);
+      const updated = await storage.generateInternalBarcodes(productIds);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid request", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to generate barcodes" });
+    }
+  });
+
+  app.delete("/api/products/:id", authenticateToken, requirePermission("products.delete"), async (req, res) => {
     try {
       const deleted = await storage.deleteProduct(req.params.id);
       if (!deleted) {
@@ -360,27 +1376,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/products/:id/adjust-stock", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.post("/api/products/:id/adjust-stock", authenticateToken, requirePermission("inventory.adjust"), async (req, res) => {
     try {
-      const { quantity, reason } = req.body;
-      if (typeof quantity !== 'number') {
-        return res.status(400).json({ message: "Quantity must be a number" });
-      }
-
-      const success = await storage.updateProductStock(
-        req.params.id,
-        quantity,
-        'adjustment',
-        reason,
-        req.user.id
-      );
-
-      if (!success) {
+      const movement = await storage.adjustStock(req.params.id, adjustStockSchema.parse(req.body), signedInUser(req).id);
+      if (!movement) {
         return res.status(404).json({ message: "Product not found" });
       }
-
-      res.json({ message: "Stock adjusted successfully" });
+      res.json(movement);
     } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid adjustment", details: error.issues });
+      }
       res.status(500).json({ message: "Failed to adjust stock" });
     }
   });
@@ -409,7 +1418,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const customer = await storage.createCustomer(customerData);
       res.status(201).json(customer);
     } catch (error) {
-      res.status(400).json({ message: "Failed to create customer", error: error.message });
+      res.status(400).json({ message: "Failed to create customer", error: errorMessage(error) });
     }
   });
 
@@ -422,11 +1431,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       res.json(customer);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update customer", error: error.message });
+      res.status(400).json({ message: "Failed to update customer", error: errorMessage(error) });
     }
   });
 
-  app.delete("/api/customers/:id", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.delete("/api/customers/:id", authenticateToken, requirePermission("customers.delete"), async (req, res) => {
     try {
       const deleted = await storage.deleteCustomer(req.params.id);
       if (!deleted) {
@@ -458,6 +1467,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/sales/invoice/:invoiceNumber", authenticateToken, async (req, res) => {
+    try {
+      const sale = await storage.getSaleByInvoiceNumber(req.params.invoiceNumber);
+      if (!sale) {
+        return res.status(404).json({ message: "Sale not found" });
+      }
+      res.json(sale);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get sale" });
+    }
+  });
+
   app.get("/api/sales/:id", authenticateToken, async (req, res) => {
     try {
       const sale = await storage.getSale(req.params.id);
@@ -470,50 +1491,355 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sales", authenticateToken, async (req, res) => {
+  app.post("/api/sales", authenticateToken, requirePermission("sales.create"), async (req, res) => {
     try {
-      const { sale, items } = req.body;
+      const currentUser = signedInUser(req);
+      const { sale, items } = createSaleSchema.parse(req.body);
       console.log("Sale creation request:", { sale, items });
-      
+
+      const shift = await storage.getOpenShift(currentUser.id);
+      if (!shift) {
+        return res.status(409).json({ message: "Open a shift before making sales", details: { requiresShift: true } });
+      }
+
+      // Prices, tax and totals come from the catalogue and settings, never the client
+      const settings = await storage.getSystemSettings();
+      const catalogue = await storage.getProductsByIds(Array.from(new Set(items.map(item => item.productId))));
+      const activePromotions = await storage.getActivePromotions();
+      const approver = sale.approval ? await verifyApproval(sale.approval, req) : undefined;
+
+      // A manager's approval covers price overrides and discounts the cashier may not give
+      const overrideRoles = settings?.priceOverrideRoles ?? DEFAULT_PRICE_OVERRIDE_ROLES;
+      const sellerMayOverride = overrideRoles.includes(currentUser.role);
+      const approverMayOverride = !!approver && overrideRoles.includes(approver.role);
+      const priced = priceSale(items, new Map(catalogue.map(p => [p.id, p])), {
+        taxRate: parseFloat(settings?.taxRate ?? "0"),
+        userId: sellerMayOverride || !approver ? currentUser.id : approver.id,
+        canOverridePrice: sellerMayOverride || approverMayOverride,
+        cartDiscount: sale.discount,
+        promotions: activePromotions,
+        timeZone: settings?.timezone ?? "UTC",
+      });
+
+      let discountApprovedBy: string | null = null;
+      const sellerLimit = discountLimitFor(settings, currentUser.role);
+      if (priced.maxDiscountPercent > sellerLimit) {
+        if (!approver) {
+          return res.status(403).json({
+            message: `Discounts above ${sellerLimit}% need manager approval`,
+            details: { requiresApproval: true, limit: sellerLimit },
+          });
+        }
+        const approverLimit = discountLimitFor(settings, approver.role);
+        if (priced.maxDiscountPercent > approverLimit) {
+          return res.status(403).json({
+            message: `${approver.username} may only approve discounts up to ${approverLimit}%`,
+            details: { requiresApproval: true, limit: approverLimit },
+          });
+        }
+        discountApprovedBy = approver.id;
+      }
+
+      const tenders = allocateTenders(
+        priced.total,
+        sale.payments ?? [{ method: sale.paymentMethod!, amount: priced.total }],
+      );
+
       // Generate invoice number
       const invoiceNumber = `INV-${Date.now()}`;
       
       const saleData = insertSaleSchema.parse({
-        ...sale,
+        customerId: sale.customerId,
+        paymentMethod: tenders.paymentMethod,
+        subtotal: priced.subtotal,
+        taxAmount: priced.taxAmount,
+        discountAmount: priced.discountAmount,
+        cartDiscountType: priced.cartDiscountType,
+        cartDiscountValue: priced.cartDiscountValue,
+        discountApprovedBy,
+        total: priced.total,
+        currency: settings?.currency ?? "INR",
+        status: "completed",
         invoiceNumber,
-        userId: req.user.id,
+        userId: currentUser.id,
+        shiftId: shift.id,
+        locationId: shift.locationId,
       });
       console.log("Parsed sale data:", saleData);
       
-      const saleItems = items.map((item: any) => insertSaleItemSchema.parse(item));
-      console.log("Parsed sale items:", saleItems);
-      
-      const createdSale = await storage.createSale(saleData, saleItems);
-      res.status(201).json(createdSale);
+      const createdSale = await storage.createSale(saleData, priced.items, {
+        promotionAllocations: priced.promotionAllocations,
+        payments: tenders.payments,
+        serialNumbers: items.map(item => item.serialNumbers),
+      });
+      res.status(201).json({ ...createdSale, changeDue: tenders.changeDue });
     } catch (error) {
+      if (error instanceof StorageError || error instanceof PricingError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
       console.error("Sale creation error:", error);
-      if (error.errors) {
-        console.error("Validation errors:", error.errors);
+      if (error instanceof ZodError) {
+        console.error("Validation errors:", error.issues);
       }
       res.status(400).json({ 
         message: "Failed to create sale", 
-        error: error.message,
-        details: error.errors || null 
+        error: errorMessage(error),
+        details: error instanceof ZodError ? error.issues : null 
       });
     }
   });
 
+  // Shift routes
+  app.get("/api/shifts/current", authenticateToken, async (req, res) => {
+    try {
+      const shift = await storage.getOpenShift(signedInUser(req).id);
+      res.json(shift ? await storage.getShiftReport(shift.id) : null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get current shift" });
+    }
+  });
+
+  app.get("/api/shifts", authenticateToken, requirePermission("sales.create"), async (req, res) => {
+    try {
+      const currentUser = signedInUser(req);
+      const { user, status } = z.object({
+        user: z.string().optional(),
+        status: z.enum(["open", "closed"]).optional(),
+      }).parse(req.query);
+      const userId = currentUser.permissions.includes("shifts.manage") ? user : currentUser.id;
+      res.json(await storage.getShifts({ userId, status }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid filters", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to get shifts" });
+    }
+  });
+
+  app.get("/api/shifts/:id/report", authenticateToken, requirePermission("sales.create"), async (req, res) => {
+    try {
+      const report = await storage.getShiftReport(req.params.id);
+      if (!report || !canAccessShift(req, report.shift)) {
+        return res.status(404).json({ message: "Shift not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get shift report" });
+    }
+  });
+
+  app.post("/api/shifts/open", authenticateToken, requirePermission("sales.create"), async (req, res) => {
+    try {
+      const shift = await storage.openShift(signedInUser(req).id, openShiftSchema.parse(req.body));
+      res.status(201).json(shift);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid shift", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to open shift" });
+    }
+  });
+
+  app.post("/api/shifts/:id/cash-movements", authenticateToken, requirePermission("sales.create"), async (req, res) => {
+    try {
+      const data = createCashMovementSchema.parse(req.body);
+      const shift = await storage.getShift(req.params.id);
+      if (!shift || !canAccessShift(req, shift)) {
+        return res.status(404).json({ message: "Shift not found" });
+      }
+      const movement = await storage.addCashMovement({ ...data, shiftId: shift.id, userId: signedInUser(req).id });
+      res.status(201).json(movement);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid cash movement", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to record cash movement" });
+    }
+  });
+
+  app.post("/api/shifts/:id/close", authenticateToken, requirePermission("sales.create"), async (req, res) => {
+    try {
+      const closing = closeShiftSchema.parse(req.body);
+      const shift = await storage.getShift(req.params.id);
+      if (!shift || !canAccessShift(req, shift)) {
+        return res.status(404).json({ message: "Shift not found" });
+      }
+      const report = await storage.closeShift(shift.id, closing, signedInUser(req).id);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid count", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to close shift" });
+    }
+  });
+
+  // Held sale routes
+  app.get("/api/held-sales", authenticateToken, requirePermission("sales.create"), async (req, res) => {
+    try {
+      const held = await storage.getHeldSales();
+      res.json(held);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get held sales" });
+    }
+  });
+
+  app.post("/api/held-sales", authenticateToken, requirePermission("sales.create"), async (req, res) => {
+    try {
+      const heldSaleData = createHeldSaleSchema.parse(req.body);
+      const settings = await storage.getSystemSettings();
+      const expiryMinutes = settings?.heldSaleExpiryMinutes ?? DEFAULT_HELD_SALE_EXPIRY_MINUTES;
+      // Stock is reserved at the cashier's register
+      const shift = await storage.getOpenShift(signedInUser(req).id);
+
+      const held = await storage.createHeldSale({
+        ...heldSaleData,
+        userId: signedInUser(req).id,
+        locationId: shift?.locationId ?? null,
+        reservesStock: settings?.heldSalesReserveStock ?? false,
+        expiresAt: new Date(Date.now() + expiryMinutes * 60 * 1000),
+      });
+      res.status(201).json(held);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid held sale", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to hold sale" });
+    }
+  });
+
+  app.post("/api/held-sales/:id/recall", authenticateToken, requirePermission("sales.create"), async (req, res) => {
+    try {
+      const held = await storage.recallHeldSale(req.params.id);
+      if (!held) {
+        return res.status(404).json({ message: "Held sale not found or expired" });
+      }
+      res.json(held);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to recall held sale" });
+    }
+  });
+
+  app.delete("/api/held-sales/:id", authenticateToken, requirePermission("sales.create"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteHeldSale(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Held sale not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to discard held sale" });
+    }
+  });
+
   // Stock movement routes
   app.get("/api/stock-movements", authenticateToken, async (req, res) => {
     try {
-      const { product_id } = req.query;
-      const movements = await storage.getStockMovements(product_id as string);
+      const { product_id, location } = req.query;
+      const movements = await storage.getStockMovements({
+        productId: product_id as string | undefined,
+        locationId: location as string | undefined,
+      });
       res.json(movements);
     } catch (error) {
       res.status(500).json({ message: "Failed to get stock movements" });
     }
   });
 
+  // Serial number routes
+  app.get("/api/products/:id/serial-numbers", authenticateToken, async (req, res) => {
+    try {
+      const serials = await storage.getSerialNumbers(req.params.id, req.query.status as string | undefined);
+      res.json(serials);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get serial numbers" });
+    }
+  });
+
+  // Which sale sold a unit, to whom and under what warranty
+  app.get("/api/serial-numbers/:serialNumber", authenticateToken, async (req, res) => {
+    try {
+      const matches = await storage.lookupSerialNumber(req.params.serialNumber);
+      if (matches.length === 0) {
+        return res.status(404).json({ message: "Serial number not found" });
+      }
+      res.json(matches);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to look up serial number" });
+    }
+  });
+
+  // Stock lot routes
+  app.get("/api/stock-lots", authenticateToken, async (req, res) => {
+    try {
+      const { product, location } = req.query;
+      const lots = await storage.getStockLots({
+        productId: product as string | undefined,
+        locationId: location as string | undefined,
+      });
+      res.json(lots);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get stock lots" });
+    }
+  });
+
+  // Lots expiring within `days` (default: the expiry alert setting), including ones already expired
+  app.get("/api/stock-lots/expiring", authenticateToken, async (req, res) => {
+    try {
+      let days = parseInt(req.query.days as string, 10);
+      if (isNaN(days)) {
+        const settings = await storage.getSystemSettings();
+        days = settings?.expiryAlertDays ?? 30;
+      }
+      const lots = await storage.getExpiringLots(Math.max(days, 0));
+      res.json(lots);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get expiring lots" });
+    }
+  });
+
+  app.get("/api/stock-lots/:id/sales", authenticateToken, requirePermission("inventory.adjust"), async (req, res) => {
+    try {
+      const lotSales = await storage.getLotSales(req.params.id);
+      if (!lotSales) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.json(lotSales);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get lot sales" });
+    }
+  });
+
+  app.post("/api/stock-lots/:id/write-off", authenticateToken, requirePermission("inventory.adjust"), async (req, res) => {
+    try {
+      const movement = await storage.writeOffLot(req.params.id, writeOffLotSchema.parse(req.body ?? {}), signedInUser(req).id);
+      if (!movement) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.json(movement);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid serial numbers", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to write off lot" });
+    }
+  });
+
   // Return routes
   app.get("/api/returns", authenticateToken, async (req, res) => {
     try {
@@ -524,63 +1850,262 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/returns", authenticateToken, async (req, res) => {
+  app.post("/api/returns", authenticateToken, requirePermission("sales.refund"), async (req, res) => {
     try {
-      const returnData = insertReturnSchema.parse({
-        ...req.body,
-        userId: req.user.id,
-      });
-      const returnItem = await storage.createReturn(returnData);
-      res.status(201).json(returnItem);
+      const currentUser = signedInUser(req);
+      const returnRequest = createReturnSchema.parse(req.body);
+      const shift = await storage.getOpenShift(currentUser.id);
+
+      // Cash refunds above the cash paid need someone allowed to give them
+      let cashApproverId: string | null = currentUser.permissions.includes("sales.refund_over_cash") ? currentUser.id : null;
+      if (!cashApproverId && returnRequest.approval) {
+        const approver = await verifyApproval(returnRequest.approval, req);
+        if (!(await permissionsFor(approver.role)).includes("sales.refund_over_cash")) {
+          return res.status(403).json({
+            message: `${approver.username} may not approve cash refunds above the cash paid`,
+            details: { requiresApproval: true },
+          });
+        }
+        cashApproverId = approver.id;
+      }
+
+      const result = await storage.createReturn(returnRequest, currentUser.id, shift?.id ?? null, cashApproverId);
+      if (!result) {
+        return res.status(404).json({ message: "Sale not found" });
+      }
+      res.status(201).json(result);
     } catch (error) {
-      res.status(400).json({ message: "Failed to create return", error: error.message });
+      if (error instanceof StorageError || error instanceof PricingError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(400).json({ message: "Failed to create return", error: errorMessage(error), details: error instanceof ZodError ? error.issues : null });
     }
   });
 
   // Purchase order routes
-  app.get("/api/purchase-orders", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.get("/api/purchase-orders", authenticateToken, requirePermission("purchase_orders.view"), async (req, res) => {
     try {
-      const orders = await storage.getAllPurchaseOrders();
+      const { status } = req.query;
+      const orders = await storage.getAllPurchaseOrders(status as string | undefined);
       res.json(orders);
     } catch (error) {
       res.status(500).json({ message: "Failed to get purchase orders" });
     }
   });
 
-  app.post("/api/purchase-orders", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.get("/api/purchase-orders/:id", authenticateToken, requirePermission("purchase_orders.view"), async (req, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders", authenticateToken, requirePermission("purchase_orders.manage"), async (req, res) => {
     try {
       const { order, items } = req.body;
-      
+
+      // Lines without a unit cost are priced from the supplier's cost list, then
+      // the product's cost price. Totals are derived from quantity x unit cost.
+      const lines = z.array(
+        insertPurchaseOrderItemSchema.omit({ purchaseOrderId: true, totalCost: true })
+          .extend({ quantity: z.number().int().positive(), unitCost: insertPurchaseOrderItemSchema.shape.unitCost.optional() })
+      ).min(1, "At least one line is required").parse(items);
+      const catalog = order?.supplierId ? await storage.getSupplierProducts({ supplierId: order.supplierId }) : [];
+      const orderedProducts = await storage.getProductsByIds(lines.map(line => line.productId));
+      const orderItems = lines.map(line => {
+        const terms = catalog.find(entry => entry.productId === line.productId);
+        const unitCost = line.unitCost
+          ?? (terms ? (parseFloat(terms.caseCost) / terms.packSize).toFixed(2) : orderedProducts.find(p => p.id === line.productId)?.costPrice ?? "0");
+        return { ...line, unitCost, totalCost: (line.quantity * parseFloat(unitCost)).toFixed(2) };
+      });
+      const totalAmount = orderItems.reduce((sum, item) => sum + parseFloat(item.totalCost), 0);
+
       const orderNumber = `PO-${Date.now()}`;
       const orderData = insertPurchaseOrderSchema.parse({
         ...order,
+        locationId: order?.locationId || (await storage.getDefaultLocation()).id,
         orderNumber,
-        userId: req.user.id,
+        status: "pending",
+        totalAmount: totalAmount.toFixed(2),
+        userId: signedInUser(req).id,
       });
-      
-      const orderItems = items.map((item: any) => insertPurchaseOrderItemSchema.parse(item));
-      
+
       const createdOrder = await storage.createPurchaseOrder(orderData, orderItems);
       res.status(201).json(createdOrder);
     } catch (error) {
-      res.status(400).json({ message: "Failed to create purchase order", error: error.message });
+      res.status(400).json({ message: "Failed to create purchase order", error: errorMessage(error) });
     }
   });
 
-  app.post("/api/purchase-orders/:id/receive", authenticateToken, requireRole(['admin', 'manager']), async (req, res) => {
+  app.post("/api/purchase-orders/:id/receive", authenticateToken, requirePermission("purchase_orders.manage"), async (req, res) => {
     try {
-      const success = await storage.receivePurchaseOrder(req.params.id, req.user.id);
-      if (!success) {
-        return res.status(404).json({ message: "Purchase order not found or already received" });
+      const currentUser = signedInUser(req);
+      const receipt = receivePurchaseOrderSchema.parse(req.body ?? {});
+      if (receipt.updateCostPrice && !currentUser.permissions.includes("products.edit_price")) {
+        return res.status(403).json({ message: "Insufficient permissions to change prices" });
       }
-      res.json({ message: "Purchase order received successfully" });
+      const order = await storage.receivePurchaseOrder(req.params.id, currentUser.id, receipt);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
     } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid receipt", details: error.issues });
+      }
       res.status(500).json({ message: "Failed to receive purchase order" });
     }
   });
 
+  app.post("/api/purchase-orders/:id/submit", authenticateToken, requirePermission("purchase_orders.manage"), async (req, res) => {
+    try {
+      const order = await storage.submitPurchaseOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(500).json({ message: "Failed to submit purchase order" });
+    }
+  });
+
+  app.get("/api/reorder-suggestions", authenticateToken, requirePermission("purchase_orders.view"), async (req, res) => {
+    try {
+      const { location } = req.query;
+      const suggestions = await storage.getReorderSuggestions(location as string | undefined);
+      res.json(suggestions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get reorder suggestions" });
+    }
+  });
+
+  app.post("/api/purchase-orders/drafts", authenticateToken, requirePermission("purchase_orders.manage"), async (req, res) => {
+    try {
+      const request = createDraftPurchaseOrdersSchema.parse(req.body);
+      const orders = await storage.createDraftPurchaseOrders(request, signedInUser(req).id);
+      res.status(201).json(orders);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid draft orders", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to create draft purchase orders" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/cancel", authenticateToken, requirePermission("purchase_orders.manage"), async (req, res) => {
+    try {
+      const order = await storage.cancelPurchaseOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(500).json({ message: "Failed to cancel purchase order" });
+    }
+  });
+
+  // Promotion routes
+  app.get("/api/promotions/active", authenticateToken, async (req, res) => {
+    try {
+      const activePromotions = await storage.getActivePromotions();
+      res.json(activePromotions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get promotions" });
+    }
+  });
+
+  app.get("/api/promotions", authenticateToken, requirePermission("promotions.manage"), async (req, res) => {
+    try {
+      const allPromotions = await storage.getAllPromotions();
+      res.json(allPromotions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get promotions" });
+    }
+  });
+
+  app.post("/api/promotions", authenticateToken, requirePermission("promotions.manage"), async (req, res) => {
+    try {
+      const promotionData = insertPromotionSchema.parse(req.body);
+      const promotion = await storage.createPromotion(promotionData);
+      res.status(201).json(promotion);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid promotion", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to create promotion" });
+    }
+  });
+
+  app.put("/api/promotions/:id", authenticateToken, requirePermission("promotions.manage"), async (req, res) => {
+    try {
+      const promotionData = insertPromotionSchema.parse(req.body);
+      const promotion = await storage.updatePromotion(req.params.id, promotionData);
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      res.json(promotion);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.issues[0]?.message ?? "Invalid promotion", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to update promotion" });
+    }
+  });
+
+  app.delete("/api/promotions/:id", authenticateToken, requirePermission("promotions.manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deletePromotion(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ message: error.message, details: error.details ?? null });
+      }
+      res.status(500).json({ message: "Failed to delete promotion" });
+    }
+  });
+
   // System Settings routes
-  app.get("/api/settings", authenticateToken, requireRole(['admin']), async (req, res) => {
+  app.get("/api/settings/public", authenticateToken, async (req, res) => {
+    try {
+      const settings = await storage.getSystemSettings();
+      const publicSettings: PublicSettings = {
+        currency: settings?.currency ?? "INR",
+        taxRate: settings?.taxRate ?? "0",
+        timezone: settings?.timezone ?? "UTC",
+        priceOverrideRoles: settings?.priceOverrideRoles ?? DEFAULT_PRICE_OVERRIDE_ROLES,
+        discountLimits: settings?.discountLimits ?? DEFAULT_DISCOUNT_LIMITS,
+        companyName: settings?.companyName ?? null,
+        companyAddress: settings?.companyAddress ?? null,
+        companyPhone: settings?.companyPhone ?? null,
+        companyEmail: settings?.companyEmail ?? null,
+      };
+      res.json(publicSettings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get settings" });
+    }
+  });
+
+  app.get("/api/settings", authenticateToken, requirePermission("settings.read"), async (req, res) => {
     try {
       const settings = await storage.getSystemSettings();
       if (!settings) {
@@ -588,6 +2113,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({
           currency: "INR",
           taxRate: "0",
+          timezone: "UTC",
+          priceOverrideRoles: DEFAULT_PRICE_OVERRIDE_ROLES,
+          discountLimits: DEFAULT_DISCOUNT_LIMITS,
+          heldSaleExpiryMinutes: DEFAULT_HELD_SALE_EXPIRY_MINUTES,
+          heldSalesReserveStock: false,
+          internalBarcodePrefix: "200",
+          nextInternalBarcode: 1,
+          costingMethod: "fifo",
+          reorderCoverDays: 14,
+          salesVelocityDays: 30,
+          expiryAlertDays: 30,
           companyName: null,
           companyAddress: null,
           companyPhone: null,
@@ -600,16 +2136,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/settings", authenticateToken, requireRole(['admin']), async (req, res) => {
+  app.put("/api/settings", authenticateToken, requirePermission("settings.write"), async (req, res) => {
     try {
       const settingsData = insertSystemSettingsSchema.partial().parse(req.body);
       const settings = await storage.updateSystemSettings(settingsData);
       res.json(settings);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update system settings", error: error.message });
+      res.status(400).json({ message: "Failed to update system settings", error: errorMessage(error) });
+    }
+  });
+
+  // Audit log routes
+  app.get("/api/audit-log", authenticateToken, requirePermission("audit.view"), async (req, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const result = await storage.getAuditLog({
+        userId: query.user,
+        entityType: query.entity_type,
+        entityId: query.entity_id,
+        action: query.action,
+        startDate: query.start_date,
+        endDate: query.end_date,
+        limit: query.limit,
+        offset: query.offset,
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid audit log filters", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to get audit log" });
     }
   });
 
+  app.get("/api/audit-log/entity-types", authenticateToken, requirePermission("audit.view"), (req, res) => {
+    res.json(auditEntityTypes);
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
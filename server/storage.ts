@@ -1,31 +1,77 @@
 import { 
   type User, type InsertUser,
+  type Role, type InsertRole, type RoleWithUsage,
+  type Session, type InsertSession,
+  type AuditLogEntry, type InsertAuditLogEntry, type AuditLogFilters,
   type Category, type InsertCategory,
+  type Location, type InsertLocation, type LocationStock,
+  type StockTransfer, type StockTransferWithDetails, type CreateTransfer, type ReceiveTransfer,
+  type Stocktake, type StocktakeWithDetails, type CreateStocktake, type RecordCounts, type PostStocktake,
   type Supplier, type InsertSupplier,
-  type Product, type InsertProduct, type ProductWithDetails,
+  type SupplierProduct, type InsertSupplierProduct, type SupplierProductWithDetails, type SupplierPerformance,
+  type Product, type InsertProduct, type ProductWithDetails, type SaveProductVariants,
   type Customer, type InsertCustomer,
-  type Sale, type InsertSale, type SaleWithDetails,
-  type SaleItem, type InsertSaleItem,
-  type StockMovement, type InsertStockMovement,
-  type Return, type InsertReturn,
+  type Sale, type InsertSale, type SaleWithDetails, type PaymentMethod,
+  type SaleItem, type InsertSaleItem, type SalePayment, type InsertSalePayment, type TenderBreakdown,
+  type StockMovement, type InsertStockMovement, type StockMovementWithDetails, type AdjustStock, type WriteOffLot,
+  type CostLayer, type CostingMethod, type StockValuation, type GrossProfit,
+  type StockLot, type StockLotWithDetails, type LotSale, type SerialNumber, type SerialLookup,
+  type Return, type InsertReturn, type CreateReturn, type ReturnWithDetails, type SaleReturnResult,
   type PurchaseOrder, type InsertPurchaseOrder,
-  type PurchaseOrderItem, type InsertPurchaseOrderItem,
+  type PurchaseOrderItem, type InsertPurchaseOrderItem, type PurchaseOrderWithDetails, type ReceivePurchaseOrder,
+  type CreateDraftPurchaseOrders, type ReorderSuggestionGroup,
   type SystemSettings, type InsertSystemSettings,
-  type DashboardMetrics,
-  users, categories, suppliers, products, customers, sales, saleItems, stockMovements, returns, purchaseOrders, purchaseOrderItems, systemSettings
+  type Promotion, type InsertPromotion, type PromotionWithUsage,
+  type HeldSale, type InsertHeldSale, type HeldSaleWithDetails,
+  type Shift, type ShiftWithUser, type ShiftReport, type OpenShift, type CloseShift, type CashMovement, type InsertCashMovement,
+  type DashboardMetrics, type StockShortage, type SalesReportFilters, type TopProductsFilters, type TopProduct, type SalesDataPoint,
+  users, categories, suppliers, products, customers, sales, saleItems, stockMovements, returns, purchaseOrders, purchaseOrderItems, systemSettings,
+  promotions, salePromotions, salePayments, heldSales, roles, sessions, auditLog, shifts, cashMovements, isPaymentMethod,
+  locations, locationStock, stockTransfers, stockTransferItems, stocktakes, stocktakeItems, costLayers, costAllocations,
+  supplierProducts, stockLots, lotAllocations, serialNumbers, variantCombinations, variantLabel, maxReportDays
 } from "@shared/schema";
-import { neon } from "@neondatabase/serverless";
-import { drizzle } from "drizzle-orm/neon-http";
-import { eq, like, desc, asc, sql, and, gte, lte } from "drizzle-orm";
+import { ADMIN_ROLE, allPermissions, defaultRoles } from "@shared/permissions";
+import type { PromotionAllocation } from "@shared/promotions";
+import { gtinCheckDigit } from "@shared/barcode";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import { eq, like, desc, asc, sql, and, or, gt, gte, lte, inArray, isNull } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import bcrypt from "bcrypt";
+import crypto from "crypto";
+import ws from "ws";
 
 const dbUrl = process.env.DATABASE_URL;
 if (!dbUrl) {
   throw new Error("DATABASE_URL is not set");
 }
 
-const client = neon(dbUrl);
-const db = drizzle(client);
+// The websocket pool (unlike neon-http) supports interactive transactions
+neonConfig.webSocketConstructor = ws;
+const pool = new Pool({ connectionString: dbUrl });
+const db = drizzle(pool);
+
+// A refund is a proportional share of what was paid for the sale. For reports
+// it is split back into the sale's tax-exclusive share, or scaled to the value
+// sale lines are recorded at (before cart discounts and tax).
+const refundNetOfTax = sql`CAST(${returns.refundAmount} AS DECIMAL) * (CAST(${sales.total} AS DECIMAL) - CAST(${sales.taxAmount} AS DECIMAL)) / nullif(CAST(${sales.total} AS DECIMAL), 0)`;
+const refundAtLineValue = sql`CAST(${returns.refundAmount} AS DECIMAL) * CAST(${sales.subtotal} AS DECIMAL) / nullif(CAST(${sales.total} AS DECIMAL), 0)`;
+
+// Thrown when a request is well-formed but conflicts with the current data;
+// routes translate `status` and `details` into the HTTP response.
+export class StorageError extends Error {
+  constructor(message: string, public status = 409, public details?: unknown) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+// Records written alongside a sale's header and lines
+export type SaleExtras = {
+  promotionAllocations?: PromotionAllocation[];
+  payments?: Omit<InsertSalePayment, 'saleId'>[];
+  serialNumbers?: (string[] | undefined)[]; // by line index, for serial-tracked products
+};
 
 export interface IStorage {
   // User methods
@@ -36,6 +82,24 @@ export interface IStorage {
   deleteUser(id: string): Promise<boolean>;
   getAllUsers(): Promise<User[]>;
 
+  // Role methods
+  getRole(id: string): Promise<Role | undefined>;
+  getRoleByName(name: string): Promise<Role | undefined>;
+  getAllRoles(): Promise<RoleWithUsage[]>;
+  createRole(role: InsertRole): Promise<Role>;
+  updateRole(id: string, role: Partial<InsertRole>): Promise<Role | undefined>;
+  deleteRole(id: string): Promise<boolean>;
+  ensureDefaultRoles(): Promise<void>;
+
+  // Session methods
+  createSession(session: InsertSession): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  getSessionByTokenHash(tokenHash: string): Promise<Session | undefined>;
+  rotateSession(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<Session | undefined>;
+  getActiveSessions(userId: string): Promise<Session[]>;
+  revokeSession(id: string): Promise<boolean>;
+  revokeUserSessions(userId: string): Promise<number>;
+
   // Category methods
   getCategory(id: string): Promise<Category | undefined>;
   getCategoryBySlug(slug: string): Promise<Category | undefined>;
@@ -50,18 +114,31 @@ export interface IStorage {
   updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined>;
   deleteSupplier(id: string): Promise<boolean>;
   getAllSuppliers(): Promise<Supplier[]>;
+  getSupplierPerformance(supplierId: string): Promise<SupplierPerformance>;
+
+  // Supplier catalog methods
+  getSupplierProducts(filters?: { supplierId?: string; productId?: string }): Promise<SupplierProductWithDetails[]>;
+  getSupplierProduct(id: string): Promise<SupplierProduct | undefined>;
+  createSupplierProduct(supplierProduct: InsertSupplierProduct): Promise<SupplierProduct>;
+  updateSupplierProduct(id: string, supplierProduct: Partial<InsertSupplierProduct>): Promise<SupplierProduct | undefined>;
+  deleteSupplierProduct(id: string): Promise<boolean>;
+  ensureSupplierProducts(): Promise<number>;
 
   // Product methods
   getProduct(id: string): Promise<Product | undefined>;
   getProductBySku(sku: string): Promise<Product | undefined>;
   getProductByBarcode(barcode: string): Promise<Product | undefined>;
+  getProductsByIds(ids: string[]): Promise<Product[]>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: string): Promise<boolean>;
   getAllProducts(): Promise<ProductWithDetails[]>;
   searchProducts(query: string): Promise<ProductWithDetails[]>;
   getLowStockProducts(): Promise<ProductWithDetails[]>;
-  updateProductStock(id: string, quantity: number, movementType: string, reason?: string, userId?: string): Promise<boolean>;
+  adjustStock(id: string, adjustment: AdjustStock, userId: string): Promise<StockMovement | undefined>;
+  generateInternalBarcodes(productIds: string[]): Promise<Product[]>;
+  getProductVariants(parentId: string): Promise<ProductWithDetails[]>;
+  saveProductVariants(parentId: string, matrix: SaveProductVariants): Promise<ProductWithDetails[] | undefined>;
 
   // Customer methods
   getCustomer(id: string): Promise<Customer | undefined>;
@@ -73,24 +150,101 @@ export interface IStorage {
 
   // Sale methods
   getSale(id: string): Promise<SaleWithDetails | undefined>;
-  createSale(sale: InsertSale, items: InsertSaleItem[]): Promise<Sale>;
+  getSaleByInvoiceNumber(invoiceNumber: string): Promise<SaleWithDetails | undefined>;
+  createSale(sale: InsertSale, items: Omit<InsertSaleItem, 'saleId'>[], extras?: SaleExtras): Promise<SaleWithDetails>;
   getAllSales(): Promise<SaleWithDetails[]>;
   getSalesByDateRange(startDate: Date, endDate: Date): Promise<SaleWithDetails[]>;
   getSalesByCustomer(customerId: string): Promise<SaleWithDetails[]>;
+  backfillSalePayments(): Promise<number>;
+
+  // Held sale methods
+  getHeldSales(): Promise<HeldSaleWithDetails[]>;
+  createHeldSale(heldSale: InsertHeldSale): Promise<HeldSale>;
+  recallHeldSale(id: string): Promise<HeldSaleWithDetails | undefined>;
+  deleteHeldSale(id: string): Promise<boolean>;
+
+  // Location methods
+  getLocation(id: string): Promise<Location | undefined>;
+  getAllLocations(): Promise<Location[]>;
+  getDefaultLocation(): Promise<Location>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location | undefined>;
+  deleteLocation(id: string): Promise<boolean>;
+  ensureDefaultLocation(): Promise<number>;
+  getStockLevels(locationId: string): Promise<LocationStock[]>;
+  getProductStock(productId: string): Promise<(LocationStock & { location?: { name: string } })[]>;
+  updateLocationStock(productId: string, locationId: string, minStockLevel: number | null): Promise<LocationStock>;
+  getInTransitQuantities(locationId?: string): Promise<Map<string, number>>;
+
+  // Cost layer methods
+  ensureCostLayers(): Promise<number>;
+  getStockValuation(asOf?: string): Promise<StockValuation>;
+
+  // Lot methods
+  getStockLot(id: string): Promise<StockLot | undefined>;
+  getStockLots(filters?: { productId?: string; locationId?: string }): Promise<StockLotWithDetails[]>;
+  getExpiringLots(days: number): Promise<StockLotWithDetails[]>;
+  getLotSales(lotId: string): Promise<LotSale[] | undefined>;
+  writeOffLot(id: string, writeOff: WriteOffLot, userId: string): Promise<StockMovement | undefined>;
+
+  // Serial number methods
+  getSerialNumbers(productId: string, status?: string): Promise<SerialNumber[]>;
+  lookupSerialNumber(serialNumber: string): Promise<SerialLookup[]>;
+
+  // Stock transfer methods
+  getTransfers(status?: string): Promise<StockTransferWithDetails[]>;
+  getTransfer(id: string): Promise<StockTransferWithDetails | undefined>;
+  createTransfer(transfer: CreateTransfer, userId: string): Promise<StockTransfer>;
+  sendTransfer(id: string, userId: string): Promise<StockTransferWithDetails | undefined>;
+  receiveTransfer(id: string, receipt: ReceiveTransfer, userId: string): Promise<StockTransferWithDetails | undefined>;
+  cancelTransfer(id: string, userId: string): Promise<StockTransferWithDetails | undefined>;
+
+  // Stocktake methods
+  getStocktakes(status?: string): Promise<StocktakeWithDetails[]>;
+  getStocktake(id: string): Promise<StocktakeWithDetails | undefined>;
+  createStocktake(stocktake: CreateStocktake, userId: string): Promise<Stocktake>;
+  recordStocktakeCounts(id: string, counts: RecordCounts["counts"], userId: string): Promise<StocktakeWithDetails | undefined>;
+  postStocktake(id: string, post: PostStocktake, userId: string): Promise<StocktakeWithDetails | undefined>;
+  cancelStocktake(id: string): Promise<StocktakeWithDetails | undefined>;
+
+  // Shift methods
+  getShift(id: string): Promise<ShiftWithUser | undefined>;
+  getOpenShift(userId: string): Promise<Shift | undefined>;
+  getShifts(filters?: { userId?: string; status?: string }): Promise<ShiftWithUser[]>;
+  openShift(userId: string, shift: OpenShift): Promise<Shift>;
+  addCashMovement(movement: InsertCashMovement): Promise<CashMovement>;
+  closeShift(id: string, closing: CloseShift, closedBy: string): Promise<ShiftReport | undefined>;
+  getShiftReport(id: string): Promise<ShiftReport | undefined>;
 
   // Stock movement methods
   createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
-  getStockMovements(productId?: string): Promise<StockMovement[]>;
+  getStockMovements(filters?: { productId?: string; locationId?: string }): Promise<StockMovementWithDetails[]>;
 
   // Return methods
-  createReturn(returnItem: InsertReturn): Promise<Return>;
-  getReturns(): Promise<Return[]>;
+  createReturn(request: CreateReturn, userId: string, shiftId: string | null, cashApproverId?: string | null): Promise<SaleReturnResult | undefined>;
+  getReturns(): Promise<ReturnWithDetails[]>;
 
   // Purchase order methods
-  createPurchaseOrder(order: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrder>;
-  getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
-  getAllPurchaseOrders(): Promise<PurchaseOrder[]>;
-  receivePurchaseOrder(id: string, userId: string): Promise<boolean>;
+  createPurchaseOrder(order: InsertPurchaseOrder, items: Omit<InsertPurchaseOrderItem, 'purchaseOrderId'>[]): Promise<PurchaseOrder>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrderWithDetails | undefined>;
+  getAllPurchaseOrders(status?: string): Promise<PurchaseOrderWithDetails[]>;
+  cancelPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  receivePurchaseOrder(id: string, userId: string, receipt?: ReceivePurchaseOrder): Promise<PurchaseOrderWithDetails | undefined>;
+  submitPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  getReorderSuggestions(locationId?: string): Promise<ReorderSuggestionGroup[]>;
+  createDraftPurchaseOrders(request: CreateDraftPurchaseOrders, userId: string): Promise<PurchaseOrder[]>;
+
+  // Promotion methods
+  getPromotion(id: string): Promise<Promotion | undefined>;
+  getAllPromotions(): Promise<PromotionWithUsage[]>;
+  getActivePromotions(): Promise<Promotion[]>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: string, promotion: InsertPromotion): Promise<Promotion | undefined>;
+  deletePromotion(id: string): Promise<boolean>;
+
+  // Audit log methods
+  createAuditEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(filters?: AuditLogFilters): Promise<{ entries: AuditLogEntry[]; total: number }>;
 
   // System Settings methods
   getSystemSettings(): Promise<SystemSettings | undefined>;
@@ -98,8 +252,10 @@ export interface IStorage {
 
   // Dashboard methods
   getDashboardMetrics(): Promise<DashboardMetrics>;
-  getTopProducts(limit?: number): Promise<Array<{ product: Product; totalSold: number; revenue: number }>>;
-  getSalesData(days: number): Promise<Array<{ date: string; sales: number; transactions: number }>>;
+  getTopProducts(filters?: TopProductsFilters): Promise<TopProduct[]>;
+  getSalesData(filters?: SalesReportFilters): Promise<SalesDataPoint[]>;
+  getRevenueByTender(filters?: SalesReportFilters): Promise<TenderBreakdown[]>;
+  getGrossProfit(filters?: SalesReportFilters): Promise<GrossProfit>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -144,6 +300,7 @@ export class DatabaseStorage implements IStorage {
     const result = await db.insert(users).values({
       ...insertUser,
       password: hashedPassword,
+      pin: insertUser.pin ? await bcrypt.hash(insertUser.pin, 10) : null,
     }).returning();
     return result[0];
   }
@@ -153,17 +310,101 @@ export class DatabaseStorage implements IStorage {
     if (userData.password) {
       updateData.password = await bcrypt.hash(userData.password, 10);
     }
+    if (userData.pin) {
+      updateData.pin = await bcrypt.hash(userData.pin, 10);
+    }
     const result = await db.update(users).set(updateData).where(eq(users.id, id)).returning();
+    // Deactivated users and reset passwords sign out every device
+    if (result[0] && (userData.isActive === false || userData.password)) {
+      await this.revokeUserSessions(id);
+    }
     return result[0];
   }
 
   async deleteUser(id: string): Promise<boolean> {
-    const result = await db.delete(users).where(eq(users.id, id));
-    return (result as any).rowCount > 0;
+    try {
+      const result = await db.delete(users).where(eq(users.id, id));
+      return (result as any).rowCount > 0;
+    } catch (error: any) {
+      // Sales, stock movements and orders keep a reference to the user
+      if (error.code === "23503") {
+        throw new StorageError("User has recorded activity and can't be deleted; deactivate them instead");
+      }
+      throw error;
+    }
   }
 
   async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users);
+    return await db.select().from(users).orderBy(asc(users.username));
+  }
+
+  // Role methods
+  async getRole(id: string): Promise<Role | undefined> {
+    const result = await db.select().from(roles).where(eq(roles.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getRoleByName(name: string): Promise<Role | undefined> {
+    const result = await db.select().from(roles).where(eq(roles.name, name)).limit(1);
+    return result[0];
+  }
+
+  async getAllRoles(): Promise<RoleWithUsage[]> {
+    const userCounts = db
+      .select({ role: users.role, userCount: sql<number>`count(*)::int`.as("user_count") })
+      .from(users)
+      .groupBy(users.role)
+      .as("user_counts");
+
+    const result = await db
+      .select({ role: roles, userCount: userCounts.userCount })
+      .from(roles)
+      .leftJoin(userCounts, eq(userCounts.role, roles.name))
+      .orderBy(asc(roles.name));
+
+    return result.map(row => ({ ...row.role, userCount: row.userCount ?? 0 }));
+  }
+
+  async createRole(insertRole: InsertRole): Promise<Role> {
+    if (await this.getRoleByName(insertRole.name)) {
+      throw new StorageError(`Role "${insertRole.name}" already exists`);
+    }
+    const result = await db.insert(roles).values(insertRole).returning();
+    return result[0];
+  }
+
+  // Roles are referenced by name, so renaming is not supported
+  async updateRole(id: string, roleData: Partial<InsertRole>): Promise<Role | undefined> {
+    const existing = await this.getRole(id);
+    if (!existing) return undefined;
+    if (existing.name === ADMIN_ROLE && roleData.permissions) {
+      throw new StorageError("The admin role always has every permission");
+    }
+    const { name: _, ...changes } = roleData;
+    const result = await db.update(roles).set(changes).where(eq(roles.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteRole(id: string): Promise<boolean> {
+    const existing = await this.getRole(id);
+    if (!existing) return false;
+    if (existing.isSystem) {
+      throw new StorageError("Built-in roles can't be deleted");
+    }
+    const [assigned] = await db.select({ count: sql<number>`count(*)::int` }).from(users).where(eq(users.role, existing.name));
+    if (assigned.count > 0) {
+      throw new StorageError(`Role is assigned to ${assigned.count} user(s)`);
+    }
+    const result = await db.delete(roles).where(eq(roles.id, id));
+    return (result as any).rowCount > 0;
+  }
+
+  // Seed the built-in roles and keep admin in step with the permission list. Safe to run repeatedly.
+  async ensureDefaultRoles(): Promise<void> {
+    await db.insert(roles)
+      .values(defaultRoles.map(role => ({ ...role, isSystem: true })))
+      .onConflictDoNothing({ target: roles.name });
+    await db.update(roles).set({ permissions: allPermissions }).where(eq(roles.name, ADMIN_ROLE));
   }
 
   // Category methods
@@ -221,6 +462,156 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(suppliers);
   }
 
+  async getSupplierPerformance(supplierId: string): Promise<SupplierPerformance> {
+    const supplier = await this.getSupplier(supplierId);
+    const orders = await db
+      .select({ order: purchaseOrders, location: { name: locations.name } })
+      .from(purchaseOrders)
+      .leftJoin(locations, eq(purchaseOrders.locationId, locations.id))
+      .where(eq(purchaseOrders.supplierId, supplierId))
+      .orderBy(desc(purchaseOrders.createdAt));
+
+    const openOrders = orders
+      .filter(row => ["draft", "pending", "partially_received"].includes(row.order.status))
+      .map(row => ({ ...row.order, supplier, location: row.location ?? undefined }));
+
+    // Orders sent before expected dates were recorded are measured against the
+    // supplier's current lead time
+    const dayMs = 24 * 60 * 60 * 1000;
+    const deliveries = orders
+      .filter(row => row.order.status === "received" && row.order.receivedAt)
+      .map(({ order }) => {
+        const expectedAt = order.expectedAt
+          ?? (order.createdAt ? new Date(order.createdAt.getTime() + (supplier?.leadTimeDays ?? 0) * dayMs) : null);
+        const daysLate = expectedAt ? Math.max(0, Math.ceil((order.receivedAt!.getTime() - expectedAt.getTime()) / dayMs)) : 0;
+        return {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          createdAt: order.createdAt,
+          expectedAt,
+          receivedAt: order.receivedAt,
+          daysLate,
+        };
+      });
+    const onTime = deliveries.filter(delivery => delivery.daysLate === 0).length;
+
+    return {
+      openOrders,
+      deliveries,
+      onTimeRate: deliveries.length > 0 ? Math.round((onTime / deliveries.length) * 1000) / 10 : null,
+    };
+  }
+
+  // Supplier catalog methods
+  async getSupplierProducts(filters: { supplierId?: string; productId?: string } = {}): Promise<SupplierProductWithDetails[]> {
+    const conditions = [];
+    if (filters.supplierId) conditions.push(eq(supplierProducts.supplierId, filters.supplierId));
+    if (filters.productId) conditions.push(eq(supplierProducts.productId, filters.productId));
+
+    const result = await db
+      .select({
+        supplierProduct: supplierProducts,
+        product: { name: products.name, sku: products.sku, costPrice: products.costPrice, quantity: products.quantity, minStockLevel: products.minStockLevel },
+        supplier: { name: suppliers.name, leadTimeDays: suppliers.leadTimeDays },
+      })
+      .from(supplierProducts)
+      .innerJoin(products, eq(supplierProducts.productId, products.id))
+      .innerJoin(suppliers, eq(supplierProducts.supplierId, suppliers.id))
+      .where(and(...conditions))
+      .orderBy(asc(products.name), desc(supplierProducts.isPreferred));
+
+    return result.map(row => ({ ...row.supplierProduct, product: row.product, supplier: row.supplier }));
+  }
+
+  async getSupplierProduct(id: string): Promise<SupplierProduct | undefined> {
+    const result = await db.select().from(supplierProducts).where(eq(supplierProducts.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createSupplierProduct(supplierProduct: InsertSupplierProduct): Promise<SupplierProduct> {
+    return await db.transaction(async (tx) => {
+      const [product] = await tx.select().from(products).where(eq(products.id, supplierProduct.productId)).for("update");
+      if (!product) {
+        throw new StorageError("Product not found", 404);
+      }
+
+      const [created] = await tx.insert(supplierProducts).values({ ...supplierProduct, isPreferred: false }).returning();
+      // A product's first supplier becomes its preferred one
+      if (supplierProduct.isPreferred || !product.supplierId) {
+        await this.preferSupplier(tx, product, created.supplierId);
+        return { ...created, isPreferred: true };
+      }
+      return created;
+    });
+  }
+
+  async updateSupplierProduct(id: string, supplierProductData: Partial<InsertSupplierProduct>): Promise<SupplierProduct | undefined> {
+    // The supplier and product are the mapping's identity; remove and re-add to change them
+    const { supplierId: _, productId: __, isPreferred, ...data } = supplierProductData;
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx.update(supplierProducts)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(supplierProducts.id, id))
+        .returning();
+      if (!updated || isPreferred === undefined || isPreferred === updated.isPreferred) {
+        return updated;
+      }
+
+      const [product] = await tx.select().from(products).where(eq(products.id, updated.productId)).for("update");
+      await this.preferSupplier(tx, product, isPreferred ? updated.supplierId : null);
+      return { ...updated, isPreferred };
+    });
+  }
+
+  async deleteSupplierProduct(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(supplierProducts).where(eq(supplierProducts.id, id)).returning();
+      if (!deleted) return false;
+      if (deleted.isPreferred) {
+        await tx.update(products).set({ supplierId: null }).where(eq(products.id, deleted.productId));
+      }
+      return true;
+    });
+  }
+
+  // Products that only had products.supplierId get a catalog entry at their cost price
+  async ensureSupplierProducts(): Promise<number> {
+    const result = await db.execute(sql`
+      INSERT INTO ${supplierProducts} (supplier_id, product_id, case_cost, is_preferred)
+      SELECT ${products.supplierId}, ${products.id}, ${products.costPrice}, true
+      FROM ${products}
+      WHERE ${products.supplierId} IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM ${supplierProducts} WHERE ${supplierProducts.productId} = ${products.id})
+    `);
+    return (result as any).rowCount ?? 0;
+  }
+
+  // Makes one supplier the product's preferred source (or none), adding it to
+  // that supplier's catalog at the product's cost price if it isn't there yet
+  private async preferSupplier(
+    executor: Pick<typeof db, "insert" | "update">,
+    product: Product,
+    supplierId: string | null,
+  ): Promise<void> {
+    await executor.update(supplierProducts)
+      .set({ isPreferred: false })
+      .where(and(eq(supplierProducts.productId, product.id), eq(supplierProducts.isPreferred, true)));
+    if (supplierId) {
+      await executor.insert(supplierProducts)
+        .values({ supplierId, productId: product.id, caseCost: product.costPrice, isPreferred: true })
+        .onConflictDoUpdate({
+          target: [supplierProducts.supplierId, supplierProducts.productId],
+          set: { isPreferred: true },
+        });
+    }
+    await executor.update(products).set({ supplierId }).where(eq(products.id, product.id));
+  }
+
+  // What one unit costs from a supplier: their case cost split over the pack
+  private catalogUnitCost(supplierProduct: SupplierProduct): string {
+    return (parseFloat(supplierProduct.caseCost) / supplierProduct.packSize).toFixed(2);
+  }
+
   // Product methods
   async getProduct(id: string): Promise<Product | undefined> {
     const result = await db.select().from(products).where(eq(products.id, id)).limit(1);
@@ -238,14 +629,273 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getProductsByIds(ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(products).where(inArray(products.id, ids));
+  }
+
   async createProduct(insertProduct: InsertProduct): Promise<Product> {
-    const result = await db.insert(products).values(insertProduct).returning();
-    return result[0];
+    const defaultLocation = await this.getDefaultLocation();
+    return await db.transaction(async (tx) => this.insertProduct(tx, insertProduct, defaultLocation.id));
+  }
+
+  // Opening stock is booked to the given (default) location. Serial-tracked
+  // units need their serial numbers, so they come in through a receipt or an
+  // adjustment rather than as opening stock.
+  private async insertProduct(
+    executor: Pick<typeof db, "select" | "insert" | "update">,
+    insertProduct: typeof products.$inferInsert,
+    locationId: string,
+  ): Promise<Product> {
+    if (insertProduct.serialTracked && insertProduct.trackStock !== false && (insertProduct.quantity ?? 0) !== 0) {
+      throw new StorageError(`${insertProduct.name} tracks serial numbers; add its stock with their serials through Inventory`, 400);
+    }
+    const [product] = await executor.insert(products).values(insertProduct).returning();
+    if (product.quantity !== 0) {
+      await executor.insert(locationStock).values({ productId: product.id, locationId, quantity: product.quantity });
+    }
+    if (product.supplierId) {
+      await this.preferSupplier(executor, product, product.supplierId);
+    }
+    if (product.trackStock && product.quantity > 0) {
+      await this.addCostLayer(executor, {
+        productId: product.id,
+        source: 'opening',
+        quantity: product.quantity,
+        unitCost: product.costPrice,
+      });
+    }
+    return product;
   }
 
   async updateProduct(id: string, productData: Partial<InsertProduct>): Promise<Product | undefined> {
-    const result = await db.update(products).set(productData).where(eq(products.id, id)).returning();
-    return result[0];
+    // Stock only changes through adjustments, sales, receipts and transfers so
+    // the per-location levels stay in step with the total
+    const { quantity: _, ...data } = productData;
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      // Stock already on hand can only become serial-tracked if every unit has a serial
+      const next = previous && { ...previous, ...data };
+      if (next?.serialTracked && next.trackStock && !(previous.serialTracked && previous.trackStock) && previous.quantity !== 0) {
+        const [serials] = await tx.select({ count: sql<number>`count(*)::int` }).from(serialNumbers)
+          .where(and(eq(serialNumbers.productId, id), eq(serialNumbers.status, "in_stock")));
+        if (serials.count !== previous.quantity) {
+          throw new StorageError(
+            `${previous.name} has ${previous.quantity} in stock without serial numbers. Adjust it to zero, then add the units back with their serials.`,
+            400,
+            { quantity: previous.quantity, serials: serials.count },
+          );
+        }
+      }
+      const [product] = await tx.update(products).set(data).where(eq(products.id, id)).returning();
+      // Choosing a supplier on the product makes it the preferred catalog entry
+      if (product && data.supplierId !== undefined) {
+        await this.preferSupplier(tx, product, product.supplierId);
+      }
+      if (product?.variantOptions) {
+        await this.followParent(tx, previous, product);
+      }
+      return product;
+    });
+  }
+
+  // Variants still on the parent's old price take the new one; a variant priced
+  // differently keeps its own. Variant names follow a renamed parent.
+  private async followParent(executor: Pick<typeof db, "update">, previous: Product, parent: Product): Promise<void> {
+    for (const field of ["sellingPrice", "costPrice"] as const) {
+      if (parseFloat(previous[field]) === parseFloat(parent[field])) continue;
+      await executor.update(products)
+        .set({ [field]: parent[field], updatedAt: new Date() })
+        .where(and(eq(products.parentId, parent.id), eq(products[field], previous[field])));
+    }
+    if (previous.name !== parent.name) {
+      await executor.update(products)
+        .set({ name: sql`${parent.name} || substr(${products.name}, ${previous.name.length + 1})`, updatedAt: new Date() })
+        .where(and(eq(products.parentId, parent.id), like(products.name, `${previous.name} - %`)));
+    }
+  }
+
+  async getProductVariants(parentId: string): Promise<ProductWithDetails[]> {
+    const result = await db
+      .select({
+        product: products,
+        category: categories.name,
+        supplier: suppliers.name,
+      })
+      .from(products)
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .leftJoin(suppliers, eq(products.supplierId, suppliers.id))
+      .where(eq(products.parentId, parentId))
+      .orderBy(asc(products.createdAt), asc(products.sku));
+
+    return result.map(row => ({
+      ...row.product,
+      category: row.category ? { name: row.category } : undefined,
+      supplier: row.supplier ? { name: row.supplier } : undefined
+    })) as ProductWithDetails[];
+  }
+
+  // Brings a parent's variants in line with its matrix. New combinations become
+  // products copying the parent (or an existing variant); existing ones take the
+  // SKU and price given; combinations left out are deactivated rather than
+  // deleted so their sales history stays intact. The parent stops tracking stock
+  // of its own. Variants without a barcode get an in-house one.
+  async saveProductVariants(parentId: string, matrix: SaveProductVariants): Promise<ProductWithDetails[] | undefined> {
+    const defaultLocation = await this.getDefaultLocation();
+    const keyOf = (attributes: Record<string, string>) =>
+      matrix.options.map(option => attributes[option.name] ?? "").join("\u0000");
+    const label = (attributes: Record<string, string>) => variantLabel(matrix.options, attributes);
+
+    const combinations = new Set(variantCombinations(matrix.options).map(keyOf));
+    const listed = new Set<string>();
+    for (const variant of matrix.variants) {
+      const key = keyOf(variant.attributes);
+      if (!combinations.has(key) || Object.keys(variant.attributes).length !== matrix.options.length) {
+        throw new StorageError("Each variant needs one value from every option", 400, { attributes: variant.attributes });
+      }
+      if (listed.has(key)) {
+        throw new StorageError(`${label(variant.attributes)} is listed more than once`, 400);
+      }
+      listed.add(key);
+    }
+    const skus = matrix.variants.map(variant => variant.sku);
+    if (new Set(skus).size !== skus.length) {
+      throw new StorageError("Each variant needs its own SKU", 400);
+    }
+
+    const saved = await db.transaction(async (tx) => {
+      const [parent] = await tx.select().from(products).where(eq(products.id, parentId)).for("update");
+      if (!parent) return undefined;
+      if (parent.parentId) {
+        throw new StorageError("A variant can't have variants of its own", 400);
+      }
+      if (!parent.variantOptions && parent.quantity !== 0) {
+        throw new StorageError(`${parent.name} has stock on hand. Adjust it to zero before adding variants.`);
+      }
+
+      const existing = await tx.select().from(products)
+        .where(eq(products.parentId, parent.id))
+        .orderBy(asc(products.id))
+        .for("update");
+      const existingByKey = new Map(existing.map(variant => [keyOf(variant.variantAttributes ?? {}), variant]));
+
+      // SKUs and barcodes may only clash with the variant that already carries them
+      const barcodes = matrix.variants.map(variant => variant.barcode).filter((code): code is string => !!code);
+      const clashes = await tx.select({ id: products.id, sku: products.sku, barcode: products.barcode }).from(products)
+        .where(barcodes.length > 0
+          ? or(inArray(products.sku, skus), inArray(products.barcode, barcodes))
+          : inArray(products.sku, skus));
+      for (const variant of matrix.variants) {
+        const ownId = existingByKey.get(keyOf(variant.attributes))?.id;
+        const clash = clashes.find(row => row.id !== ownId && (row.sku === variant.sku || (!!variant.barcode && row.barcode === variant.barcode)));
+        if (clash) {
+          const field = clash.sku === variant.sku ? `SKU ${variant.sku}` : `Barcode ${variant.barcode}`;
+          throw new StorageError(`${field} is already used by another product`, 409, { productId: clash.id });
+        }
+      }
+
+      const template = existing[0] ?? parent;
+      const needBarcodes: string[] = [];
+      for (const variant of matrix.variants) {
+        const current = existingByKey.get(keyOf(variant.attributes));
+        const fields = {
+          name: `${parent.name} - ${label(variant.attributes)}`,
+          sku: variant.sku,
+          barcode: variant.barcode || current?.barcode || null,
+          sellingPrice: variant.sellingPrice ?? parent.sellingPrice,
+          variantAttributes: variant.attributes,
+          isActive: true,
+        };
+        const product = current
+          ? (await tx.update(products).set({ ...fields, updatedAt: new Date() }).where(eq(products.id, current.id)).returning())[0]
+          : await this.insertProduct(tx, {
+              ...fields,
+              parentId: parent.id,
+              description: template.description,
+              categoryId: template.categoryId,
+              supplierId: template.supplierId,
+              costPrice: template.costPrice,
+              currency: template.currency,
+              minStockLevel: template.minStockLevel,
+              trackStock: template.trackStock,
+              allowBackorder: template.allowBackorder,
+              trackLots: template.trackLots,
+              serialTracked: template.serialTracked,
+              warrantyMonths: template.warrantyMonths,
+              imageUrl: template.imageUrl,
+            }, defaultLocation.id);
+        if (!product.barcode) needBarcodes.push(product.id);
+      }
+
+      const dropped = existing.filter(variant => variant.isActive && !listed.has(keyOf(variant.variantAttributes ?? {})));
+      if (dropped.length > 0) {
+        await tx.update(products)
+          .set({ isActive: false, updatedAt: new Date() })
+          .where(inArray(products.id, dropped.map(variant => variant.id)));
+      }
+      await tx.update(products)
+        .set({ variantOptions: matrix.options, trackStock: false, updatedAt: new Date() })
+        .where(eq(products.id, parent.id));
+      return { needBarcodes };
+    });
+    if (!saved) return undefined;
+
+    if (saved.needBarcodes.length > 0) {
+      await this.generateInternalBarcodes(saved.needBarcodes);
+    }
+    return await this.getProductVariants(parentId);
+  }
+
+  // Give products without a barcode the next free in-house EAN-13. The settings
+  // row is locked so concurrent requests never hand out the same number.
+  async generateInternalBarcodes(productIds: string[]): Promise<Product[]> {
+    if (!(await this.getSystemSettings())) {
+      await this.updateSystemSettings({});
+    }
+
+    return await db.transaction(async (tx) => {
+      const [settings] = await tx.select().from(systemSettings).limit(1).for("update");
+      const targets = await tx.select().from(products)
+        .where(inArray(products.id, productIds))
+        .orderBy(asc(products.name))
+        .for("update");
+
+      const prefix = settings.internalBarcodePrefix;
+      const digits = 12 - prefix.length;
+      let next = settings.nextInternalBarcode;
+      const result: Product[] = [];
+
+      for (const product of targets) {
+        if (product.barcode) {
+          result.push(product);
+          continue;
+        }
+
+        let barcode: string;
+        while (true) {
+          if (next >= 10 ** digits) {
+            throw new StorageError(`Internal barcode range for prefix ${prefix} is exhausted`);
+          }
+          const body = prefix + String(next++).padStart(digits, "0");
+          barcode = body + gtinCheckDigit(body);
+          // Skip numbers already used, e.g. entered by hand
+          const [taken] = await tx.select({ id: products.id }).from(products)
+            .where(eq(products.barcode, barcode)).limit(1);
+          if (!taken) break;
+        }
+
+        const [updated] = await tx.update(products)
+          .set({ barcode, updatedAt: new Date() })
+          .where(eq(products.id, product.id))
+          .returning();
+        result.push(updated);
+      }
+
+      await tx.update(systemSettings)
+        .set({ nextInternalBarcode: next, updatedAt: new Date() })
+        .where(eq(systemSettings.id, settings.id));
+      return result;
+    });
   }
 
   async deleteProduct(id: string): Promise<boolean> {
@@ -256,22 +906,7 @@ export class DatabaseStorage implements IStorage {
   async getAllProducts(): Promise<ProductWithDetails[]> {
     const result = await db
       .select({
-        id: products.id,
-        name: products.name,
-        sku: products.sku,
-        barcode: products.barcode,
-        description: products.description,
-        categoryId: products.categoryId,
-        supplierId: products.supplierId,
-        costPrice: products.costPrice,
-        sellingPrice: products.sellingPrice,
-        quantity: products.quantity,
-        minStockLevel: products.minStockLevel,
-        trackStock: products.trackStock,
-        isActive: products.isActive,
-        imageUrl: products.imageUrl,
-        createdAt: products.createdAt,
-        updatedAt: products.updatedAt,
+        product: products,
         category: categories.name,
         supplier: suppliers.name,
       })
@@ -280,7 +915,7 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(suppliers, eq(products.supplierId, suppliers.id));
     
     return result.map(row => ({
-      ...row,
+      ...row.product,
       category: row.category ? { name: row.category } : undefined,
       supplier: row.supplier ? { name: row.supplier } : undefined
     })) as ProductWithDetails[];
@@ -289,22 +924,7 @@ export class DatabaseStorage implements IStorage {
   async searchProducts(query: string): Promise<ProductWithDetails[]> {
     const result = await db
       .select({
-        id: products.id,
-        name: products.name,
-        sku: products.sku,
-        barcode: products.barcode,
-        description: products.description,
-        categoryId: products.categoryId,
-        supplierId: products.supplierId,
-        costPrice: products.costPrice,
-        sellingPrice: products.sellingPrice,
-        quantity: products.quantity,
-        minStockLevel: products.minStockLevel,
-        trackStock: products.trackStock,
-        isActive: products.isActive,
-        imageUrl: products.imageUrl,
-        createdAt: products.createdAt,
-        updatedAt: products.updatedAt,
+        product: products,
         category: categories.name,
         supplier: suppliers.name,
       })
@@ -314,7 +934,7 @@ export class DatabaseStorage implements IStorage {
       .where(like(products.name, `%${query}%`));
     
     return result.map(row => ({
-      ...row,
+      ...row.product,
       category: row.category ? { name: row.category } : undefined,
       supplier: row.supplier ? { name: row.supplier } : undefined
     })) as ProductWithDetails[];
@@ -323,22 +943,7 @@ export class DatabaseStorage implements IStorage {
   async getLowStockProducts(): Promise<ProductWithDetails[]> {
     const result = await db
       .select({
-        id: products.id,
-        name: products.name,
-        sku: products.sku,
-        barcode: products.barcode,
-        description: products.description,
-        categoryId: products.categoryId,
-        supplierId: products.supplierId,
-        costPrice: products.costPrice,
-        sellingPrice: products.sellingPrice,
-        quantity: products.quantity,
-        minStockLevel: products.minStockLevel,
-        trackStock: products.trackStock,
-        isActive: products.isActive,
-        imageUrl: products.imageUrl,
-        createdAt: products.createdAt,
-        updatedAt: products.updatedAt,
+        product: products,
         category: categories.name,
         supplier: suppliers.name,
       })
@@ -348,31 +953,369 @@ export class DatabaseStorage implements IStorage {
       .where(sql`${products.quantity} <= ${products.minStockLevel}`);
     
     return result.map(row => ({
-      ...row,
+      ...row.product,
       category: row.category ? { name: row.category } : undefined,
       supplier: row.supplier ? { name: row.supplier } : undefined
     })) as ProductWithDetails[];
   }
 
-  async updateProductStock(id: string, quantity: number, movementType: string, reason?: string, userId?: string): Promise<boolean> {
-    try {
-      // Update product quantity
-      await db.update(products).set({ quantity }).where(eq(products.id, id));
-      
-      // Create stock movement record
-      if (userId) {
-        await db.insert(stockMovements).values({
-          productId: id,
-          quantity,
-          movementType,
-          reason: reason || null,
-          userId,
-        });
+  async adjustStock(id: string, adjustment: AdjustStock, userId: string): Promise<StockMovement | undefined> {
+    const location = adjustment.locationId ? await this.getLocation(adjustment.locationId) : await this.getDefaultLocation();
+    if (!location) {
+      throw new StorageError("Location not found", 404);
+    }
+
+    return await db.transaction(async (tx) => {
+      const [product] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      if (!product) {
+        return undefined;
       }
-      
-      return true;
-    } catch (error) {
-      return false;
+
+      const [level] = await tx.select().from(locationStock)
+        .where(and(eq(locationStock.productId, id), eq(locationStock.locationId, location.id)))
+        .for("update");
+      const onHand = level?.quantity ?? 0;
+      if (onHand + adjustment.quantity < 0) {
+        throw new StorageError(`Only ${onHand} on hand at ${location.name}`, 400, { onHand });
+      }
+
+      // Units taken out are damaged or expired stock written off, or stock that
+      // went missing; units added are found
+      const serials = this.requireSerials(product, adjustment.serialNumbers, Math.abs(adjustment.quantity), "adjusted");
+      if (adjustment.quantity < 0) {
+        const status = adjustment.reasonCode === "damage" || adjustment.reasonCode === "expiry" ? "written_off" : "lost";
+        await this.removeSerialNumbers(tx, product, serials, location.id, status);
+      } else {
+        await this.addSerialNumbers(tx, product, serials, location.id);
+      }
+
+      await this.costAdjustment(tx, product, adjustment.quantity, null);
+      if (product.trackLots && adjustment.quantity < 0) {
+        await this.drawLots(tx, id, location.id, -adjustment.quantity, { source: 'adjustment' });
+      }
+      return await this.moveStock(tx, {
+        productId: id,
+        locationId: location.id,
+        movementType: 'adjustment',
+        quantity: adjustment.quantity,
+        reasonCode: adjustment.reasonCode,
+        reason: adjustment.reason || null,
+        userId,
+      });
+    });
+  }
+
+  // Applies a signed stock change at one location, keeps products.quantity as
+  // the total and records the movement with the location's before/after levels
+  private async moveStock(
+    executor: Pick<typeof db, "insert" | "update">,
+    movement: InsertStockMovement & { locationId: string },
+  ): Promise<StockMovement> {
+    const [level] = await executor.insert(locationStock)
+      .values({ productId: movement.productId, locationId: movement.locationId, quantity: movement.quantity })
+      .onConflictDoUpdate({
+        target: [locationStock.productId, locationStock.locationId],
+        set: { quantity: sql`${locationStock.quantity} + ${movement.quantity}` },
+      })
+      .returning({ quantity: locationStock.quantity });
+    await executor.update(products)
+      .set({ quantity: sql`${products.quantity} + ${movement.quantity}` })
+      .where(eq(products.id, movement.productId));
+
+    const [recorded] = await executor.insert(stockMovements).values({
+      ...movement,
+      quantityBefore: level.quantity - movement.quantity,
+      quantityAfter: level.quantity,
+    }).returning();
+    return recorded;
+  }
+
+  private async getCostingMethod(): Promise<CostingMethod> {
+    const settings = await this.getSystemSettings();
+    return settings?.costingMethod === "average" ? "average" : "fifo";
+  }
+
+  // Layers with units left, oldest first. Under average costing several open
+  // layers (after a receipt, or after switching from FIFO) are merged into one
+  // at their weighted average cost.
+  private async openCostLayers(
+    executor: Pick<typeof db, "select" | "insert" | "update">,
+    productId: string,
+    method: CostingMethod,
+  ): Promise<CostLayer[]> {
+    const open = await executor.select().from(costLayers)
+      .where(and(eq(costLayers.productId, productId), gt(costLayers.remainingQuantity, 0)))
+      .orderBy(asc(costLayers.createdAt));
+    if (method !== "average" || open.length < 2) {
+      return open;
+    }
+
+    let quantity = 0;
+    let value = 0;
+    for (const layer of open) {
+      quantity += layer.remainingQuantity;
+      value += layer.remainingQuantity * parseFloat(layer.unitCost);
+      await executor.insert(costAllocations).values({
+        layerId: layer.id,
+        productId,
+        source: 'average',
+        quantity: layer.remainingQuantity,
+        unitCost: layer.unitCost,
+      });
+      await executor.update(costLayers).set({ remainingQuantity: 0 }).where(eq(costLayers.id, layer.id));
+    }
+    const [merged] = await executor.insert(costLayers).values({
+      productId,
+      source: 'average',
+      quantity,
+      remainingQuantity: quantity,
+      unitCost: (value / quantity).toFixed(4),
+    }).returning();
+    return [merged];
+  }
+
+  private async addCostLayer(
+    executor: Pick<typeof db, "select" | "insert" | "update">,
+    layer: { productId: string; source: string; reference?: string | null; quantity: number; unitCost: string },
+  ): Promise<void> {
+    await executor.insert(costLayers).values({ ...layer, remainingQuantity: layer.quantity });
+    const method = await this.getCostingMethod();
+    if (method === "average") {
+      await this.openCostLayers(executor, layer.productId, method);
+    }
+  }
+
+  // Draws units from the open layers (oldest first, or the single average
+  // layer) and returns their total cost. Units sold into negative stock have no
+  // layer to draw on and are costed at the catalogue cost price.
+  private async consumeCostLayers(
+    executor: Pick<typeof db, "select" | "insert" | "update">,
+    product: Product,
+    quantity: number,
+    usage: { source: string; reference?: string | null; saleItemId?: string },
+  ): Promise<number> {
+    const open = await this.openCostLayers(executor, product.id, await this.getCostingMethod());
+    let remaining = quantity;
+    let cost = 0;
+    for (const layer of open) {
+      if (remaining === 0) break;
+      const taken = Math.min(remaining, layer.remainingQuantity);
+      await executor.update(costLayers)
+        .set({ remainingQuantity: layer.remainingQuantity - taken })
+        .where(eq(costLayers.id, layer.id));
+      await executor.insert(costAllocations).values({
+        ...usage,
+        layerId: layer.id,
+        productId: product.id,
+        quantity: taken,
+        unitCost: layer.unitCost,
+      });
+      cost += taken * parseFloat(layer.unitCost);
+      remaining -= taken;
+    }
+    cost += remaining * parseFloat(product.costPrice);
+    return Math.round(cost * 100) / 100;
+  }
+
+  // What a unit on hand costs now: the weighted average of the open layers
+  private async currentUnitCost(executor: Pick<typeof db, "select">, product: Product): Promise<string> {
+    const [row] = await executor.select({
+      unitCost: sql<string | null>`sum(${costLayers.remainingQuantity} * ${costLayers.unitCost}) / nullif(sum(${costLayers.remainingQuantity}), 0)`,
+    }).from(costLayers).where(eq(costLayers.productId, product.id));
+    return row?.unitCost != null ? parseFloat(row.unitCost).toFixed(4) : product.costPrice;
+  }
+
+  // Stock found is valued at the current cost; stock lost is written off from the layers
+  private async costAdjustment(
+    executor: Pick<typeof db, "select" | "insert" | "update">,
+    product: Product,
+    quantity: number,
+    reference: string | null,
+  ): Promise<void> {
+    if (!product.trackStock || quantity === 0) return;
+    if (quantity > 0) {
+      await this.addCostLayer(executor, {
+        productId: product.id,
+        source: 'adjustment',
+        reference,
+        quantity,
+        unitCost: await this.currentUnitCost(executor, product),
+      });
+    } else {
+      await this.consumeCostLayers(executor, product, -quantity, { source: 'adjustment', reference });
+    }
+  }
+
+  // Adds units to a lot at one location, creating it on first receipt
+  private async addToLot(
+    executor: Pick<typeof db, "insert">,
+    lot: { productId: string; locationId: string; lotNumber: string; expiryDate: string | null; quantity: number; purchaseOrderId?: string | null },
+    usage?: { source: string; reference?: string | null },
+  ): Promise<void> {
+    const [stored] = await executor.insert(stockLots)
+      .values(lot)
+      .onConflictDoUpdate({
+        target: [stockLots.productId, stockLots.locationId, stockLots.lotNumber],
+        set: { quantity: sql`${stockLots.quantity} + ${lot.quantity}` },
+      })
+      .returning({ id: stockLots.id });
+    if (usage) {
+      await executor.insert(lotAllocations).values({ ...usage, lotId: stored.id, productId: lot.productId, quantity: -lot.quantity });
+    }
+  }
+
+  // Takes units from a product's lots at one location, first expiry first out.
+  // Expired lots are drawn last so sales don't pick them while fresher stock
+  // remains; they are for the write-off flow. Units beyond what the lots hold
+  // were on hand before the product tracked lots and are left unassigned.
+  private async drawLots(
+    executor: Pick<typeof db, "select" | "insert" | "update">,
+    productId: string,
+    locationId: string,
+    quantity: number,
+    usage: { source: string; reference?: string | null; saleItemId?: string },
+  ): Promise<void> {
+    const open = await executor.select().from(stockLots)
+      .where(and(eq(stockLots.productId, productId), eq(stockLots.locationId, locationId), gt(stockLots.quantity, 0)))
+      .orderBy(
+        sql`coalesce(${stockLots.expiryDate} < current_date, false)`,
+        sql`${stockLots.expiryDate} asc nulls last`,
+        asc(stockLots.createdAt),
+      )
+      .for("update");
+    let remaining = quantity;
+    for (const lot of open) {
+      if (remaining === 0) break;
+      const taken = Math.min(remaining, lot.quantity);
+      await executor.update(stockLots).set({ quantity: lot.quantity - taken }).where(eq(stockLots.id, lot.id));
+      await executor.insert(lotAllocations).values({ ...usage, lotId: lot.id, productId, quantity: taken });
+      remaining -= taken;
+    }
+  }
+
+  // Locks a product's units by serial number, failing unless every one exists in
+  // `status` (and, when given, was sold on one of `saleItemIds`)
+  private async lockSerialNumbers(
+    executor: Pick<typeof db, "select">,
+    product: Product,
+    serials: string[],
+    status: "in_stock" | "sold",
+    match: { saleItemIds?: string[]; locationId?: string } = {},
+  ): Promise<SerialNumber[]> {
+    const rows = serials.length > 0
+      ? await executor.select().from(serialNumbers)
+        .where(and(eq(serialNumbers.productId, product.id), inArray(serialNumbers.serialNumber, serials)))
+        .orderBy(asc(serialNumbers.id))
+        .for("update")
+      : [];
+    // Units received before serials carried a location may be at any location
+    const unavailable = serials.filter(serial => {
+      const row = rows.find(r => r.serialNumber === serial);
+      return !row || row.status !== status
+        || (match.saleItemIds && !match.saleItemIds.includes(row.saleItemId ?? ""))
+        || (match.locationId && row.locationId && row.locationId !== match.locationId);
+    });
+    if (unavailable.length > 0) {
+      throw new StorageError(
+        status === "in_stock"
+          ? `${product.name} serial ${unavailable.join(", ")} is not in stock${match.locationId ? " at this location" : ""}`
+          : `${product.name} serial ${unavailable.join(", ")} was not sold on this invoice`,
+        409,
+        { productId: product.id, serialNumbers: unavailable },
+      );
+    }
+    return rows;
+  }
+
+  // Serial-tracked stock moves by named units, one serial per unit
+  private requireSerials(product: Product, serials: string[] | undefined, quantity: number, action: string): string[] {
+    if (!product.trackStock || !product.serialTracked) return [];
+    if (serials?.length !== quantity) {
+      throw new StorageError(`Enter the serial number of each ${product.name} ${action}`, 400, { productId: product.id });
+    }
+    return serials;
+  }
+
+  // Takes named units out of stock at a location, as lost, written off or in transit
+  private async removeSerialNumbers(
+    executor: Pick<typeof db, "select" | "update">,
+    product: Product,
+    serials: string[],
+    locationId: string,
+    status: "lost" | "written_off" | "in_transit",
+  ): Promise<void> {
+    if (serials.length === 0) return;
+    await this.lockSerialNumbers(executor, product, serials, "in_stock", { locationId });
+    await executor.update(serialNumbers)
+      .set({ status, locationId: null })
+      .where(and(eq(serialNumbers.productId, product.id), inArray(serialNumbers.serialNumber, serials)));
+  }
+
+  // Puts named units into stock at a location: units written off or lost come
+  // back, and units never seen before are added
+  private async addSerialNumbers(
+    executor: Pick<typeof db, "select" | "insert" | "update">,
+    product: Product,
+    serials: string[],
+    locationId: string,
+  ): Promise<void> {
+    if (serials.length === 0) return;
+    const rows = await executor.select().from(serialNumbers)
+      .where(and(eq(serialNumbers.productId, product.id), inArray(serialNumbers.serialNumber, serials)))
+      .orderBy(asc(serialNumbers.id))
+      .for("update");
+    const unavailable = rows.filter(row => row.status !== "lost" && row.status !== "written_off").map(row => row.serialNumber);
+    if (unavailable.length > 0) {
+      throw new StorageError(
+        `${product.name} serial ${unavailable.join(", ")} is already in stock, sold or in transit`,
+        409,
+        { productId: product.id, serialNumbers: unavailable },
+      );
+    }
+    if (rows.length > 0) {
+      await executor.update(serialNumbers)
+        .set({ status: "in_stock", locationId })
+        .where(inArray(serialNumbers.id, rows.map(row => row.id)));
+    }
+    const added = serials.filter(serial => !rows.some(row => row.serialNumber === serial));
+    if (added.length > 0) {
+      await executor.insert(serialNumbers).values(added.map(serialNumber => ({ productId: product.id, serialNumber, locationId })));
+    }
+  }
+
+  // Puts units back into the lots they were drawn from under `reference` (a
+  // returned sale, or a transfer arriving or cancelled), at `locationId`
+  private async restoreLots(
+    executor: Pick<typeof db, "select" | "insert">,
+    productId: string,
+    locationId: string,
+    quantity: number,
+    usage: { source: string; reference: string },
+  ): Promise<void> {
+    const drawn = await executor
+      .select({
+        lotNumber: stockLots.lotNumber,
+        expiryDate: stockLots.expiryDate,
+        quantity: sql<number>`sum(${lotAllocations.quantity})::int`,
+      })
+      .from(lotAllocations)
+      .innerJoin(stockLots, eq(lotAllocations.lotId, stockLots.id))
+      .where(and(eq(lotAllocations.productId, productId), eq(lotAllocations.reference, usage.reference)))
+      .groupBy(stockLots.lotNumber, stockLots.expiryDate)
+      .orderBy(sql`${stockLots.expiryDate} asc nulls last`);
+    let remaining = quantity;
+    for (const lot of drawn) {
+      if (remaining === 0) break;
+      const restored = Math.min(remaining, lot.quantity);
+      if (restored <= 0) continue;
+      await this.addToLot(executor, {
+        productId,
+        locationId,
+        lotNumber: lot.lotNumber,
+        expiryDate: lot.expiryDate,
+        quantity: restored,
+      }, usage);
+      remaining -= restored;
     }
   }
 
@@ -432,39 +1375,185 @@ export class DatabaseStorage implements IStorage {
     return result[0] as SaleWithDetails;
   }
 
-  async createSale(insertSale: InsertSale, items: InsertSaleItem[]): Promise<Sale> {
-    const result = await db.insert(sales).values(insertSale).returning();
-    const sale = result[0];
-    
-    // Insert sale items and update stock
-    for (const item of items) {
-      // Insert sale item
-      await db.insert(saleItems).values({
-        ...item,
-        saleId: sale.id,
-      });
-      
-      // Update product stock
-      const product = await this.getProduct(item.productId);
-      if (product && product.trackStock) {
-        const newQuantity = product.quantity - item.quantity;
-        await db.update(products)
-          .set({ quantity: newQuantity })
-          .where(eq(products.id, item.productId));
-        
-        // Create stock movement record
-        await db.insert(stockMovements).values({
-          productId: item.productId,
+  async getSaleByInvoiceNumber(invoiceNumber: string): Promise<SaleWithDetails | undefined> {
+    const result = await db
+      .select({ sale: sales, customer: customers })
+      .from(sales)
+      .leftJoin(customers, eq(sales.customerId, customers.id))
+      .where(eq(sales.invoiceNumber, invoiceNumber))
+      .limit(1);
+    if (!result[0]) return undefined;
+
+    const sale = result[0].sale;
+    const items = await db
+      .select({ item: saleItems, product: products })
+      .from(saleItems)
+      .leftJoin(products, eq(saleItems.productId, products.id))
+      .where(eq(saleItems.saleId, sale.id))
+      .orderBy(asc(saleItems.id));
+    const returned = await this.getReturnedQuantities(db, sale.id, items.map(row => row.item));
+    const payments = await db.select().from(salePayments).where(eq(salePayments.saleId, sale.id));
+    const soldSerials = items.length > 0
+      ? await db.select({ saleItemId: serialNumbers.saleItemId, serialNumber: serialNumbers.serialNumber })
+        .from(serialNumbers)
+        .where(and(
+          inArray(serialNumbers.saleItemId, items.map(row => row.item.id)),
+          eq(serialNumbers.status, "sold"),
+        ))
+        .orderBy(asc(serialNumbers.serialNumber))
+      : [];
+
+    return {
+      ...sale,
+      customer: result[0].customer ?? undefined,
+      payments,
+      items: items.map(row => ({
+        ...row.item,
+        product: row.product ?? undefined,
+        returnedQuantity: returned.get(row.item.id) ?? 0,
+        serialNumbers: soldSerials.filter(serial => serial.saleItemId === row.item.id).map(serial => serial.serialNumber),
+      })),
+    };
+  }
+
+  async createSale(
+    insertSale: InsertSale,
+    items: Omit<InsertSaleItem, 'saleId'>[],
+    { promotionAllocations = [], payments = [], serialNumbers: lineSerials = [] }: SaleExtras = {},
+  ): Promise<SaleWithDetails> {
+    // Stock reserved by holds that have lapsed is free to sell
+    await this.purgeExpiredHeldSales();
+
+    return await db.transaction(async (tx) => {
+      if (insertSale.shiftId) {
+        await this.lockOpenShift(tx, insertSale.shiftId);
+      }
+
+      const requested = new Map<string, number>();
+      for (const item of items) {
+        requested.set(item.productId, (requested.get(item.productId) ?? 0) + item.quantity);
+      }
+
+      // Lock the product rows (in a stable order to avoid deadlocks) so two
+      // tills selling the last unit are serialised
+      const productIds = Array.from(requested.keys()).sort();
+      const lockedProducts = productIds.length > 0
+        ? await tx.select().from(products).where(inArray(products.id, productIds)).orderBy(asc(products.id)).for("update")
+        : [];
+
+      const missing = productIds.filter(id => !lockedProducts.some(p => p.id === id));
+      if (missing.length > 0) {
+        throw new StorageError("Some products in this sale no longer exist", 400, { productIds: missing });
+      }
+      // A product with variants only groups them; the chosen variant is sold
+      const parents = lockedProducts.filter(p => p.variantOptions);
+      if (parents.length > 0) {
+        throw new StorageError(`Choose a variant of ${parents.map(p => p.name).join(", ")}`, 400, { productIds: parents.map(p => p.id) });
+      }
+
+      const locationId = insertSale.locationId ?? (await this.getDefaultLocation()).id;
+      const levels = productIds.length > 0
+        ? await tx.select().from(locationStock)
+          .where(and(eq(locationStock.locationId, locationId), inArray(locationStock.productId, productIds)))
+          .for("update")
+        : [];
+
+      // Stock must be on the shelf at this location. Units reserved by held
+      // sales here (or, for older holds, anywhere) are not available to other carts.
+      const available = (p: Product) => {
+        const level = levels.find(level => level.productId === p.id);
+        return Math.min((level?.quantity ?? 0) - (level?.reservedQuantity ?? 0), p.quantity - p.reservedQuantity);
+      };
+      const shortages: StockShortage[] = lockedProducts
+        .filter(p => p.trackStock && !p.allowBackorder && available(p) < requested.get(p.id)!)
+        .map(p => ({
+          productId: p.id,
+          name: p.name,
+          requested: requested.get(p.id)!,
+          available: Math.max(available(p), 0),
+        }));
+      if (shortages.length > 0) {
+        const summary = shortages.map(s => `${s.name} (${s.available} available)`).join(", ");
+        throw new StorageError(`Insufficient stock for: ${summary}`, 409, shortages);
+      }
+
+      // Serial-tracked units are sold by serial number, one per unit, and only from stock
+      const serialTracked = lockedProducts.filter(p => p.trackStock && p.serialTracked);
+      for (const product of serialTracked) {
+        const scanned = items.flatMap((item, index) => item.productId === product.id ? lineSerials[index] ?? [] : []);
+        if (scanned.length !== requested.get(product.id) || new Set(scanned).size !== scanned.length) {
+          throw new StorageError(`Scan a serial number for each ${product.name} sold`, 400, { productId: product.id });
+        }
+        await this.lockSerialNumbers(tx, product, scanned, "in_stock", { locationId });
+      }
+
+      const result = await tx.insert(sales).values({ ...insertSale, locationId }).returning();
+      const sale = result[0];
+
+      // Each line records what its units cost, drawn from the cost layers, and
+      // which lots it took
+      const createdItems: SaleItem[] = [];
+      for (const item of items) {
+        const [created] = await tx.insert(saleItems).values({
+          ...item,
+          saleId: sale.id,
+        }).returning();
+        const product = lockedProducts.find(p => p.id === item.productId)!;
+        const costOfGoods = product.trackStock
+          ? await this.consumeCostLayers(tx, product, item.quantity, { source: 'sale', reference: sale.id, saleItemId: created.id })
+          : item.quantity * parseFloat(product.costPrice);
+        const [costed] = await tx.update(saleItems)
+          .set({ costOfGoods: costOfGoods.toFixed(2) })
+          .where(eq(saleItems.id, created.id))
+          .returning();
+        createdItems.push(costed);
+        if (product.trackStock && product.trackLots) {
+          await this.drawLots(tx, product.id, locationId, item.quantity, { source: 'sale', reference: sale.id, saleItemId: created.id });
+        }
+        const serials = lineSerials[items.indexOf(item)];
+        if (product.trackStock && product.serialTracked && serials?.length) {
+          await tx.update(serialNumbers)
+            .set({ status: "sold", locationId: null, saleItemId: created.id, soldAt: new Date(), returnedAt: null })
+            .where(and(eq(serialNumbers.productId, product.id), inArray(serialNumbers.serialNumber, serials)));
+        }
+      }
+
+      for (const allocation of promotionAllocations) {
+        await tx.insert(salePromotions).values({
+          saleId: sale.id,
+          saleItemId: createdItems[allocation.lineIndex].id,
+          promotionId: allocation.promotionId,
+          discountAmount: (allocation.amount / 100).toFixed(2),
+        });
+      }
+
+      const createdPayments: SalePayment[] = payments.length > 0
+        ? await tx.insert(salePayments).values(payments.map(payment => ({ ...payment, saleId: sale.id }))).returning()
+        : [];
+
+      for (const product of lockedProducts) {
+        if (!product.trackStock) continue;
+        const quantity = requested.get(product.id)!;
+
+        await this.moveStock(tx, {
+          productId: product.id,
+          locationId,
           movementType: 'sale',
-          quantity: -item.quantity,
+          quantity: -quantity,
           reason: 'Sale transaction',
           reference: sale.id,
           userId: insertSale.userId,
         });
       }
-    }
-    
-    return sale;
+
+      if (sale.customerId) {
+        await tx.update(customers)
+          .set({ totalSpent: sql`${customers.totalSpent} + ${sale.total}` })
+          .where(eq(customers.id, sale.customerId));
+      }
+
+      return { ...sale, items: createdItems, payments: createdPayments };
+    });
   }
 
   async getAllSales(): Promise<SaleWithDetails[]> {
@@ -544,64 +1633,1964 @@ export class DatabaseStorage implements IStorage {
     return result as SaleWithDetails[];
   }
 
-  // Stock movement methods
-  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
-    const result = await db.insert(stockMovements).values(movement).returning();
-    return result[0];
+  // Sales recorded before split tenders existed get one payment for their
+  // full total in their single method. Safe to run repeatedly.
+  async backfillSalePayments(): Promise<number> {
+    const result = await db.execute(sql`
+      INSERT INTO ${salePayments} (sale_id, method, amount, tendered, change_due)
+      SELECT ${sales.id}, ${sales.paymentMethod}, ${sales.total}, ${sales.total}, 0
+      FROM ${sales}
+      WHERE NOT EXISTS (SELECT 1 FROM ${salePayments} WHERE ${salePayments.saleId} = ${sales.id})
+    `);
+    return (result as any).rowCount ?? 0;
   }
 
-  async getStockMovements(productId?: string): Promise<StockMovement[]> {
-    if (productId) {
-      return await db.select().from(stockMovements).where(eq(stockMovements.productId, productId)).orderBy(desc(stockMovements.createdAt));
-    }
-    return await db.select().from(stockMovements).orderBy(desc(stockMovements.createdAt));
-  }
+  // Held sale methods
+  async getHeldSales(): Promise<HeldSaleWithDetails[]> {
+    await this.purgeExpiredHeldSales();
 
-  // Return methods
-  async createReturn(returnItem: InsertReturn): Promise<Return> {
-    const result = await db.insert(returns).values(returnItem).returning();
-    return result[0];
+    const result = await db
+      .select({ held: heldSales, userName: users.fullName, customerName: customers.name })
+      .from(heldSales)
+      .leftJoin(users, eq(heldSales.userId, users.id))
+      .leftJoin(customers, eq(heldSales.customerId, customers.id))
+      .orderBy(desc(heldSales.createdAt));
+
+    const productIds = Array.from(new Set(result.flatMap(row => row.held.items.map(item => item.productId))));
+    const productsById = new Map((await this.getProductsByIds(productIds)).map(p => [p.id, p]));
+
+    return result.map(row => ({
+      ...row.held,
+      items: row.held.items.map(item => ({ ...item, product: productsById.get(item.productId) })),
+      user: row.userName ? { fullName: row.userName } : undefined,
+      customer: row.customerName ? { name: row.customerName } : null,
+    }));
   }
 
-  async getReturns(): Promise<Return[]> {
-    return await db.select().from(returns).orderBy(desc(returns.createdAt));
+  // Stock is reserved at the location the sale is parked at (the default
+  // location when none is given)
+  async createHeldSale(heldSale: InsertHeldSale): Promise<HeldSale> {
+    await this.purgeExpiredHeldSales();
+    const locationId = heldSale.locationId ?? (await this.getDefaultLocation()).id;
+
+    return await db.transaction(async (tx) => {
+      if (heldSale.reservesStock) {
+        const requested = this.heldQuantities(heldSale.items);
+        const productIds = Array.from(requested.keys()).sort();
+        const lockedProducts = await tx.select().from(products)
+          .where(inArray(products.id, productIds)).orderBy(asc(products.id)).for("update");
+        const levels = await tx.select().from(locationStock)
+          .where(and(eq(locationStock.locationId, locationId), inArray(locationStock.productId, productIds)))
+          .for("update");
+
+        const available = (p: Product) => {
+          const level = levels.find(level => level.productId === p.id);
+          return (level?.quantity ?? 0) - (level?.reservedQuantity ?? 0);
+        };
+        const shortages: StockShortage[] = lockedProducts
+          .filter(p => p.trackStock && !p.allowBackorder && available(p) < requested.get(p.id)!)
+          .map(p => ({
+            productId: p.id,
+            name: p.name,
+            requested: requested.get(p.id)!,
+            available: Math.max(available(p), 0),
+          }));
+        if (shortages.length > 0) {
+          const summary = shortages.map(s => `${s.name} (${s.available} available)`).join(", ");
+          throw new StorageError(`Insufficient stock to hold: ${summary}`, 409, shortages);
+        }
+
+        for (const product of lockedProducts) {
+          if (!product.trackStock) continue;
+          await this.reserveStock(tx, product.id, locationId, requested.get(product.id)!);
+        }
+      }
+
+      const result = await tx.insert(heldSales).values({ ...heldSale, locationId }).returning();
+      return result[0];
+    });
   }
 
-  // Purchase order methods
-  async createPurchaseOrder(order: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrder> {
-    const result = await db.insert(purchaseOrders).values(order).returning();
-    const purchaseOrder = result[0];
-    
-    // Insert purchase order items
+  // Removes the held sale and hands it back so the till can load it into the cart
+  async recallHeldSale(id: string): Promise<HeldSaleWithDetails | undefined> {
+    await this.purgeExpiredHeldSales();
+
+    const held = await db.transaction(async (tx) => {
+      const [row] = await tx.select().from(heldSales).where(eq(heldSales.id, id)).for("update");
+      if (!row) return undefined;
+      await this.releaseHeldSale(tx, row);
+      return row;
+    });
+    if (!held) return undefined;
+
+    const productsById = new Map((await this.getProductsByIds(held.items.map(item => item.productId))).map(p => [p.id, p]));
+    return {
+      ...held,
+      items: held.items.map(item => ({ ...item, product: productsById.get(item.productId) })),
+    };
+  }
+
+  async deleteHeldSale(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx.select().from(heldSales).where(eq(heldSales.id, id)).for("update");
+      if (!row) return false;
+      await this.releaseHeldSale(tx, row);
+      return true;
+    });
+  }
+
+  private heldQuantities(items: HeldSale["items"]): Map<string, number> {
+    const quantities = new Map<string, number>();
     for (const item of items) {
-      await db.insert(purchaseOrderItems).values({
-        ...item,
-        purchaseOrderId: purchaseOrder.id,
-      });
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+    }
+    return quantities;
+  }
+
+  // Delete a held sale and give back any stock it reserved
+  private async releaseHeldSale(executor: Pick<typeof db, "insert" | "update" | "delete">, held: HeldSale): Promise<void> {
+    await executor.delete(heldSales).where(eq(heldSales.id, held.id));
+    if (!held.reservesStock) return;
+
+    for (const [productId, quantity] of Array.from(this.heldQuantities(held.items))) {
+      await this.reserveStock(executor, productId, held.locationId, -quantity);
     }
-    
-    return purchaseOrder;
   }
 
-  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
-    const result = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).limit(1);
+  // Reservations are kept per location, with the product's total alongside
+  // like its stock. Holds from before locations only reserved the total.
+  private async reserveStock(
+    executor: Pick<typeof db, "insert" | "update">,
+    productId: string,
+    locationId: string | null,
+    quantity: number,
+  ): Promise<void> {
+    if (locationId && quantity > 0) {
+      await executor.insert(locationStock)
+        .values({ productId, locationId, reservedQuantity: quantity })
+        .onConflictDoUpdate({
+          target: [locationStock.productId, locationStock.locationId],
+          set: { reservedQuantity: sql`${locationStock.reservedQuantity} + ${quantity}` },
+        });
+    } else if (locationId) {
+      await executor.update(locationStock)
+        .set({ reservedQuantity: sql`GREATEST(${locationStock.reservedQuantity} + ${quantity}, 0)` })
+        .where(and(eq(locationStock.productId, productId), eq(locationStock.locationId, locationId)));
+    }
+    await executor.update(products)
+      .set({ reservedQuantity: sql`GREATEST(${products.reservedQuantity} + ${quantity}, 0)` })
+      .where(eq(products.id, productId));
+  }
+
+  // Expired held sales are cleared whenever held sales are read, and before
+  // anything that checks stock against reservations
+  private async purgeExpiredHeldSales(): Promise<void> {
+    await db.transaction(async (tx) => {
+      const expired = await tx.select().from(heldSales)
+        .where(lte(heldSales.expiresAt, new Date()))
+        .for("update", { skipLocked: true });
+      for (const held of expired) {
+        await this.releaseHeldSale(tx, held);
+      }
+    });
+  }
+
+  // Location methods
+  async getLocation(id: string): Promise<Location | undefined> {
+    const result = await db.select().from(locations).where(eq(locations.id, id)).limit(1);
     return result[0];
   }
 
-  async getAllPurchaseOrders(): Promise<PurchaseOrder[]> {
-    return await db.select().from(purchaseOrders).orderBy(desc(purchaseOrders.createdAt));
+  async getAllLocations(): Promise<Location[]> {
+    return await db.select().from(locations).orderBy(desc(locations.isDefault), asc(locations.name));
+  }
+
+  async getDefaultLocation(): Promise<Location> {
+    const result = await db.select().from(locations).where(eq(locations.isDefault, true)).limit(1);
+    if (!result[0]) {
+      throw new StorageError("No default location is configured", 500);
+    }
+    return result[0];
+  }
+
+  async createLocation(location: InsertLocation): Promise<Location> {
+    return await db.transaction(async (tx) => {
+      if (location.isDefault) {
+        await tx.update(locations).set({ isDefault: false }).where(eq(locations.isDefault, true));
+      }
+      const [created] = await tx.insert(locations).values(location).returning();
+      return created;
+    });
+  }
+
+  async updateLocation(id: string, locationData: Partial<InsertLocation>): Promise<Location | undefined> {
+    const existing = await this.getLocation(id);
+    if (!existing) return undefined;
+    if (existing.isDefault && (locationData.isDefault === false || locationData.isActive === false)) {
+      throw new StorageError("Make another location the default first");
+    }
+
+    return await db.transaction(async (tx) => {
+      // Only one location can be the default
+      if (locationData.isDefault) {
+        await tx.update(locations).set({ isDefault: false }).where(eq(locations.isDefault, true));
+      }
+      const [updated] = await tx.update(locations).set(locationData).where(eq(locations.id, id)).returning();
+      return updated;
+    });
   }
 
-  async receivePurchaseOrder(id: string, userId: string): Promise<boolean> {
+  async deleteLocation(id: string): Promise<boolean> {
+    const existing = await this.getLocation(id);
+    if (!existing) return false;
+    if (existing.isDefault) {
+      throw new StorageError("The default location can't be deleted");
+    }
+    const [held] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(locationStock)
+      .where(and(eq(locationStock.locationId, id), sql`${locationStock.quantity} <> 0`));
+    if (held.count > 0) {
+      throw new StorageError(`Location still holds stock for ${held.count} product(s); transfer it out first`);
+    }
+
     try {
-      await db.update(purchaseOrders).set({ 
-        status: "received",
-        receivedAt: new Date()
-      }).where(eq(purchaseOrders.id, id));
+      await db.delete(locationStock).where(eq(locationStock.locationId, id));
+      const result = await db.delete(locations).where(eq(locations.id, id));
+      return (result as any).rowCount > 0;
+    } catch (error: any) {
+      // Sales, shifts, orders and transfers keep a reference to the location
+      if (error.code === "23503") {
+        throw new StorageError("Location has recorded activity and can't be deleted; deactivate it instead");
+      }
+      throw error;
+    }
+  }
+
+  // Creates the default location on first start and books any stock that
+  // predates locations to it. Safe to run repeatedly.
+  async ensureDefaultLocation(): Promise<number> {
+    const [existing] = await db.select({ count: sql<number>`count(*)::int` }).from(locations);
+    if (existing.count === 0) {
+      await db.insert(locations).values({ name: "Main Store", type: "store", isDefault: true });
+    }
+    const defaultLocation = await this.getDefaultLocation();
+
+    const result = await db.execute(sql`
+      INSERT INTO ${locationStock} (product_id, location_id, quantity)
+      SELECT ${products.id}, ${defaultLocation.id}, ${products.quantity}
+      FROM ${products}
+      WHERE NOT EXISTS (SELECT 1 FROM ${locationStock} WHERE ${locationStock.productId} = ${products.id})
+    `);
+    return (result as any).rowCount ?? 0;
+  }
+
+  async getStockLevels(locationId: string): Promise<LocationStock[]> {
+    return await db.select().from(locationStock).where(eq(locationStock.locationId, locationId));
+  }
+
+  async getProductStock(productId: string): Promise<(LocationStock & { location?: { name: string } })[]> {
+    const result = await db
+      .select({ level: locationStock, location: { name: locations.name } })
+      .from(locationStock)
+      .leftJoin(locations, eq(locationStock.locationId, locations.id))
+      .where(eq(locationStock.productId, productId))
+      .orderBy(asc(locations.name));
+    return result.map(row => ({ ...row.level, location: row.location ?? undefined }));
+  }
+
+  async updateLocationStock(productId: string, locationId: string, minStockLevel: number | null): Promise<LocationStock> {
+    const [level] = await db.insert(locationStock)
+      .values({ productId, locationId, quantity: 0, minStockLevel })
+      .onConflictDoUpdate({
+        target: [locationStock.productId, locationStock.locationId],
+        set: { minStockLevel },
+      })
+      .returning();
+    return level;
+  }
+
+  // Units sent but not yet received, per product. With a location, only
+  // stock on its way to that location is counted.
+  async getInTransitQuantities(locationId?: string): Promise<Map<string, number>> {
+    const conditions = [eq(stockTransfers.status, "in_transit")];
+    if (locationId) conditions.push(eq(stockTransfers.toLocationId, locationId));
+
+    const result = await db
+      .select({ productId: stockTransferItems.productId, quantity: sql<number>`sum(${stockTransferItems.quantity})::int` })
+      .from(stockTransferItems)
+      .innerJoin(stockTransfers, eq(stockTransferItems.transferId, stockTransfers.id))
+      .where(and(...conditions))
+      .groupBy(stockTransferItems.productId);
+    return new Map(result.map(row => [row.productId, row.quantity]));
+  }
+
+  // Cost layer methods
+  // Stock on hand before cost layers existed is opened at the catalogue cost price
+  async ensureCostLayers(): Promise<number> {
+    const result = await db.execute(sql`
+      INSERT INTO ${costLayers} (product_id, source, quantity, remaining_quantity, unit_cost)
+      SELECT ${products.id}, 'opening', ${products.quantity}, ${products.quantity}, ${products.costPrice}
+      FROM ${products}
+      WHERE ${products.trackStock} AND ${products.quantity} > 0
+        AND NOT EXISTS (SELECT 1 FROM ${costLayers} WHERE ${costLayers.productId} = ${products.id})
+    `);
+    return (result as any).rowCount ?? 0;
+  }
+
+  // Values stock as it stood at the end of `asOf` (a calendar day in the report
+  // time zone): every layer opened by then less what had been drawn from it
+  async getStockValuation(asOf?: string): Promise<StockValuation> {
+    const timeZone = await this.getReportTimeZone();
+    const date = asOf || localDateString(new Date(), timeZone);
+
+    const used = db
+      .select({
+        layerId: costAllocations.layerId,
+        quantity: sql<number>`sum(${costAllocations.quantity})`.as("used_quantity"),
+      })
+      .from(costAllocations)
+      .where(sql`${this.localDate(costAllocations.createdAt, timeZone)} <= ${date}::date`)
+      .groupBy(costAllocations.layerId)
+      .as("used");
+    const onHand = sql`(${costLayers.quantity} - coalesce(${used.quantity}, 0))`;
+
+    const result = await db
+      .select({
+        product: { id: products.id, name: products.name, sku: products.sku },
+        category: categories.name,
+        quantity: sql<number>`sum(${onHand})`.mapWith(Number),
+        value: sql<number>`sum(${onHand} * ${costLayers.unitCost})`.mapWith(Number),
+      })
+      .from(costLayers)
+      .innerJoin(products, eq(costLayers.productId, products.id))
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .leftJoin(used, eq(used.layerId, costLayers.id))
+      .where(sql`${this.localDate(costLayers.createdAt, timeZone)} <= ${date}::date`)
+      .groupBy(products.id, categories.id)
+      .having(sql`sum(${onHand}) > 0`)
+      .orderBy(asc(products.name));
+
+    const lines = result.map(row => ({
+      product: { ...row.product, category: row.category ? { name: row.category } : undefined },
+      quantity: row.quantity,
+      unitCost: Math.round((row.value / row.quantity) * 10000) / 10000,
+      value: Math.round(row.value * 100) / 100,
+    }));
+    return {
+      asOf: date,
+      costingMethod: await this.getCostingMethod(),
+      lines,
+      totalQuantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+      totalValue: Math.round(lines.reduce((sum, line) => sum + line.value, 0) * 100) / 100,
+    };
+  }
+
+  // Lot methods
+  async getStockLot(id: string): Promise<StockLot | undefined> {
+    const [lot] = await db.select().from(stockLots).where(eq(stockLots.id, id));
+    return lot || undefined;
+  }
+
+  async getStockLots(filters: { productId?: string; locationId?: string } = {}): Promise<StockLotWithDetails[]> {
+    const conditions = [gt(stockLots.quantity, 0)];
+    if (filters.productId) conditions.push(eq(stockLots.productId, filters.productId));
+    if (filters.locationId) conditions.push(eq(stockLots.locationId, filters.locationId));
+    return await this.selectLots(and(...conditions));
+  }
+
+  async getExpiringLots(days: number): Promise<StockLotWithDetails[]> {
+    return await this.selectLots(and(
+      gt(stockLots.quantity, 0),
+      sql`${stockLots.expiryDate} <= current_date + ${days}::int`,
+    ));
+  }
+
+  private async selectLots(where: ReturnType<typeof and>): Promise<StockLotWithDetails[]> {
+    const result = await db
+      .select({
+        lot: stockLots,
+        product: { name: products.name, sku: products.sku },
+        location: { name: locations.name },
+      })
+      .from(stockLots)
+      .innerJoin(products, eq(stockLots.productId, products.id))
+      .innerJoin(locations, eq(stockLots.locationId, locations.id))
+      .where(where)
+      .orderBy(sql`${stockLots.expiryDate} asc nulls last`, asc(stockLots.createdAt));
+    return result.map(row => ({ ...row.lot, product: row.product, location: row.location }));
+  }
+
+  async getLotSales(lotId: string): Promise<LotSale[] | undefined> {
+    const lot = await this.getStockLot(lotId);
+    if (!lot) return undefined;
+
+    // The same lot number may sit at several locations; a recall covers them all
+    const rows = await db
+      .select({
+        saleId: sales.id,
+        invoiceNumber: sales.invoiceNumber,
+        createdAt: sales.createdAt,
+        customer: { name: customers.name, phone: customers.phone, email: customers.email },
+        quantity: sql<number>`sum(${lotAllocations.quantity})::int`,
+      })
+      .from(lotAllocations)
+      .innerJoin(stockLots, eq(lotAllocations.lotId, stockLots.id))
+      .innerJoin(saleItems, eq(lotAllocations.saleItemId, saleItems.id))
+      .innerJoin(sales, eq(saleItems.saleId, sales.id))
+      .leftJoin(customers, eq(sales.customerId, customers.id))
+      .where(and(
+        eq(stockLots.productId, lot.productId),
+        eq(stockLots.lotNumber, lot.lotNumber),
+        eq(lotAllocations.source, 'sale'),
+      ))
+      .groupBy(sales.id, customers.id)
+      .orderBy(desc(sales.createdAt));
+    return rows.map(row => ({ ...row, customer: row.customer?.name ? row.customer : null }));
+  }
+
+  // Takes everything left in a lot out of stock as expired
+  async writeOffLot(id: string, writeOff: WriteOffLot, userId: string): Promise<StockMovement | undefined> {
+    const existing = await this.getStockLot(id);
+    if (!existing) return undefined;
+
+    return await db.transaction(async (tx) => {
+      const [product] = await tx.select().from(products).where(eq(products.id, existing.productId)).for("update");
+      const [lot] = await tx.select().from(stockLots).where(eq(stockLots.id, id)).for("update");
+      if (!product || !lot) return undefined;
+      if (lot.quantity === 0) {
+        throw new StorageError(`Lot ${lot.lotNumber} has no stock left to write off`);
+      }
+      const serials = this.requireSerials(product, writeOff.serialNumbers, lot.quantity, "written off");
+      await this.removeSerialNumbers(tx, product, serials, lot.locationId, "written_off");
+
+      await tx.update(stockLots).set({ quantity: 0 }).where(eq(stockLots.id, lot.id));
+      await tx.insert(lotAllocations).values({
+        lotId: lot.id,
+        productId: lot.productId,
+        source: 'expiry',
+        reference: lot.id,
+        quantity: lot.quantity,
+      });
+      await this.costAdjustment(tx, product, -lot.quantity, lot.id);
+      return await this.moveStock(tx, {
+        productId: lot.productId,
+        locationId: lot.locationId,
+        movementType: 'adjustment',
+        quantity: -lot.quantity,
+        reasonCode: 'expiry',
+        reason: lot.expiryDate ? `Lot ${lot.lotNumber} expired ${lot.expiryDate}` : `Lot ${lot.lotNumber} written off`,
+        reference: lot.id,
+        userId,
+      });
+    });
+  }
+
+  // Serial number methods
+  async getSerialNumbers(productId: string, status?: string): Promise<SerialNumber[]> {
+    const conditions = [eq(serialNumbers.productId, productId)];
+    if (status) conditions.push(eq(serialNumbers.status, status));
+    return await db.select().from(serialNumbers).where(and(...conditions)).orderBy(asc(serialNumbers.serialNumber));
+  }
+
+  async lookupSerialNumber(serialNumber: string): Promise<SerialLookup[]> {
+    const rows = await db
+      .select({
+        serial: serialNumbers,
+        product: { name: products.name, sku: products.sku, warrantyMonths: products.warrantyMonths },
+        purchaseOrder: { orderNumber: purchaseOrders.orderNumber },
+        sale: { id: sales.id, invoiceNumber: sales.invoiceNumber, createdAt: sales.createdAt },
+        customer: { name: customers.name, phone: customers.phone, email: customers.email },
+      })
+      .from(serialNumbers)
+      .innerJoin(products, eq(serialNumbers.productId, products.id))
+      .leftJoin(purchaseOrders, eq(serialNumbers.purchaseOrderId, purchaseOrders.id))
+      .leftJoin(saleItems, eq(serialNumbers.saleItemId, saleItems.id))
+      .leftJoin(sales, eq(saleItems.saleId, sales.id))
+      .leftJoin(customers, eq(sales.customerId, customers.id))
+      .where(sql`lower(${serialNumbers.serialNumber}) = lower(${serialNumber.trim()})`);
+
+    return rows.map(row => {
+      // Warranty runs from the sale date; a returned unit's warranty ended with the return
+      const soldAt = row.serial.returnedAt ? null : row.sale?.createdAt;
+      let warrantyExpiresAt: string | null = null;
+      if (soldAt && row.product.warrantyMonths) {
+        const expires = new Date(soldAt);
+        expires.setMonth(expires.getMonth() + row.product.warrantyMonths);
+        warrantyExpiresAt = expires.toISOString().slice(0, 10);
+      }
+      return {
+        ...row.serial,
+        product: row.product,
+        purchaseOrder: row.purchaseOrder,
+        sale: row.sale,
+        customer: row.customer?.name ? row.customer : null,
+        warrantyExpiresAt,
+      };
+    });
+  }
+
+  // Stock transfer methods
+  async getTransfers(status?: string): Promise<StockTransferWithDetails[]> {
+    const [result, allLocations] = await Promise.all([
+      db.select().from(stockTransfers)
+        .where(status ? eq(stockTransfers.status, status) : undefined)
+        .orderBy(desc(stockTransfers.createdAt)),
+      this.getAllLocations(),
+    ]);
+    const names = new Map(allLocations.map(location => [location.id, { name: location.name }]));
+
+    return result.map(transfer => ({
+      ...transfer,
+      fromLocation: names.get(transfer.fromLocationId),
+      toLocation: names.get(transfer.toLocationId),
+    }));
+  }
+
+  async getTransfer(id: string): Promise<StockTransferWithDetails | undefined> {
+    const [transfer] = await db.select().from(stockTransfers).where(eq(stockTransfers.id, id)).limit(1);
+    if (!transfer) return undefined;
+
+    const [from, to, items] = await Promise.all([
+      this.getLocation(transfer.fromLocationId),
+      this.getLocation(transfer.toLocationId),
+      db.select({ item: stockTransferItems, product: products })
+        .from(stockTransferItems)
+        .leftJoin(products, eq(stockTransferItems.productId, products.id))
+        .where(eq(stockTransferItems.transferId, id)),
+    ]);
+
+    return {
+      ...transfer,
+      fromLocation: from && { name: from.name },
+      toLocation: to && { name: to.name },
+      items: items.map(row => ({ ...row.item, product: row.product ?? undefined })),
+    };
+  }
+
+  async createTransfer(transfer: CreateTransfer, userId: string): Promise<StockTransfer> {
+    const [from, to] = await Promise.all([this.getLocation(transfer.fromLocationId), this.getLocation(transfer.toLocationId)]);
+    if (!from || !to) {
+      throw new StorageError("Location not found", 404);
+    }
+    if (!from.isActive || !to.isActive) {
+      throw new StorageError("Transfers can only be made between active locations", 400);
+    }
+
+    // Merge repeated products into one line
+    const quantities = new Map<string, number>();
+    const serials = new Map<string, string[]>();
+    for (const item of transfer.items) {
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+      serials.set(item.productId, [...(serials.get(item.productId) ?? []), ...(item.serialNumbers ?? [])]);
+    }
+    const found = await this.getProductsByIds(Array.from(quantities.keys()));
+    const missing = Array.from(quantities.keys()).filter(id => !found.some(p => p.id === id));
+    if (missing.length > 0) {
+      throw new StorageError("Some products in this transfer no longer exist", 400, { productIds: missing });
+    }
+    for (const product of found) {
+      const productSerials = this.requireSerials(product, serials.get(product.id), quantities.get(product.id)!, "transferred");
+      if (new Set(productSerials).size !== productSerials.length) {
+        throw new StorageError("Serial numbers must be unique", 400, { productId: product.id });
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(stockTransfers).values({
+        transferNumber: `TR-${Date.now()}`,
+        fromLocationId: from.id,
+        toLocationId: to.id,
+        note: transfer.note ?? null,
+        userId,
+        status: "draft",
+      }).returning();
+
+      await tx.insert(stockTransferItems).values(
+        Array.from(quantities, ([productId, quantity]) => ({
+          transferId: created.id,
+          productId,
+          quantity,
+          serialNumbers: serials.get(productId)?.length ? serials.get(productId)! : null,
+        }))
+      );
+      return created;
+    });
+  }
+
+  async sendTransfer(id: string, userId: string): Promise<StockTransferWithDetails | undefined> {
+    await this.purgeExpiredHeldSales();
+
+    const sent = await db.transaction(async (tx) => {
+      const [transfer] = await tx.select().from(stockTransfers).where(eq(stockTransfers.id, id)).for("update");
+      if (!transfer) return undefined;
+      if (transfer.status !== "draft") {
+        throw new StorageError(`Cannot send a transfer that is ${transfer.status.replace("_", " ")}`);
+      }
+
+      const items = await tx.select().from(stockTransferItems).where(eq(stockTransferItems.transferId, id));
+      const productIds = items.map(item => item.productId);
+      // Lock in a stable order to avoid deadlocks with concurrent sales
+      const lockedProducts = await tx.select().from(products)
+        .where(inArray(products.id, productIds))
+        .orderBy(asc(products.id))
+        .for("update");
+      const levels = await tx.select().from(locationStock)
+        .where(and(eq(locationStock.locationId, transfer.fromLocationId), inArray(locationStock.productId, productIds)))
+        .for("update");
+
+      const shortages: StockShortage[] = items.flatMap(item => {
+        const product = lockedProducts.find(p => p.id === item.productId);
+        if (!product?.trackStock) return [];
+        const level = levels.find(level => level.productId === item.productId);
+        const available = Math.min(
+          (level?.quantity ?? 0) - (level?.reservedQuantity ?? 0),
+          product.quantity - product.reservedQuantity,
+        );
+        return available < item.quantity
+          ? [{ productId: product.id, name: product.name, requested: item.quantity, available: Math.max(available, 0) }]
+          : [];
+      });
+      if (shortages.length > 0) {
+        throw new StorageError("Insufficient stock at the source location", 409, { shortages });
+      }
+
+      for (const item of items) {
+        const product = lockedProducts.find(p => p.id === item.productId);
+        if (!product?.trackStock) continue;
+        if (product.trackLots) {
+          await this.drawLots(tx, item.productId, transfer.fromLocationId, item.quantity, { source: 'transfer', reference: transfer.id });
+        }
+        const serials = this.requireSerials(product, item.serialNumbers ?? undefined, item.quantity, "transferred");
+        await this.removeSerialNumbers(tx, product, serials, transfer.fromLocationId, "in_transit");
+        await this.moveStock(tx, {
+          productId: item.productId,
+          locationId: transfer.fromLocationId,
+          movementType: 'transfer',
+          quantity: -item.quantity,
+          reason: `Transfer ${transfer.transferNumber} sent`,
+          userId,
+        });
+      }
+
+      await tx.update(stockTransfers)
+        .set({ status: "in_transit", sentBy: userId, sentAt: new Date() })
+        .where(eq(stockTransfers.id, id));
+      return transfer;
+    });
+    return sent && await this.getTransfer(id);
+  }
+
+  async receiveTransfer(id: string, receipt: ReceiveTransfer, userId: string): Promise<StockTransferWithDetails | undefined> {
+    const received = await db.transaction(async (tx) => {
+      const [transfer] = await tx.select().from(stockTransfers).where(eq(stockTransfers.id, id)).for("update");
+      if (!transfer) return undefined;
+      if (transfer.status !== "in_transit") {
+        throw new StorageError(`Cannot receive a transfer that is ${transfer.status.replace("_", " ")}`);
+      }
+
+      const items = await tx.select().from(stockTransferItems).where(eq(stockTransferItems.transferId, id));
+      const counted = new Map((receipt.items ?? []).map(line => [line.itemId, line.quantity]));
+      const arrivedSerials = new Map((receipt.items ?? []).map(line => [line.itemId, line.serialNumbers]));
+      const unknown = Array.from(counted.keys()).filter(itemId => !items.some(item => item.id === itemId));
+      if (unknown.length > 0) {
+        throw new StorageError("Some lines are not on this transfer", 400, { itemIds: unknown });
+      }
+      const over = items.filter(item => (counted.get(item.id) ?? item.quantity) > item.quantity);
+      if (over.length > 0) {
+        throw new StorageError("Cannot receive more than was sent", 400, { itemIds: over.map(item => item.id) });
+      }
+
+      // Lock in a stable order to avoid deadlocks with concurrent sales
+      const tracked = (await tx.select().from(products)
+        .where(inArray(products.id, items.map(item => item.productId)))
+        .orderBy(asc(products.id))
+        .for("update"))
+        .filter(p => p.trackStock);
+
+      for (const item of items) {
+        // Lines left out of the receipt arrived in full
+        const quantity = counted.get(item.id) ?? item.quantity;
+        await tx.update(stockTransferItems).set({ receivedQuantity: quantity }).where(eq(stockTransferItems.id, item.id));
+        const product = tracked.find(p => p.id === item.productId);
+        if (!product) continue;
+
+        // Lots travel with the stock; a short receipt comes off the latest-expiring lots
+        if (product.trackLots && quantity > 0) {
+          await this.restoreLots(tx, item.productId, transfer.toLocationId, quantity, { source: 'transfer', reference: transfer.id });
+        }
+        // Serial-tracked units that arrived are named on a short receipt; the rest are lost
+        if (product.serialTracked && item.serialNumbers?.length) {
+          const sent = item.serialNumbers;
+          const arrived = quantity === item.quantity ? sent
+            : this.requireSerials(product, arrivedSerials.get(item.id), quantity, "received");
+          const unknownSerials = arrived.filter(serial => !sent.includes(serial));
+          if (unknownSerials.length > 0) {
+            throw new StorageError(
+              `${product.name} serial ${unknownSerials.join(", ")} was not sent on this transfer`,
+              409,
+              { productId: product.id, serialNumbers: unknownSerials },
+            );
+          }
+          const lost = sent.filter(serial => !arrived.includes(serial));
+          if (arrived.length > 0) {
+            await tx.update(serialNumbers)
+              .set({ status: "in_stock", locationId: transfer.toLocationId })
+              .where(and(eq(serialNumbers.productId, product.id), inArray(serialNumbers.serialNumber, arrived)));
+          }
+          if (lost.length > 0) {
+            await tx.update(serialNumbers)
+              .set({ status: "lost" })
+              .where(and(eq(serialNumbers.productId, product.id), inArray(serialNumbers.serialNumber, lost)));
+          }
+        }
+        await this.moveStock(tx, {
+          productId: item.productId,
+          locationId: transfer.toLocationId,
+          movementType: 'transfer',
+          quantity: item.quantity,
+          reason: `Transfer ${transfer.transferNumber} received`,
+          userId,
+        });
+
+        // Units that never arrived are written off at the destination, so their
+        // cost layers close instead of being valued (and drawn) forever
+        const shortfall = item.quantity - quantity;
+        if (shortfall > 0) {
+          await this.costAdjustment(tx, product, -shortfall, transfer.id);
+          await this.moveStock(tx, {
+            productId: item.productId,
+            locationId: transfer.toLocationId,
+            movementType: 'adjustment',
+            quantity: -shortfall,
+            reasonCode: 'transfer_loss',
+            reason: `Transfer ${transfer.transferNumber} received short (${quantity} of ${item.quantity})`,
+            reference: transfer.id,
+            userId,
+          });
+        }
+      }
+
+      await tx.update(stockTransfers)
+        .set({ status: "received", receivedBy: userId, receivedAt: new Date() })
+        .where(eq(stockTransfers.id, id));
+      return transfer;
+    });
+    return received && await this.getTransfer(id);
+  }
+
+  async cancelTransfer(id: string, userId: string): Promise<StockTransferWithDetails | undefined> {
+    const cancelled = await db.transaction(async (tx) => {
+      const [transfer] = await tx.select().from(stockTransfers).where(eq(stockTransfers.id, id)).for("update");
+      if (!transfer) return undefined;
+      if (transfer.status !== "draft" && transfer.status !== "in_transit") {
+        throw new StorageError(`Cannot cancel a transfer that is ${transfer.status}`);
+      }
+
+      // Stock already sent goes back to the source
+      if (transfer.status === "in_transit") {
+        const items = await tx
+          .select({ item: stockTransferItems, trackStock: products.trackStock, trackLots: products.trackLots, serialTracked: products.serialTracked })
+          .from(stockTransferItems)
+          .innerJoin(products, eq(stockTransferItems.productId, products.id))
+          .where(eq(stockTransferItems.transferId, id));
+
+        for (const { item, trackStock, trackLots, serialTracked } of items) {
+          if (!trackStock) continue;
+          if (trackLots) {
+            await this.restoreLots(tx, item.productId, transfer.fromLocationId, item.quantity, { source: 'transfer', reference: transfer.id });
+          }
+          if (serialTracked && item.serialNumbers?.length) {
+            await tx.update(serialNumbers)
+              .set({ status: "in_stock", locationId: transfer.fromLocationId })
+              .where(and(eq(serialNumbers.productId, item.productId), inArray(serialNumbers.serialNumber, item.serialNumbers)));
+          }
+          await this.moveStock(tx, {
+            productId: item.productId,
+            locationId: transfer.fromLocationId,
+            movementType: 'transfer',
+            quantity: item.quantity,
+            reason: `Transfer ${transfer.transferNumber} cancelled`,
+            userId,
+          });
+        }
+      }
+
+      await tx.update(stockTransfers).set({ status: "cancelled" }).where(eq(stockTransfers.id, id));
+      return transfer;
+    });
+    return cancelled && await this.getTransfer(id);
+  }
+
+  // Stocktake methods
+  async getStocktakes(status?: string): Promise<StocktakeWithDetails[]> {
+    const result = await db
+      .select({
+        stocktake: stocktakes,
+        location: { name: locations.name },
+        itemCount: sql<number>`(select count(*)::int from ${stocktakeItems} where ${stocktakeItems.stocktakeId} = ${stocktakes.id})`,
+        countedCount: sql<number>`(select count(${stocktakeItems.countedQuantity})::int from ${stocktakeItems} where ${stocktakeItems.stocktakeId} = ${stocktakes.id})`,
+        varianceUnits: sql<number>`(select coalesce(sum(${stocktakeItems.countedQuantity} - ${stocktakeItems.bookQuantity}), 0)::int from ${stocktakeItems} where ${stocktakeItems.stocktakeId} = ${stocktakes.id})`,
+        varianceValue: sql<string>`(select coalesce(sum((${stocktakeItems.countedQuantity} - ${stocktakeItems.bookQuantity}) * ${stocktakeItems.unitCost}), 0)::numeric(12,2) from ${stocktakeItems} where ${stocktakeItems.stocktakeId} = ${stocktakes.id})`,
+      })
+      .from(stocktakes)
+      .leftJoin(locations, eq(stocktakes.locationId, locations.id))
+      .where(status ? eq(stocktakes.status, status) : undefined)
+      .orderBy(desc(stocktakes.createdAt))
+      .limit(100);
+
+    return result.map(row => ({
+      ...row.stocktake,
+      location: row.location ?? undefined,
+      summary: {
+        itemCount: row.itemCount,
+        countedCount: row.countedCount,
+        varianceUnits: row.varianceUnits,
+        varianceValue: row.varianceValue,
+      },
+    }));
+  }
+
+  async getStocktake(id: string): Promise<StocktakeWithDetails | undefined> {
+    const result = await db
+      .select({
+        stocktake: stocktakes,
+        location: { name: locations.name },
+        category: { name: categories.name },
+        supplier: { name: suppliers.name },
+      })
+      .from(stocktakes)
+      .leftJoin(locations, eq(stocktakes.locationId, locations.id))
+      .leftJoin(categories, eq(stocktakes.categoryId, categories.id))
+      .leftJoin(suppliers, eq(stocktakes.supplierId, suppliers.id))
+      .where(eq(stocktakes.id, id))
+      .limit(1);
+    if (!result[0]) return undefined;
+
+    const rows = await db
+      .select({
+        item: stocktakeItems,
+        product: { name: products.name, sku: products.sku, barcode: products.barcode, serialTracked: products.serialTracked },
+      })
+      .from(stocktakeItems)
+      .leftJoin(products, eq(stocktakeItems.productId, products.id))
+      .where(eq(stocktakeItems.stocktakeId, id))
+      .orderBy(asc(products.name));
+
+    const items = rows.map(({ item, product }) => {
+      const variance = item.countedQuantity === null || item.bookQuantity === null
+        ? null
+        : item.countedQuantity - item.bookQuantity;
+      return {
+        ...item,
+        product: product ?? undefined,
+        variance,
+        varianceValue: variance === null ? null : (variance * parseFloat(item.unitCost)).toFixed(2),
+      };
+    });
+    const counted = items.filter(item => item.variance !== null);
+
+    return {
+      ...result[0].stocktake,
+      location: result[0].location ?? undefined,
+      category: result[0].category,
+      supplier: result[0].supplier,
+      items,
+      summary: {
+        itemCount: items.length,
+        countedCount: counted.length,
+        varianceUnits: counted.reduce((sum, item) => sum + item.variance!, 0),
+        varianceValue: counted.reduce((sum, item) => sum + parseFloat(item.varianceValue!), 0).toFixed(2),
+      },
+    };
+  }
+
+  async createStocktake(stocktake: CreateStocktake, userId: string): Promise<Stocktake> {
+    const location = await this.getLocation(stocktake.locationId);
+    if (!location) {
+      throw new StorageError("Location not found", 404);
+    }
+
+    return await db.transaction(async (tx) => {
+      // Serialise stocktake starts so overlapping counts can't slip past the check below
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('stocktakes'))`);
+
+      const conditions = [eq(products.trackStock, true), eq(products.isActive, true)];
+      if (stocktake.categoryId) conditions.push(eq(products.categoryId, stocktake.categoryId));
+      if (stocktake.supplierId) conditions.push(eq(products.supplierId, stocktake.supplierId));
+
+      const inScope = await tx
+        .select({ id: products.id, costPrice: products.costPrice, quantity: locationStock.quantity })
+        .from(products)
+        .leftJoin(locationStock, and(eq(locationStock.productId, products.id), eq(locationStock.locationId, location.id)))
+        .where(and(...conditions));
+      if (inScope.length === 0) {
+        throw new StorageError("No stocked products match this stocktake", 400);
+      }
+
+      // A product can only be in one open count per location
+      const overlapping = await tx
+        .select({ reference: stocktakes.reference })
+        .from(stocktakeItems)
+        .innerJoin(stocktakes, eq(stocktakeItems.stocktakeId, stocktakes.id))
+        .where(and(
+          eq(stocktakes.status, "counting"),
+          eq(stocktakes.locationId, location.id),
+          inArray(stocktakeItems.productId, inScope.map(p => p.id)),
+        ))
+        .limit(1);
+      if (overlapping[0]) {
+        throw new StorageError(`Stocktake ${overlapping[0].reference} is already counting some of these products`);
+      }
+
+      const [created] = await tx.insert(stocktakes).values({
+        reference: `ST-${Date.now()}`,
+        locationId: location.id,
+        categoryId: stocktake.categoryId || null,
+        supplierId: stocktake.supplierId || null,
+        note: stocktake.note ?? null,
+        userId,
+        status: "counting",
+      }).returning();
+
+      await tx.insert(stocktakeItems).values(inScope.map(p => ({
+        stocktakeId: created.id,
+        productId: p.id,
+        expectedQuantity: p.quantity ?? 0,
+        unitCost: p.costPrice,
+      })));
+      return created;
+    });
+  }
+
+  async recordStocktakeCounts(id: string, counts: RecordCounts["counts"], userId: string): Promise<StocktakeWithDetails | undefined> {
+    const recorded = await db.transaction(async (tx) => {
+      // A share lock lets counters work side by side but waits for a post or cancel
+      const [stocktake] = await tx.select().from(stocktakes).where(eq(stocktakes.id, id)).for("share");
+      if (!stocktake) return undefined;
+      if (stocktake.status !== "counting") {
+        throw new StorageError(`This stocktake is ${stocktake.status}; counts can no longer be entered`);
+      }
+
+      const productIds = Array.from(new Set(counts.map(count => count.productId)));
+      const [items, levels] = await Promise.all([
+        tx.select().from(stocktakeItems)
+          .where(and(eq(stocktakeItems.stocktakeId, id), inArray(stocktakeItems.productId, productIds))),
+        tx.select().from(locationStock)
+          .where(and(eq(locationStock.locationId, stocktake.locationId), inArray(locationStock.productId, productIds))),
+      ]);
+      const missing = productIds.filter(productId => !items.some(item => item.productId === productId));
+      if (missing.length > 0) {
+        throw new StorageError("Some products are not part of this stocktake", 400, { productIds: missing });
+      }
+
+      for (const count of counts) {
+        const item = items.find(existing => existing.productId === count.productId)!;
+        const bookQuantity = levels.find(level => level.productId === count.productId)?.quantity ?? 0;
+        const countedQuantity = count.mode === "add"
+          ? sql`coalesce(${stocktakeItems.countedQuantity}, 0) + ${count.quantity}`
+          : count.quantity;
+        const [updated] = await tx.update(stocktakeItems)
+          .set({ countedQuantity, bookQuantity, countedBy: userId, countedAt: new Date() })
+          .where(eq(stocktakeItems.id, item.id))
+          .returning();
+        if (updated.countedQuantity! < 0) {
+          throw new StorageError("Counted quantity can't be negative", 400, { productIds: [count.productId] });
+        }
+      }
+      return stocktake;
+    });
+    return recorded && await this.getStocktake(id);
+  }
+
+  // Applies each counted line's variance as an adjustment. Applying the
+  // variance rather than the count keeps sales made since the count intact.
+  // Serial-tracked products name the units missing or found.
+  async postStocktake(id: string, post: PostStocktake, userId: string): Promise<StocktakeWithDetails | undefined> {
+    const posted = await db.transaction(async (tx) => {
+      const [stocktake] = await tx.select().from(stocktakes).where(eq(stocktakes.id, id)).for("update");
+      if (!stocktake) return undefined;
+      if (stocktake.status !== "counting") {
+        throw new StorageError(`Cannot post a stocktake that is ${stocktake.status}`);
+      }
+
+      const items = await tx.select().from(stocktakeItems).where(eq(stocktakeItems.stocktakeId, id));
+      const counted = items.filter(item => item.countedQuantity !== null && item.bookQuantity !== null);
+      if (counted.length === 0) {
+        throw new StorageError("Count at least one product before posting", 400);
+      }
+
+      const changed = counted.filter(item => item.countedQuantity !== item.bookQuantity);
+      // Lock in a stable order to avoid deadlocks with concurrent sales
+      const lockedProducts = changed.length > 0
+        ? await tx.select().from(products)
+          .where(inArray(products.id, changed.map(item => item.productId)))
+          .orderBy(asc(products.id))
+          .for("update")
+        : [];
+
+      for (const item of changed) {
+        const variance = item.countedQuantity! - item.bookQuantity!;
+        const product = lockedProducts.find(p => p.id === item.productId);
+        if (product) {
+          const serials = this.requireSerials(product, post.serialNumbers?.[product.id], Math.abs(variance), variance < 0 ? "missing" : "found");
+          if (variance < 0) {
+            await this.removeSerialNumbers(tx, product, serials, stocktake.locationId, "lost");
+          } else {
+            await this.addSerialNumbers(tx, product, serials, stocktake.locationId);
+          }
+          await this.costAdjustment(tx, product, variance, stocktake.id);
+          if (product.trackLots && variance < 0) {
+            await this.drawLots(tx, product.id, stocktake.locationId, -variance, { source: 'adjustment', reference: stocktake.id });
+          }
+        }
+        await this.moveStock(tx, {
+          productId: item.productId,
+          locationId: stocktake.locationId,
+          movementType: 'adjustment',
+          quantity: variance,
+          reasonCode: 'correction',
+          reason: `Stocktake ${stocktake.reference}`,
+          reference: stocktake.id,
+          userId,
+        });
+      }
+
+      await tx.update(stocktakes)
+        .set({ status: "posted", postedBy: userId, postedAt: new Date() })
+        .where(eq(stocktakes.id, id));
+      return stocktake;
+    });
+    return posted && await this.getStocktake(id);
+  }
+
+  async cancelStocktake(id: string): Promise<StocktakeWithDetails | undefined> {
+    const existing = await this.getStocktake(id);
+    if (!existing) return undefined;
+    if (existing.status !== "counting") {
+      throw new StorageError(`Cannot cancel a stocktake that is ${existing.status}`);
+    }
+
+    const result = await db.update(stocktakes)
+      .set({ status: "cancelled" })
+      .where(and(eq(stocktakes.id, id), eq(stocktakes.status, "counting")))
+      .returning();
+    if (!result[0]) {
+      throw new StorageError("Stocktake changed while cancelling; please retry");
+    }
+    return { ...existing, status: "cancelled" };
+  }
+
+  // Shift methods
+  async getShift(id: string): Promise<ShiftWithUser | undefined> {
+    const result = await db
+      .select({ shift: shifts, user: { username: users.username, fullName: users.fullName } })
+      .from(shifts)
+      .leftJoin(users, eq(shifts.userId, users.id))
+      .where(eq(shifts.id, id))
+      .limit(1);
+    return result[0] && { ...result[0].shift, user: result[0].user ?? undefined };
+  }
+
+  async getOpenShift(userId: string): Promise<Shift | undefined> {
+    const result = await db.select().from(shifts)
+      .where(and(eq(shifts.userId, userId), eq(shifts.status, "open")))
+      .limit(1);
+    return result[0];
+  }
+
+  async getShifts(filters: { userId?: string; status?: string } = {}): Promise<ShiftWithUser[]> {
+    const conditions = [];
+    if (filters.userId) conditions.push(eq(shifts.userId, filters.userId));
+    if (filters.status) conditions.push(eq(shifts.status, filters.status));
+
+    const result = await db
+      .select({ shift: shifts, user: { username: users.username, fullName: users.fullName } })
+      .from(shifts)
+      .leftJoin(users, eq(shifts.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(shifts.openedAt))
+      .limit(100);
+    return result.map(row => ({ ...row.shift, user: row.user ?? undefined }));
+  }
+
+  async openShift(userId: string, shift: OpenShift): Promise<Shift> {
+    const location = await this.getLocation(shift.locationId);
+    if (!location?.isActive) {
+      throw new StorageError("Choose an active location for this register", 400);
+    }
+
+    return await db.transaction(async (tx) => {
+      // Serialise shift openings so a cashier or register can't end up with two open shifts
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('shifts'))`);
+
+      const open = await tx.select().from(shifts).where(eq(shifts.status, "open"));
+      if (open.some(existing => existing.userId === userId)) {
+        throw new StorageError("You already have an open shift");
+      }
+      if (open.some(existing => existing.register.toLowerCase() === shift.register.toLowerCase())) {
+        throw new StorageError(`Register "${shift.register}" already has an open shift`);
+      }
+
+      const [created] = await tx.insert(shifts).values({ ...shift, userId, status: "open" }).returning();
+      return created;
+    });
+  }
+
+  async addCashMovement(movement: InsertCashMovement): Promise<CashMovement> {
+    return await db.transaction(async (tx) => {
+      await this.lockOpenShift(tx, movement.shiftId);
+      const [created] = await tx.insert(cashMovements).values(movement).returning();
+      return created;
+    });
+  }
+
+  async closeShift(id: string, closing: CloseShift, closedBy: string): Promise<ShiftReport | undefined> {
+    const closed = await db.transaction(async (tx) => {
+      const [shift] = await tx.select().from(shifts).where(eq(shifts.id, id)).for("update");
+      if (!shift) {
+        return false;
+      }
+      if (shift.status !== "open") {
+        throw new StorageError("This shift is already closed");
+      }
+
+      const { expectedCash } = await this.getShiftTotals(tx, shift);
+      const countedCash = parseFloat(closing.countedCash);
+      await tx.update(shifts)
+        .set({
+          status: "closed",
+          expectedCash: expectedCash.toFixed(2),
+          countedCash: closing.countedCash,
+          variance: (countedCash - expectedCash).toFixed(2),
+          closingNote: closing.closingNote ?? null,
+          closedBy,
+          closedAt: new Date(),
+        })
+        .where(eq(shifts.id, id));
       return true;
-    } catch (error) {
-      return false;
+    });
+
+    return closed ? await this.getShiftReport(id) : undefined;
+  }
+
+  async getShiftReport(id: string): Promise<ShiftReport | undefined> {
+    const shift = await this.getShift(id);
+    if (!shift) {
+      return undefined;
+    }
+
+    const totals = await this.getShiftTotals(db, shift);
+    const movements = await db
+      .select({ movement: cashMovements, username: users.username })
+      .from(cashMovements)
+      .leftJoin(users, eq(cashMovements.userId, users.id))
+      .where(eq(cashMovements.shiftId, id))
+      .orderBy(asc(cashMovements.createdAt));
+
+    return {
+      ...totals,
+      shift,
+      movements: movements.map(row => ({ ...row.movement, username: row.username ?? undefined })),
+      // A closed shift reports what was expected when it was counted
+      expectedCash: shift.expectedCash !== null ? parseFloat(shift.expectedCash) : totals.expectedCash,
+      countedCash: shift.countedCash !== null ? parseFloat(shift.countedCash) : null,
+      variance: shift.variance !== null ? parseFloat(shift.variance) : null,
+    };
+  }
+
+  // Lock a shift row for the rest of the transaction; fails unless it is still open
+  private async lockOpenShift(executor: Pick<typeof db, "select">, shiftId: string): Promise<Shift> {
+    const [shift] = await executor.select().from(shifts).where(eq(shifts.id, shiftId)).for("update");
+    if (!shift || shift.status !== "open") {
+      throw new StorageError("This shift has been closed; open a new shift to continue", 409, { requiresShift: true });
     }
+    return shift;
+  }
+
+  private async getShiftTotals(executor: Pick<typeof db, "select">, shift: Shift) {
+    const [[salesRow], tenders, refunds, movementTotals] = await Promise.all([
+      executor
+        .select({ count: sql<number>`count(*)::int`, total: sql<string>`coalesce(sum(${sales.total}), 0)` })
+        .from(sales)
+        .where(eq(sales.shiftId, shift.id)),
+      executor
+        .select({ method: salePayments.method, amount: sql<string>`sum(${salePayments.amount})` })
+        .from(salePayments)
+        .innerJoin(sales, eq(salePayments.saleId, sales.id))
+        .where(eq(sales.shiftId, shift.id))
+        .groupBy(salePayments.method),
+      executor
+        .select({
+          method: returns.refundMethod,
+          count: sql<number>`count(distinct coalesce(${returns.refundId}, ${returns.id}))::int`,
+          amount: sql<string>`sum(${returns.refundAmount})`,
+        })
+        .from(returns)
+        .where(eq(returns.shiftId, shift.id))
+        .groupBy(returns.refundMethod),
+      executor
+        .select({ type: cashMovements.type, amount: sql<string>`sum(${cashMovements.amount})` })
+        .from(cashMovements)
+        .where(eq(cashMovements.shiftId, shift.id))
+        .groupBy(cashMovements.type),
+    ]);
+
+    const amountFor = (rows: { method?: string; type?: string; amount: string }[], key: string) =>
+      parseFloat(rows.find(row => (row.method ?? row.type) === key)?.amount ?? "0");
+    const cashSales = amountFor(tenders, "cash");
+    const cashRefunds = amountFor(refunds, "cash");
+    const cashIn = amountFor(movementTotals, "in");
+    const cashOut = amountFor(movementTotals, "out");
+    const expectedCash = parseFloat(shift.openingFloat) + cashSales - cashRefunds + cashIn - cashOut;
+
+    return {
+      salesCount: salesRow.count,
+      salesTotal: parseFloat(salesRow.total),
+      tenders: tenders.map(row => ({ method: row.method, amount: parseFloat(row.amount) })),
+      refundsCount: refunds.reduce((sum, row) => sum + row.count, 0),
+      refundsTotal: refunds.reduce((sum, row) => sum + parseFloat(row.amount), 0),
+      refundsByMethod: refunds.map(row => ({ method: row.method, amount: parseFloat(row.amount) })),
+      cashSales,
+      cashRefunds,
+      cashIn,
+      cashOut,
+      expectedCash: Math.round(expectedCash * 100) / 100,
+    };
+  }
+
+  // Stock movement methods
+  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    const result = await db.insert(stockMovements).values(movement).returning();
+    return result[0];
+  }
+
+  async getStockMovements(filters: { productId?: string; locationId?: string } = {}): Promise<StockMovementWithDetails[]> {
+    const conditions = [];
+    if (filters.productId) conditions.push(eq(stockMovements.productId, filters.productId));
+    if (filters.locationId) conditions.push(eq(stockMovements.locationId, filters.locationId));
+
+    const result = await db
+      .select({
+        movement: stockMovements,
+        user: { username: users.username, fullName: users.fullName },
+        location: { name: locations.name },
+      })
+      .from(stockMovements)
+      .leftJoin(users, eq(stockMovements.userId, users.id))
+      .leftJoin(locations, eq(stockMovements.locationId, locations.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stockMovements.createdAt))
+      .limit(500);
+    return result.map(row => ({ ...row.movement, user: row.user ?? undefined, location: row.location ?? undefined }));
+  }
+
+  // Return methods
+  // A cash refund above what is left of the cash the sale was paid with needs
+  // `cashApproverId`, someone allowed to give it.
+  async createReturn(
+    request: CreateReturn,
+    userId: string,
+    shiftId: string | null,
+    cashApproverId: string | null = null,
+  ): Promise<SaleReturnResult | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the sale so concurrent returns against it are serialised
+      const [sale] = await tx.select().from(sales).where(eq(sales.id, request.saleId)).for("update");
+      if (!sale) {
+        return undefined;
+      }
+      if (sale.status === "refunded") {
+        throw new StorageError("This sale has already been fully refunded");
+      }
+
+      const shift = shiftId ? await this.lockOpenShift(tx, shiftId) : undefined;
+      // Returned goods go back on the shelf where the return is taken
+      const locationId = shift?.locationId ?? sale.locationId ?? (await this.getDefaultLocation()).id;
+
+      const soldItems = await tx.select().from(saleItems).where(eq(saleItems.saleId, sale.id)).orderBy(asc(saleItems.id));
+      const sold = new Map(soldItems.map(item => [item.id, item]));
+      const returned = await this.getReturnedQuantities(tx, sale.id, soldItems);
+
+      // Validate every line before writing anything. Lines are returned by sale
+      // line, since the same product can be sold on several at different prices.
+      const requested = new Map<string, { quantity: number; serialNumbers: string[] }>();
+      for (const item of request.items) {
+        const entry = requested.get(item.saleItemId) ?? { quantity: 0, serialNumbers: [] };
+        entry.quantity += item.quantity;
+        entry.serialNumbers.push(...(item.serialNumbers ?? []));
+        requested.set(item.saleItemId, entry);
+      }
+      const unknown = Array.from(requested.keys()).filter(saleItemId => !sold.has(saleItemId));
+      if (unknown.length > 0) {
+        throw new StorageError("Some items are not on this invoice", 400, { saleItemIds: unknown });
+      }
+      const invalid = [];
+      for (const [saleItemId, { quantity }] of Array.from(requested)) {
+        const line = sold.get(saleItemId)!;
+        const alreadyReturned = returned.get(saleItemId) ?? 0;
+        if (quantity > line.quantity - alreadyReturned) {
+          invalid.push({ saleItemId, productId: line.productId, sold: line.quantity, alreadyReturned, requested: quantity });
+        }
+      }
+      if (invalid.length > 0) {
+        throw new StorageError("Return quantity exceeds what was sold on this invoice", 409, invalid);
+      }
+
+      // Serial-tracked units are returned by serial number, and must be ones this line sold
+      const serialTracked = await tx.select().from(products).where(and(
+        inArray(products.id, Array.from(requested.keys()).map(saleItemId => sold.get(saleItemId)!.productId)),
+        eq(products.trackStock, true),
+        eq(products.serialTracked, true),
+      ));
+      for (const [saleItemId, { quantity, serialNumbers: serials }] of Array.from(requested)) {
+        const product = serialTracked.find(p => p.id === sold.get(saleItemId)!.productId);
+        if (!product) continue;
+        if (serials.length !== quantity || new Set(serials).size !== serials.length) {
+          throw new StorageError(`Scan the serial number of each ${product.name} returned`, 400, { productId: product.id, saleItemId });
+        }
+        await this.lockSerialNumbers(tx, product, serials, "sold", { saleItemIds: [saleItemId] });
+      }
+
+      // Refunds are a proportional share of what the customer actually paid, so
+      // tax and sale-level adjustments are returned in the same ratio
+      const subtotal = parseFloat(sale.subtotal);
+      const paidRatio = subtotal > 0 ? parseFloat(sale.total) / subtotal : 1;
+
+      const refunds = new Map<string, number>();
+      for (const [saleItemId, { quantity }] of Array.from(requested)) {
+        const line = sold.get(saleItemId)!;
+        refunds.set(saleItemId, Math.round((parseFloat(line.totalPrice) / line.quantity) * quantity * paidRatio * 100) / 100);
+      }
+      // Rounding each return's share can drift by a cent or two, so the return
+      // that completes the sale refunds exactly what is left of its total
+      const fullyReturned = soldItems.every(
+        item => (returned.get(item.id) ?? 0) + (requested.get(item.id)?.quantity ?? 0) >= item.quantity
+      );
+      if (fullyReturned) {
+        const [previous] = await tx
+          .select({ amount: sql<string>`coalesce(sum(${returns.refundAmount}), 0)` })
+          .from(returns)
+          .where(eq(returns.saleId, sale.id));
+        const balance = Math.round((parseFloat(sale.total) - parseFloat(previous.amount)) * 100);
+        const [lastLineId] = Array.from(refunds.keys()).slice(-1);
+        const others = Array.from(refunds).reduce((sum, [saleItemId, refund]) => saleItemId === lastLineId ? sum : sum + Math.round(refund * 100), 0);
+        refunds.set(lastLineId, Math.max(balance - others, 0) / 100);
+      }
+      const refundAmount = Math.round(Array.from(refunds.values()).reduce((sum, refund) => sum + refund, 0) * 100) / 100;
+
+      const tenders = await this.refundableTenders(tx, sale);
+      const refundMethod = request.refundMethod ?? this.defaultRefundMethod(tenders, refundAmount);
+      // Refunds only go back to a tender the sale was paid with, and a card or
+      // transfer cannot be refunded more than was charged to it
+      const tenderLeft = tenders.get(refundMethod);
+      if (tenderLeft === undefined) {
+        throw new StorageError(`This sale was not paid by ${refundMethod}; refund it to ${Array.from(tenders.keys()).join(" or ")}`, 400, {
+          refundMethods: Array.from(tenders.keys()),
+        });
+      }
+      if (refundMethod !== "cash" && refundAmount > tenderLeft + 0.005) {
+        throw new StorageError(`Only ${tenderLeft.toFixed(2)} of this sale paid by ${refundMethod} is left to refund`, 400, {
+          refundMethod,
+          available: tenderLeft.toFixed(2),
+        });
+      }
+      if (!shift && refundMethod === "cash") {
+        throw new StorageError("Open a shift before giving cash refunds", 409, { requiresShift: true });
+      }
+      let approvedBy: string | null = null;
+      const cashLeft = tenders.get("cash") ?? 0;
+      if (refundMethod === "cash" && refundAmount > cashLeft + 0.005) {
+        if (!cashApproverId) {
+          throw new StorageError(
+            `Only ${cashLeft.toFixed(2)} of this sale was paid in cash and not yet refunded; a manager must approve a larger cash refund`,
+            403,
+            { requiresApproval: true, cashAvailable: cashLeft.toFixed(2) },
+          );
+        }
+        approvedBy = cashApproverId;
+      }
+
+      // The lines of one refund share an id, so reports count refunds rather than lines
+      const refundId = crypto.randomUUID();
+      const createdReturns: Return[] = [];
+      for (const [saleItemId, { quantity, serialNumbers: serials }] of Array.from(requested)) {
+        const line = sold.get(saleItemId)!;
+        const productId = line.productId;
+        const refund = refunds.get(saleItemId)!;
+
+        const [product] = await tx.select().from(products).where(eq(products.id, productId)).for("update");
+        // Returned units go back into stock at what they cost when sold; units
+        // not kept in stock stay an expense
+        const unitCost = !product?.trackStock ? null
+          : line.costOfGoods !== null ? (parseFloat(line.costOfGoods) / line.quantity).toFixed(4)
+          : await this.currentUnitCost(tx, product);
+
+        const [created] = await tx.insert(returns).values({
+          saleId: sale.id,
+          saleItemId,
+          refundId,
+          productId,
+          quantity,
+          reason: request.reason,
+          refundAmount: refund.toFixed(2),
+          refundMethod,
+          approvedBy,
+          costOfGoods: unitCost === null ? "0.00" : (parseFloat(unitCost) * quantity).toFixed(2),
+          shiftId,
+          userId,
+        }).returning();
+        createdReturns.push(created);
+
+        if (product?.trackStock && unitCost !== null) {
+          await this.addCostLayer(tx, {
+            productId,
+            source: 'return',
+            reference: sale.id,
+            quantity,
+            unitCost,
+          });
+          if (product.trackLots) {
+            await this.restoreLots(tx, productId, locationId, quantity, { source: 'return', reference: sale.id });
+          }
+          if (product.serialTracked && serials.length > 0) {
+            // The exact units go back on the shelf; the sale line is kept for their history
+            await tx.update(serialNumbers)
+              .set({ status: "in_stock", locationId, returnedAt: new Date() })
+              .where(and(eq(serialNumbers.productId, productId), inArray(serialNumbers.serialNumber, serials)));
+          }
+          await this.moveStock(tx, {
+            productId,
+            locationId,
+            movementType: 'return',
+            quantity,
+            reason: request.reason,
+            reference: sale.id,
+            userId,
+          });
+        }
+      }
+
+      const [updatedSale] = await tx.update(sales)
+        .set({ status: fullyReturned ? "refunded" : "partial_refund" })
+        .where(eq(sales.id, sale.id))
+        .returning();
+
+      if (sale.customerId) {
+        await tx.update(customers)
+          .set({ totalSpent: sql`GREATEST(${customers.totalSpent} - ${refundAmount.toFixed(2)}, 0)` })
+          .where(eq(customers.id, sale.customerId));
+      }
+
+      return { sale: updatedSale, returns: createdReturns, refundAmount };
+    });
+  }
+
+  // What is left to refund on each tender a sale was paid with. Sales from
+  // before split tenders count their whole total against their one method.
+  private async refundableTenders(executor: Pick<typeof db, "select">, sale: Sale): Promise<Map<PaymentMethod, number>> {
+    const [paid, refunded] = await Promise.all([
+      executor
+        .select({ method: salePayments.method, amount: sql<string>`sum(${salePayments.amount})` })
+        .from(salePayments)
+        .where(eq(salePayments.saleId, sale.id))
+        .groupBy(salePayments.method)
+        .orderBy(salePayments.method),
+      executor
+        .select({ method: returns.refundMethod, amount: sql<string>`sum(${returns.refundAmount})` })
+        .from(returns)
+        .where(eq(returns.saleId, sale.id))
+        .groupBy(returns.refundMethod),
+    ]);
+
+    const tenders = new Map<PaymentMethod, number>();
+    for (const row of paid.length > 0 ? paid : [{ method: sale.paymentMethod, amount: sale.total }]) {
+      if (isPaymentMethod(row.method)) {
+        tenders.set(row.method, (tenders.get(row.method) ?? 0) + parseFloat(row.amount));
+      }
+    }
+    for (const row of refunded) {
+      const left = isPaymentMethod(row.method) ? tenders.get(row.method) : undefined;
+      if (left !== undefined) {
+        tenders.set(row.method as PaymentMethod, Math.max(left - parseFloat(row.amount), 0));
+      }
+    }
+    return tenders;
+  }
+
+  // Refunds go back the way the sale was paid: to a card or transfer that can
+  // take the whole refund, else to cash (a manager can approve going over the
+  // cash paid), else to the tender with most left
+  private defaultRefundMethod(tenders: Map<PaymentMethod, number>, refund: number): PaymentMethod {
+    const entries = Array.from(tenders);
+    const covers = ([method, left]: [PaymentMethod, number], cash: boolean) => (method === "cash") === cash && left + 0.005 >= refund;
+    const chosen = entries.find(entry => covers(entry, false))
+      ?? entries.find(([method]) => method === "cash")
+      ?? entries.sort((a, b) => b[1] - a[1])[0];
+    return chosen?.[0] ?? "cash";
+  }
+
+  async getReturns(): Promise<ReturnWithDetails[]> {
+    const result = await db
+      .select({ return: returns, product: products, sale: sales })
+      .from(returns)
+      .leftJoin(products, eq(returns.productId, products.id))
+      .leftJoin(sales, eq(returns.saleId, sales.id))
+      .orderBy(desc(returns.createdAt));
+
+    return result.map(row => ({
+      ...row.return,
+      product: row.product ?? undefined,
+      sale: row.sale ?? undefined,
+    }));
+  }
+
+  // Units already returned from each line of a sale. Returns taken before they
+  // recorded their line are counted against that product's lines in order.
+  private async getReturnedQuantities(
+    executor: Pick<typeof db, "select">,
+    saleId: string,
+    lines: Pick<SaleItem, "id" | "productId" | "quantity">[],
+  ): Promise<Map<string, number>> {
+    const result = await executor
+      .select({ saleItemId: returns.saleItemId, productId: returns.productId, quantity: sql<number>`sum(${returns.quantity})`.mapWith(Number) })
+      .from(returns)
+      .where(eq(returns.saleId, saleId))
+      .groupBy(returns.saleItemId, returns.productId);
+
+    const returned = new Map<string, number>();
+    for (const row of result) {
+      if (row.saleItemId) returned.set(row.saleItemId, (returned.get(row.saleItemId) ?? 0) + row.quantity);
+    }
+    for (const row of result.filter(row => !row.saleItemId)) {
+      let left = row.quantity;
+      for (const line of lines.filter(line => line.productId === row.productId)) {
+        const taken = Math.min(left, line.quantity - (returned.get(line.id) ?? 0));
+        if (taken <= 0) continue;
+        returned.set(line.id, (returned.get(line.id) ?? 0) + taken);
+        left -= taken;
+      }
+    }
+    return returned;
+  }
+
+
+  // Purchase order methods
+  async createPurchaseOrder(order: InsertPurchaseOrder, items: Omit<InsertPurchaseOrderItem, 'purchaseOrderId'>[]): Promise<PurchaseOrder> {
+    const expectedAt = order.status === "pending"
+      ? await this.expectedDelivery(order.supplierId, items.map(item => item.productId))
+      : null;
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(purchaseOrders).values({ ...order, expectedAt }).returning();
+      const purchaseOrder = result[0];
+
+      // Insert purchase order items
+      for (const item of items) {
+        await tx.insert(purchaseOrderItems).values({
+          ...item,
+          purchaseOrderId: purchaseOrder.id,
+        });
+      }
+
+      return purchaseOrder;
+    });
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrderWithDetails | undefined> {
+    const result = await db
+      .select({ order: purchaseOrders, supplier: suppliers, location: { name: locations.name } })
+      .from(purchaseOrders)
+      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .leftJoin(locations, eq(purchaseOrders.locationId, locations.id))
+      .where(eq(purchaseOrders.id, id))
+      .limit(1);
+    if (!result[0]) return undefined;
+
+    const items = await db
+      .select({ item: purchaseOrderItems, product: products })
+      .from(purchaseOrderItems)
+      .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
+      .where(eq(purchaseOrderItems.purchaseOrderId, id));
+
+    return {
+      ...result[0].order,
+      supplier: result[0].supplier ?? undefined,
+      location: result[0].location ?? undefined,
+      items: items.map(row => ({ ...row.item, product: row.product ?? undefined })),
+    };
+  }
+
+  async getAllPurchaseOrders(status?: string): Promise<PurchaseOrderWithDetails[]> {
+    const result = await db
+      .select({ order: purchaseOrders, supplier: suppliers, location: { name: locations.name } })
+      .from(purchaseOrders)
+      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .leftJoin(locations, eq(purchaseOrders.locationId, locations.id))
+      .where(status ? eq(purchaseOrders.status, status) : undefined)
+      .orderBy(desc(purchaseOrders.createdAt));
+
+    return result.map(row => ({ ...row.order, supplier: row.supplier ?? undefined, location: row.location ?? undefined }));
+  }
+
+  async cancelPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const order = await this.getPurchaseOrder(id);
+    if (!order) return undefined;
+    if (order.status !== "draft" && order.status !== "pending") {
+      // Received stock stays on hand, so only untouched orders can be cancelled
+      throw new StorageError(`Cannot cancel a purchase order that is ${order.status.replace("_", " ")}`);
+    }
+
+    const result = await db.update(purchaseOrders)
+      .set({ status: "cancelled" })
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, order.status)))
+      .returning();
+    if (!result[0]) {
+      throw new StorageError("Purchase order changed while cancelling; please retry");
+    }
+    return result[0];
+  }
+
+  async receivePurchaseOrder(id: string, userId: string, receipt: ReceivePurchaseOrder = {}): Promise<PurchaseOrderWithDetails | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the order so two receipts against it cannot interleave
+      const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+      if (!order) {
+        return undefined;
+      }
+      if (order.status === "cancelled") {
+        throw new StorageError("Cannot receive a cancelled purchase order");
+      }
+      if (order.status === "draft") {
+        throw new StorageError("Submit the purchase order before receiving it");
+      }
+      if (order.status === "received") {
+        throw new StorageError("Purchase order has already been fully received");
+      }
+
+      const locationId = order.locationId ?? (await this.getDefaultLocation()).id;
+      const items = await tx.select().from(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      const lines = receipt.items ?? items
+        .filter(item => item.receivedQuantity < item.quantity)
+        .map(item => ({
+          itemId: item.id,
+          quantity: item.quantity - item.receivedQuantity,
+          unitCost: undefined,
+          lotNumber: undefined,
+          expiryDate: undefined,
+          serialNumbers: undefined,
+        }));
+
+      if (lines.length === 0) {
+        throw new StorageError("No quantities to receive", 400);
+      }
+
+      // Validate every line before touching stock
+      const overReceived = [];
+      const received = new Map<string, number>();
+      for (const line of lines) {
+        const item = items.find(i => i.id === line.itemId);
+        if (!item) {
+          throw new StorageError(`Line ${line.itemId} does not belong to this purchase order`, 400);
+        }
+        const total = (received.get(item.id) ?? item.receivedQuantity) + line.quantity;
+        if (total > item.quantity) {
+          overReceived.push({
+            itemId: item.id,
+            productId: item.productId,
+            ordered: item.quantity,
+            alreadyReceived: item.receivedQuantity,
+            requested: line.quantity,
+          });
+        }
+        received.set(item.id, total);
+      }
+      if (overReceived.length > 0) {
+        throw new StorageError("Received quantity exceeds quantity ordered", 409, overReceived);
+      }
+
+      // Products tracked by lot can't be received without a lot number, nor
+      // serial-tracked ones without a new serial number per unit
+      const tracked = await tx.select().from(products)
+        .where(and(inArray(products.id, items.map(item => item.productId)), eq(products.trackStock, true)));
+      const productFor = (line: typeof lines[number]) =>
+        tracked.find(p => p.id === items.find(i => i.id === line.itemId)!.productId);
+      const missingLots = lines
+        .filter(line => !line.lotNumber)
+        .map(productFor)
+        .filter((product): product is Product => !!product?.trackLots);
+      if (missingLots.length > 0) {
+        throw new StorageError(
+          `Enter a lot number for ${missingLots.map(p => p.name).join(", ")}`,
+          400,
+          { productIds: missingLots.map(p => p.id) },
+        );
+      }
+      const missingSerials = lines
+        .filter(line => productFor(line)?.serialTracked && (line.serialNumbers?.length ?? 0) !== line.quantity)
+        .map(line => productFor(line)!);
+      if (missingSerials.length > 0) {
+        throw new StorageError(
+          `Enter one serial number per unit of ${missingSerials.map(p => p.name).join(", ")}`,
+          400,
+          { productIds: missingSerials.map(p => p.id) },
+        );
+      }
+      for (const product of tracked.filter(p => p.serialTracked)) {
+        const serials = lines.filter(line => productFor(line)?.id === product.id).flatMap(line => line.serialNumbers ?? []);
+        const existing = await tx.select({ serialNumber: serialNumbers.serialNumber }).from(serialNumbers)
+          .where(and(eq(serialNumbers.productId, product.id), inArray(serialNumbers.serialNumber, serials)));
+        const duplicates = serials.filter((serial, index) => serials.indexOf(serial) !== index)
+          .concat(existing.map(row => row.serialNumber));
+        if (duplicates.length > 0) {
+          throw new StorageError(
+            `${product.name} serial ${Array.from(new Set(duplicates)).join(", ")} has already been received`,
+            409,
+            { productId: product.id, serialNumbers: duplicates },
+          );
+        }
+      }
+
+      for (const line of lines) {
+        const item = items.find(i => i.id === line.itemId)!;
+        await tx.update(purchaseOrderItems)
+          .set({ receivedQuantity: sql`${purchaseOrderItems.receivedQuantity} + ${line.quantity}` })
+          .where(eq(purchaseOrderItems.id, item.id));
+
+        const [product] = await tx.select().from(products).where(eq(products.id, item.productId)).for("update");
+        if (!product) continue;
+
+        const productUpdate: Partial<InsertProduct> & { updatedAt: Date } = { updatedAt: new Date() };
+        if (receipt.updateCostPrice) {
+          productUpdate.costPrice = line.unitCost ?? item.unitCost;
+        }
+        if (product.trackStock) {
+          await tx.update(products).set(productUpdate).where(eq(products.id, product.id));
+          await this.addCostLayer(tx, {
+            productId: product.id,
+            source: 'purchase',
+            reference: order.id,
+            quantity: line.quantity,
+            unitCost: line.unitCost ?? item.unitCost,
+          });
+          await this.moveStock(tx, {
+            productId: product.id,
+            locationId,
+            movementType: 'purchase',
+            quantity: line.quantity,
+            reason: line.lotNumber
+              ? `Received on ${order.orderNumber}, lot ${line.lotNumber}`
+              : `Received on ${order.orderNumber}`,
+            reference: order.id,
+            userId,
+          });
+          if (product.trackLots && line.lotNumber) {
+            await this.addToLot(tx, {
+              productId: product.id,
+              locationId,
+              lotNumber: line.lotNumber,
+              expiryDate: line.expiryDate ?? null,
+              quantity: line.quantity,
+              purchaseOrderId: order.id,
+            });
+          }
+          if (product.serialTracked && line.serialNumbers?.length) {
+            await tx.insert(serialNumbers).values(line.serialNumbers.map(serialNumber => ({
+              productId: product.id,
+              serialNumber,
+              locationId,
+              purchaseOrderId: order.id,
+            })));
+          }
+        } else if (receipt.updateCostPrice) {
+          await tx.update(products).set(productUpdate).where(eq(products.id, product.id));
+        }
+      }
+
+      const updatedItems = await tx.select().from(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      const fullyReceived = updatedItems.every(item => item.receivedQuantity >= item.quantity);
+
+      const [updatedOrder] = await tx.update(purchaseOrders).set({
+        status: fullyReceived ? "received" : "partially_received",
+        receivedAt: fullyReceived ? new Date() : null,
+      }).where(eq(purchaseOrders.id, id)).returning();
+
+      return { ...updatedOrder, items: updatedItems };
+    });
+  }
+
+  async submitPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const order = await this.getPurchaseOrder(id);
+    if (!order) return undefined;
+    if (order.status !== "draft") {
+      throw new StorageError(`Cannot submit a purchase order that is ${order.status.replace("_", " ")}`);
+    }
+
+    const expectedAt = await this.expectedDelivery(order.supplierId, (order.items ?? []).map(item => item.productId));
+    const result = await db.update(purchaseOrders)
+      .set({ status: "pending", expectedAt })
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, "draft")))
+      .returning();
+    if (!result[0]) {
+      throw new StorageError("Purchase order changed while submitting; please retry");
+    }
+    return result[0];
+  }
+
+  // Today plus the longest lead time among the lines: a catalog entry's own lead
+  // time where it has one, otherwise the supplier's
+  private async expectedDelivery(supplierId: string, productIds: string[]): Promise<Date> {
+    const supplier = await this.getSupplier(supplierId);
+    const catalog = await this.getSupplierProducts({ supplierId });
+    const leadTimes = productIds.map(productId =>
+      catalog.find(entry => entry.productId === productId)?.leadTimeDays ?? supplier?.leadTimeDays ?? 0
+    );
+    return new Date(Date.now() + Math.max(0, ...leadTimes) * 24 * 60 * 60 * 1000);
+  }
+
+  // Suggestions for one location (the default if none is given), from its own
+  // stock, minimum level, sales and deliveries. Sales and purchase orders
+  // without a location belong to the default location.
+  async getReorderSuggestions(locationId?: string): Promise<ReorderSuggestionGroup[]> {
+    const defaultLocation = await this.getDefaultLocation();
+    const targetLocationId = locationId || defaultLocation.id;
+    const isDefault = targetLocationId === defaultLocation.id;
+    const settings = await this.getSystemSettings();
+    const coverDays = settings?.reorderCoverDays ?? 14;
+    const velocityDays = settings?.salesVelocityDays ?? 30;
+    const since = new Date(Date.now() - velocityDays * 24 * 60 * 60 * 1000);
+
+    const candidates = await db
+      .select({ product: products, category: categories.name, supplier: suppliers.name })
+      .from(products)
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .leftJoin(suppliers, eq(products.supplierId, suppliers.id))
+      .where(and(eq(products.isActive, true), eq(products.trackStock, true)))
+      .orderBy(asc(products.name));
+
+    const sold = await db
+      .select({ productId: saleItems.productId, quantity: sql<number>`sum(${saleItems.quantity})::int` })
+      .from(saleItems)
+      .innerJoin(sales, eq(saleItems.saleId, sales.id))
+      .where(and(
+        gte(sales.createdAt, since),
+        isDefault ? or(eq(sales.locationId, targetLocationId), isNull(sales.locationId)) : eq(sales.locationId, targetLocationId),
+      ))
+      .groupBy(saleItems.productId);
+    const soldByProduct = new Map(sold.map(row => [row.productId, row.quantity]));
+
+    // Drafts count as on order so suggestions already raised are not raised twice
+    const outstanding = await db
+      .select({
+        productId: purchaseOrderItems.productId,
+        quantity: sql<number>`sum(${purchaseOrderItems.quantity} - ${purchaseOrderItems.receivedQuantity})::int`,
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .where(and(
+        inArray(purchaseOrders.status, ["draft", "pending", "partially_received"]),
+        isDefault
+          ? or(eq(purchaseOrders.locationId, targetLocationId), isNull(purchaseOrders.locationId))
+          : eq(purchaseOrders.locationId, targetLocationId),
+      ))
+      .groupBy(purchaseOrderItems.productId);
+    const onOrderByProduct = new Map(outstanding.map(row => [row.productId, row.quantity]));
+
+    const levels = await this.getStockLevels(targetLocationId);
+    const levelByProduct = new Map(levels.map(level => [level.productId, level]));
+    const inTransitByProduct = await this.getInTransitQuantities(targetLocationId);
+    const allSuppliers = await this.getAllSuppliers();
+    const preferred = await db.select().from(supplierProducts).where(eq(supplierProducts.isPreferred, true));
+
+    const groups = new Map<string | null, ReorderSuggestionGroup>();
+    for (const row of candidates) {
+      const product = row.product;
+      const supplier = allSuppliers.find(s => s.id === product.supplierId) ?? null;
+      const terms = preferred.find(entry => entry.productId === product.id && entry.supplierId === supplier?.id);
+      const leadTimeDays = terms?.leadTimeDays ?? supplier?.leadTimeDays ?? 0;
+      const dailySales = (soldByProduct.get(product.id) ?? 0) / velocityDays;
+      const onOrder = onOrderByProduct.get(product.id) ?? 0;
+      const inTransit = inTransitByProduct.get(product.id) ?? 0;
+      const level = levelByProduct.get(product.id);
+      const onHand = level?.quantity ?? 0;
+      const minStockLevel = level?.minStockLevel ?? product.minStockLevel;
+      const targetQuantity = minStockLevel + Math.ceil(dailySales * (leadTimeDays + coverDays));
+      const shortfall = targetQuantity - (onHand + onOrder + inTransit);
+      if (shortfall <= 0) continue;
+
+      // Order at least the supplier's minimum, in whole cases
+      const packSize = terms?.packSize ?? 1;
+      const suggestedQuantity = Math.ceil(Math.max(shortfall, terms?.minOrderQuantity ?? 1) / packSize) * packSize;
+      const unitCost = terms ? this.catalogUnitCost(terms) : product.costPrice;
+
+      const group = groups.get(supplier?.id ?? null) ?? { supplier, items: [], totalCost: 0 };
+      group.items.push({
+        product: {
+          ...product,
+          category: row.category ? { name: row.category } : undefined,
+          supplier: row.supplier ? { name: row.supplier } : undefined,
+        } as ProductWithDetails,
+        onHand,
+        onOrder,
+        inTransit,
+        dailySales: Math.round(dailySales * 100) / 100,
+        targetQuantity,
+        suggestedQuantity,
+        unitCost,
+      });
+      group.totalCost += suggestedQuantity * parseFloat(unitCost);
+      groups.set(supplier?.id ?? null, group);
+    }
+
+    // Suppliers by name, with unassigned products last
+    return Array.from(groups.values())
+      .map(group => ({ ...group, totalCost: Math.round(group.totalCost * 100) / 100 }))
+      .sort((a, b) => !a.supplier ? 1 : !b.supplier ? -1 : a.supplier.name.localeCompare(b.supplier.name));
+  }
+
+  async createDraftPurchaseOrders(request: CreateDraftPurchaseOrders, userId: string): Promise<PurchaseOrder[]> {
+    const locationId = request.locationId || (await this.getDefaultLocation()).id;
+    const productIds = Array.from(new Set(request.orders.flatMap(order => order.items.map(item => item.productId))));
+    const orderedProducts = await this.getProductsByIds(productIds);
+    const missing = productIds.filter(id => !orderedProducts.some(p => p.id === id));
+    if (missing.length > 0) {
+      throw new StorageError("Some products on these orders no longer exist", 400, { productIds: missing });
+    }
+
+    return await db.transaction(async (tx) => {
+      const created: PurchaseOrder[] = [];
+      for (const [index, order] of Array.from(request.orders.entries())) {
+        const [supplier] = await tx.select().from(suppliers).where(eq(suppliers.id, order.supplierId));
+        if (!supplier) {
+          throw new StorageError("Supplier not found", 404, { supplierId: order.supplierId });
+        }
+
+        const catalog = await tx.select().from(supplierProducts).where(eq(supplierProducts.supplierId, supplier.id));
+        const items = order.items.map(item => {
+          const terms = catalog.find(entry => entry.productId === item.productId);
+          const unitCost = terms
+            ? this.catalogUnitCost(terms)
+            : orderedProducts.find(p => p.id === item.productId)!.costPrice;
+          return {
+            productId: item.productId,
+            quantity: item.quantity,
+            unitCost,
+            totalCost: (item.quantity * parseFloat(unitCost)).toFixed(2),
+          };
+        });
+        const totalAmount = items.reduce((sum, item) => sum + parseFloat(item.totalCost), 0);
+
+        const [purchaseOrder] = await tx.insert(purchaseOrders).values({
+          orderNumber: `PO-${Date.now()}-${index + 1}`,
+          supplierId: supplier.id,
+          locationId,
+          status: "draft",
+          totalAmount: totalAmount.toFixed(2),
+          userId,
+        }).returning();
+        await tx.insert(purchaseOrderItems).values(items.map(item => ({ ...item, purchaseOrderId: purchaseOrder.id })));
+        created.push(purchaseOrder);
+      }
+      return created;
+    });
   }
 
   // Dashboard methods
@@ -640,14 +3629,407 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getTopProducts(limit = 5): Promise<Array<{ product: Product; totalSold: number; revenue: number }>> {
-    // This would require complex aggregation - for now return empty array
-    return [];
+  // Units and revenue are net of returns taken in the period. Variants are
+  // counted under their parent product.
+  async getTopProducts(filters: TopProductsFilters = {}): Promise<TopProduct[]> {
+    const timeZone = await this.getReportTimeZone();
+    const rolledUpId = sql<string>`coalesce(${products.parentId}, ${products.id})`;
+
+    const sold = db
+      .select({
+        productId: sql<string>`${rolledUpId}`.as("sold_product_id"),
+        quantity: sql<number>`sum(${saleItems.quantity})`.as("sold_quantity"),
+        revenue: sql<number>`sum(CAST(${saleItems.totalPrice} AS DECIMAL))`.as("sold_revenue"),
+      })
+      .from(saleItems)
+      .innerJoin(sales, eq(saleItems.saleId, sales.id))
+      .innerJoin(products, eq(saleItems.productId, products.id))
+      .where(and(...this.salesReportConditions(filters, timeZone)))
+      .groupBy(rolledUpId)
+      .as("sold");
+    const returned = db
+      .select({
+        productId: sql<string>`${rolledUpId}`.as("returned_product_id"),
+        quantity: sql<number>`sum(${returns.quantity})`.as("returned_quantity"),
+        revenue: sql<number>`sum(${refundAtLineValue})`.as("returned_revenue"),
+      })
+      .from(returns)
+      .innerJoin(sales, eq(returns.saleId, sales.id))
+      .innerJoin(products, eq(returns.productId, products.id))
+      .where(and(...this.returnsReportConditions(filters, timeZone)))
+      .groupBy(rolledUpId)
+      .as("returned");
+
+    const totalSold = sql<number>`${sold.quantity} - coalesce(${returned.quantity}, 0)`.mapWith(Number);
+    const revenue = sql<number>`${sold.revenue} - coalesce(${returned.revenue}, 0)`.mapWith(Number);
+    const result = await db
+      .select({
+        product: products,
+        category: categories.name,
+        supplier: suppliers.name,
+        totalSold,
+        revenue,
+      })
+      .from(sold)
+      .innerJoin(products, sql`${products.id} = ${sold.productId}`)
+      .leftJoin(returned, sql`${returned.productId} = ${sold.productId}`)
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .leftJoin(suppliers, eq(products.supplierId, suppliers.id))
+      .orderBy(filters.rankBy === "revenue" ? desc(revenue) : desc(totalSold), desc(filters.rankBy === "revenue" ? totalSold : revenue))
+      .limit(filters.limit ?? 5);
+
+    return result.map(row => ({
+      product: {
+        ...row.product,
+        category: row.category ? { name: row.category } : undefined,
+        supplier: row.supplier ? { name: row.supplier } : undefined,
+      } as ProductWithDetails,
+      totalSold: row.totalSold || 0,
+      revenue: Math.round((row.revenue || 0) * 100) / 100,
+    }));
+  }
+
+  async getSalesData(filters: SalesReportFilters = {}): Promise<SalesDataPoint[]> {
+    const timeZone = await this.getReportTimeZone();
+    const { startDate, endDate } = this.resolveReportRange(filters, timeZone);
+    const day = sql<string>`to_char(${this.localSaleDate(timeZone)}, 'YYYY-MM-DD')`;
+    const conditions = this.salesReportConditions({ ...filters, startDate, endDate }, timeZone);
+
+    // With a category filter only the matching lines count towards a day's sales
+    // and only line discounts can be attributed; otherwise the full sale total
+    // (including tax) and all discounts given are used.
+    const result = filters.categoryId
+      ? await db
+          .select({
+            date: day,
+            sales: sql<number>`sum(CAST(${saleItems.totalPrice} AS DECIMAL))`.mapWith(Number),
+            transactions: sql<number>`count(distinct ${sales.id})`.mapWith(Number),
+            discounts: sql<number>`sum(CAST(${saleItems.discountAmount} AS DECIMAL) + CAST(${saleItems.promotionDiscount} AS DECIMAL))`.mapWith(Number),
+          })
+          .from(saleItems)
+          .innerJoin(sales, eq(saleItems.saleId, sales.id))
+          .innerJoin(products, eq(saleItems.productId, products.id))
+          .where(and(...conditions))
+          .groupBy(day)
+      : await db
+          .select({
+            date: day,
+            sales: sql<number>`sum(CAST(${sales.total} AS DECIMAL))`.mapWith(Number),
+            transactions: sql<number>`count(*)`.mapWith(Number),
+            discounts: sql<number>`sum(CAST(${sales.discountAmount} AS DECIMAL))`.mapWith(Number),
+          })
+          .from(sales)
+          .where(and(...conditions))
+          .groupBy(day);
+
+    // Refunds come off the day they were given, on the same basis as the sales
+    const returnDay = sql<string>`to_char(${this.localDate(returns.createdAt, timeZone)}, 'YYYY-MM-DD')`;
+    const refunds = await db
+      .select({
+        date: returnDay,
+        amount: (filters.categoryId
+          ? sql<number>`sum(${refundAtLineValue})`
+          : sql<number>`sum(CAST(${returns.refundAmount} AS DECIMAL))`).mapWith(Number),
+      })
+      .from(returns)
+      .innerJoin(sales, eq(returns.saleId, sales.id))
+      .innerJoin(products, eq(returns.productId, products.id))
+      .where(and(...this.returnsReportConditions({ ...filters, startDate, endDate }, timeZone)))
+      .groupBy(returnDay);
+
+    const byDate = new Map(result.map(row => [row.date, row]));
+    const refundsByDate = new Map(refunds.map(row => [row.date, row.amount]));
+    const points: SalesDataPoint[] = [];
+
+    // Zero-fill every calendar day in the range so charts have no gaps
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      const row = byDate.get(date);
+      points.push({
+        date,
+        sales: Math.round(((row?.sales || 0) - (refundsByDate.get(date) || 0)) * 100) / 100,
+        transactions: row?.transactions || 0,
+        discounts: row?.discounts || 0,
+      });
+    }
+
+    return points;
+  }
+
+  // Payments per tender type. Payments cannot be split by category, so only the
+  // date range and cashier filters apply.
+  async getRevenueByTender(filters: SalesReportFilters = {}): Promise<TenderBreakdown[]> {
+    const timeZone = await this.getReportTimeZone();
+    const conditions = this.salesReportConditions({ ...filters, categoryId: undefined }, timeZone);
+
+    const result = await db
+      .select({
+        method: salePayments.method,
+        amount: sql<number>`sum(CAST(${salePayments.amount} AS DECIMAL))`.mapWith(Number),
+        transactions: sql<number>`count(distinct ${sales.id})`.mapWith(Number),
+      })
+      .from(salePayments)
+      .innerJoin(sales, eq(salePayments.saleId, sales.id))
+      .where(and(...conditions))
+      .groupBy(salePayments.method)
+      .orderBy(desc(sql`sum(CAST(${salePayments.amount} AS DECIMAL))`));
+
+    return result;
+  }
+
+  // Revenue is net of tax and returns. Lines sold (or returned) before cost
+  // layers existed are costed at today's catalogue cost price.
+  async getGrossProfit(filters: SalesReportFilters = {}): Promise<GrossProfit> {
+    const timeZone = await this.getReportTimeZone();
+    const conditions = this.salesReportConditions(filters, timeZone);
+
+    const [lines] = await db
+      .select({
+        revenue: sql<number>`coalesce(sum(CAST(${saleItems.totalPrice} AS DECIMAL)), 0)`.mapWith(Number),
+        costOfGoods: sql<number>`coalesce(sum(coalesce(CAST(${saleItems.costOfGoods} AS DECIMAL), ${saleItems.quantity} * CAST(${products.costPrice} AS DECIMAL))), 0)`.mapWith(Number),
+      })
+      .from(saleItems)
+      .innerJoin(sales, eq(saleItems.saleId, sales.id))
+      .innerJoin(products, eq(saleItems.productId, products.id))
+      .where(and(...conditions));
+
+    // Cart discounts are only known per sale, so without a category filter the
+    // sale totals are used for revenue
+    let revenue = lines.revenue;
+    if (!filters.categoryId) {
+      const [totals] = await db
+        .select({ revenue: sql<number>`coalesce(sum(CAST(${sales.total} AS DECIMAL) - CAST(${sales.taxAmount} AS DECIMAL)), 0)`.mapWith(Number) })
+        .from(sales)
+        .where(and(...conditions));
+      revenue = totals.revenue;
+    }
+
+    // Returns taken in the period give back their revenue, and the cost of the
+    // units put back into stock is no longer an expense
+    const [refunded] = await db
+      .select({
+        revenue: (filters.categoryId
+          ? sql<number>`coalesce(sum(${refundAtLineValue}), 0)`
+          : sql<number>`coalesce(sum(${refundNetOfTax}), 0)`).mapWith(Number),
+        costOfGoods: sql<number>`coalesce(sum(coalesce(CAST(${returns.costOfGoods} AS DECIMAL), ${returns.quantity} * CAST(${products.costPrice} AS DECIMAL))), 0)`.mapWith(Number),
+      })
+      .from(returns)
+      .innerJoin(sales, eq(returns.saleId, sales.id))
+      .innerJoin(products, eq(returns.productId, products.id))
+      .where(and(...this.returnsReportConditions(filters, timeZone)));
+    revenue -= refunded.revenue;
+    const costOfGoods = lines.costOfGoods - refunded.costOfGoods;
+
+    const grossProfit = revenue - costOfGoods;
+    return {
+      revenue,
+      costOfGoods,
+      grossProfit,
+      margin: revenue > 0 ? (grossProfit / revenue) * 100 : 0,
+    };
+  }
+
+  private async getReportTimeZone(): Promise<string> {
+    const settings = await this.getSystemSettings();
+    const timeZone = settings?.timezone || "UTC";
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return timeZone;
+    } catch {
+      return "UTC";
+    }
+  }
+
+  // Sale timestamps are stored in UTC; convert to the configured zone before taking the date
+  private localSaleDate(timeZone: string) {
+    return this.localDate(sales.createdAt, timeZone);
+  }
+
+  private localDate(column: AnyPgColumn, timeZone: string) {
+    return sql`((${column} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date`;
+  }
+
+  // A start date alone runs to today, so the span is checked here as well
+  private resolveReportRange(filters: SalesReportFilters, timeZone: string): { startDate: string; endDate: string } {
+    const endDate = filters.endDate || localDateString(new Date(), timeZone);
+    const startDate = filters.startDate || addDays(endDate, -((filters.days || 7) - 1));
+    if (startDate > endDate) {
+      throw new StorageError("Start date must be on or before the end date", 400);
+    }
+    if (addDays(startDate, maxReportDays - 1) < endDate) {
+      throw new StorageError(`Reports can cover at most ${maxReportDays} days`, 400);
+    }
+    return { startDate, endDate };
   }
 
-  async getSalesData(days: number): Promise<Array<{ date: string; sales: number; transactions: number }>> {
-    // This would require date aggregation - for now return empty array
-    return [];
+  // Returns are dated when they were taken; the cashier filter still means the
+  // cashier who made the sale
+  private returnsReportConditions(filters: SalesReportFilters, timeZone: string) {
+    return this.salesReportConditions(filters, timeZone, this.localDate(returns.createdAt, timeZone));
+  }
+
+  private salesReportConditions(filters: SalesReportFilters, timeZone: string, date = this.localSaleDate(timeZone)) {
+    const conditions = [];
+
+    if (filters.startDate || filters.endDate || filters.days) {
+      const { startDate, endDate } = this.resolveReportRange(filters, timeZone);
+      conditions.push(sql`${date} >= ${startDate}::date`);
+      conditions.push(sql`${date} <= ${endDate}::date`);
+    }
+    if (filters.categoryId) {
+      conditions.push(eq(products.categoryId, filters.categoryId));
+    }
+    if (filters.userId) {
+      conditions.push(eq(sales.userId, filters.userId));
+    }
+
+    return conditions;
+  }
+
+  // Promotion methods
+  async getPromotion(id: string): Promise<Promotion | undefined> {
+    const result = await db.select().from(promotions).where(eq(promotions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getAllPromotions(): Promise<PromotionWithUsage[]> {
+    const usage = db
+      .select({
+        promotionId: salePromotions.promotionId,
+        timesApplied: sql<number>`count(distinct ${salePromotions.saleId})`.as("times_applied"),
+        discountGiven: sql<string>`sum(CAST(${salePromotions.discountAmount} AS DECIMAL))`.as("discount_given"),
+      })
+      .from(salePromotions)
+      .groupBy(salePromotions.promotionId)
+      .as("usage");
+
+    const result = await db
+      .select({
+        promotion: promotions,
+        categoryName: categories.name,
+        supplierName: suppliers.name,
+        timesApplied: usage.timesApplied,
+        discountGiven: usage.discountGiven,
+      })
+      .from(promotions)
+      .leftJoin(categories, eq(promotions.categoryId, categories.id))
+      .leftJoin(suppliers, eq(promotions.supplierId, suppliers.id))
+      .leftJoin(usage, eq(usage.promotionId, promotions.id))
+      .orderBy(desc(promotions.priority), desc(promotions.createdAt));
+
+    return result.map(row => ({
+      ...row.promotion,
+      category: row.categoryName ? { name: row.categoryName } : null,
+      supplier: row.supplierName ? { name: row.supplierName } : null,
+      timesApplied: Number(row.timesApplied ?? 0),
+      discountGiven: parseFloat(row.discountGiven ?? "0"),
+    }));
+  }
+
+  // Schedules (days, happy hours) are evaluated by the pricing engine
+  async getActivePromotions(): Promise<Promotion[]> {
+    return await db.select().from(promotions)
+      .where(eq(promotions.isActive, true))
+      .orderBy(desc(promotions.priority));
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    const result = await db.insert(promotions).values(promotion).returning();
+    return result[0];
+  }
+
+  async updatePromotion(id: string, promotion: InsertPromotion): Promise<Promotion | undefined> {
+    const result = await db.update(promotions).set(promotion).where(eq(promotions.id, id)).returning();
+    return result[0];
+  }
+
+  async deletePromotion(id: string): Promise<boolean> {
+    const [used] = await db.select({ id: salePromotions.id }).from(salePromotions)
+      .where(eq(salePromotions.promotionId, id)).limit(1);
+    if (used) {
+      throw new StorageError("This promotion has been applied to sales; deactivate it instead");
+    }
+    const result = await db.delete(promotions).where(eq(promotions.id, id));
+    return (result as any).rowCount > 0;
+  }
+
+  // Session methods
+  async createSession(session: InsertSession): Promise<Session> {
+    const result = await db.insert(sessions).values(session).returning();
+    return result[0];
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const result = await db.select().from(sessions).where(eq(sessions.id, id)).limit(1);
+    return result[0];
+  }
+
+  // Matches the current refresh token or the one it replaced
+  async getSessionByTokenHash(tokenHash: string): Promise<Session | undefined> {
+    const result = await db.select().from(sessions)
+      .where(or(eq(sessions.refreshTokenHash, tokenHash), eq(sessions.previousTokenHash, tokenHash)))
+      .limit(1);
+    return result[0];
+  }
+
+  // Swap in a new refresh token. Returns nothing if another request rotated it first.
+  async rotateSession(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<Session | undefined> {
+    const now = new Date();
+    const result = await db.update(sessions)
+      .set({ refreshTokenHash: nextHash, previousTokenHash: currentHash, rotatedAt: now, lastUsedAt: now, expiresAt })
+      .where(and(eq(sessions.id, id), eq(sessions.refreshTokenHash, currentHash), isNull(sessions.revokedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async getActiveSessions(userId: string): Promise<Session[]> {
+    return await db.select().from(sessions)
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  async revokeSession(id: string): Promise<boolean> {
+    const result = await db.update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)));
+    return (result as any).rowCount > 0;
+  }
+
+  async revokeUserSessions(userId: string): Promise<number> {
+    const result = await db.update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)));
+    return (result as any).rowCount ?? 0;
+  }
+
+  // Audit log methods
+  async createAuditEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const result = await db.insert(auditLog).values(entry).returning();
+    return result[0];
+  }
+
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const timeZone = await this.getReportTimeZone();
+    const localDate = sql`((${auditLog.createdAt} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date`;
+    const conditions = [];
+
+    if (filters.userId) conditions.push(eq(auditLog.userId, filters.userId));
+    if (filters.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+    if (filters.action) conditions.push(eq(auditLog.action, filters.action));
+    if (filters.startDate) conditions.push(sql`${localDate} >= ${filters.startDate}::date`);
+    if (filters.endDate) conditions.push(sql`${localDate} <= ${filters.endDate}::date`);
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const [entries, [{ total }]] = await Promise.all([
+      db.select().from(auditLog)
+        .where(where)
+        .orderBy(desc(auditLog.createdAt))
+        .limit(filters.limit ?? 50)
+        .offset(filters.offset ?? 0),
+      db.select({ total: sql<number>`count(*)::int` }).from(auditLog).where(where),
+    ]);
+
+    return { entries, total };
   }
 
   // System Settings methods
@@ -678,4 +4060,20 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
+// Calendar date (YYYY-MM-DD) of an instant in the given IANA time zone
+function localDateString(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
 export const storage = new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,129 @@
+// Barcode encoding shared by the server (validation and allocation) and the
+// label designer (rendering). Patterns are strings of modules: "1" bar, "0" space.
+
+export type BarcodeFormat = "ean13" | "code128";
+
+// GS1 check digit for EAN-8/UPC-A/EAN-13/GTIN-14 bodies (the code without its last digit)
+export function gtinCheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidGtin(code: string): boolean {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(code)) return false;
+  return gtinCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+// Printable ASCII, which Code 128 set B covers
+const CODE128_CHARS = /^[\x20-\x7e]{1,48}$/;
+
+// Numeric codes of a GTIN length must carry a valid check digit; anything else
+// is printed as Code 128
+export function validateBarcode(code: string): string | null {
+  if (/^\d+$/.test(code) && [8, 12, 13, 14].includes(code.length)) {
+    return isValidGtin(code) ? null : "Barcode check digit is invalid";
+  }
+  return CODE128_CHARS.test(code) ? null : "Barcode may only contain printable characters (max 48)";
+}
+
+export function barcodeFormatFor(code: string): BarcodeFormat {
+  return /^\d{13}$/.test(code) && isValidGtin(code) ? "ean13" : "code128";
+}
+
+// EAN-13
+
+const EAN_RIGHT = ["1110010", "1100110", "1101100", "1000010", "1011100", "1001110", "1010000", "1000100", "1001000", "1110100"];
+const EAN_LEFT_ODD = EAN_RIGHT.map(pattern => pattern.replace(/./g, bit => (bit === "1" ? "0" : "1")));
+const EAN_LEFT_EVEN = EAN_RIGHT.map(pattern => pattern.split("").reverse().join(""));
+// Which left-hand digits use even parity, selected by the first digit
+const EAN_PARITY = ["OOOOOO", "OOEOEE", "OOEEOE", "OOEEEO", "OEOOEE", "OEEOOE", "OEEEOO", "OEOEOE", "OEOEEO", "OEEOEO"];
+
+export function encodeEan13(code: string): string {
+  if (!/^\d{13}$/.test(code) || !isValidGtin(code)) {
+    throw new Error(`Invalid EAN-13: ${code}`);
+  }
+  const digits = code.split("").map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits.slice(1, 7)
+    .map((digit, i) => (parity[i] === "E" ? EAN_LEFT_EVEN : EAN_LEFT_ODD)[digit])
+    .join("");
+  const right = digits.slice(7).map(digit => EAN_RIGHT[digit]).join("");
+  return `101${left}01010${right}101`;
+}
+
+// Code 128
+
+// Bar/space widths for symbol values 0-106 (103-105 are starts A/B/C, 106 is stop)
+const CODE128_WIDTHS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+function widthsToModules(widths: string): string {
+  return widths.split("").map((width, i) => (i % 2 === 0 ? "1" : "0").repeat(Number(width))).join("");
+}
+
+export function encodeCode128(value: string): string {
+  if (!CODE128_CHARS.test(value)) {
+    throw new Error(`Cannot encode as Code 128: ${value}`);
+  }
+  // Set C packs digit pairs into one symbol, so all-numeric codes print at half the width
+  const symbols = /^(\d\d)+$/.test(value)
+    ? [CODE128_START_C, ...(value.match(/\d\d/g) ?? []).map(Number)]
+    : [CODE128_START_B, ...value.split("").map(char => char.charCodeAt(0) - 32)];
+  const checksum = symbols.reduce((sum, symbol, i) => sum + symbol * Math.max(i, 1), 0) % 103;
+  return [...symbols, checksum, CODE128_STOP].map(symbol => widthsToModules(CODE128_WIDTHS[symbol])).join("");
+}
+
+export function encodeBarcode(code: string): { format: BarcodeFormat; modules: string } {
+  const format = barcodeFormatFor(code);
+  return { format, modules: format === "ean13" ? encodeEan13(code) : encodeCode128(code) };
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Standalone SVG with a quiet zone either side and the human-readable code underneath.
+// Dimensions are in modules so the caller can scale it to the label with CSS.
+export function barcodeSvg(code: string, options: { height?: number; showText?: boolean } = {}): string {
+  const { modules } = encodeBarcode(code);
+  const quietZone = 10;
+  const barHeight = options.height ?? 50;
+  const showText = options.showText ?? true;
+  const width = modules.length + quietZone * 2;
+  const height = barHeight + (showText ? 12 : 0);
+
+  let bars = "";
+  for (let i = 0; i < modules.length;) {
+    if (modules[i] !== "1") {
+      i++;
+      continue;
+    }
+    let run = 1;
+    while (modules[i + run] === "1") run++;
+    bars += `<rect x="${quietZone + i}" y="0" width="${run}" height="${barHeight}"/>`;
+    i += run;
+  }
+  const text = showText
+    ? `<text x="${width / 2}" y="${height - 1}" font-family="monospace" font-size="10" text-anchor="middle">${escapeXml(code)}</text>`
+    : "";
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none" shape-rendering="crispEdges">`
+    + `<rect width="100%" height="100%" fill="#fff"/><g fill="#000">${bars}</g>${text}</svg>`;
+}
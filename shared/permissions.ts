@@ -0,0 +1,55 @@
+// Fine-grained permissions. Roles are named sets of these; routes check the
+// permission rather than the role name.
+export const permissions = {
+  "sales.create": "Ring up sales at the POS",
+  "sales.refund": "Process returns and refunds",
+  "sales.refund_over_cash": "Give or approve cash refunds above the cash a sale was paid with",
+  "shifts.manage": "View every shift's Z-report and close other cashiers' shifts",
+  "products.edit": "Create and edit products and barcodes",
+  "products.edit_price": "Change product cost and selling prices",
+  "products.delete": "Delete products",
+  "inventory.adjust": "Adjust stock levels",
+  "inventory.transfer": "Create, send and receive stock transfers between locations",
+  "inventory.count": "Enter counts on open stocktakes",
+  "locations.manage": "Create and edit stores and warehouses",
+  "categories.edit": "Create and edit categories",
+  "categories.delete": "Delete categories",
+  "suppliers.edit": "Create and edit suppliers",
+  "suppliers.delete": "Delete suppliers",
+  "customers.delete": "Delete customers",
+  "purchase_orders.view": "View purchase orders",
+  "purchase_orders.manage": "Create, receive and cancel purchase orders",
+  "reports.cost": "View stock valuation, cost of goods and gross profit",
+  "promotions.manage": "Create and edit promotions",
+  "settings.read": "View system settings",
+  "settings.write": "Change system settings",
+  "users.manage": "Manage users and roles",
+  "audit.view": "View the audit log",
+} as const;
+
+export type Permission = keyof typeof permissions;
+
+export const allPermissions = Object.keys(permissions) as Permission[];
+
+// Seeded on startup. The admin role always holds every permission so new ones
+// reach it without a data migration.
+export const ADMIN_ROLE = "admin";
+
+export const defaultRoles: { name: string; description: string; permissions: Permission[] }[] = [
+  { name: ADMIN_ROLE, description: "Full access", permissions: allPermissions },
+  {
+    name: "manager",
+    description: "Runs the store day to day",
+    permissions: [
+      "sales.create", "sales.refund", "sales.refund_over_cash", "shifts.manage",
+      "products.edit", "products.edit_price", "inventory.adjust", "inventory.transfer", "inventory.count",
+      "categories.edit", "suppliers.edit", "customers.delete",
+      "purchase_orders.view", "purchase_orders.manage", "promotions.manage", "reports.cost",
+    ],
+  },
+  { name: "cashier", description: "Works the till", permissions: ["sales.create", "sales.refund", "inventory.count"] },
+];
+
+export function hasPermission(user: { permissions?: string[] } | null | undefined, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
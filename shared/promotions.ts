@@ -0,0 +1,179 @@
+import type { Promotion } from "./schema";
+
+// Promotion engine shared by the till (for the running total) and the server
+// (which is authoritative). All amounts are integer cents.
+
+export type PromotionLine = {
+  productId: string;
+  categoryId: string | null;
+  supplierId: string | null;
+  quantity: number;
+  unitPrice: number;
+};
+
+export type PromotionAllocation = {
+  lineIndex: number;
+  promotionId: string;
+  amount: number;
+};
+
+export type PromotionResult = {
+  // Discount per input line, in the same order
+  lineDiscounts: number[];
+  allocations: PromotionAllocation[];
+};
+
+// A line's units not yet discounted; every unit of a line has the same price,
+// so units are counted rather than listed
+type Pool = { lineIndex: number; price: number; available: number };
+
+// A run of `count` units taken from one pool
+type Take = { pool: Pool; count: number };
+
+// Local weekday and HH:MM for `now` in the store's time zone
+function localClock(now: Date, timeZone: string): { day: number; time: string } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone, weekday: "short", hour: "2-digit", minute: "2-digit", hourCycle: "h23",
+    }).formatToParts(now);
+  } catch {
+    return localClock(now, "UTC");
+  }
+  const get = (type: string) => parts.find(part => part.type === type)?.value ?? "";
+  const day = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(get("weekday"));
+  return { day, time: `${get("hour")}:${get("minute")}` };
+}
+
+export function isPromotionRunning(promotion: Promotion, now: Date, timeZone: string): boolean {
+  if (!promotion.isActive) return false;
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) return false;
+  if (promotion.endsAt && now > new Date(promotion.endsAt)) return false;
+
+  const { day, time } = localClock(now, timeZone);
+  if (promotion.daysOfWeek && promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(day)) {
+    return false;
+  }
+  if (promotion.startTime && promotion.endTime) {
+    // Windows such as 22:00-02:00 wrap past midnight
+    const inWindow = promotion.startTime <= promotion.endTime
+      ? time >= promotion.startTime && time < promotion.endTime
+      : time >= promotion.startTime || time < promotion.endTime;
+    if (!inWindow) return false;
+  }
+  return true;
+}
+
+function targets(promotion: Promotion, line: PromotionLine): boolean {
+  if (promotion.productIds.length > 0 && !promotion.productIds.includes(line.productId)) return false;
+  if (promotion.categoryId && promotion.categoryId !== line.categoryId) return false;
+  if (promotion.supplierId && promotion.supplierId !== line.supplierId) return false;
+  return true;
+}
+
+// Spread `amount` over the units taken in proportion to their price, without
+// losing cents: each unit gets its floored share and the last unit the rest
+function spread(takes: Take[], amount: number): number[] {
+  const total = takes.reduce((sum, take) => sum + take.pool.price * take.count, 0);
+  let remaining = amount;
+  return takes.map((take, index) => {
+    const share = total === 0 ? 0 : Math.floor(amount * take.pool.price / total);
+    if (index === takes.length - 1) return remaining;
+    remaining -= share * take.count;
+    return share * take.count;
+  });
+}
+
+// Takes the next `count` units in order from `pools`, advancing past empty ones
+function takeUnits(pools: Pool[], count: number): Take[] {
+  const takes: Take[] = [];
+  for (const pool of pools) {
+    if (count === 0) break;
+    const taken = Math.min(pool.available, count);
+    if (taken === 0) continue;
+    takes.push({ pool, count: taken });
+    count -= taken;
+  }
+  return takes;
+}
+
+// Apply running promotions to a cart. Promotions are tried in priority order
+// and each unit is discounted by at most one promotion.
+export function applyPromotions(
+  lines: PromotionLine[],
+  promotions: Promotion[],
+  now: Date = new Date(),
+  timeZone = "UTC",
+): PromotionResult {
+  const pools: Pool[] = lines.map((line, lineIndex) => ({ lineIndex, price: line.unitPrice, available: line.quantity }));
+  const discounts = new Map<string, number>(); // `${lineIndex}:${promotionId}` -> cents
+
+  const give = (take: Take, promotionId: string, amount: number) => {
+    take.pool.available -= take.count;
+    if (amount <= 0) return;
+    const key = `${take.pool.lineIndex}:${promotionId}`;
+    discounts.set(key, (discounts.get(key) ?? 0) + amount);
+  };
+
+  const running = promotions
+    .filter(promotion => isPromotionRunning(promotion, now, timeZone))
+    .sort((a, b) => b.priority - a.priority);
+
+  for (const promotion of running) {
+    // Most expensive first, so free and bundled units come from the cheaper end of each group
+    const eligible = pools
+      .filter(pool => pool.available > 0 && targets(promotion, lines[pool.lineIndex]))
+      .sort((a, b) => b.price - a.price);
+    const eligibleCount = eligible.reduce((sum, pool) => sum + pool.available, 0);
+
+    if (promotion.type === "buy_x_get_y" && promotion.buyQuantity && promotion.getQuantity) {
+      const buy = promotion.buyQuantity;
+      const groupSize = buy + promotion.getQuantity;
+      const groups = Math.floor(eligibleCount / groupSize);
+      // Units in whole groups are used up; the last `get` of each group are free.
+      // freeBefore(n) counts the free units among the first n.
+      const freeBefore = (n: number) => Math.floor(n / groupSize) * promotion.getQuantity! + Math.max(0, n % groupSize - buy);
+      let position = 0;
+      for (const pool of eligible) {
+        const start = position;
+        const end = Math.min(position + pool.available, groups * groupSize);
+        position += pool.available;
+        if (end <= start) break;
+        const free = freeBefore(end) - freeBefore(start);
+        give({ pool, count: end - start }, promotion.id, free * pool.price);
+      }
+    } else if (promotion.type === "bundle" && promotion.bundleQuantity && promotion.bundlePrice) {
+      const size = promotion.bundleQuantity;
+      const bundlePrice = Math.round(parseFloat(promotion.bundlePrice) * 100);
+      let remaining = eligibleCount;
+      while (remaining >= size) {
+        const pool = eligible.find(candidate => candidate.available > 0)!;
+        // Whole bundles inside one line are alike, so they are applied together
+        const alike = Math.floor(pool.available / size);
+        const bundles = alike > 0 ? alike : 1;
+        const takes = alike > 0 ? [{ pool, count: size }] : takeUnits(eligible, size);
+        const saving = takes.reduce((sum, take) => sum + take.pool.price * take.count, 0) - bundlePrice;
+        // Skip bundles that would cost the customer more than buying separately
+        if (saving <= 0) break;
+        spread(takes, saving).forEach((amount, index) =>
+          give({ pool: takes[index].pool, count: takes[index].count * bundles }, promotion.id, amount * bundles));
+        remaining -= size * bundles;
+      }
+    } else if (promotion.type === "percent_off" && promotion.percentOff) {
+      const percent = parseFloat(promotion.percentOff);
+      for (const pool of eligible) {
+        give({ pool, count: pool.available }, promotion.id, Math.round(pool.price * percent / 100) * pool.available);
+      }
+    }
+  }
+
+  const lineDiscounts = lines.map(() => 0);
+  const allocations: PromotionAllocation[] = [];
+  discounts.forEach((amount, key) => {
+    const [lineIndex, promotionId] = key.split(":");
+    lineDiscounts[Number(lineIndex)] += amount;
+    allocations.push({ lineIndex: Number(lineIndex), promotionId, amount });
+  });
+
+  return { lineDiscounts, allocations };
+}
@@ -1,7 +1,10 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, integer, timestamp, boolean, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, integer, timestamp, date, boolean, uuid, jsonb, unique } from "drizzle-orm/pg-core";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { validateBarcode } from "./barcode";
+import { allPermissions, type Permission } from "./permissions";
 
 // Currency configuration
 export const supportedCurrencies = {
@@ -24,11 +27,38 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   email: text("email"),
   fullName: text("full_name"),
-  role: text("role").notNull().default("cashier"), // admin, manager, cashier
+  role: text("role").notNull().default("cashier"), // roles.name
+  pin: text("pin"), // hashed PIN used to approve overrides at the till
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Roles table: named sets of permissions (see shared/permissions.ts)
+export const roles = pgTable("roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  permissions: text("permissions").array().$type<Permission[]>().notNull().default(sql`ARRAY[]::text[]`),
+  isSystem: boolean("is_system").notNull().default(false), // seeded roles can't be deleted
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sessions table: one row per signed-in device. Only hashes of refresh tokens are stored.
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  // The token replaced by the last rotation; presenting it again means it was copied
+  previousTokenHash: text("previous_token_hash"),
+  rotatedAt: timestamp("rotated_at"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
 // Categories table
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -48,6 +78,7 @@ export const suppliers = pgTable("suppliers", {
   address: text("address"),
   city: text("city"),
   country: text("country"),
+  leadTimeDays: integer("lead_time_days").notNull().default(7), // order to delivery, used for reorder suggestions
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -56,6 +87,21 @@ export const systemSettings = pgTable("system_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   currency: text("currency").notNull().default("INR"),
   taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  timezone: text("timezone").notNull().default("UTC"), // IANA zone used to bucket report dates
+  priceOverrideRoles: text("price_override_roles").array().notNull().default(sql`ARRAY['admin', 'manager']::text[]`),
+  // Largest discount (% of the discounted amount) each role may give without approval; unlisted roles may give none
+  discountLimits: jsonb("discount_limits").$type<Record<string, number>>().notNull().default({ admin: 100, manager: 100, cashier: 5 }),
+  heldSaleExpiryMinutes: integer("held_sale_expiry_minutes").notNull().default(240),
+  heldSalesReserveStock: boolean("held_sales_reserve_stock").notNull().default(false),
+  // In-house EAN-13s are allocated as prefix + running number + check digit (GS1 reserves 20-29 for in-store use)
+  internalBarcodePrefix: text("internal_barcode_prefix").notNull().default("200"),
+  nextInternalBarcode: integer("next_internal_barcode").notNull().default(1),
+  costingMethod: text("costing_method").notNull().default("fifo"), // fifo, average: how sales draw on cost layers
+  // Reorder suggestions cover lead time plus this many days at the average daily
+  // sales rate over the velocity window
+  reorderCoverDays: integer("reorder_cover_days").notNull().default(14),
+  salesVelocityDays: integer("sales_velocity_days").notNull().default(30),
+  expiryAlertDays: integer("expiry_alert_days").notNull().default(30), // dashboard warns about lots expiring this soon
   companyName: text("company_name"),
   companyAddress: text("company_address"),
   companyPhone: text("company_phone"),
@@ -78,12 +124,61 @@ export const products = pgTable("products", {
   quantity: integer("quantity").notNull().default(0),
   minStockLevel: integer("min_stock_level").notNull().default(10),
   trackStock: boolean("track_stock").notNull().default(true),
+  allowBackorder: boolean("allow_backorder").notNull().default(false), // sell below zero stock
+  trackLots: boolean("track_lots").notNull().default(false), // lot number and expiry captured at receipt, sold FEFO
+  serialTracked: boolean("serial_tracked").notNull().default(false), // each unit's serial captured at receipt and sale
+  warrantyMonths: integer("warranty_months"), // from the date of sale; null = no warranty
+  reservedQuantity: integer("reserved_quantity").notNull().default(0), // held by parked sales, across all locations
+  // A parent lists the options its variants differ by and is never sold itself;
+  // each variant is a full product row with its own SKU, price and stock
+  parentId: varchar("parent_id").references((): AnyPgColumn => products.id, { onDelete: "cascade" }),
+  variantOptions: jsonb("variant_options").$type<VariantOption[]>(), // parents only, e.g. Size: S, M, L
+  variantAttributes: jsonb("variant_attributes").$type<Record<string, string>>(), // variants only, e.g. { Size: "M" }
   isActive: boolean("is_active").notNull().default(true),
   imageUrl: text("image_url"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Locations table: shops and warehouses that hold stock
+export const locations = pgTable("locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  type: text("type").notNull().default("store"), // store, warehouse
+  address: text("address"),
+  isDefault: boolean("is_default").notNull().default(false), // receives stock when no location is given
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stock on hand per product and location. products.quantity is kept equal to
+// the sum across locations so totals don't need a join.
+export const locationStock = pgTable("location_stock", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  locationId: varchar("location_id").references(() => locations.id).notNull(),
+  quantity: integer("quantity").notNull().default(0),
+  reservedQuantity: integer("reserved_quantity").notNull().default(0), // held by parked sales at this location
+  minStockLevel: integer("min_stock_level"), // null = the product's minStockLevel
+}, (table) => [unique().on(table.productId, table.locationId)]);
+
+// Supplier catalog: what each supplier sells us and on what terms. A product
+// may come from several suppliers; the preferred one is mirrored into
+// products.supplierId.
+export const supplierProducts = pgTable("supplier_products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").references(() => suppliers.id, { onDelete: "cascade" }).notNull(),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  supplierSku: text("supplier_sku"),
+  packSize: integer("pack_size").notNull().default(1), // units per case
+  caseCost: decimal("case_cost", { precision: 10, scale: 2 }).notNull(),
+  minOrderQuantity: integer("min_order_quantity").notNull().default(1), // in units
+  leadTimeDays: integer("lead_time_days"), // null = the supplier's lead time
+  isPreferred: boolean("is_preferred").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique().on(table.supplierId, table.productId)]);
+
 // Customers table
 export const customers = pgTable("customers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -97,18 +192,52 @@ export const customers = pgTable("customers", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Shifts table: one cashier's session on a register, from opening float to counted cash
+export const shifts = pgTable("shifts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  register: text("register").notNull(),
+  locationId: varchar("location_id").references(() => locations.id), // where sales on this shift take stock from
+  status: text("status").notNull().default("open"), // open, closed
+  openingFloat: decimal("opening_float", { precision: 10, scale: 2 }).notNull(),
+  // Filled in at close; expected cash is frozen so later edits can't change a Z-report
+  expectedCash: decimal("expected_cash", { precision: 10, scale: 2 }),
+  countedCash: decimal("counted_cash", { precision: 10, scale: 2 }),
+  variance: decimal("variance", { precision: 10, scale: 2 }), // counted - expected
+  closingNote: text("closing_note"),
+  closedBy: varchar("closed_by").references(() => users.id),
+  openedAt: timestamp("opened_at").defaultNow(),
+  closedAt: timestamp("closed_at"),
+});
+
+// Cash put into or taken out of a drawer outside of sales (petty cash, safe drops)
+export const cashMovements = pgTable("cash_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shiftId: varchar("shift_id").references(() => shifts.id).notNull(),
+  type: text("type").notNull(), // in, out
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // always positive
+  reason: text("reason").notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Sales table
 export const sales = pgTable("sales", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   invoiceNumber: text("invoice_number").notNull().unique(),
   customerId: varchar("customer_id").references(() => customers.id),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  shiftId: varchar("shift_id").references(() => shifts.id), // null for sales made before shifts existed
+  locationId: varchar("location_id").references(() => locations.id),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
-  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"), // promotions + line + cart discounts
+  cartDiscountType: text("cart_discount_type"), // percent, fixed
+  cartDiscountValue: decimal("cart_discount_value", { precision: 10, scale: 2 }),
+  discountApprovedBy: varchar("discount_approved_by").references(() => users.id),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
   currency: text("currency").notNull().default("INR"),
-  paymentMethod: text("payment_method").notNull(), // cash, card, transfer
+  paymentMethod: text("payment_method").notNull(), // cash, card, transfer, or split when salePayments has several methods
   status: text("status").notNull().default("completed"), // completed, refunded, partial_refund
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -119,31 +248,181 @@ export const saleItems = pgTable("sale_items", {
   saleId: varchar("sale_id").references(() => sales.id).notNull(),
   productId: varchar("product_id").references(() => products.id).notNull(),
   quantity: integer("quantity").notNull(),
+  listPrice: decimal("list_price", { precision: 10, scale: 2 }), // catalogue price at time of sale
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
-  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  discountType: text("discount_type"), // percent, fixed
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }),
+  promotionDiscount: decimal("promotion_discount", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"), // manual line discount
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(), // after promotions and line discount
+  priceOverride: boolean("price_override").notNull().default(false),
+  priceOverrideBy: varchar("price_override_by").references(() => users.id),
+  costOfGoods: decimal("cost_of_goods", { precision: 10, scale: 2 }), // from cost layers; null on sales made before they existed
+});
+
+// Held Sales table: carts parked at the till to be recalled from any terminal
+export const heldSales = pgTable("held_sales", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  customerId: varchar("customer_id").references(() => customers.id),
+  note: text("note"),
+  items: jsonb("items").$type<HeldSaleItem[]>().notNull(),
+  cartDiscount: jsonb("cart_discount").$type<Discount>(),
+  reservesStock: boolean("reserves_stock").notNull().default(false),
+  locationId: varchar("location_id").references(() => locations.id), // where stock is reserved; null on holds from before locations
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sale Payments table: one row per tender
+export const salePayments = pgTable("sale_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  saleId: varchar("sale_id").references(() => sales.id).notNull(),
+  method: text("method").notNull(), // cash, card, transfer
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // applied to the sale
+  tendered: decimal("tendered", { precision: 10, scale: 2 }).notNull(), // handed over by the customer
+  changeDue: decimal("change_due", { precision: 10, scale: 2 }).notNull().default("0"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Promotions table
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // buy_x_get_y, bundle, percent_off
+  // Targeting; a promotion with no targets applies to every product
+  productIds: text("product_ids").array().notNull().default(sql`ARRAY[]::text[]`),
+  categoryId: varchar("category_id").references(() => categories.id),
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  buyQuantity: integer("buy_quantity"), // buy_x_get_y
+  getQuantity: integer("get_quantity"), // buy_x_get_y
+  bundleQuantity: integer("bundle_quantity"), // bundle
+  bundlePrice: decimal("bundle_price", { precision: 10, scale: 2 }), // bundle
+  percentOff: decimal("percent_off", { precision: 5, scale: 2 }), // percent_off
+  // Schedule, evaluated in the store's time zone
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  daysOfWeek: integer("days_of_week").array(), // 0 = Sunday; null = every day
+  startTime: text("start_time"), // HH:MM, for happy hours
+  endTime: text("end_time"), // HH:MM
+  priority: integer("priority").notNull().default(0), // higher applies first
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Discount each promotion gave on a sale line
+export const salePromotions = pgTable("sale_promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  saleId: varchar("sale_id").references(() => sales.id).notNull(),
+  saleItemId: varchar("sale_item_id").references(() => saleItems.id).notNull(),
+  promotionId: varchar("promotion_id").references(() => promotions.id).notNull(),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
 });
 
 // Stock Movements table
 export const stockMovements = pgTable("stock_movements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   productId: varchar("product_id").references(() => products.id).notNull(),
-  movementType: text("movement_type").notNull(), // sale, purchase, adjustment, transfer
-  quantity: integer("quantity").notNull(),
+  movementType: text("movement_type").notNull(), // sale, purchase, adjustment, transfer, return
+  locationId: varchar("location_id").references(() => locations.id),
+  quantity: integer("quantity").notNull(), // signed change, so the ledger sums to the stock level
+  quantityBefore: integer("quantity_before"), // at the location; null on movements recorded before these existed
+  quantityAfter: integer("quantity_after"),
+  reasonCode: text("reason_code"), // adjustments only: damage, theft, expiry, found, correction, transfer_loss
   reason: text("reason"),
   reference: text("reference"), // sale ID, purchase order, etc.
   userId: varchar("user_id").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Cost layers: units that came into stock at one unit cost, drawn down as
+// stock goes out. Kept per product across all locations, so transfers move
+// units but not value. Under average costing the open layers are merged into one.
+export const costLayers = pgTable("cost_layers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  source: text("source").notNull(), // purchase, opening, return, adjustment, average
+  reference: text("reference"), // purchase order, sale or stocktake ID
+  quantity: integer("quantity").notNull(),
+  remainingQuantity: integer("remaining_quantity").notNull(),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Units taken from a cost layer. Kept so stock can be valued as of any date.
+export const costAllocations = pgTable("cost_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  layerId: varchar("layer_id").references(() => costLayers.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  source: text("source").notNull(), // sale, adjustment, average (merged into a new layer)
+  reference: text("reference"),
+  saleItemId: varchar("sale_item_id").references(() => saleItems.id),
+  quantity: integer("quantity").notNull(),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stock held per lot at one location. Only products with trackLots have lots;
+// lot quantities at a location never add up to more than its stock level.
+export const stockLots = pgTable("stock_lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  locationId: varchar("location_id").references(() => locations.id).notNull(),
+  lotNumber: text("lot_number").notNull(),
+  expiryDate: date("expiry_date"), // null for lots that don't expire
+  quantity: integer("quantity").notNull().default(0),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id), // first receipt of the lot
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  productLocationLot: unique().on(table.productId, table.locationId, table.lotNumber),
+}));
+
+// Units drawn from (positive) or put back into (negative) a lot, so a recalled
+// lot can be traced to the sales that took it
+export const lotAllocations = pgTable("lot_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  lotId: varchar("lot_id").references(() => stockLots.id, { onDelete: "cascade" }).notNull(),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  source: text("source").notNull(), // sale, return, adjustment, transfer, expiry
+  reference: text("reference"), // sale, transfer or stocktake ID
+  saleItemId: varchar("sale_item_id").references(() => saleItems.id),
+  quantity: integer("quantity").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per serial-numbered unit. Serials are tracked by status rather than
+// location; the sale line is kept after a return so the unit's history can be looked up.
+export const serialNumbers = pgTable("serial_numbers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  serialNumber: text("serial_number").notNull(),
+  status: text("status").notNull().default("in_stock"), // in_stock, sold, in_transit, lost, written_off
+  locationId: varchar("location_id").references(() => locations.id), // where an in-stock unit is held; null on older rows
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+  saleItemId: varchar("sale_item_id").references(() => saleItems.id), // the last sale of this unit
+  soldAt: timestamp("sold_at"),
+  returnedAt: timestamp("returned_at"), // set when the last sale was returned
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  productSerial: unique().on(table.productId, table.serialNumber),
+}));
+
 // Returns table
 export const returns = pgTable("returns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   saleId: varchar("sale_id").references(() => sales.id).notNull(),
+  saleItemId: varchar("sale_item_id").references(() => saleItems.id), // null on returns from before lines were recorded
+  refundId: varchar("refund_id"), // shared by the lines refunded together; null on returns from before it was recorded
   productId: varchar("product_id").references(() => products.id).notNull(),
   quantity: integer("quantity").notNull(),
   reason: text("reason").notNull(),
   refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull(),
+  refundMethod: text("refund_method").notNull().default("cash"), // cash, card, transfer
+  // Cost of the units put back into stock; null on returns taken before it was recorded
+  costOfGoods: decimal("cost_of_goods", { precision: 10, scale: 2 }),
+  shiftId: varchar("shift_id").references(() => shifts.id), // drawer the refund was paid from
   userId: varchar("user_id").references(() => users.id).notNull(),
+  approvedBy: varchar("approved_by").references(() => users.id), // allowed a cash refund above the cash paid
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -152,10 +431,12 @@ export const purchaseOrders = pgTable("purchase_orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderNumber: text("order_number").notNull().unique(),
   supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
-  status: text("status").notNull().default("pending"), // pending, received, cancelled
+  locationId: varchar("location_id").references(() => locations.id), // delivery location; null means the default
+  status: text("status").notNull().default("pending"), // draft, pending, partially_received, received, cancelled
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   userId: varchar("user_id").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  expectedAt: timestamp("expected_at"), // set when the order goes to the supplier, from the lead time
   receivedAt: timestamp("received_at"),
 });
 
@@ -165,16 +446,144 @@ export const purchaseOrderItems = pgTable("purchase_order_items", {
   purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id).notNull(),
   productId: varchar("product_id").references(() => products.id).notNull(),
   quantity: integer("quantity").notNull(),
+  receivedQuantity: integer("received_quantity").notNull().default(0),
   unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
   totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
 });
 
+// Stock transfers between locations. Stock leaves the source when sent and is
+// in transit until the destination receives it.
+export const stockTransfers = pgTable("stock_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transferNumber: text("transfer_number").notNull().unique(),
+  fromLocationId: varchar("from_location_id").references(() => locations.id).notNull(),
+  toLocationId: varchar("to_location_id").references(() => locations.id).notNull(),
+  status: text("status").notNull().default("draft"), // draft, in_transit, received, cancelled
+  note: text("note"),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  sentBy: varchar("sent_by").references(() => users.id),
+  sentAt: timestamp("sent_at"),
+  receivedBy: varchar("received_by").references(() => users.id),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const stockTransferItems = pgTable("stock_transfer_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transferId: varchar("transfer_id").references(() => stockTransfers.id, { onDelete: "cascade" }).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  receivedQuantity: integer("received_quantity").notNull().default(0), // short receipts leave the rest unaccounted
+  serialNumbers: jsonb("serial_numbers").$type<string[]>(), // the units sent, for serial-tracked products
+});
+
+// Stocktakes: a count of one location, optionally narrowed to a category or
+// supplier. Expected quantities and costs are frozen when the count starts.
+export const stocktakes = pgTable("stocktakes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reference: text("reference").notNull().unique(),
+  locationId: varchar("location_id").references(() => locations.id).notNull(),
+  categoryId: varchar("category_id").references(() => categories.id),
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  status: text("status").notNull().default("counting"), // counting, posted, cancelled
+  note: text("note"),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  postedBy: varchar("posted_by").references(() => users.id),
+  postedAt: timestamp("posted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const stocktakeItems = pgTable("stocktake_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stocktakeId: varchar("stocktake_id").references(() => stocktakes.id, { onDelete: "cascade" }).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  expectedQuantity: integer("expected_quantity").notNull(), // on hand when the count started
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  countedQuantity: integer("counted_quantity"), // null until someone counts it
+  // On hand when the count was last entered. Sales made while the count is open
+  // move this, so the variance compares like with like.
+  bookQuantity: integer("book_quantity"),
+  countedBy: varchar("counted_by").references(() => users.id),
+  countedAt: timestamp("counted_at"),
+}, (table) => [unique().on(table.stocktakeId, table.productId)]);
+
+// Audit log: one row per mutating API request, written by middleware
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  username: text("username"), // kept so entries survive the user being deleted
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  action: text("action").notNull(), // create, update, delete or the route's verb (receive, cancel, ...)
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id"),
+  // Changed fields only for updates; the whole record for creates and deletes. Secrets are redacted.
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  statusCode: integer("status_code").notNull(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  previousTokenHash: true,
+  rotatedAt: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const createUserSchema = insertUserSchema.omit({ pin: true }).extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const updateUserSchema = insertUserSchema.pick({
+  email: true,
+  fullName: true,
+  role: true,
+  isActive: true,
+}).partial();
+
+export const resetPasswordSchema = z.object({
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const insertRoleSchema = createInsertSchema(roles).omit({
+  id: true,
+  isSystem: true,
+  createdAt: true,
+}).extend({
+  name: z.string().regex(/^[a-z][a-z0-9_]{1,31}$/, "Role name must be lowercase letters, digits or underscores"),
+  permissions: z.array(z.enum(allPermissions as [Permission, ...Permission[]])),
+});
+
+export const locationTypes = ["store", "warehouse"] as const;
+
+export const insertLocationSchema = createInsertSchema(locations).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  type: z.enum(locationTypes),
+});
+
+export const updateLocationStockSchema = z.object({
+  minStockLevel: z.number().int().min(0).nullable(),
+});
+
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
   createdAt: true,
@@ -183,12 +592,28 @@ export const insertCategorySchema = createInsertSchema(categories).omit({
 export const insertSupplierSchema = createInsertSchema(suppliers).omit({
   id: true,
   createdAt: true,
+}).extend({
+  leadTimeDays: z.number().int().min(0).max(365).optional(),
 });
 
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
+  reservedQuantity: true,
+  // Managed through the variant matrix
+  parentId: true,
+  variantOptions: true,
+  variantAttributes: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  // Empty strings come from the product form and are saved as null
+  barcode: z.string()
+    .superRefine((code, ctx) => {
+      const error = code ? validateBarcode(code) : null;
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    })
+    .nullable()
+    .optional(),
 });
 
 export const insertCustomerSchema = createInsertSchema(customers).omit({
@@ -203,6 +628,49 @@ export const insertSaleSchema = createInsertSchema(sales).omit({
 
 export const insertSaleItemSchema = createInsertSchema(saleItems).omit({
   id: true,
+  costOfGoods: true,
+});
+
+export const insertSalePaymentSchema = createInsertSchema(salePayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Upper bound on any one quantity entered, far above a real line but low
+// enough that a typo or a crafted request can't run away with the server
+export const maxLineQuantity = 10000;
+const lineQuantity = z.number().int().max(maxLineQuantity, `Quantity can't exceed ${maxLineQuantity}`);
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+export const insertPromotionSchema = createInsertSchema(promotions, {
+  type: z.enum(["buy_x_get_y", "bundle", "percent_off"]),
+  buyQuantity: lineQuantity.positive().nullable().optional(),
+  getQuantity: lineQuantity.positive().nullable().optional(),
+  bundleQuantity: lineQuantity.min(2).nullable().optional(),
+  percentOff: z.string().regex(/^\d+(\.\d{1,2})?$/).nullable().optional(),
+  bundlePrice: z.string().regex(/^\d+(\.\d{1,2})?$/).nullable().optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+  startTime: timeOfDay.nullable().optional(),
+  endTime: timeOfDay.nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+}).superRefine((promotion, ctx) => {
+  if (promotion.type === "buy_x_get_y" && (!promotion.buyQuantity || !promotion.getQuantity)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["buyQuantity"], message: "Buy and get quantities are required" });
+  }
+  if (promotion.type === "bundle" && (!promotion.bundleQuantity || !promotion.bundlePrice)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["bundleQuantity"], message: "Bundle quantity and price are required" });
+  }
+  if (promotion.type === "percent_off" && !(parseFloat(promotion.percentOff ?? "0") > 0 && parseFloat(promotion.percentOff!) <= 100)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["percentOff"], message: "Percentage must be between 0 and 100" });
+  }
+  if (!promotion.startTime !== !promotion.endTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endTime"], message: "Set both a start and an end time" });
+  }
 });
 
 export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
@@ -210,29 +678,319 @@ export const insertStockMovementSchema = createInsertSchema(stockMovements).omit
   createdAt: true,
 });
 
+export const adjustmentReasonCodes = ["damage", "theft", "expiry", "found", "correction"] as const;
+// Recorded by the system on adjustments it makes itself; never picked by hand
+export const systemReasonCodes = ["transfer_loss"] as const;
+
+export const adjustmentReasonLabels: Record<typeof adjustmentReasonCodes[number] | typeof systemReasonCodes[number], string> = {
+  damage: "Damaged",
+  theft: "Theft",
+  expiry: "Expired",
+  found: "Found",
+  correction: "Count Correction",
+  transfer_loss: "Transfer Loss",
+};
+
+const serialNumbersSchema = z.array(z.string().trim().min(1).max(100))
+  .refine(serials => new Set(serials).size === serials.length, "Serial numbers must be unique");
+
+// A manual stock adjustment: a signed change at one location (the default if omitted)
+export const adjustStockSchema = z.object({
+  quantity: lineQuantity.min(-maxLineQuantity).refine(quantity => quantity !== 0, "Adjustment can't be zero"),
+  reasonCode: z.enum(adjustmentReasonCodes, { errorMap: () => ({ message: "Choose a reason" }) }),
+  reason: z.string().trim().max(500).nullable().optional(),
+  locationId: z.string().optional(),
+  serialNumbers: serialNumbersSchema.optional(), // one per unit for serial-tracked products
+});
+
+// Writing off an expired lot; serial-tracked products name each unit
+export const writeOffLotSchema = z.object({
+  serialNumbers: serialNumbersSchema.optional(),
+});
+
 export const insertReturnSchema = createInsertSchema(returns).omit({
   id: true,
   createdAt: true,
 });
 
+const moneyString = z.string().regex(/^\d+(\.\d{1,2})?$/, "Invalid amount");
+
+export const discountSchema = z.object({
+  type: z.enum(["percent", "fixed"]),
+  value: moneyString,
+}).refine(d => d.type !== "percent" || parseFloat(d.value) <= 100, "A percentage discount cannot exceed 100%");
+
+// Credentials of a manager approving an override at the till
+export const approvalSchema = z.object({
+  username: z.string().min(1),
+  pin: z.string().min(4),
+});
+
+// A cart line as sent by the till
+export const saleLineSchema = z.object({
+  productId: z.string(),
+  quantity: lineQuantity.positive(),
+  unitPrice: moneyString.optional(),
+  discount: discountSchema.optional(),
+  serialNumbers: serialNumbersSchema.optional(), // one per unit for serial-tracked products
+});
+
+export const paymentMethods = ["cash", "card", "transfer"] as const;
+export type PaymentMethod = typeof paymentMethods[number];
+
+// Older sales record "split" or free text as their payment method
+export const isPaymentMethod = (method: string): method is PaymentMethod =>
+  (paymentMethods as readonly string[]).includes(method);
+
+export const tenderSchema = z.object({
+  method: z.enum(paymentMethods),
+  amount: moneyString.refine(amount => parseFloat(amount) > 0, "Payment amounts must be positive"),
+});
+
+// What the till submits for a sale. Prices, tax and totals are computed by the
+// server; `unitPrice` is only sent when the cashier overrides the list price.
+// `paymentMethod` alone is accepted as a single tender for the full total.
+export const createSaleSchema = z.object({
+  sale: z.object({
+    customerId: z.string().nullable().optional(),
+    paymentMethod: z.enum(paymentMethods).optional(),
+    payments: z.array(tenderSchema).min(1).optional(),
+    discount: discountSchema.optional(),
+    approval: approvalSchema.optional(),
+  }).refine(sale => sale.paymentMethod || sale.payments, "A payment method or payments are required"),
+  items: z.array(saleLineSchema).min(1, "A sale needs at least one item"),
+});
+
+// A cart parked at the till. Expiry and stock reservation come from system settings.
+export const createHeldSaleSchema = z.object({
+  customerId: z.string().nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+  items: z.array(saleLineSchema).min(1, "Cannot hold an empty cart"),
+  cartDiscount: discountSchema.nullable().optional(),
+});
+
+export const insertHeldSaleSchema = createInsertSchema(heldSales, {
+  items: z.array(saleLineSchema),
+  cartDiscount: discountSchema.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// A return against a sale: one or more of its lines, validated and priced server-side.
+// `refundMethod` must be one the sale was paid with; without it the server picks one of those.
+export const createReturnSchema = z.object({
+  saleId: z.string(),
+  reason: z.string().min(1, "Reason is required"),
+  refundMethod: z.enum(paymentMethods).optional(),
+  approval: approvalSchema.optional(), // allows a cash refund above the cash the sale was paid with
+  items: z.array(z.object({
+    saleItemId: z.string(), // the sale line returned from
+    quantity: lineQuantity.positive(),
+    serialNumbers: serialNumbersSchema.optional(), // the units coming back, for serial-tracked products
+  })).min(1, "Select at least one item to return"),
+});
+
+export const openShiftSchema = z.object({
+  register: z.string().trim().min(1, "Register is required").max(50),
+  locationId: z.string().min(1, "Location is required"),
+  openingFloat: moneyString,
+});
+
+export const cashMovementTypes = ["in", "out"] as const;
+
+export const insertCashMovementSchema = createInsertSchema(cashMovements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const createCashMovementSchema = z.object({
+  type: z.enum(cashMovementTypes),
+  amount: moneyString.refine(amount => parseFloat(amount) > 0, "Amount must be positive"),
+  reason: z.string().trim().min(1, "Reason is required").max(200),
+});
+
+export const closeShiftSchema = z.object({
+  countedCash: moneyString,
+  closingNote: z.string().max(500).nullable().optional(),
+});
+
+export const createTransferSchema = z.object({
+  fromLocationId: z.string().min(1, "Source location is required"),
+  toLocationId: z.string().min(1, "Destination is required"),
+  note: z.string().max(500).nullable().optional(),
+  items: z.array(z.object({
+    productId: z.string(),
+    quantity: lineQuantity.positive(),
+    serialNumbers: serialNumbersSchema.optional(), // one per unit for serial-tracked products
+  })).min(1, "Add at least one product"),
+}).refine(transfer => transfer.fromLocationId !== transfer.toLocationId, {
+  message: "Source and destination must be different",
+  path: ["toLocationId"],
+});
+
+export const createStocktakeSchema = z.object({
+  locationId: z.string().min(1, "Location is required"),
+  categoryId: z.string().nullable().optional(),
+  supplierId: z.string().nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+});
+
+// "add" accumulates, so several people (or scanner beeps) can count the same product
+export const stocktakeCountModes = ["set", "add"] as const;
+
+export const recordCountsSchema = z.object({
+  counts: z.array(z.object({
+    productId: z.string(),
+    quantity: lineQuantity.min(-maxLineQuantity),
+    mode: z.enum(stocktakeCountModes).default("set"),
+  })).min(1, "Enter at least one count"),
+});
+
+// Receiving a transfer. Omitting `items` receives everything that was sent.
+export const receiveTransferSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.string(),
+    quantity: lineQuantity.min(0),
+    serialNumbers: serialNumbersSchema.optional(), // the units that arrived, when some are missing
+  })).optional(),
+});
+
+// Posting a stocktake. Serial-tracked products that counted short or over name
+// the units missing or found, keyed by product id.
+export const postStocktakeSchema = z.object({
+  serialNumbers: z.record(z.string(), serialNumbersSchema).optional(),
+});
+
 export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
   id: true,
   createdAt: true,
+  expectedAt: true,
   receivedAt: true,
 });
 
 export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({
   id: true,
+  receivedQuantity: true,
 });
 
+export const insertSupplierProductSchema = createInsertSchema(supplierProducts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  supplierSku: z.string().trim().max(100).nullable().optional(),
+  packSize: z.number().int().positive().optional(),
+  caseCost: moneyString,
+  minOrderQuantity: z.number().int().positive().optional(),
+  leadTimeDays: z.number().int().min(0).max(365).nullable().optional(),
+});
+
+// Draft purchase orders raised from reorder suggestions. Lines are costed from
+// the supplier's cost list.
+export const createDraftPurchaseOrdersSchema = z.object({
+  locationId: z.string().nullable().optional(),
+  orders: z.array(z.object({
+    supplierId: z.string(),
+    items: z.array(z.object({
+      productId: z.string(),
+      quantity: lineQuantity.positive(),
+    })).min(1, "At least one line is required"),
+  })).min(1, "Choose at least one supplier"),
+});
+
+// Receiving goods against a purchase order. Omitting `items` receives every
+// outstanding line in full; `unitCost` overrides the ordered cost for that delivery.
+export const receivePurchaseOrderSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.string(),
+    quantity: lineQuantity.positive(),
+    unitCost: moneyString.optional(),
+    // Required for products that track lots
+    lotNumber: z.string().trim().min(1).max(100).optional(),
+    expiryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expiry date must be YYYY-MM-DD").optional(),
+    // Required for serial-tracked products, one per unit received
+    serialNumbers: serialNumbersSchema.optional(),
+  })).optional(),
+  updateCostPrice: z.boolean().optional(),
+});
+
+export const costingMethods = ["fifo", "average"] as const;
+export type CostingMethod = typeof costingMethods[number];
+
 export const insertSystemSettingsSchema = createInsertSchema(systemSettings).omit({
   id: true,
+  nextInternalBarcode: true,
   updatedAt: true,
+}).extend({
+  internalBarcodePrefix: z.string().regex(/^2\d{1,5}$/, "Internal barcode prefix must be 2-6 digits starting with 2").optional(),
+  costingMethod: z.enum(costingMethods).optional(),
+  reorderCoverDays: z.number().int().min(1).max(365).optional(),
+  salesVelocityDays: z.number().int().min(1).max(365).optional(),
+  expiryAlertDays: z.number().int().min(1).max(365).optional(),
+});
+
+export const generateBarcodesSchema = z.object({
+  productIds: z.array(z.string()).min(1, "Select at least one product"),
+});
+
+const variantOptionSchema = z.object({
+  name: z.string().trim().min(1, "Name each option").max(50),
+  values: z.array(z.string().trim().min(1, "Option values can't be blank").max(50))
+    .min(1, "Give each option at least one value")
+    .refine(values => new Set(values.map(value => value.toLowerCase())).size === values.length, "Option values must be unique"),
+});
+
+// The full variant matrix of a parent product. Variants are matched to existing
+// ones by their attributes; a blank price follows the parent's price. New variants
+// start with no stock: it comes in through adjustments and receipts.
+export const saveProductVariantsSchema = z.object({
+  options: z.array(variantOptionSchema)
+    .min(1, "Add at least one option")
+    .max(3, "Use at most three options")
+    .refine(options => new Set(options.map(option => option.name.toLowerCase())).size === options.length, "Option names must be unique"),
+  variants: z.array(z.object({
+    attributes: z.record(z.string()),
+    sku: z.string().trim().min(1, "Every variant needs a SKU"),
+    barcode: z.string()
+      .superRefine((code, ctx) => {
+        const error = code ? validateBarcode(code) : null;
+        if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+      })
+      .nullable()
+      .optional(), // blank = generate an in-house barcode
+    sellingPrice: moneyString.nullable().optional(),
+  })).min(1, "Select at least one variant"),
 });
 
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type CreateUser = z.infer<typeof createUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type SafeUser = Omit<User, "password" | "pin">;
+export type AuthUser = SafeUser & { permissions: Permission[] };
+export type Role = typeof roles.$inferSelect;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type RoleWithUsage = Role & { userCount: number };
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+// What admins see of a session: no token hashes
+export type SessionInfo = Omit<Session, "refreshTokenHash" | "previousTokenHash"> & { isCurrent: boolean };
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type LocationStock = typeof locationStock.$inferSelect;
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+export type StockTransferItem = typeof stockTransferItems.$inferSelect;
+export type CreateTransfer = z.infer<typeof createTransferSchema>;
+export type Stocktake = typeof stocktakes.$inferSelect;
+export type StocktakeItem = typeof stocktakeItems.$inferSelect;
+export type CreateStocktake = z.infer<typeof createStocktakeSchema>;
+export type RecordCounts = z.infer<typeof recordCountsSchema>;
+export type ReceiveTransfer = z.infer<typeof receiveTransferSchema>;
+export type PostStocktake = z.infer<typeof postStocktakeSchema>;
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Supplier = typeof suppliers.$inferSelect;
@@ -245,14 +1003,59 @@ export type Sale = typeof sales.$inferSelect;
 export type InsertSale = z.infer<typeof insertSaleSchema>;
 export type SaleItem = typeof saleItems.$inferSelect;
 export type InsertSaleItem = z.infer<typeof insertSaleItemSchema>;
+export type CreateSale = z.infer<typeof createSaleSchema>;
+export type Discount = z.infer<typeof discountSchema>;
+export type HeldSaleItem = z.infer<typeof saleLineSchema>;
+export type HeldSale = typeof heldSales.$inferSelect;
+export type InsertHeldSale = z.infer<typeof insertHeldSaleSchema>;
+export type CreateHeldSale = z.infer<typeof createHeldSaleSchema>;
+export type Approval = z.infer<typeof approvalSchema>;
+export type SalePayment = typeof salePayments.$inferSelect;
+export type InsertSalePayment = z.infer<typeof insertSalePaymentSchema>;
+export type Tender = z.infer<typeof tenderSchema>;
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type SalePromotion = typeof salePromotions.$inferSelect;
 export type StockMovement = typeof stockMovements.$inferSelect;
 export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type AdjustStock = z.infer<typeof adjustStockSchema>;
+export type WriteOffLot = z.infer<typeof writeOffLotSchema>;
+export type CostLayer = typeof costLayers.$inferSelect;
+export type StockLot = typeof stockLots.$inferSelect;
+export type SerialNumber = typeof serialNumbers.$inferSelect;
+// Where a serial-numbered unit is, and who bought it under what warranty
+export type SerialLookup = SerialNumber & {
+  product: { name: string; sku: string; warrantyMonths: number | null };
+  purchaseOrder: { orderNumber: string } | null;
+  sale: { id: string; invoiceNumber: string; createdAt: Date | null } | null;
+  customer: { name: string; phone: string | null; email: string | null } | null;
+  warrantyExpiresAt: string | null; // YYYY-MM-DD
+};
+export type StockLotWithDetails = StockLot & {
+  product?: { name: string; sku: string };
+  location?: { name: string };
+};
+// A sale that drew units from a lot, for recalls
+export type LotSale = {
+  saleId: string;
+  invoiceNumber: string;
+  createdAt: Date | null;
+  customer: { name: string; phone: string | null; email: string | null } | null;
+  quantity: number;
+};
 export type Return = typeof returns.$inferSelect;
 export type InsertReturn = z.infer<typeof insertReturnSchema>;
+export type CreateReturn = z.infer<typeof createReturnSchema>;
 export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
 export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
 export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
 export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+export type ReceivePurchaseOrder = z.infer<typeof receivePurchaseOrderSchema>;
+export type SupplierProduct = typeof supplierProducts.$inferSelect;
+export type InsertSupplierProduct = z.infer<typeof insertSupplierProductSchema>;
+export type CreateDraftPurchaseOrders = z.infer<typeof createDraftPurchaseOrdersSchema>;
+export type VariantOption = z.infer<typeof variantOptionSchema>;
+export type SaveProductVariants = z.infer<typeof saveProductVariantsSchema>;
 export type SystemSettings = typeof systemSettings.$inferSelect;
 export type InsertSystemSettings = z.infer<typeof insertSystemSettingsSchema>;
 
@@ -260,12 +1063,131 @@ export type InsertSystemSettings = z.infer<typeof insertSystemSettingsSchema>;
 export type ProductWithDetails = Product & {
   category?: Category;
   supplier?: Supplier;
+  inTransit?: number; // units on their way (to the filtered location, or anywhere)
+};
+
+export type StockMovementWithDetails = StockMovement & {
+  user?: { username: string; fullName: string | null };
+  location?: { name: string };
+};
+
+export type StockTransferWithDetails = StockTransfer & {
+  fromLocation?: { name: string };
+  toLocation?: { name: string };
+  items?: (StockTransferItem & { product?: Product })[];
+};
+
+// Variance is counted minus book quantity; value is at the frozen unit cost
+export type StocktakeLine = StocktakeItem & {
+  product?: { name: string; sku: string; barcode: string | null; serialTracked: boolean };
+  variance: number | null;
+  varianceValue: string | null;
+};
+
+export type StocktakeWithDetails = Stocktake & {
+  location?: { name: string };
+  category?: { name: string } | null;
+  supplier?: { name: string } | null;
+  items?: StocktakeLine[];
+  summary: {
+    itemCount: number;
+    countedCount: number;
+    varianceUnits: number;
+    varianceValue: string;
+  };
 };
 
 export type SaleWithDetails = Sale & {
   customer?: Customer;
   user?: User;
-  items?: (SaleItem & { product?: Product })[];
+  // serialNumbers: units on the line not yet returned
+  items?: (SaleItem & { product?: Product; returnedQuantity?: number; serialNumbers?: string[] })[];
+  payments?: SalePayment[];
+};
+
+export type HeldSaleWithDetails = Omit<HeldSale, "items"> & {
+  items: (HeldSaleItem & { product?: Product })[];
+  user?: { fullName: string };
+  customer?: { name: string } | null;
+};
+
+export type ReturnWithDetails = Return & {
+  product?: Product;
+  sale?: Sale;
+};
+
+// Settings every signed-in user (e.g. the till) may read
+export type PublicSettings = Pick<SystemSettings,
+  "currency" | "taxRate" | "timezone" | "priceOverrideRoles" | "discountLimits" | "companyName" | "companyAddress" | "companyPhone" | "companyEmail"
+>;
+
+export type Shift = typeof shifts.$inferSelect;
+export type CashMovement = typeof cashMovements.$inferSelect;
+export type InsertCashMovement = z.infer<typeof insertCashMovementSchema>;
+export type OpenShift = z.infer<typeof openShiftSchema>;
+export type CreateCashMovement = z.infer<typeof createCashMovementSchema>;
+export type CloseShift = z.infer<typeof closeShiftSchema>;
+
+export type ShiftWithUser = Shift & { user?: { username: string; fullName: string | null } };
+
+// End-of-shift (Z) report. Expected cash = float + cash sales - cash refunds + cash in - cash out.
+export type ShiftReport = {
+  shift: ShiftWithUser;
+  salesCount: number;
+  salesTotal: number;
+  tenders: { method: string; amount: number }[];
+  refundsCount: number;
+  refundsTotal: number;
+  refundsByMethod: { method: string; amount: number }[];
+  cashSales: number;
+  cashRefunds: number;
+  cashIn: number;
+  cashOut: number;
+  movements: (CashMovement & { username?: string })[];
+  expectedCash: number;
+  countedCash: number | null;
+  variance: number | null;
+};
+
+export type SaleReturnResult = {
+  sale: Sale;
+  returns: Return[];
+  refundAmount: number;
+};
+
+export type PurchaseOrderWithDetails = PurchaseOrder & {
+  supplier?: Supplier;
+  location?: { name: string };
+  items?: (PurchaseOrderItem & { product?: Product })[];
+};
+
+export type SupplierProductWithDetails = SupplierProduct & {
+  product?: { name: string; sku: string; costPrice: string; quantity: number; minStockLevel: number };
+  supplier?: { name: string; leadTimeDays: number };
+};
+
+// A received order measured against its expected date
+export type SupplierDelivery = {
+  id: string;
+  orderNumber: string;
+  createdAt: Date | null;
+  expectedAt: Date | null;
+  receivedAt: Date | null;
+  daysLate: number; // 0 when on time
+};
+
+export type SupplierPerformance = {
+  openOrders: PurchaseOrderWithDetails[];
+  deliveries: SupplierDelivery[];
+  onTimeRate: number | null; // percent of deliveries on time; null with none yet
+};
+
+// A sale line that could not be fulfilled from stock (returned with HTTP 409)
+export type StockShortage = {
+  productId: string;
+  name: string;
+  requested: number;
+  available: number;
 };
 
 export type DashboardMetrics = {
@@ -280,12 +1202,120 @@ export type DashboardMetrics = {
   transactionGrowth: number;
 };
 
+// Report filters: dates are calendar days (YYYY-MM-DD) in the configured time zone
+export type AuditLogFilters = {
+  userId?: string;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+};
+
+// Longest span, in days, a sales report may cover
+export const maxReportDays = 366;
+
+export type SalesReportFilters = {
+  startDate?: string;
+  endDate?: string;
+  days?: number;
+  categoryId?: string;
+  userId?: string;
+};
+
+export type TopProductsFilters = SalesReportFilters & {
+  limit?: number;
+  rankBy?: "quantity" | "revenue";
+};
+
+export type TopProduct = {
+  product: ProductWithDetails;
+  totalSold: number;
+  revenue: number;
+};
+
+export type TenderBreakdown = {
+  method: string;
+  amount: number;
+  transactions: number;
+};
+
+// Stock to order for one product at one location. The target is the minimum
+// level (kept as safety stock) plus expected sales over the supplier's lead time
+// and the cover days; the shortfall, counting stock on order and in transit, is
+// rounded up to the preferred supplier's minimum order and pack size.
+export type ReorderSuggestion = {
+  product: ProductWithDetails;
+  onHand: number; // at the location
+  onOrder: number; // outstanding on draft and open purchase orders
+  inTransit: number;
+  dailySales: number;
+  targetQuantity: number;
+  suggestedQuantity: number;
+  unitCost: string; // from the preferred supplier's cost list
+};
+
+export type ReorderSuggestionGroup = {
+  supplier: Supplier | null; // products without a supplier cannot be ordered
+  items: ReorderSuggestion[];
+  totalCost: number;
+};
+
+export type GrossProfit = {
+  revenue: number; // excluding tax
+  costOfGoods: number;
+  grossProfit: number;
+  margin: number; // percent of revenue
+};
+
+// Stock on hand and its cost at the end of a calendar day
+export type StockValuationLine = {
+  product: { id: string; name: string; sku: string; category?: { name: string } };
+  quantity: number;
+  unitCost: number;
+  value: number;
+};
+
+export type StockValuation = {
+  asOf: string;
+  costingMethod: CostingMethod;
+  lines: StockValuationLine[];
+  totalQuantity: number;
+  totalValue: number;
+};
+
+export type SalesDataPoint = {
+  date: string;
+  sales: number;
+  transactions: number;
+  discounts: number;
+};
+
 export type CartItem = {
   productId: string;
   product: Product;
   quantity: number;
+  serialNumbers?: string[]; // scanned units of a serial-tracked product; quantity is their count
   unitPrice: number;
-  totalPrice: number;
+  discount?: Discount;
+  promotionDiscount?: number;
+  promotionNames?: string[];
+  totalPrice: number; // after promotions and line discount
+};
+
+// A tender being entered at the till; `amount` is the raw input
+export type CartPayment = {
+  method: Tender["method"];
+  amount: string;
+};
+
+export type PromotionWithUsage = Promotion & {
+  category?: { name: string } | null;
+  supplier?: { name: string } | null;
+  timesApplied: number;
+  discountGiven: number;
 };
 
 // Currency utility functions
@@ -308,6 +1338,29 @@ export function formatCurrency(amount: number | string, currencyCode: CurrencyCo
   })}`;
 }
 
+// Money taken off `amount` by a discount; fixed discounts never exceed the amount
+export function calculateDiscount(amount: number, discount?: Discount | null): number {
+  if (!discount) return 0;
+  const value = parseFloat(discount.value) || 0;
+  const off = discount.type === "percent" ? amount * value / 100 : value;
+  return Math.round(Math.min(Math.max(off, 0), amount) * 100) / 100;
+}
+
+// A variant's values in the parent's option order, e.g. "M / Red"
+export function variantLabel(options: VariantOption[], attributes: Record<string, string>): string {
+  return options.map(option => attributes[option.name]).filter(Boolean).join(" / ");
+}
+
+// Every combination of option values: Size S, M × Colour Red, Blue gives four
+export function variantCombinations(options: VariantOption[]): Record<string, string>[] {
+  return options.reduce<Record<string, string>[]>(
+    (combinations, option) => combinations.flatMap(attributes =>
+      option.values.map(value => ({ ...attributes, [option.name]: value }))
+    ),
+    [{}],
+  );
+}
+
 export function getCurrencySymbol(currencyCode: CurrencyCode = defaultCurrency): string {
   return supportedCurrencies[currencyCode].symbol;
 }